@@ -1,46 +1,48 @@
 'use server';
 
 import { z } from 'zod';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
 import { db } from '@/lib/db/drizzle';
 import {
   User,
   users,
-  activityLogs,
+  notifications,
   type NewUser,
-  type NewActivityLog,
   ActivityType,
   UserRole,
   EducationLevel,
   EducationalStatus,
 } from '@/lib/db/schema';
-import { comparePasswords, hashPassword, setSession } from '@/lib/auth/session';
+import {
+  clearTwoFactorChallenge,
+  comparePasswords,
+  getSession,
+  getTwoFactorChallenge,
+  hashPassword,
+  setSession,
+  setTwoFactorChallenge,
+  type TwoFactorChallenge
+} from '@/lib/auth/session';
 import { redirect } from 'next/navigation';
 import { cookies } from 'next/headers';
-import { getUser } from '@/lib/db/queries';
+import { getUser, logActivity } from '@/lib/db/queries';
 import {
   validatedAction,
   validatedActionWithUser
 } from '@/lib/auth/middleware';
-import { validateDemoCredentials, getDemoUser, FALLBACK_MODE_ENABLED } from '@/lib/db/fallback-mode';
+import { validateDemoCredentials, getDemoUser, FALLBACK_MODE_ENABLED, DEMO_SESSION_ID } from '@/lib/db/fallback-mode';
+import { ConnectionService } from '@/services/connection-service';
+import { PasswordResetService } from '@/services/password-reset-service';
+import { AuthTokenService } from '@/services/auth-token-service';
+import { EmailVerificationService, requiresVerifiedEmail } from '@/services/email-verification-service';
+import { SessionService } from '@/services/session-service';
+import { LoginThrottleService } from '@/services/login-throttle-service';
+import { TwoFactorService } from '@/services/two-factor-service';
+import { twoFactorCodeSchema } from '@/lib/validation/two-factor-schemas';
+import { getRequestContext } from '@/lib/auth/request';
 // BugX v1.4.1: Skip complex validation for credit efficiency
 // import { registrationSchema, type RegistrationFormData } from '@/lib/validation/registration-schemas';
 
-async function logActivity(
-  userId: number,
-  type: ActivityType,
-  ipAddress?: string,
-  metadata?: string
-) {
-  const newActivity: NewActivityLog = {
-    userId,
-    action: type,
-    ipAddress: ipAddress || '',
-    metadata: metadata || null
-  };
-  await db.insert(activityLogs).values(newActivity);
-}
-
 const signInSchema = z.object({
   email: z.string().email().min(3).max(255),
   password: z.string().min(8).max(100)
@@ -48,8 +50,6 @@ const signInSchema = z.object({
 
 export const signIn = validatedAction(signInSchema, async (data, formData) => {
   const { email, password } = data;
-  
-  console.log('🔍 BugX Debug: Sign-in attempt:', { email, passwordLength: password.length });
 
   // BugX Plan C: Demo mode fallback with session sync fix
   if (FALLBACK_MODE_ENABLED) {
@@ -60,10 +60,11 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
       await setSession({
         id: parseInt(demoUser.id),
         email: demoUser.email,
-        name: demoUser.name,
+        firstName: demoUser.firstName,
+        lastName: demoUser.lastName,
         passwordHash: 'demo_hash', // Demo placeholder
         createdAt: new Date(demoUser.created_at)
-      });
+      }, DEMO_SESSION_ID);
       console.log('✅ BugX: Demo session created, forcing cache invalidation');
       
       // BugX: Force cache invalidation by redirecting with timestamp
@@ -93,10 +94,11 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
       await setSession({
         id: parseInt(demoUser.id),
         email: demoUser.email,
-        name: demoUser.name,
+        firstName: demoUser.firstName,
+        lastName: demoUser.lastName,
         passwordHash: 'demo_hash', // Demo placeholder
         createdAt: new Date(demoUser.created_at)
-      });
+      }, DEMO_SESSION_ID);
       console.log('✅ BugX: Database fallback session created, forcing cache invalidation');
       
       // BugX: Force cache invalidation by redirecting with timestamp
@@ -109,7 +111,27 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
     };
   }
 
+  const { ipAddress } = await getRequestContext();
+  const throttle = new LoginThrottleService();
+
+  // Checked before the password so guesses during a lockout cost nothing
+  const decision = await throttle.check(email, ipAddress);
+  if (!decision.allowed) {
+    const minutes = Math.ceil(decision.retryAfterMs / 60000);
+    const wait = decision.retryAfterMs < 60000
+      ? `${Math.ceil(decision.retryAfterMs / 1000)} seconds`
+      : `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+    return {
+      error: decision.locked
+        ? `Too many failed sign-in attempts. Try again in ${wait} or reset your password.`
+        : `Too many failed sign-in attempts. Please wait ${wait} before trying again.`,
+      email,
+      password
+    };
+  }
+
   if (foundUser.length === 0) {
+    await throttle.recordFailure(email, null, ipAddress);
     return {
       error: 'Invalid email or password. Please try again.',
       email,
@@ -125,6 +147,7 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
   );
 
   if (!isPasswordValid) {
+    await throttle.recordFailure(email, user, ipAddress);
     return {
       error: 'Invalid email or password. Please try again.',
       email,
@@ -132,14 +155,107 @@ export const signIn = validatedAction(signInSchema, async (data, formData) => {
     };
   }
 
+  // Accounts with 2FA, or required to set it up, finish signing in on the second step
+  const twoFactor = new TwoFactorService();
+  const [twoFactorEnabled, twoFactorRequired] = await Promise.all([
+    twoFactor.isEnabled(user.id),
+    twoFactor.isRequired(user)
+  ]);
+  if (twoFactorEnabled || twoFactorRequired) {
+    await setTwoFactorChallenge({ userId: user.id, stage: twoFactorEnabled ? 'verify' : 'enroll' });
+    redirect('/two-factor');
+  }
+
+  await completeSignIn(user, email, ipAddress);
+  redirect('/');
+});
+
+async function completeSignIn(user: User, email: string, ipAddress?: string) {
   await Promise.all([
-    setSession(user),
-    logActivity(user.id, ActivityType.SIGN_IN)
+    new SessionService().start(user),
+    new LoginThrottleService().recordSuccess(email),
+    logActivity(user.id, ActivityType.SIGN_IN, ipAddress)
   ]);
+}
+
+// The account behind a pending second step, or null once it has expired
+async function getChallengedUser(stage: TwoFactorChallenge['stage']): Promise<User | null> {
+  const challenge = await getTwoFactorChallenge();
+  if (!challenge || challenge.stage !== stage) {
+    return null;
+  }
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(and(eq(users.id, challenge.userId), isNull(users.deletedAt)))
+    .limit(1);
+  return user ?? null;
+}
+
+const SIGN_IN_EXPIRED = 'Your sign-in has expired. Please sign in again.';
+
+export const verifyTwoFactorSignIn = validatedAction(twoFactorCodeSchema, async (data) => {
+  const user = await getChallengedUser('verify');
+  if (!user) {
+    return { error: SIGN_IN_EXPIRED };
+  }
 
+  const { ipAddress } = await getRequestContext();
+  const throttle = new LoginThrottleService();
+
+  // Codes are guessable too, so they share the account's failure budget
+  const decision = await throttle.check(user.email, ipAddress);
+  if (!decision.allowed) {
+    return { error: 'Too many failed attempts. Please wait a few minutes before trying again.' };
+  }
+
+  if (!(await new TwoFactorService().verify(user.id, data.code, ipAddress))) {
+    await throttle.recordFailure(user.email, user, ipAddress);
+    return { error: 'That code is not valid. Try the latest code from your app.' };
+  }
+
+  await clearTwoFactorChallenge();
+  await completeSignIn(user, user.email, ipAddress);
   redirect('/');
 });
 
+export const beginTwoFactorSetup = validatedAction(z.object({}), async () => {
+  const user = await getChallengedUser('enroll');
+  if (!user) {
+    return { error: SIGN_IN_EXPIRED };
+  }
+
+  const enrollment = await new TwoFactorService().beginEnrollment(user);
+  if (!enrollment) {
+    return { error: 'Two-factor authentication is already set up.' };
+  }
+
+  return { enrollment };
+});
+
+// Required enrollment ends with a signed-in session and the recovery codes
+export const confirmTwoFactorSetup = validatedAction(twoFactorCodeSchema, async (data) => {
+  const user = await getChallengedUser('enroll');
+  if (!user) {
+    return { error: SIGN_IN_EXPIRED };
+  }
+
+  const { ipAddress } = await getRequestContext();
+  const recoveryCodes = await new TwoFactorService().confirmEnrollment(user.id, data.code, ipAddress);
+  if (!recoveryCodes) {
+    return { error: 'That code is not valid. Check the time on your device and try the latest code.' };
+  }
+
+  await clearTwoFactorChallenge();
+  await completeSignIn(user, user.email, ipAddress);
+
+  return {
+    success: 'Two-factor authentication is on.',
+    recoveryCodes
+  };
+});
+
 // BugX v1.4.1: Simplified form data parsing for credit efficiency
 const simpleSignUpSchema = z.object({
   email: z.string().email(),
@@ -188,7 +304,6 @@ export const signUp = validatedAction(simpleSignUpSchema, async (data, formData)
   }
 
   const passwordHash = await hashPassword(password);
-
   // BugX v1.4.1: Simplified user data with fallback approach
   const userData: any = {
     firstName,
@@ -207,6 +322,7 @@ export const signUp = validatedAction(simpleSignUpSchema, async (data, formData)
     institutionType: role === 'counselor' ? institutionType : null,
     // Safe defaults
     parentId: null,
+    // Institution membership waits for email verification
     institutionId: null,
     emailVerified: false,
     emailVerifiedAt: null
@@ -230,25 +346,32 @@ export const signUp = validatedAction(simpleSignUpSchema, async (data, formData)
     throw error;
   }
 
-  // Handle parent-student relationship if needed (updated terminology)
-  if (role === 'parent' && studentEmail) {
+  try {
+    const { ipAddress } = await getRequestContext();
+    await new EmailVerificationService().sendVerification(newUser, ipAddress);
+  } catch (error) {
+    console.warn('⚠️ BugX: Could not send verification email:', error);
+    // Non-critical error, the user can resend it later
+  }
+
+  // Parents and counselors who name a student send a connection request;
+  // the student approves it before any data is shared. Accounts that must
+  // verify their email first get a reminder to send it afterwards instead.
+  if ((role === 'parent' || role === 'counselor') && studentEmail) {
     try {
-      const studentUser = await db
-        .select()
-        .from(users)
-        .where(eq(users.email, studentEmail))
-        .limit(1);
-      
-      if (studentUser.length > 0 && studentUser[0].role === 'student') {
-        await db
-          .update(users)
-          .set({ parentId: newUser.id })
-          .where(eq(users.id, studentUser[0].id));
-        
-        console.log('✅ BugX: Parent-student relationship established:', { parentId: newUser.id, studentId: studentUser[0].id });
+      if (requiresVerifiedEmail(newUser, 'connections')) {
+        await db.insert(notifications).values({
+          userId: newUser.id,
+          type: 'connection_pending_verification',
+          title: 'Verify your email to connect with your student',
+          message: `Once your address is confirmed, send your request to ${studentEmail.trim()} from Connections.`,
+          link: '/profile-settings/connections'
+        });
+      } else {
+        await new ConnectionService().requestConnection(newUser, studentEmail.toLowerCase().trim());
       }
     } catch (error) {
-      console.warn('⚠️ BugX: Could not establish parent-student relationship:', error);
+      console.warn('⚠️ BugX: Could not send connection request:', error);
       // Non-critical error, continue with registration
     }
   }
@@ -256,7 +379,7 @@ export const signUp = validatedAction(simpleSignUpSchema, async (data, formData)
   try {
     await Promise.all([
       logActivity(newUser.id, ActivityType.SIGN_UP),
-      setSession(newUser)
+      new SessionService().start(newUser)
     ]);
   } catch (error) {
     console.error('🚨 BugX: Error during session/activity logging:', error);
@@ -274,7 +397,11 @@ export async function signOut() {
     if (!FALLBACK_MODE_ENABLED) {
       const user = (await getUser()) as User;
       if (user) {
-        await logActivity(user.id, ActivityType.SIGN_OUT);
+        const session = await getSession();
+        await Promise.all([
+          session && new SessionService().end(user.id, session.sid),
+          logActivity(user.id, ActivityType.SIGN_OUT)
+        ]);
       }
     } else {
       console.log('🎭 BugX: Demo mode logout - skipping database activity log');
@@ -335,17 +462,70 @@ export const updatePassword = validatedActionWithUser(
     }
 
     const newPasswordHash = await hashPassword(newPassword);
+    const { ipAddress } = await getRequestContext();
+    const sessionService = new SessionService();
 
     await Promise.all([
       db
         .update(users)
-        .set({ passwordHash: newPasswordHash })
+        .set({ passwordHash: newPasswordHash, passwordChangedAt: new Date() })
         .where(eq(users.id, user.id)),
-      logActivity(user.id, ActivityType.UPDATE_PASSWORD)
+      sessionService.revokeAll(user.id, { ipAddress }),
+      logActivity(user.id, ActivityType.UPDATE_PASSWORD, ipAddress)
     ]);
 
+    // Every session was revoked, so this browser starts a fresh one
+    await sessionService.start(user);
+
     return {
-      success: 'Password updated successfully.'
+      success: 'Password updated. You have been signed out on all other devices.'
+    };
+  }
+);
+
+const requestPasswordResetSchema = z.object({
+  email: z.string().email().min(3).max(255)
+});
+
+export const requestPasswordReset = validatedAction(
+  requestPasswordResetSchema,
+  async (data) => {
+    const { ipAddress } = await getRequestContext();
+    await new PasswordResetService().requestReset(data.email, ipAddress);
+
+    // Same answer whether or not the account exists
+    return {
+      success: 'If an account exists for that email, we sent a link to reset your password.'
+    };
+  }
+);
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1).max(100),
+  newPassword: z.string().min(8).max(100),
+  confirmPassword: z.string().min(8).max(100)
+});
+
+export const resetPassword = validatedAction(
+  resetPasswordSchema,
+  async (data) => {
+    const { token, newPassword, confirmPassword } = data;
+
+    if (confirmPassword !== newPassword) {
+      return { error: 'New password and confirmation password do not match.' };
+    }
+
+    const { ipAddress } = await getRequestContext();
+    const reset = await new PasswordResetService().resetPassword(token, newPassword, ipAddress);
+    if (!reset) {
+      return { error: 'This reset link is invalid or has expired. Request a new one.' };
+    }
+
+    // Every existing session, including this browser's, is now invalid
+    (await cookies()).delete('session');
+
+    return {
+      success: 'Your password has been reset. Sign in with your new password.'
     };
   }
 );
@@ -372,6 +552,7 @@ export const deleteAccount = validatedActionWithUser(
         .update(users)
         .set({ deletedAt: new Date() })
         .where(eq(users.id, user.id)),
+      new SessionService().revokeAll(user.id),
       logActivity(user.id, ActivityType.DELETE_ACCOUNT)
     ]);
 
@@ -381,14 +562,15 @@ export const deleteAccount = validatedActionWithUser(
 );
 
 const updateAccountSchema = z.object({
-  name: z.string().min(1).max(100),
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().min(1).max(100),
   email: z.string().email().min(3).max(255)
 });
 
 export const updateAccount = validatedActionWithUser(
   updateAccountSchema,
   async (data, _, user) => {
-    const { name, email } = data;
+    const { firstName, lastName, email } = data;
 
     const existingUser = await db
       .select()
@@ -398,19 +580,81 @@ export const updateAccount = validatedActionWithUser(
 
     if (existingUser.length > 0 && existingUser[0].id !== user.id) {
       return {
-        name,
+        firstName,
+        lastName,
         email,
         error: 'Email is already in use.'
       };
     }
 
-    await Promise.all([
-      db.update(users).set({ name, email }).where(eq(users.id, user.id)),
-      logActivity(user.id, ActivityType.UPDATE_ACCOUNT)
-    ]);
+    // A new address has to be verified again, and domain membership follows it
+    const emailChanged = email !== user.email;
+    const verification = emailChanged ? { emailVerified: false, emailVerifiedAt: null, institutionId: null } : {};
+
+    // Links already sent to the old address must not verify the new one
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ firstName, lastName, email, ...verification, updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+      if (emailChanged) {
+        await new AuthTokenService().retire(user.id, 'email_verification', tx);
+      }
+    });
+    await logActivity(user.id, ActivityType.UPDATE_ACCOUNT);
+
+    if (emailChanged) {
+      const { ipAddress } = await getRequestContext();
+      const outcome = await new EmailVerificationService().sendVerification(
+        { ...user, email, emailVerified: false },
+        ipAddress
+      );
+      return {
+        success:
+          outcome === 'limited'
+            ? 'Account updated. You can request a verification link for your new address in an hour.'
+            : 'Account updated. Check your new email address for a verification link.'
+      };
+    }
 
     return {
       success: 'Account updated successfully.'
     };
   }
-);
\ No newline at end of file
+);
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1).max(100)
+});
+
+// Redeemed from a button rather than on page load, so link scanners and
+// prefetchers can't use up the token
+export const verifyEmail = validatedAction(verifyEmailSchema, async (data) => {
+  const { ipAddress } = await getRequestContext();
+  const verified = await new EmailVerificationService().verify(data.token, ipAddress);
+  if (!verified) {
+    return { error: 'This verification link is invalid, expired or has already been used.' };
+  }
+
+  return { success: 'Thanks for confirming your email address.' };
+});
+
+const resendVerificationSchema = z.object({});
+
+export const resendVerificationEmail = validatedActionWithUser(
+  resendVerificationSchema,
+  async (_, __, user) => {
+    const { ipAddress } = await getRequestContext();
+    const outcome = await new EmailVerificationService().sendVerification(user, ipAddress);
+    if (outcome === 'already_verified') {
+      return { error: 'Your email address is already verified.' };
+    }
+    if (outcome === 'limited') {
+      return { error: 'We already sent several verification links. Please check your inbox or try again in an hour.' };
+    }
+
+    return {
+      success: `We sent a new verification link to ${user.email}.`
+    };
+  }
+);
@@ -0,0 +1,5 @@
+import { ForgotPasswordForm } from '../password-reset';
+
+export default function ForgotPasswordPage() {
+  return <ForgotPasswordForm />;
+}
@@ -98,6 +98,14 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
             </div>
           </div>
 
+          {mode === 'signin' && (
+            <div className="text-right text-sm">
+              <Link href="/forgot-password" className="text-primary hover:underline">
+                Forgot your password?
+              </Link>
+            </div>
+          )}
+
           {state?.error && (
             <div className="text-destructive text-sm">{state.error}</div>
           )}
@@ -0,0 +1,156 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CircleIcon, Loader2 } from 'lucide-react';
+import { requestPasswordReset, resetPassword } from './actions';
+import { ActionState } from '@/lib/auth/middleware';
+
+export function AuthCard({ title, description, children }: { title: string; description: string; children: React.ReactNode }) {
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-background">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <CircleIcon className="h-12 w-12 text-primary" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-foreground">{title}</h2>
+        <p className="mt-2 text-center text-sm text-muted-foreground">{description}</p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        {children}
+        <div className="mt-6 text-center text-sm">
+          <Link href="/sign-in" className="text-primary hover:underline">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ForgotPasswordForm() {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(requestPasswordReset, { error: '' });
+
+  return (
+    <AuthCard title="Forgot your password?" description="Enter your email and we'll send you a link to reset it.">
+      {state?.success ? (
+        <div className="text-sm text-green-600 text-center">{state.success}</div>
+      ) : (
+        <form className="space-y-6" action={formAction}>
+          <div>
+            <Label htmlFor="email" className="block text-sm font-medium text-foreground">
+              Email
+            </Label>
+            <div className="mt-1">
+              <Input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                maxLength={255}
+                className="rounded-full"
+                placeholder="Enter your email"
+              />
+            </div>
+          </div>
+
+          {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+
+          <Button type="submit" className="w-full rounded-full" disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Sending...
+              </>
+            ) : (
+              'Send reset link'
+            )}
+          </Button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
+
+export function ResetPasswordForm({ token, isValid }: { token: string; isValid: boolean }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(resetPassword, { error: '' });
+
+  if (!isValid) {
+    return (
+      <AuthCard title="Link expired" description="This reset link is invalid, expired or has already been used.">
+        <Button asChild className="w-full rounded-full">
+          <Link href="/forgot-password">Request a new link</Link>
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a new password" description="You'll be signed out on every device once it's changed.">
+      {state?.success ? (
+        <div className="space-y-6">
+          <div className="text-sm text-green-600 text-center">{state.success}</div>
+          <Button asChild className="w-full rounded-full">
+            <Link href="/sign-in">Sign in</Link>
+          </Button>
+        </div>
+      ) : (
+        <form className="space-y-6" action={formAction}>
+          <input type="hidden" name="token" value={token} />
+          <div>
+            <Label htmlFor="newPassword" className="block text-sm font-medium text-foreground">
+              New password
+            </Label>
+            <div className="mt-1">
+              <Input
+                id="newPassword"
+                name="newPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={8}
+                maxLength={100}
+                className="rounded-full"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="confirmPassword" className="block text-sm font-medium text-foreground">
+              Confirm new password
+            </Label>
+            <div className="mt-1">
+              <Input
+                id="confirmPassword"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={8}
+                maxLength={100}
+                className="rounded-full"
+              />
+            </div>
+          </div>
+
+          {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+
+          <Button type="submit" className="w-full rounded-full" disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Saving...
+              </>
+            ) : (
+              'Reset password'
+            )}
+          </Button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
@@ -0,0 +1,14 @@
+import { PasswordResetService } from '@/services/password-reset-service';
+import { ResetPasswordForm } from '../password-reset';
+
+export default async function ResetPasswordPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { token } = await searchParams;
+  const value = typeof token === 'string' ? token : '';
+  const isValid = value !== '' && (await new PasswordResetService().isTokenValid(value));
+
+  return <ResetPasswordForm token={value} isValid={isValid} />;
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import TwoFactorEnrollment from '@/components/two-factor-enrollment';
+import { beginTwoFactorSetup, confirmTwoFactorSetup, verifyTwoFactorSignIn } from './actions';
+import { AuthCard } from './password-reset';
+import { ActionState } from '@/lib/auth/middleware';
+
+export function TwoFactorSignInForm() {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(verifyTwoFactorSignIn, { error: '' });
+
+  return (
+    <AuthCard
+      title="Two-factor authentication"
+      description="Enter the code from your authenticator app, or one of your recovery codes."
+    >
+      <form className="space-y-6" action={formAction}>
+        <div>
+          <Label htmlFor="code" className="block text-sm font-medium text-foreground">
+            Code
+          </Label>
+          <div className="mt-1">
+            <Input
+              id="code"
+              name="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              required
+              maxLength={20}
+              className="rounded-full"
+              placeholder="123456"
+            />
+          </div>
+        </div>
+
+        {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+
+        <Button type="submit" className="w-full rounded-full" disabled={pending}>
+          {pending ? (
+            <>
+              <Loader2 className="animate-spin mr-2 h-4 w-4" />
+              Verifying...
+            </>
+          ) : (
+            'Verify'
+          )}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
+
+export function TwoFactorSetupForm() {
+  return (
+    <AuthCard
+      title="Set up two-factor authentication"
+      description="Your institution requires a second sign-in step for counselor accounts."
+    >
+      <TwoFactorEnrollment
+        begin={beginTwoFactorSetup}
+        confirm={confirmTwoFactorSetup}
+        done={
+          <Button asChild className="w-full rounded-full">
+            <Link href="/">Continue</Link>
+          </Button>
+        }
+      />
+    </AuthCard>
+  );
+}
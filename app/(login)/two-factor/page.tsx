@@ -0,0 +1,12 @@
+import { redirect } from 'next/navigation';
+import { getTwoFactorChallenge } from '@/lib/auth/session';
+import { TwoFactorSetupForm, TwoFactorSignInForm } from '../two-factor';
+
+export default async function TwoFactorPage() {
+  const challenge = await getTwoFactorChallenge();
+  if (!challenge) {
+    redirect('/sign-in');
+  }
+
+  return challenge.stage === 'enroll' ? <TwoFactorSetupForm /> : <TwoFactorSignInForm />;
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { verifyEmail } from './actions';
+import { AuthCard } from './password-reset';
+import { ActionState } from '@/lib/auth/middleware';
+
+export function VerifyEmailForm({ token, isValid }: { token: string; isValid: boolean }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(verifyEmail, { error: '' });
+
+  if (!isValid) {
+    return (
+      <AuthCard
+        title="Link expired"
+        description="This verification link is invalid, expired or has already been used. Sign in to send a new one."
+      >
+        <Button asChild className="w-full rounded-full">
+          <Link href="/">Continue</Link>
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  if (state?.success) {
+    return (
+      <AuthCard title="Email verified" description={state.success}>
+        <Button asChild className="w-full rounded-full">
+          <Link href="/">Continue</Link>
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Confirm your email" description="Confirm that this email address belongs to you.">
+      <form className="space-y-6" action={formAction}>
+        <input type="hidden" name="token" value={token} />
+
+        {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+
+        <Button type="submit" className="w-full rounded-full" disabled={pending}>
+          {pending ? (
+            <>
+              <Loader2 className="animate-spin mr-2 h-4 w-4" />
+              Verifying...
+            </>
+          ) : (
+            'Verify email address'
+          )}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,14 @@
+import { EmailVerificationService } from '@/services/email-verification-service';
+import { VerifyEmailForm } from '../verify-email';
+
+export default async function VerifyEmailPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { token } = await searchParams;
+  const value = typeof token === 'string' ? token : '';
+  const isValid = value !== '' && (await new EmailVerificationService().isTokenValid(value));
+
+  return <VerifyEmailForm token={value} isValid={isValid} />;
+}
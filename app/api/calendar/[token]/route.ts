@@ -0,0 +1,18 @@
+import { CalendarFeedService } from '@/services/calendar-feed-service';
+
+// Public on purpose: calendar apps can't sign in, so the token is the credential
+export async function GET(_: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const calendar = await new CalendarFeedService().renderFeed(token.replace(/\.ics$/, ''));
+  if (!calendar) {
+    return Response.json({ error: 'Calendar feed not found' }, { status: 404 });
+  }
+
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="scholarship-deadlines.ics"',
+      'Cache-Control': 'private, no-store'
+    }
+  });
+}
@@ -0,0 +1,26 @@
+import { getUser, getConnectionsForUser } from '@/lib/db/queries';
+import { resolvePermissions } from '@/lib/auth/connection-permissions';
+
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const { incoming, outgoing } = await getConnectionsForUser(user.id);
+
+  // Send the effective permission set, with defaults filled in for older rows
+  const withPermissions = <T extends { permissions: unknown; connectionType: string }>(connection: T) => ({
+    ...connection,
+    permissions: resolvePermissions(
+      connection.permissions as Parameters<typeof resolvePermissions>[0],
+      connection.connectionType
+    )
+  });
+
+  return Response.json({
+    role: user.role,
+    incoming: incoming.map(withPermissions),
+    outgoing: outgoing.map(withPermissions)
+  });
+}
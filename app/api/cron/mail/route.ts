@@ -0,0 +1,30 @@
+import { timingSafeEqual } from 'node:crypto';
+import { deliverQueuedMail } from '@/lib/mail';
+import { DeadlineReminderService } from '@/services/deadline-reminder-service';
+import { HubMetricsService } from '@/services/hub-metrics-service';
+
+// Constant-time comparison so response timing doesn't leak the secret
+function isAuthorized(authorization: string | null, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(authorization ?? '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Creates due deadline reminders for every user, records the day's hub
+// metrics snapshots, then sends queued mail; schedule this route with a
+// daily (or more frequent) cron job using CRON_SECRET
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET is not set; refusing /api/cron/mail');
+    return Response.json({ error: 'Cron is not configured' }, { status: 500 });
+  }
+  if (!isAuthorized(request.headers.get('authorization'), secret)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const reminders = await new DeadlineReminderService().syncAllReminders();
+  const snapshots = await new HubMetricsService().recordAllSnapshots();
+  const mail = await deliverQueuedMail(100);
+  return Response.json({ reminders, snapshots, mail });
+}
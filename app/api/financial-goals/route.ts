@@ -0,0 +1,12 @@
+import { getUser } from '@/lib/db/queries';
+import { FinancialGoalService } from '@/services/financial-goal-service';
+
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const goals = await new FinancialGoalService().getGoals(user.id);
+  return Response.json(goals);
+}
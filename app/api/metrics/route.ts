@@ -0,0 +1,13 @@
+import { getUser } from '@/lib/db/queries';
+import { HubMetricsService } from '@/services/hub-metrics-service';
+
+const metricsService = new HubMetricsService();
+
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  return Response.json(await metricsService.getMetrics(user.id));
+}
@@ -0,0 +1,44 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { notifications } from '@/lib/db/schema';
+import { getUser, getNotificationsForUser } from '@/lib/db/queries';
+import { DeadlineReminderService } from '@/services/deadline-reminder-service';
+import { markNotificationsReadSchema } from '@/lib/validation/notification-schemas';
+
+const reminderService = new DeadlineReminderService();
+
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  // The cron job syncs everyone; syncing here too keeps the center current between runs
+  await reminderService.syncReminders(user);
+
+  return Response.json(await getNotificationsForUser(user.id));
+}
+
+export async function PATCH(request: Request) {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const result = markNotificationsReadSchema.safeParse(await request.json().catch(() => ({})));
+  if (!result.success) {
+    return Response.json({ error: result.error.errors[0].message }, { status: 400 });
+  }
+
+  const conditions = [eq(notifications.userId, user.id), isNull(notifications.readAt)];
+  if (result.data.id) {
+    conditions.push(eq(notifications.id, result.data.id));
+  }
+
+  await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(...conditions));
+
+  return Response.json(await getNotificationsForUser(user.id));
+}
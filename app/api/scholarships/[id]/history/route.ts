@@ -0,0 +1,28 @@
+import {
+  getUser,
+  getScholarshipForUser,
+  getStatusHistoryForScholarship
+} from '@/lib/db/queries';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const scholarshipId = Number((await params).id);
+  if (!Number.isInteger(scholarshipId) || scholarshipId <= 0) {
+    return Response.json({ error: 'Invalid scholarship id' }, { status: 400 });
+  }
+
+  const scholarship = await getScholarshipForUser(scholarshipId, user.id);
+  if (!scholarship) {
+    return Response.json({ error: 'Scholarship not found' }, { status: 404 });
+  }
+
+  const history = await getStatusHistoryForScholarship(scholarshipId, user.id);
+  return Response.json(history);
+}
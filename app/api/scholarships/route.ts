@@ -0,0 +1,11 @@
+import { getUser, getScholarshipsForUser } from '@/lib/db/queries';
+
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const scholarships = await getScholarshipsForUser(user.id);
+  return Response.json(scholarships);
+}
@@ -0,0 +1,39 @@
+import {
+  getUser,
+  getScholarshipsForConnectedStudent,
+  getProgressForConnectedStudent,
+  logActivity
+} from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+
+// A connected parent or counselor's view of a student's scholarships
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const studentId = Number((await params).id);
+  if (!Number.isInteger(studentId) || studentId <= 0) {
+    return Response.json({ error: 'Invalid student id' }, { status: 400 });
+  }
+
+  // Full applications need canViewApplications; otherwise fall back to progress only
+  const scholarships = await getScholarshipsForConnectedStudent(user.id, studentId);
+  const progress = scholarships ? null : await getProgressForConnectedStudent(user.id, studentId);
+  if (!scholarships && !progress) {
+    return Response.json({ error: 'You do not have access to this student' }, { status: 403 });
+  }
+
+  await logActivity(
+    user.id,
+    ActivityType.SHARE_ACCESSED,
+    undefined,
+    JSON.stringify({ studentId, resource: scholarships ? 'scholarships' : 'progress' })
+  );
+
+  return Response.json(scholarships ? { scholarships } : { progress });
+}
@@ -0,0 +1,54 @@
+import { getUser } from '@/lib/db/queries';
+import { csvResponse, toCsvRow } from '@/lib/export/csv';
+import { taxSummaryQuerySchema } from '@/lib/validation/tax-schemas';
+import { ScholarshipTaxService } from '@/services/scholarship-tax-service';
+
+// CSV a family can hand to their tax preparer
+export async function GET(request: Request) {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const query = taxSummaryQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+  const { academicYears, taxYears } = await new ScholarshipTaxService().getSummary(user.id, query.otherIncome);
+
+  const rows = [
+    toCsvRow([
+      'Tax year',
+      'Scholarship and grant income',
+      'Used for qualified expenses',
+      'Taxable income',
+      'Other income',
+      'Estimated additional tax',
+      'Marginal rate'
+    ]),
+    ...taxYears.map((year) =>
+      toCsvRow([
+        year.taxYear,
+        year.awardIncome.toFixed(2),
+        year.qualifiedUse.toFixed(2),
+        year.taxableIncome.toFixed(2),
+        year.otherIncome.toFixed(2),
+        year.estimatedTax.toFixed(2),
+        `${Math.round(year.marginalRate * 100)}%`
+      ])
+    ),
+    '',
+    toCsvRow(['Academic year', 'Award', 'Type', 'Amount', 'Used for qualified expenses', 'Taxable']),
+    ...academicYears.flatMap((year) =>
+      year.awards.map((award) =>
+        toCsvRow([
+          `${year.academicYear}-${year.academicYear + 1}`,
+          award.label,
+          award.source,
+          award.amount.toFixed(2),
+          award.qualifiedUse.toFixed(2),
+          award.taxable.toFixed(2)
+        ])
+      )
+    )
+  ];
+
+  return csvResponse(rows, 'scholarship-tax-summary.csv');
+}
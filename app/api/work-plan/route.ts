@@ -0,0 +1,24 @@
+import { getUser } from '@/lib/db/queries';
+import { csvResponse, toCsvRow } from '@/lib/export/csv';
+import { WorkPlanService } from '@/services/work-plan-service';
+
+// One row per scholarship per week, for spreadsheets and planners
+export async function GET() {
+  const user = await getUser();
+  if (!user) {
+    return Response.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const { plan } = await new WorkPlanService().getPlan(user);
+
+  const rows = [
+    toCsvRow(['Week starting', 'Week ending', 'Scholarship', 'Deadline', 'Hours', 'Week overbooked by']),
+    ...plan.weeks.flatMap((week) =>
+      week.blocks.map((block) =>
+        toCsvRow([week.weekStart, week.weekEnd, block.title, block.deadline, block.hours, week.overbookedHours])
+      )
+    )
+  ];
+
+  return csvResponse(rows, 'work-plan.csv');
+}
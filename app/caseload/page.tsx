@@ -0,0 +1,152 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Lock, Users } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { CaseloadEngine, type CaseloadStudentSummary } from '@/lib/engines/caseload-engine';
+import { caseloadQuerySchema } from '@/lib/validation/caseload-schemas';
+import { CaseloadService } from '@/services/caseload-service';
+import CaseloadFilters from '@/components/caseload-filters';
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+    </div>
+  );
+}
+
+function StudentCard({ summary }: { summary: CaseloadStudentSummary }) {
+  const { student, access } = summary;
+
+  return (
+    <Card className={`border-2 ${summary.atRisk.length > 0 ? 'border-red-200' : ''}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{student.name}</CardTitle>
+            <CardDescription>
+              {[student.email, student.institution, student.graduationYear && `Class of ${student.graduationYear}`]
+                .filter(Boolean)
+                .join(' · ')}
+            </CardDescription>
+          </div>
+          {summary.atRisk.length > 0 && (
+            <Badge className="bg-red-100 text-red-700">
+              <AlertTriangle className="mr-1 h-3 w-3" />
+              {summary.atRisk.length} at risk
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {access === 'none' ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Lock className="h-4 w-4" />
+            This student has not shared their applications or progress with you.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+              <Stat label="In flight" value={summary.inFlight} />
+              <Stat label="Due in 30 days" value={summary.upcomingDeadlines} />
+              <Stat label="Next deadline" value={summary.nextDeadline ?? '—'} />
+              <Stat label="Completion" value={`${summary.completionRate}%`} />
+              <Stat
+                label="Awarded"
+                value={summary.awardedTotal === null ? 'Not shared' : formatCurrency(summary.awardedTotal)}
+              />
+            </div>
+            {summary.atRisk.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {summary.atRisk.map((scholarship) => (
+                  <li key={scholarship.id} className="flex justify-between gap-2">
+                    <span>{scholarship.title}</span>
+                    <span className="text-red-600">
+                      {scholarship.daysRemaining === 0 ? 'Due today' : `${scholarship.daysRemaining} days left`} ·{' '}
+                      {scholarship.completion}% done
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function CaseloadPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+  if (user.role !== 'counselor') {
+    redirect('/');
+  }
+
+  const query = caseloadQuerySchema.parse(await searchParams);
+  const engine = new CaseloadEngine();
+  const { summaries, pendingRequests } = await new CaseloadService().getCaseload(user.id);
+  const visible = engine.sort(engine.filter(summaries, query.filter, query.q), query.sort);
+  const atRiskCount = summaries.filter((summary) => summary.atRisk.length > 0).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-blue-100">
+            <Users className="h-8 w-8 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Caseload</h1>
+            <p className="text-muted-foreground">
+              {summaries.length} linked students · {atRiskCount} at risk of missing a deadline
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/profile-settings/connections">
+            Connections{pendingRequests > 0 ? ` (${pendingRequests} pending)` : ''}
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <CaseloadFilters query={query} />
+        </CardContent>
+      </Card>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No linked students yet. Send a connection request from your Connections page.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No students match these filters.</p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map((summary) => (
+            <StudentCard key={summary.student.id} summary={summary} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
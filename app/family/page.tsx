@@ -0,0 +1,200 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Eye, Home, Lock } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { FamilyService, type FamilyChild } from '@/services/family-service';
+import { ApplicationStatusBadge } from '@/components/application-status-controls';
+import FamilyAddScholarship from '@/components/family-add-scholarship';
+
+function formatCurrency(amount: string | number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(Number(amount));
+}
+
+function NotShared({ what }: { what: string }) {
+  return (
+    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Lock className="h-4 w-4" />
+      Your child has not shared their {what} with you.
+    </p>
+  );
+}
+
+function ScholarshipsSection({ child }: { child: FamilyChild }) {
+  const rows = child.scholarships ?? child.progress;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>Scholarships</CardTitle>
+            <CardDescription>
+              {child.scholarships ? 'Applications and progress' : 'Progress only'}
+            </CardDescription>
+          </div>
+          {child.permissions.canCreateScholarships && <FamilyAddScholarship studentId={child.student.id} />}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!rows ? (
+          <NotShared what="applications" />
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scholarships tracked yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {rows.map((row) => {
+              const details = child.scholarships?.find((scholarship) => scholarship.id === row.id);
+              return (
+                <div key={row.id} className="flex items-start justify-between gap-4 border-b pb-3 last:border-b-0">
+                  <div className="space-y-1">
+                    <p className="font-medium">{row.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {details ? `${details.provider} · ${formatCurrency(details.amount)} · ` : ''}
+                      Due {row.deadline}
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 w-32 rounded-full bg-gray-200">
+                        <div className="h-2 rounded-full bg-blue-600" style={{ width: `${row.completion}%` }} />
+                      </div>
+                      <span className="text-xs text-muted-foreground">{row.completionText}</span>
+                    </div>
+                  </div>
+                  <ApplicationStatusBadge status={row.status} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function FinancialGoalsSection({ child }: { child: FamilyChild }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Funding Gap</CardTitle>
+        <CardDescription>What is still needed for each academic year</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!child.financialGoals ? (
+          <NotShared what="financial goals" />
+        ) : child.financialGoals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No financial goals set yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {child.financialGoals.map(({ id, academicYear, funding }) => (
+              <div key={id} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{academicYear}</span>
+                  <span>
+                    {formatCurrency(funding.secured)} of {formatCurrency(funding.totalCost)} secured
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-200">
+                  <div className="h-2 rounded-full bg-emerald-600" style={{ width: `${funding.percentFunded}%` }} />
+                </div>
+                <p className="text-sm">
+                  {funding.fundingGap === 0 ? (
+                    <span className="text-emerald-700">Fully funded</span>
+                  ) : (
+                    <>
+                      <span className="text-red-600">{formatCurrency(funding.fundingGap)} gap</span>
+                      {funding.pending > 0 && (
+                        <span className="text-muted-foreground">
+                          {' '}
+                          · {formatCurrency(funding.pending)} in pending scholarships
+                        </span>
+                      )}
+                    </>
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function FamilyPage({
+  searchParams
+}: {
+  searchParams: Promise<{ child?: string }>;
+}) {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+  if (user.role !== 'parent') {
+    redirect('/');
+  }
+
+  const children = await new FamilyService().getChildren(user.id);
+  const requested = Number((await searchParams).child);
+  const selected = children.find((child) => child.student.id === requested) ?? children[0];
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="p-3 rounded-xl bg-emerald-100">
+          <Home className="h-8 w-8 text-emerald-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Family</h1>
+          <p className="text-muted-foreground">Follow your children&apos;s scholarship progress</p>
+        </div>
+      </div>
+
+      {!selected ? (
+        <Card>
+          <CardContent className="flex items-center justify-between gap-4 pt-6">
+            <p className="text-sm text-muted-foreground">
+              No linked children yet. Once your child approves your request, their progress appears here.
+            </p>
+            <Button variant="outline" asChild>
+              <a href="/profile-settings/connections">Connect</a>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {children.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {children.map((child) => (
+                <Button
+                  key={child.student.id}
+                  variant={child === selected ? 'default' : 'outline'}
+                  size="sm"
+                  asChild
+                >
+                  <a href={`/family?child=${child.student.id}`}>
+                    {[child.student.firstName, child.student.lastName].filter(Boolean).join(' ') ||
+                      child.student.email}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <Badge variant="outline" className="gap-1">
+            <Eye className="h-3 w-3" />
+            {selected.permissions.canCreateScholarships ? 'Read-only · can add scholarships' : 'Read-only access'}
+          </Badge>
+
+          <ScholarshipsSection child={selected} />
+          <FinancialGoalsSection child={selected} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use server';
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { ActivityType, financialGoals } from '@/lib/db/schema';
+import {
+  getFinancialGoalForUser,
+  getFinancialGoalForYear,
+  logActivity
+} from '@/lib/db/queries';
+import { validatedActionWithUser } from '@/lib/auth/middleware';
+import {
+  createFinancialGoalSchema,
+  updateFinancialGoalSchema,
+  deleteFinancialGoalSchema,
+  type CreateFinancialGoalData
+} from '@/lib/validation/financial-goal-schemas';
+import { totalExpenses } from '@/lib/engines/financial-goal-calculator';
+
+// Total cost is the sum of the expense lines; award totals are derived
+// from scholarships by FinancialGoalService, never entered here
+function toGoalValues(data: CreateFinancialGoalData) {
+  const {
+    academicYear,
+    currentSavings,
+    expectedFamilyContribution,
+    workStudy,
+    studentLoans,
+    grants,
+    otherFunding,
+    ...expenses
+  } = data;
+
+  return {
+    academicYear,
+    currentSavings: currentSavings.toFixed(2),
+    expectedFamilyContribution: expectedFamilyContribution.toFixed(2),
+    totalEducationCost: totalExpenses(expenses).toFixed(2),
+    expenses,
+    fundingSources: { workStudy, studentLoans, grants, other: otherFunding }
+  };
+}
+
+export const createFinancialGoal = validatedActionWithUser(
+  createFinancialGoalSchema,
+  async (data, _, user) => {
+    if (await getFinancialGoalForYear(user.id, data.academicYear)) {
+      return { error: `You already have a goal for ${data.academicYear}. Edit it instead.` };
+    }
+
+    const [goal] = await db
+      .insert(financialGoals)
+      .values({ ...toGoalValues(data), userId: user.id })
+      .returning();
+
+    await logActivity(
+      user.id,
+      ActivityType.FINANCIAL_GOAL_CREATED,
+      undefined,
+      JSON.stringify({ goalId: goal.id, academicYear: goal.academicYear })
+    );
+
+    return { success: 'Financial goal added successfully.', goalId: goal.id };
+  }
+);
+
+export const updateFinancialGoal = validatedActionWithUser(
+  updateFinancialGoalSchema,
+  async (data, _, user) => {
+    const { id, ...fields } = data;
+
+    const existing = await getFinancialGoalForUser(id, user.id);
+    if (!existing) {
+      return { error: 'Financial goal not found.' };
+    }
+
+    if (fields.academicYear !== existing.academicYear) {
+      const conflict = await getFinancialGoalForYear(user.id, fields.academicYear);
+      if (conflict) {
+        return { error: `You already have a goal for ${fields.academicYear}.` };
+      }
+    }
+
+    await Promise.all([
+      db
+        .update(financialGoals)
+        .set({ ...toGoalValues(fields), updatedAt: new Date() })
+        .where(and(eq(financialGoals.id, id), eq(financialGoals.userId, user.id))),
+      logActivity(
+        user.id,
+        ActivityType.FINANCIAL_GOAL_UPDATED,
+        undefined,
+        JSON.stringify({ goalId: id, academicYear: fields.academicYear })
+      )
+    ]);
+
+    return { success: 'Financial goal updated successfully.' };
+  }
+);
+
+export const deleteFinancialGoal = validatedActionWithUser(
+  deleteFinancialGoalSchema,
+  async (data, _, user) => {
+    const existing = await getFinancialGoalForUser(data.id, user.id);
+    if (!existing) {
+      return { error: 'Financial goal not found.' };
+    }
+
+    await Promise.all([
+      db
+        .update(financialGoals)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(eq(financialGoals.id, data.id), eq(financialGoals.userId, user.id))),
+      logActivity(
+        user.id,
+        ActivityType.FINANCIAL_GOAL_DELETED,
+        undefined,
+        JSON.stringify({ goalId: data.id, academicYear: existing.academicYear })
+      )
+    ]);
+
+    return { success: 'Financial goal deleted successfully.' };
+  }
+);
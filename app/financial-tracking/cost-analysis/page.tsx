@@ -0,0 +1,158 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowRight, Target } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { FinancialGoalService } from '@/services/financial-goal-service';
+import {
+  RECONCILIATION_STATUS_LABELS,
+  reconcileFunding,
+  type ReconciliationLine,
+  type ReconciliationStatus
+} from '@/lib/engines/funding-reconciliation';
+
+const statusClassName: Record<ReconciliationStatus, string> = {
+  funded: 'bg-emerald-100 text-emerald-700',
+  funded_if_pending: 'bg-amber-100 text-amber-700',
+  underfunded: 'bg-red-100 text-red-700'
+};
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+function LineList({ title, lines, total }: { title: string; lines: ReconciliationLine[]; total: number }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="font-medium">{title}</p>
+      {lines.length === 0 ? (
+        <p className="text-muted-foreground">None entered</p>
+      ) : (
+        lines.map((line) => (
+          <div key={line.key} className="flex justify-between">
+            <span className="text-muted-foreground">{line.label}</span>
+            <span>{formatCurrency(line.amount)}</span>
+          </div>
+        ))
+      )}
+      <div className="flex justify-between border-t pt-1 font-medium">
+        <span>Total</span>
+        <span>{formatCurrency(total)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default async function CostAnalysisPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const goals = await new FinancialGoalService().getGoals(user.id);
+  const reconciliation = reconcileFunding(goals);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-orange-100">
+            <Target className="h-8 w-8 text-orange-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Cost Analysis</h1>
+            <p className="text-muted-foreground">Funding sources reconciled against expenses, year by year</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/financial-tracking">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Financial Tracking
+          </a>
+        </Button>
+      </div>
+
+      {reconciliation.years.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add a financial goal with expenses and funding sources to see your reconciliation.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Total expenses</p>
+                <p className="text-2xl font-bold">{formatCurrency(reconciliation.totalExpenses)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Total funding</p>
+                <p className="text-2xl font-bold">{formatCurrency(reconciliation.totalSources)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Total shortfall</p>
+                <p className={`text-2xl font-bold ${reconciliation.totalShortfall > 0 ? 'text-red-600' : ''}`}>
+                  {formatCurrency(reconciliation.totalShortfall)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {reconciliation.underfundedYears.length > 0 && (
+            <Card className="border-2 border-red-200">
+              <CardContent className="flex items-center gap-2 pt-6 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                Under-funded: {reconciliation.underfundedYears.map((year) => `${year}–${year + 1}`).join(', ')}
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="space-y-4">
+            {reconciliation.years.map((year) => (
+              <Card key={year.goalId} className="border-2">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">
+                        {year.academicYear}–{year.academicYear + 1}
+                      </CardTitle>
+                      <CardDescription>
+                        {year.balance >= 0
+                          ? `${formatCurrency(year.balance)} surplus`
+                          : `${formatCurrency(-year.balance)} short`}{' '}
+                        · {year.coverage}% covered
+                      </CardDescription>
+                    </div>
+                    <Badge className={statusClassName[year.status]}>
+                      {RECONCILIATION_STATUS_LABELS[year.status]}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                    <LineList title="Expenses" lines={year.expenses} total={year.totalExpenses} />
+                    <LineList title="Funding sources" lines={year.sources} total={year.totalSources} />
+                  </div>
+                  {year.pendingScholarships > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {formatCurrency(year.pendingScholarships)} in scholarships is still pending and not counted above.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, Landmark } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { LOAN_CONFIG } from '@/config/spider-web-config';
+import { LOAN_TYPE_LABELS, REPAYMENT_PLAN_LABELS, type LoanTermsByType } from '@/lib/engines/loan-simulator';
+import { loanProjectionQuerySchema, type LoanProjectionQuery } from '@/lib/validation/loan-schemas';
+import { LoanProjectionService } from '@/services/loan-projection-service';
+import LoanSettingsForm from '@/components/loan-settings-form';
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+function formatMonths(months: number) {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return rest === 0 ? `${years} yrs` : `${years} yrs ${rest} mo`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className="text-2xl font-bold">{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function toLoanTerms(query: LoanProjectionQuery): LoanTermsByType {
+  const { defaultTerms } = LOAN_CONFIG;
+  return {
+    federal_subsidized: {
+      ...defaultTerms.federal_subsidized,
+      annualRate: query.subsidizedRate / 100,
+      graceMonths: query.graceMonths
+    },
+    federal_unsubsidized: {
+      ...defaultTerms.federal_unsubsidized,
+      annualRate: query.unsubsidizedRate / 100,
+      graceMonths: query.graceMonths
+    },
+    private: { ...defaultTerms.private, annualRate: query.privateRate / 100, graceMonths: query.graceMonths }
+  };
+}
+
+export default async function LoanProjectionPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const query = loanProjectionQuerySchema.parse(await searchParams);
+  const { borrowing, projection, planComparison, scholarshipImpacts } = await new LoanProjectionService().getProjection(
+    user.id,
+    { plan: query.plan, terms: toLoanTerms(query), annualIncome: query.annualIncome }
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-purple-100">
+            <Landmark className="h-8 w-8 text-purple-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Loan Projection</h1>
+            <p className="text-muted-foreground">What your remaining funding gap will cost to borrow and repay</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/financial-tracking">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Financial Tracking
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Assumptions</CardTitle>
+          <CardDescription>
+            Defaults are current federal undergraduate terms. Income-driven payments use your starting salary.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoanSettingsForm query={query} />
+        </CardContent>
+      </Card>
+
+      {projection.totalBorrowed === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {borrowing.length === 0
+            ? 'Add a financial goal to project how much you may need to borrow.'
+            : 'Your financial goals are fully funded, so there is nothing to borrow.'}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <Stat label="Total borrowed" value={formatCurrency(projection.totalBorrowed)} />
+            <Stat
+              label="Monthly payment"
+              value={
+                projection.maxMonthlyPayment > projection.firstMonthlyPayment + 1
+                  ? `${formatCurrency(projection.firstMonthlyPayment)}–${formatCurrency(projection.maxMonthlyPayment)}`
+                  : formatCurrency(projection.firstMonthlyPayment)
+              }
+            />
+            <Stat label="Total interest" value={formatCurrency(projection.totalInterest)} />
+            <Stat label="Total repaid" value={formatCurrency(projection.totalPaid)} />
+          </div>
+          {projection.forgiven > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {formatCurrency(projection.forgiven)} would be forgiven after {formatMonths(projection.repaymentMonths)}{' '}
+              of income-driven payments.
+            </p>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Loans by type</CardTitle>
+              <CardDescription>
+                Borrowing by year:{' '}
+                {borrowing
+                  .filter((year) => year.amount > 0)
+                  .map((year) => `${year.academicYear}–${year.academicYear + 1} ${formatCurrency(year.amount)}`)
+                  .join(' · ')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Type</th>
+                    <th className="py-2 text-right font-medium">Borrowed</th>
+                    <th className="py-2 text-right font-medium">Balance at repayment</th>
+                    <th className="py-2 text-right font-medium">Monthly</th>
+                    <th className="py-2 text-right font-medium">Total repaid</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {projection.loans.map((loan) => (
+                    <tr key={loan.type} className="border-t">
+                      <td className="py-2">{LOAN_TYPE_LABELS[loan.type]}</td>
+                      <td className="py-2 text-right">{formatCurrency(loan.borrowed)}</td>
+                      <td className="py-2 text-right">{formatCurrency(loan.balanceAtRepayment)}</td>
+                      <td className="py-2 text-right">{formatCurrency(loan.monthlyPayment)}</td>
+                      <td className="py-2 text-right">{formatCurrency(loan.totalPaid)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Compare repayment plans</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Plan</th>
+                    <th className="py-2 text-right font-medium">First payment</th>
+                    <th className="py-2 text-right font-medium">Length</th>
+                    <th className="py-2 text-right font-medium">Total interest</th>
+                    <th className="py-2 text-right font-medium">Forgiven</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {planComparison.map((option) => (
+                    <tr key={option.plan} className="border-t">
+                      <td className="py-2">
+                        {REPAYMENT_PLAN_LABELS[option.plan]}
+                        {option.plan === query.plan && <Badge className="ml-2 bg-purple-100 text-purple-700">Selected</Badge>}
+                      </td>
+                      <td className="py-2 text-right">{formatCurrency(option.firstMonthlyPayment)}</td>
+                      <td className="py-2 text-right">{formatMonths(option.repaymentMonths)}</td>
+                      <td className="py-2 text-right">{formatCurrency(option.totalInterest)}</td>
+                      <td className="py-2 text-right">{formatCurrency(option.forgiven)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {scholarshipImpacts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">What your awards are saving you</CardTitle>
+            <CardDescription>Extra borrowing and repayment you would face without each awarded scholarship</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {scholarshipImpacts.map((impact) => (
+              <div key={impact.scholarshipId} className="flex justify-between gap-2 text-sm">
+                <span>
+                  {impact.title}{' '}
+                  <span className="text-muted-foreground">
+                    ({formatCurrency(impact.amount)} · {impact.academicYear}–{impact.academicYear + 1})
+                  </span>
+                </span>
+                <span className={impact.repaymentAvoided > 0 ? 'text-emerald-600' : 'text-muted-foreground'}>
+                  {impact.repaymentAvoided > 0
+                    ? `${formatCurrency(impact.debtAvoided)} less debt · ${formatCurrency(impact.repaymentAvoided)} less repaid`
+                    : 'No effect on projected debt'}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
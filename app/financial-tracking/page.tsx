@@ -2,6 +2,7 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import FinancialGoalsManager from '@/components/financial-goals-manager';
 import { 
   DollarSign, 
   TrendingUp, 
@@ -9,7 +10,6 @@ import {
   Calculator, 
   Target,
   ArrowRight,
-  Plus,
   BarChart3
 } from 'lucide-react';
 
@@ -29,10 +29,6 @@ export default function FinancialTrackingPage() {
         </div>
         
         <div className="flex gap-4 mt-6">
-          <Button className="bg-purple-600 hover:bg-purple-700">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Financial Goal
-          </Button>
           <Button variant="outline">
             <Calculator className="mr-2 h-4 w-4" />
             ROI Calculator
@@ -44,6 +40,11 @@ export default function FinancialTrackingPage() {
         </div>
       </div>
 
+      {/* Per-year goals and funding gap */}
+      <div className="mb-8">
+        <FinancialGoalsManager />
+      </div>
+
       {/* Feature Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
         <Card className="border-2 border-purple-200 bg-gradient-to-br from-purple-50 to-transparent">
@@ -66,6 +67,12 @@ export default function FinancialTrackingPage() {
                 <li>• Opportunity cost assessment</li>
                 <li>• Payback period estimation</li>
               </ul>
+              <Button variant="outline" size="sm" className="mt-2" asChild>
+                <a href="/financial-tracking/loans">
+                  Open Loan Projection
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -122,7 +129,7 @@ export default function FinancialTrackingPage() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <Target className="h-6 w-6 text-orange-600" />
-              <Badge className="bg-orange-100 text-orange-700">Coming Soon</Badge>
+              <Badge className="bg-orange-100 text-orange-700">Available</Badge>
             </div>
             <CardTitle>Cost Analysis</CardTitle>
             <CardDescription>
@@ -138,6 +145,18 @@ export default function FinancialTrackingPage() {
                 <li>• Financial need assessment</li>
                 <li>• Long-term projections</li>
               </ul>
+              <Button variant="outline" size="sm" className="mt-2" asChild>
+                <a href="/financial-tracking/cost-analysis">
+                  Open Cost Analysis
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" className="mt-2 ml-2" asChild>
+                <a href="/financial-tracking/tax-summary">
+                  Open Tax Summary
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
             </div>
           </CardContent>
         </Card>
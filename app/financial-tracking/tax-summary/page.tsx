@@ -0,0 +1,164 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, Download, Receipt } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { taxSummaryQuerySchema } from '@/lib/validation/tax-schemas';
+import { ScholarshipTaxService } from '@/services/scholarship-tax-service';
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+export default async function TaxSummaryPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const query = taxSummaryQuerySchema.parse(await searchParams);
+  const { academicYears, taxYears } = await new ScholarshipTaxService().getSummary(user.id, query.otherIncome);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-orange-100">
+            <Receipt className="h-8 w-8 text-orange-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Scholarship Tax Summary</h1>
+            <p className="text-muted-foreground">How much of your awards may count as taxable income, by tax year</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/financial-tracking">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Financial Tracking
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <form method="get" className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="otherIncome">Student&apos;s other income (wages, etc.)</Label>
+              <Input id="otherIncome" name="otherIncome" type="number" min={0} step="100" defaultValue={query.otherIncome} />
+            </div>
+            <Button type="submit" variant="outline">
+              Recalculate
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={`/api/tax-summary?otherIncome=${query.otherIncome}`}>
+                <Download className="mr-2 h-4 w-4" />
+                Download for tax preparer
+              </a>
+            </Button>
+          </form>
+          <p className="text-xs text-muted-foreground">
+            Tuition, fees, books and supplies are qualified expenses; housing, meals, transportation and personal
+            costs are not. Estimates use federal single-filer brackets and are not tax advice.
+          </p>
+        </CardContent>
+      </Card>
+
+      {taxYears.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Mark a scholarship as awarded or add grants to a financial goal to see your tax summary.
+        </p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">By tax year</CardTitle>
+              <CardDescription>Each academic year is split between the fall and spring tax years</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Tax year</th>
+                    <th className="py-2 text-right font-medium">Award income</th>
+                    <th className="py-2 text-right font-medium">Qualified use</th>
+                    <th className="py-2 text-right font-medium">Taxable</th>
+                    <th className="py-2 text-right font-medium">Estimated tax</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {taxYears.map((year) => (
+                    <tr key={year.taxYear} className="border-t">
+                      <td className="py-2">{year.taxYear}</td>
+                      <td className="py-2 text-right">{formatCurrency(year.awardIncome)}</td>
+                      <td className="py-2 text-right">{formatCurrency(year.qualifiedUse)}</td>
+                      <td className={`py-2 text-right ${year.taxableIncome > 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(year.taxableIncome)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(year.estimatedTax)}
+                        {year.marginalRate > 0 && (
+                          <span className="text-muted-foreground"> ({Math.round(year.marginalRate * 100)}% bracket)</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            {academicYears.map((year) => (
+              <Card key={year.academicYear} className="border-2">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">
+                        {year.academicYear}–{year.academicYear + 1}
+                      </CardTitle>
+                      <CardDescription>
+                        {year.hasExpenseBreakdown
+                          ? `${formatCurrency(year.qualifiedExpenses)} qualified · ${formatCurrency(year.nonQualifiedExpenses)} non-qualified expenses`
+                          : 'No expense breakdown for this year'}
+                      </CardDescription>
+                    </div>
+                    {!year.hasExpenseBreakdown && (
+                      <Badge className="bg-amber-100 text-amber-700">Treated as taxable</Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {year.awards.map((award, index) => (
+                    <div key={`${award.label}-${index}`} className="flex justify-between gap-2">
+                      <span>
+                        {award.label} <span className="text-muted-foreground">({formatCurrency(award.amount)})</span>
+                      </span>
+                      <span>
+                        {formatCurrency(award.qualifiedUse)} qualified ·{' '}
+                        <span className={award.taxable > 0 ? 'text-red-600' : ''}>
+                          {formatCurrency(award.taxable)} taxable
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
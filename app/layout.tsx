@@ -4,6 +4,7 @@ import { Inter } from 'next/font/google';
 import { getUser } from '@/lib/db/queries';
 import { SWRConfig } from 'swr';
 import Header from '@/components/header';
+import EmailVerificationBanner from '@/components/email-verification-banner';
 import { ThemeProvider } from '@/contexts/theme-context';
 import { siteConfig } from '@/lib/config';
 import { DebugSessionState } from '@/components/debug-session-state';
@@ -41,6 +42,7 @@ export default function RootLayout({
           >
             <div className="flex flex-col min-h-screen">
               <Header />
+              <EmailVerificationBanner />
               {children}
               <DebugSessionState />
             </div>
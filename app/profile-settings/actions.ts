@@ -0,0 +1,254 @@
+'use server';
+
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { users, ActivityType, type User, type UserPreferences } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { validatedActionWithUser } from '@/lib/auth/middleware';
+import { notificationPreferencesSchema } from '@/lib/validation/notification-schemas';
+import { financialAssumptionsFormSchema } from '@/lib/validation/financial-assumption-schemas';
+import { workPlanPreferencesSchema } from '@/lib/validation/work-plan-schemas';
+import { calendarFeedSchema } from '@/lib/validation/calendar-schemas';
+import { revokeSessionSchema } from '@/lib/validation/session-schemas';
+import { twoFactorCodeSchema, twoFactorPasswordSchema } from '@/lib/validation/two-factor-schemas';
+import { comparePasswords, getSession } from '@/lib/auth/session';
+import { getRequestContext } from '@/lib/auth/request';
+import { getNotificationPreferences } from '@/services/deadline-reminder-service';
+import { diffFinancialAssumptions, FinancialAssumptionsService } from '@/services/financial-assumptions-service';
+import { CalendarFeedService, calendarFeedUrl } from '@/services/calendar-feed-service';
+import { SessionService } from '@/services/session-service';
+import { TwoFactorService } from '@/services/two-factor-service';
+import type { FinancialAssumptionOverrides } from '@/types/spider-web';
+
+export const updateNotificationPreferences = validatedActionWithUser(
+  notificationPreferencesSchema,
+  async (data, _, user) => {
+    // Preserve the non-notification preferences stored in the same column
+    const preferences = {
+      theme: user.preferences?.theme ?? 'system',
+      dashboard: user.preferences?.dashboard ?? { defaultView: 'overview', compactMode: false },
+      ...user.preferences,
+      notifications: data
+    };
+
+    await Promise.all([
+      db
+        .update(users)
+        .set({ preferences, updatedAt: new Date() })
+        .where(eq(users.id, user.id)),
+      logActivity(
+        user.id,
+        ActivityType.NOTIFICATION_PREFERENCES_UPDATED,
+        undefined,
+        JSON.stringify(data)
+      )
+    ]);
+
+    return { success: 'Notification preferences saved.' };
+  }
+);
+
+// Fill in required sections for users whose preferences column is still null
+function withPreferences(user: User, changes: Partial<UserPreferences>): UserPreferences {
+  return {
+    theme: user.preferences?.theme ?? 'system',
+    notifications: getNotificationPreferences(user),
+    dashboard: user.preferences?.dashboard ?? { defaultView: 'overview', compactMode: false },
+    ...user.preferences,
+    ...changes
+  };
+}
+
+async function saveFinancialAssumptions(user: User, overrides: FinancialAssumptionOverrides) {
+  const preferences = withPreferences(user, { financialAssumptions: overrides });
+
+  await Promise.all([
+    db
+      .update(users)
+      .set({ preferences, updatedAt: new Date() })
+      .where(eq(users.id, user.id)),
+    logActivity(
+      user.id,
+      ActivityType.FINANCIAL_ASSUMPTIONS_UPDATED,
+      undefined,
+      JSON.stringify(overrides)
+    )
+  ]);
+}
+
+export const updateFinancialAssumptions = validatedActionWithUser(
+  financialAssumptionsFormSchema,
+  async (data, _, user) => {
+    // Only keep what differs from the defaults and the institution's values
+    const { baseline } = await new FinancialAssumptionsService().getForUser(user);
+    await saveFinancialAssumptions(user, diffFinancialAssumptions(baseline, data));
+
+    return { success: 'Financial assumptions saved.' };
+  }
+);
+
+export const resetFinancialAssumptions = validatedActionWithUser(
+  z.object({}),
+  async (_, __, user) => {
+    await saveFinancialAssumptions(user, {});
+
+    return { success: 'Financial assumptions reset to defaults.' };
+  }
+);
+
+export const updateWorkPlanPreferences = validatedActionWithUser(
+  workPlanPreferencesSchema,
+  async (data, _, user) => {
+    await Promise.all([
+      db
+        .update(users)
+        .set({ preferences: withPreferences(user, { workPlan: data }), updatedAt: new Date() })
+        .where(eq(users.id, user.id)),
+      logActivity(
+        user.id,
+        ActivityType.WORK_PLAN_PREFERENCES_UPDATED,
+        undefined,
+        JSON.stringify(data)
+      )
+    ]);
+
+    return { success: 'Weekly hours saved.' };
+  }
+);
+
+const calendarFeedService = new CalendarFeedService();
+
+// The feed URL is returned once; only the token's hash is kept
+export const createCalendarFeed = validatedActionWithUser(
+  calendarFeedSchema,
+  async (data, _, user) => {
+    const token = await calendarFeedService.createFeed(user, data.includeWorkBlocks);
+
+    return {
+      success: 'New calendar link created. Any previous link has stopped working.',
+      feedUrl: calendarFeedUrl(token)
+    };
+  }
+);
+
+export const updateCalendarFeed = validatedActionWithUser(
+  calendarFeedSchema,
+  async (data, _, user) => {
+    const updated = await calendarFeedService.setIncludeWorkBlocks(user.id, data.includeWorkBlocks);
+    if (!updated) {
+      return { error: 'Create a calendar link first.' };
+    }
+
+    return { success: 'Calendar feed updated.' };
+  }
+);
+
+export const revokeCalendarFeed = validatedActionWithUser(
+  z.object({}),
+  async (_, __, user) => {
+    const revoked = await calendarFeedService.revokeFeed(user.id);
+    if (!revoked) {
+      return { error: 'There is no calendar link to revoke.' };
+    }
+
+    return { success: 'Calendar link revoked.' };
+  }
+);
+
+const sessionService = new SessionService();
+
+export const revokeSession = validatedActionWithUser(
+  revokeSessionSchema,
+  async (data, _, user) => {
+    const current = await getSession();
+    if (current?.sid === data.sessionId) {
+      return { error: 'Use Sign out to end the session on this device.' };
+    }
+
+    const { ipAddress } = await getRequestContext();
+    const revoked = await sessionService.revoke(user.id, data.sessionId, ipAddress);
+    if (!revoked) {
+      return { error: 'That session has already ended.' };
+    }
+
+    return { success: 'Device signed out.' };
+  }
+);
+
+export const revokeOtherSessions = validatedActionWithUser(
+  z.object({}),
+  async (_, __, user) => {
+    const current = await getSession();
+    const { ipAddress } = await getRequestContext();
+    const count = await sessionService.revokeAll(user.id, { exceptSessionId: current?.sid, ipAddress });
+    if (count === 0) {
+      return { error: 'No other devices are signed in.' };
+    }
+
+    return { success: `Signed out of ${count} other ${count === 1 ? 'device' : 'devices'}.` };
+  }
+);
+
+const twoFactorService = new TwoFactorService();
+
+export const beginTwoFactorEnrollment = validatedActionWithUser(
+  z.object({}),
+  async (_, __, user) => {
+    const enrollment = await twoFactorService.beginEnrollment(user);
+    if (!enrollment) {
+      return { error: 'Two-factor authentication is already on.' };
+    }
+
+    return { enrollment };
+  }
+);
+
+export const confirmTwoFactorEnrollment = validatedActionWithUser(
+  twoFactorCodeSchema,
+  async (data, _, user) => {
+    const { ipAddress } = await getRequestContext();
+    const recoveryCodes = await twoFactorService.confirmEnrollment(user.id, data.code, ipAddress);
+    if (!recoveryCodes) {
+      return { error: 'That code is not valid. Check the time on your device and try the latest code.' };
+    }
+
+    return { success: 'Two-factor authentication is on.', recoveryCodes };
+  }
+);
+
+export const regenerateRecoveryCodes = validatedActionWithUser(
+  twoFactorPasswordSchema,
+  async (data, _, user) => {
+    if (!(await comparePasswords(data.password, user.passwordHash))) {
+      return { error: 'Password is incorrect.' };
+    }
+
+    const { ipAddress } = await getRequestContext();
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user.id, ipAddress);
+    if (!recoveryCodes) {
+      return { error: 'Two-factor authentication is not on.' };
+    }
+
+    return { success: 'New recovery codes created. Your old codes no longer work.', recoveryCodes };
+  }
+);
+
+export const disableTwoFactor = validatedActionWithUser(
+  twoFactorPasswordSchema,
+  async (data, _, user) => {
+    if (await twoFactorService.isRequired(user)) {
+      return { error: 'Your institution requires two-factor authentication for counselors.' };
+    }
+    if (!(await comparePasswords(data.password, user.passwordHash))) {
+      return { error: 'Password is incorrect.' };
+    }
+
+    const { ipAddress } = await getRequestContext();
+    if (!(await twoFactorService.disable(user.id, ipAddress))) {
+      return { error: 'Two-factor authentication is already off.' };
+    }
+
+    return { success: 'Two-factor authentication is off.' };
+  }
+);
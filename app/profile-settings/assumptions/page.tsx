@@ -0,0 +1,30 @@
+import { redirect } from 'next/navigation';
+import { SlidersHorizontal } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { FinancialAssumptionsService } from '@/services/financial-assumptions-service';
+import FinancialAssumptionsForm from '@/components/financial-assumptions-form';
+
+export default async function FinancialAssumptionsPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const { assumptions, baseline, institutionName } = await new FinancialAssumptionsService().getForUser(user);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="p-3 rounded-xl bg-gray-100">
+          <SlidersHorizontal className="h-8 w-8 text-gray-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Financial Assumptions</h1>
+          <p className="text-muted-foreground">Adjust the rates and values behind budget impact and ROI estimates</p>
+        </div>
+      </div>
+
+      <FinancialAssumptionsForm assumptions={assumptions} baseline={baseline} institutionName={institutionName} />
+    </div>
+  );
+}
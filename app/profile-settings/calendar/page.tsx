@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation';
+import { CalendarDays } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { CalendarFeedService } from '@/services/calendar-feed-service';
+import CalendarFeedSettings from '@/components/calendar-feed-settings';
+
+export default async function CalendarFeedPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const feed = await new CalendarFeedService().getActiveFeed(user.id);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="p-3 rounded-xl bg-gray-100">
+          <CalendarDays className="h-8 w-8 text-gray-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Calendar Feed</h1>
+          <p className="text-muted-foreground">Subscribe to your deadlines, reminders and work plan in any calendar app</p>
+        </div>
+      </div>
+
+      <CalendarFeedSettings
+        feed={
+          feed && {
+            includeWorkBlocks: feed.includeWorkBlocks,
+            createdAt: feed.createdAt.toISOString(),
+            lastAccessedAt: feed.lastAccessedAt?.toISOString() ?? null
+          }
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use server';
+
+import { validatedActionWithUser } from '@/lib/auth/middleware';
+import { getConnectionForStudent } from '@/lib/db/queries';
+import {
+  requestConnectionSchema,
+  respondToConnectionSchema,
+  updateConnectionPermissionsSchema,
+  revokeConnectionSchema
+} from '@/lib/validation/connection-schemas';
+import { ConnectionService } from '@/services/connection-service';
+
+const connectionService = new ConnectionService();
+
+export const requestConnection = validatedActionWithUser(
+  requestConnectionSchema,
+  async (data, _, user) => connectionService.requestConnection(user, data.studentEmail)
+);
+
+export const respondToConnection = validatedActionWithUser(
+  respondToConnectionSchema,
+  async (data, _, user) => {
+    const connection = await getConnectionForStudent(data.id, user.id);
+    if (!connection) {
+      return { error: 'Connection request not found.' };
+    }
+
+    return connectionService.respond(connection, user, data.decision === 'approve');
+  }
+);
+
+export const updateConnectionPermissions = validatedActionWithUser(
+  updateConnectionPermissionsSchema,
+  async (data, _, user) => {
+    const { id, ...permissions } = data;
+
+    const connection = await getConnectionForStudent(id, user.id);
+    if (!connection) {
+      return { error: 'Connection not found.' };
+    }
+
+    return connectionService.updatePermissions(connection, user, permissions);
+  }
+);
+
+export const revokeConnection = validatedActionWithUser(
+  revokeConnectionSchema,
+  async (data, _, user) => {
+    const connection = await getConnectionForStudent(data.id, user.id);
+    if (!connection) {
+      return { error: 'Connection not found.' };
+    }
+
+    return connectionService.revoke(connection, user);
+  }
+);
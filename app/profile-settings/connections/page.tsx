@@ -0,0 +1,280 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Check, Loader2, Users, X } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { runAction } from '@/lib/auth/run-action';
+import {
+  requestConnection,
+  respondToConnection,
+  updateConnectionPermissions,
+  revokeConnection
+} from './actions';
+import {
+  CONNECTION_PERMISSIONS,
+  CONNECTION_PERMISSION_LABELS
+} from '@/lib/auth/connection-permissions';
+import type { ConnectionWithContact } from '@/lib/db/queries';
+import type { ConnectionPermissions } from '@/lib/db/schema';
+
+type ResolvedConnection = Omit<ConnectionWithContact, 'permissions'> & {
+  permissions: ConnectionPermissions;
+};
+
+type ConnectionsResponse = {
+  role: 'student' | 'parent' | 'counselor';
+  incoming: ResolvedConnection[];
+  outgoing: ResolvedConnection[];
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error('Failed to load connections');
+    return res.json();
+  });
+
+const statusClassName: Record<string, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700',
+  revoked: 'bg-gray-100 text-gray-700'
+};
+
+function contactName(connection: ResolvedConnection) {
+  const { firstName, lastName, email } = connection.contact;
+  return [firstName, lastName].filter(Boolean).join(' ') || email;
+}
+
+function RequestConnectionForm({ onSent }: { onSent: () => void }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    async (prevState, formData) => {
+      const result: ActionState = await requestConnection(prevState, formData);
+      if (result?.success) onSent();
+      return result;
+    },
+    { error: '' }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connect to a student</CardTitle>
+        <CardDescription>
+          The student approves your request and decides what you can see.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="studentEmail">Student email</Label>
+            <Input id="studentEmail" name="studentEmail" type="email" required maxLength={255} />
+          </div>
+          <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={pending}>
+            {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Send Request'}
+          </Button>
+        </form>
+        {state?.error && <p className="mt-2 text-sm text-destructive">{state.error}</p>}
+        {state?.success && <p className="mt-2 text-sm text-green-600">{state.success}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PermissionEditor({
+  connection,
+  onSaved
+}: {
+  connection: ResolvedConnection;
+  onSaved: () => void;
+}) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    async (prevState, formData) => {
+      const result: ActionState = await updateConnectionPermissions(prevState, formData);
+      if (result?.success) onSaved();
+      return result;
+    },
+    { error: '' }
+  );
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <input type="hidden" name="id" value={connection.id} />
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        {CONNECTION_PERMISSIONS.map((permission) => (
+          <label key={permission} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              name={permission}
+              defaultChecked={connection.permissions[permission]}
+            />
+            {CONNECTION_PERMISSION_LABELS[permission]}
+          </label>
+        ))}
+      </div>
+      {state?.error && <p className="text-sm text-destructive">{state.error}</p>}
+      {state?.success && <p className="text-sm text-green-600">{state.success}</p>}
+      <Button type="submit" variant="outline" size="sm" disabled={pending}>
+        {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        Save Permissions
+      </Button>
+    </form>
+  );
+}
+
+function IncomingConnection({
+  connection,
+  onChange
+}: {
+  connection: ResolvedConnection;
+  onChange: () => void;
+}) {
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  async function perform(
+    action: (prevState: ActionState, formData: FormData) => Promise<ActionState>,
+    fields: Record<string, string | number>
+  ) {
+    setBusy(true);
+    setError('');
+    try {
+      const result = await runAction(action, fields);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      onChange();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card className="border-2">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{contactName(connection)}</CardTitle>
+            <CardDescription className="capitalize">
+              {connection.connectionType} · {connection.contact.email}
+            </CardDescription>
+          </div>
+          <Badge className={`capitalize ${statusClassName[connection.status]}`}>{connection.status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(connection.status === 'pending' || connection.status === 'approved') && (
+          <PermissionEditor connection={connection} onSaved={onChange} />
+        )}
+
+        <div className="flex gap-2">
+          {connection.status === 'pending' && (
+            <>
+              <Button
+                size="sm"
+                className="bg-emerald-600 hover:bg-emerald-700"
+                disabled={busy}
+                onClick={() => perform(respondToConnection, { id: connection.id, decision: 'approve' })}
+              >
+                <Check className="mr-1 h-4 w-4" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busy}
+                onClick={() => perform(respondToConnection, { id: connection.id, decision: 'reject' })}
+              >
+                <X className="mr-1 h-4 w-4" />
+                Decline
+              </Button>
+            </>
+          )}
+          {connection.status === 'approved' && connection.canStudentRevoke && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="hover:text-destructive"
+              disabled={busy}
+              onClick={() => {
+                if (window.confirm(`Remove ${contactName(connection)}'s access to your data?`)) {
+                  perform(revokeConnection, { id: connection.id });
+                }
+              }}
+            >
+              Revoke Access
+            </Button>
+          )}
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ConnectionsPage() {
+  const { data, error, isLoading, mutate } = useSWR<ConnectionsResponse>('/api/connections', fetcher);
+  const refresh = () => {
+    mutate();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="p-3 rounded-xl bg-gray-100">
+          <Users className="h-8 w-8 text-gray-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Connections</h1>
+          <p className="text-muted-foreground">Parents and counselors who can follow your scholarship journey</p>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">Sign in to manage your connections.</p>}
+
+      {data && data.role !== 'student' && <RequestConnectionForm onSent={refresh} />}
+
+      {data && data.role === 'student' && (
+        <div className="space-y-4">
+          {data.incoming.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No one has asked to connect yet. Parents and counselors can send a request using your email.
+            </p>
+          )}
+          {data.incoming.map((connection) => (
+            <IncomingConnection key={connection.id} connection={connection} onChange={refresh} />
+          ))}
+        </div>
+      )}
+
+      {data && data.outgoing.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-xl font-semibold">Your students</h2>
+          {data.outgoing.map((connection) => (
+            <Card key={connection.id}>
+              <CardContent className="flex items-center justify-between gap-2 pt-6">
+                <div>
+                  <p className="font-medium">{contactName(connection)}</p>
+                  <p className="text-sm text-muted-foreground capitalize">{connection.connectionType}</p>
+                </div>
+                <Badge className={`capitalize ${statusClassName[connection.status]}`}>{connection.status}</Badge>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation';
+import { Settings } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { getNotificationPreferences } from '@/services/deadline-reminder-service';
+import NotificationPreferencesForm from '@/components/notification-preferences-form';
+
+export default async function PreferencesPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="p-3 rounded-xl bg-gray-100">
+          <Settings className="h-8 w-8 text-gray-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Preferences</h1>
+          <p className="text-muted-foreground">Configure your notification and application preferences</p>
+        </div>
+      </div>
+
+      <NotificationPreferencesForm preferences={getNotificationPreferences(user)} />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation';
+import { ShieldCheck } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { getSession } from '@/lib/auth/session';
+import { SessionService } from '@/services/session-service';
+import { TwoFactorService } from '@/services/two-factor-service';
+import ActiveSessions from '@/components/active-sessions';
+import TwoFactorSettings from '@/components/two-factor-settings';
+
+export default async function SecuritySettingsPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const [current, sessions, twoFactor] = await Promise.all([
+    getSession(),
+    new SessionService().listActive(user.id),
+    new TwoFactorService().getStatus(user)
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="p-3 rounded-xl bg-gray-100">
+          <ShieldCheck className="h-8 w-8 text-gray-600" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Security Settings</h1>
+          <p className="text-muted-foreground">Protect sign-in with a second step and sign out devices remotely</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <TwoFactorSettings status={twoFactor} />
+
+        <ActiveSessions
+          sessions={sessions.map((session) => ({
+            id: session.id,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt.toISOString(),
+            lastSeenAt: session.lastSeenAt.toISOString(),
+            isCurrent: session.id === current?.sid
+          }))}
+        />
+      </div>
+    </div>
+  );
+}
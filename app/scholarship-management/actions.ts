@@ -0,0 +1,336 @@
+'use server';
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { ActivityType, scholarships, scholarshipRequirements } from '@/lib/db/schema';
+import {
+  getConnectionAccess,
+  getRequirementForUser,
+  getScholarshipForUser,
+  logActivity
+} from '@/lib/db/queries';
+import { validatedActionWithUser } from '@/lib/auth/middleware';
+import {
+  createScholarshipSchema,
+  createScholarshipForStudentSchema,
+  updateScholarshipSchema,
+  deleteScholarshipSchema,
+  transitionStatusSchema,
+  createRequirementSchema,
+  updateRequirementSchema,
+  deleteRequirementSchema,
+  saveCatalogScholarshipSchema
+} from '@/lib/validation/scholarship-schemas';
+import {
+  canTransition,
+  describeTransitionError,
+  getTransitionDates
+} from '@/lib/engines/application-status-machine';
+import { calculateCompletion } from '@/lib/engines/requirement-checklist';
+import { ScholarshipCatalogService } from '@/services/scholarship-catalog-service';
+
+// Keep the stored completion columns in sync with the requirement checklist
+async function refreshScholarshipCompletion(scholarshipId: number) {
+  const [scholarship] = await db
+    .select({ status: scholarships.status, amount: scholarships.amount })
+    .from(scholarships)
+    .where(eq(scholarships.id, scholarshipId))
+    .limit(1);
+  if (!scholarship) {
+    return;
+  }
+
+  const requirements = await db
+    .select({
+      type: scholarshipRequirements.type,
+      isRequired: scholarshipRequirements.isRequired,
+      isCompleted: scholarshipRequirements.isCompleted
+    })
+    .from(scholarshipRequirements)
+    .where(eq(scholarshipRequirements.scholarshipId, scholarshipId));
+
+  const summary = calculateCompletion(scholarship.status, scholarship.amount, requirements);
+  await db
+    .update(scholarships)
+    .set(summary)
+    .where(eq(scholarships.id, scholarshipId));
+}
+
+export const createScholarship = validatedActionWithUser(
+  createScholarshipSchema,
+  async (data, _, user) => {
+    const [scholarship] = await db
+      .insert(scholarships)
+      .values({ ...data, userId: user.id })
+      .returning();
+
+    await Promise.all([
+      refreshScholarshipCompletion(scholarship.id),
+      logActivity(
+        user.id,
+        ActivityType.SCHOLARSHIP_CREATED,
+        undefined,
+        JSON.stringify({ scholarshipId: scholarship.id })
+      )
+    ]);
+
+    return {
+      success: 'Scholarship added successfully.',
+      scholarshipId: scholarship.id
+    };
+  }
+);
+
+export const createScholarshipForStudent = validatedActionWithUser(
+  createScholarshipForStudentSchema,
+  async (data, _, user) => {
+    const { studentId, ...fields } = data;
+
+    const access = await getConnectionAccess(user.id, studentId, 'canCreateScholarships');
+    if (!access) {
+      return { error: 'You do not have permission to add scholarships for this student.' };
+    }
+
+    const [scholarship] = await db
+      .insert(scholarships)
+      .values({ ...fields, userId: studentId })
+      .returning();
+
+    await Promise.all([
+      refreshScholarshipCompletion(scholarship.id),
+      logActivity(
+        user.id,
+        ActivityType.SCHOLARSHIP_CREATED,
+        undefined,
+        JSON.stringify({ scholarshipId: scholarship.id, studentId, connectionId: access.id })
+      )
+    ]);
+
+    return {
+      success: 'Scholarship added to your student\'s tracker.',
+      scholarshipId: scholarship.id
+    };
+  }
+);
+
+export const saveCatalogScholarship = validatedActionWithUser(
+  saveCatalogScholarshipSchema,
+  async (data, _, user) => {
+    const saved = await new ScholarshipCatalogService().saveToTracker(user.id, data.catalogId);
+    if (!saved) {
+      return { error: 'This scholarship is no longer in the catalog.' };
+    }
+    if (!saved.created) {
+      return { success: 'Already in your tracker.', scholarshipId: saved.scholarshipId };
+    }
+
+    await Promise.all([
+      refreshScholarshipCompletion(saved.scholarshipId),
+      logActivity(
+        user.id,
+        ActivityType.SCHOLARSHIP_SAVED_FROM_CATALOG,
+        undefined,
+        JSON.stringify({ scholarshipId: saved.scholarshipId, catalogId: data.catalogId })
+      )
+    ]);
+
+    return {
+      success: 'Saved to your tracker.',
+      scholarshipId: saved.scholarshipId
+    };
+  }
+);
+
+export const updateScholarship = validatedActionWithUser(
+  updateScholarshipSchema,
+  async (data, _, user) => {
+    const { id, ...fields } = data;
+
+    const existing = await getScholarshipForUser(id, user.id);
+    if (!existing) {
+      return { error: 'Scholarship not found.' };
+    }
+
+    await Promise.all([
+      db
+        .update(scholarships)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(and(eq(scholarships.id, id), eq(scholarships.userId, user.id)))
+        .then(() => refreshScholarshipCompletion(id)),
+      logActivity(
+        user.id,
+        ActivityType.SCHOLARSHIP_UPDATED,
+        undefined,
+        JSON.stringify({ scholarshipId: id })
+      )
+    ]);
+
+    return { success: 'Scholarship updated successfully.' };
+  }
+);
+
+export const deleteScholarship = validatedActionWithUser(
+  deleteScholarshipSchema,
+  async (data, _, user) => {
+    const existing = await getScholarshipForUser(data.id, user.id);
+    if (!existing) {
+      return { error: 'Scholarship not found.' };
+    }
+
+    // Requirements are removed by the ON DELETE CASCADE foreign key
+    await Promise.all([
+      db
+        .delete(scholarships)
+        .where(and(eq(scholarships.id, data.id), eq(scholarships.userId, user.id))),
+      logActivity(
+        user.id,
+        ActivityType.SCHOLARSHIP_DELETED,
+        undefined,
+        JSON.stringify({ scholarshipId: data.id, title: existing.title })
+      )
+    ]);
+
+    return { success: 'Scholarship deleted successfully.' };
+  }
+);
+
+export const transitionScholarshipStatus = validatedActionWithUser(
+  transitionStatusSchema,
+  async (data, _, user) => {
+    const existing = await getScholarshipForUser(data.id, user.id);
+    if (!existing) {
+      return { error: 'Scholarship not found.' };
+    }
+
+    if (!canTransition(existing.status, data.status)) {
+      return { error: describeTransitionError(existing.status, data.status) };
+    }
+
+    const changedAt = new Date();
+    const dates = getTransitionDates(existing, data.status, changedAt);
+
+    // Only applies if the status is still the one checked above, so two
+    // concurrent requests can't both make a transition from it
+    const [updated] = await db
+      .update(scholarships)
+      .set({ status: data.status, ...dates, updatedAt: changedAt })
+      .where(
+        and(
+          eq(scholarships.id, data.id),
+          eq(scholarships.userId, user.id),
+          eq(scholarships.status, existing.status)
+        )
+      )
+      .returning({ id: scholarships.id });
+    if (!updated) {
+      return { error: 'This application was just updated elsewhere. Refresh and try again.' };
+    }
+
+    await Promise.all([
+      refreshScholarshipCompletion(data.id),
+      logActivity(
+        user.id,
+        ActivityType.APPLICATION_STATUS_CHANGED,
+        undefined,
+        JSON.stringify({
+          scholarshipId: data.id,
+          from: existing.status,
+          to: data.status,
+          changedAt: changedAt.toISOString()
+        })
+      )
+    ]);
+
+    return { success: 'Application status updated.' };
+  }
+);
+
+export const createRequirement = validatedActionWithUser(
+  createRequirementSchema,
+  async (data, _, user) => {
+    const { isRequired, ...fields } = data;
+
+    const scholarship = await getScholarshipForUser(data.scholarshipId, user.id);
+    if (!scholarship) {
+      return { error: 'Scholarship not found.' };
+    }
+
+    const [requirement] = await db
+      .insert(scholarshipRequirements)
+      .values({ ...fields, isRequired: isRequired ?? true })
+      .returning();
+
+    await Promise.all([
+      refreshScholarshipCompletion(data.scholarshipId),
+      logActivity(
+        user.id,
+        ActivityType.REQUIREMENT_CREATED,
+        undefined,
+        JSON.stringify({ scholarshipId: data.scholarshipId, requirementId: requirement.id })
+      )
+    ]);
+
+    return {
+      success: 'Requirement added successfully.',
+      requirementId: requirement.id
+    };
+  }
+);
+
+export const updateRequirement = validatedActionWithUser(
+  updateRequirementSchema,
+  async (data, _, user) => {
+    const { id, isCompleted, ...fields } = data;
+
+    const existing = await getRequirementForUser(id, user.id);
+    if (!existing) {
+      return { error: 'Requirement not found.' };
+    }
+
+    const completionFields =
+      isCompleted === undefined
+        ? {}
+        : { isCompleted, completedDate: isCompleted ? new Date() : null };
+
+    await Promise.all([
+      db
+        .update(scholarshipRequirements)
+        .set({ ...fields, ...completionFields, updatedAt: new Date() })
+        .where(eq(scholarshipRequirements.id, id))
+        .then(() => refreshScholarshipCompletion(existing.scholarshipId)),
+      logActivity(
+        user.id,
+        ActivityType.REQUIREMENT_UPDATED,
+        undefined,
+        JSON.stringify({ scholarshipId: existing.scholarshipId, requirementId: id })
+      )
+    ]);
+
+    return { success: 'Requirement updated successfully.' };
+  }
+);
+
+export const deleteRequirement = validatedActionWithUser(
+  deleteRequirementSchema,
+  async (data, _, user) => {
+    const existing = await getRequirementForUser(data.id, user.id);
+    if (!existing) {
+      return { error: 'Requirement not found.' };
+    }
+
+    await Promise.all([
+      db
+        .delete(scholarshipRequirements)
+        .where(eq(scholarshipRequirements.id, data.id))
+        .then(() => refreshScholarshipCompletion(existing.scholarshipId)),
+      logActivity(
+        user.id,
+        ActivityType.REQUIREMENT_DELETED,
+        undefined,
+        JSON.stringify({ scholarshipId: existing.scholarshipId, requirementId: data.id })
+      )
+    ]);
+
+    return { success: 'Requirement deleted successfully.' };
+  }
+);
@@ -0,0 +1,130 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, Bell, BellOff, Clock } from 'lucide-react';
+import { getUser, getScholarshipsForUser } from '@/lib/db/queries';
+import { DeadlineReminderScheduler } from '@/lib/engines/deadline-reminder-scheduler';
+import { APPLICATION_STATUS_LABELS } from '@/lib/engines/application-status-machine';
+import { getNotificationPreferences } from '@/services/deadline-reminder-service';
+
+function urgencyClassName(daysRemaining: number) {
+  if (daysRemaining <= 1) return 'bg-red-100 text-red-700';
+  if (daysRemaining <= 7) return 'bg-orange-100 text-orange-700';
+  if (daysRemaining <= 30) return 'bg-amber-100 text-amber-700';
+  return 'bg-gray-100 text-gray-700';
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export default async function DeadlineManagementPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const preferences = getNotificationPreferences(user);
+  const scheduler = new DeadlineReminderScheduler(preferences.reminderOffsetDays);
+  const now = new Date();
+
+  const upcoming = (await getScholarshipsForUser(user.id))
+    .filter((scholarship) => scheduler.isActive(scholarship))
+    .map((scholarship) => ({
+      scholarship,
+      daysRemaining: scheduler.daysUntilDeadline(scholarship.deadline, now),
+      reminders: scheduler.scheduleFor(scholarship)
+    }))
+    .filter((entry) => entry.daysRemaining >= 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-orange-100">
+            <Clock className="h-8 w-8 text-orange-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Deadline Management</h1>
+            <p className="text-muted-foreground">Upcoming deadlines and your reminder schedule</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/scholarship-management">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Scholarships
+          </a>
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="flex items-center justify-between gap-4 pt-6">
+          <div className="flex items-center gap-2 text-sm">
+            {preferences.deadlineReminders ? (
+              <>
+                <Bell className="h-4 w-4 text-orange-600" />
+                Reminders at {scheduler.getOffsets().join(', ')} days before each deadline
+              </>
+            ) : (
+              <>
+                <BellOff className="h-4 w-4 text-muted-foreground" />
+                Deadline reminders are turned off
+              </>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href="/scholarship-management/work-plan">Weekly work plan</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/profile-settings/calendar">Subscribe in calendar</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/profile-settings/preferences">Change</a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No upcoming deadlines for applications in progress.</p>
+      ) : (
+        <div className="space-y-4">
+          {upcoming.map(({ scholarship, daysRemaining, reminders }) => (
+            <Card key={scholarship.id} className="border-2">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-lg">{scholarship.title}</CardTitle>
+                    <CardDescription>
+                      {scholarship.provider} · {APPLICATION_STATUS_LABELS[scholarship.status]}
+                    </CardDescription>
+                  </div>
+                  <Badge className={urgencyClassName(daysRemaining)}>
+                    {daysRemaining === 0 ? 'Due today' : `${daysRemaining} days left`}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p>Deadline: {scholarship.deadline}</p>
+                {preferences.deadlineReminders && (
+                  <div className="flex flex-wrap gap-2">
+                    {reminders.map((reminder) => (
+                      <Badge
+                        key={reminder.offsetDays}
+                        variant={reminder.scheduledFor <= now ? 'secondary' : 'outline'}
+                      >
+                        {reminder.offsetDays}d · {formatDate(reminder.scheduledFor)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
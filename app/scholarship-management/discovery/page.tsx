@@ -0,0 +1,153 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, CheckCircle2, CircleHelp, Search, XCircle } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { discoveryQuerySchema } from '@/lib/validation/scholarship-schemas';
+import { ScholarshipCatalogService } from '@/services/scholarship-catalog-service';
+import DiscoveryFilters from '@/components/discovery-filters';
+import SaveCatalogButton from '@/components/save-catalog-button';
+import type { EligibilityCheck } from '@/types/spider-web';
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount);
+}
+
+function formatDate(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+const competitivenessClassName: Record<string, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  high: 'bg-red-100 text-red-700'
+};
+
+function CheckList({ checks }: { checks: EligibilityCheck[] }) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {checks.map((check, index) => (
+        <li key={index} className="flex items-start gap-2">
+          {check.status === 'pass' ? (
+            <CheckCircle2 className="h-4 w-4 mt-0.5 text-emerald-600 shrink-0" />
+          ) : check.status === 'fail' ? (
+            <XCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+          ) : (
+            <CircleHelp className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+          )}
+          <span className={check.status === 'unknown' ? 'text-muted-foreground' : undefined}>
+            {check.reason}
+            {!check.rule.isRequired && ' (preferred)'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function DiscoveryPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const query = discoveryQuerySchema.parse(await searchParams);
+  const { matches, ineligible } = await new ScholarshipCatalogService().discover(user, query);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-blue-100">
+            <Search className="h-8 w-8 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Smart Discovery</h1>
+            <p className="text-muted-foreground">Open scholarships you qualify for, ranked by how well they match your profile</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/scholarship-management">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Scholarships
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <DiscoveryFilters query={query} />
+        </CardContent>
+      </Card>
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No open scholarships match your search. Try a different keyword or category.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {matches.map(({ entry, matchScore, eligibility, savedScholarshipId }) => (
+            <Card key={entry.id}>
+              <CardHeader>
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{entry.title}</CardTitle>
+                    <CardDescription>
+                      {entry.provider} · {formatCurrency(Number(entry.amount))}
+                      {entry.renewable && ' · renewable'} · due {formatDate(entry.deadline)}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className="bg-blue-100 text-blue-700">{matchScore} match</Badge>
+                    <Badge className={competitivenessClassName[entry.competitiveness]}>
+                      {entry.competitiveness} competition
+                    </Badge>
+                    <SaveCatalogButton catalogId={entry.id} saved={savedScholarshipId !== null} />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {entry.description && <p className="text-sm text-muted-foreground">{entry.description}</p>}
+                {eligibility.checks.length > 0 && <CheckList checks={eligibility.checks} />}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {ineligible.length > 0 && (
+        <Card className="border-dashed">
+          <CardHeader>
+            <CardTitle className="text-lg">Not eligible ({ineligible.length})</CardTitle>
+            <CardDescription>
+              Screened out by a required criterion. Keep your profile up to date so these stay accurate.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {ineligible.map(({ entry, eligibility }) => (
+              <div key={entry.id} className="space-y-1">
+                <div className="text-sm font-medium">
+                  {entry.title} · {formatCurrency(Number(entry.amount))}
+                </div>
+                <CheckList
+                  checks={eligibility.checks.filter((check) => check.rule.isRequired && check.status === 'fail')}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,9 @@ import {
   Target, 
   Clock,
   ArrowRight,
-  Plus,
   Filter
 } from 'lucide-react';
+import ScholarshipTracker from '@/components/scholarship-tracker';
 
 export default function ScholarshipManagementPage() {
   return (
@@ -29,13 +29,11 @@ export default function ScholarshipManagementPage() {
         </div>
         
         <div className="flex gap-4 mt-6">
-          <Button className="bg-blue-600 hover:bg-blue-700">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Scholarship
-          </Button>
-          <Button variant="outline">
-            <Search className="mr-2 h-4 w-4" />
-            Smart Discovery
+          <Button variant="outline" asChild>
+            <a href="/scholarship-management/discovery">
+              <Search className="mr-2 h-4 w-4" />
+              Smart Discovery
+            </a>
           </Button>
           <Button variant="outline">
             <Filter className="mr-2 h-4 w-4" />
@@ -44,13 +42,19 @@ export default function ScholarshipManagementPage() {
         </div>
       </div>
 
+      {/* Tracked Scholarships */}
+      <div className="mb-8">
+        <h2 className="text-xl font-semibold mb-4">My Scholarships</h2>
+        <ScholarshipTracker />
+      </div>
+
       {/* Feature Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
         <Card className="border-2 border-blue-200 bg-gradient-to-br from-blue-50 to-transparent">
           <CardHeader>
             <div className="flex items-center justify-between">
               <Search className="h-6 w-6 text-blue-600" />
-              <Badge className="bg-blue-100 text-blue-700">Coming Soon</Badge>
+              <Badge className="bg-blue-100 text-blue-700">Available</Badge>
             </div>
             <CardTitle>Smart Discovery</CardTitle>
             <CardDescription>
@@ -66,6 +70,12 @@ export default function ScholarshipManagementPage() {
                 <li>• Eligibility pre-screening</li>
                 <li>• Automatic notifications</li>
               </ul>
+              <Button variant="outline" size="sm" className="mt-2" asChild>
+                <a href="/scholarship-management/discovery">
+                  Open Smart Discovery
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -74,7 +84,7 @@ export default function ScholarshipManagementPage() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <Calendar className="h-6 w-6 text-purple-600" />
-              <Badge className="bg-purple-100 text-purple-700">Coming Soon</Badge>
+              <Badge className="bg-purple-100 text-purple-700">Available</Badge>
             </div>
             <CardTitle>Application Tracking</CardTitle>
             <CardDescription>
@@ -90,6 +100,12 @@ export default function ScholarshipManagementPage() {
                 <li>• Document management</li>
                 <li>• Progress tracking</li>
               </ul>
+              <Button variant="outline" size="sm" className="mt-2" asChild>
+                <a href="/scholarship-management/tracking">
+                  Open Tracking Board
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -122,7 +138,7 @@ export default function ScholarshipManagementPage() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <Clock className="h-6 w-6 text-orange-600" />
-              <Badge className="bg-orange-100 text-orange-700">Coming Soon</Badge>
+              <Badge className="bg-orange-100 text-orange-700">Available</Badge>
             </div>
             <CardTitle>Deadline Management</CardTitle>
             <CardDescription>
@@ -138,6 +154,12 @@ export default function ScholarshipManagementPage() {
                 <li>• Priority scheduling</li>
                 <li>• Time management</li>
               </ul>
+              <Button variant="outline" size="sm" className="mt-2" asChild>
+                <a href="/scholarship-management/deadlines">
+                  View Deadlines
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </a>
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -162,10 +184,10 @@ export default function ScholarshipManagementPage() {
                 <h4 className="font-medium">Planned Features:</h4>
                 <ul className="text-sm text-muted-foreground space-y-1">
                   <li>✓ Architecture foundation</li>
-                  <li>🔄 Smart discovery engine</li>
-                  <li>🔄 Application tracking system</li>
+                  <li>✓ Smart discovery engine</li>
+                  <li>✓ Application tracking system</li>
                   <li>🔄 Intelligent matching algorithm</li>
-                  <li>⏳ Deadline management</li>
+                  <li>✓ Deadline management</li>
                   <li>⏳ Document management</li>
                 </ul>
               </div>
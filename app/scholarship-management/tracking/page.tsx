@@ -0,0 +1,92 @@
+'use client';
+
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowRight, Calendar, Loader2 } from 'lucide-react';
+import ApplicationStatusControls from '@/components/application-status-controls';
+import {
+  APPLICATION_STATUS_LABELS,
+  APPLICATION_STATUS_TRANSITIONS
+} from '@/lib/engines/application-status-machine';
+import type { ApplicationStatus } from '@/types/spider-web';
+import type { ScholarshipWithRequirements } from '@/lib/db/queries';
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error('Failed to load scholarships');
+    return res.json();
+  });
+
+const BOARD_COLUMNS = Object.keys(APPLICATION_STATUS_TRANSITIONS) as ApplicationStatus[];
+
+export default function ApplicationTrackingPage() {
+  const { data, error, isLoading, mutate } = useSWR<ScholarshipWithRequirements[]>(
+    '/api/scholarships',
+    fetcher
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-purple-100">
+            <Calendar className="h-8 w-8 text-purple-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Application Tracking</h1>
+            <p className="text-muted-foreground">
+              Move each application through its lifecycle, from first draft to final decision
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/scholarship-management">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Scholarships
+          </a>
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">Sign in to track your applications.</p>}
+
+      {data && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {BOARD_COLUMNS.map((status) => {
+            const column = data.filter((scholarship) => scholarship.status === status);
+            return (
+              <div key={status} className="space-y-3">
+                <h2 className="font-semibold flex items-center justify-between">
+                  {APPLICATION_STATUS_LABELS[status]}
+                  <span className="text-sm text-muted-foreground">{column.length}</span>
+                </h2>
+                {column.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No applications.</p>
+                )}
+                {column.map((scholarship) => (
+                  <Card key={scholarship.id} className="border-2">
+                    <CardHeader>
+                      <CardTitle className="text-base">{scholarship.title}</CardTitle>
+                      <CardDescription>
+                        {scholarship.provider} · Due {scholarship.deadline}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ApplicationStatusControls scholarship={scholarship} onChange={() => mutate()} />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowRight, CalendarRange, Download } from 'lucide-react';
+import { getUser } from '@/lib/db/queries';
+import { WorkPlanService } from '@/services/work-plan-service';
+import WeeklyHoursForm from '@/components/weekly-hours-form';
+
+function formatDate(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function formatHours(hours: number) {
+  return `${hours}h`;
+}
+
+export default async function WorkPlanPage() {
+  const user = await getUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const { plan, exclusions } = await new WorkPlanService().getPlan(user);
+  const hasWork = plan.totalHours > 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-xl bg-orange-100">
+            <CalendarRange className="h-8 w-8 text-orange-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Work Plan</h1>
+            <p className="text-muted-foreground">Weekly application work scheduled before each deadline</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/scholarship-management/deadlines">
+            <ArrowRight className="mr-2 h-4 w-4 rotate-180" />
+            Back to Deadlines
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-col gap-4 pt-6 sm:flex-row sm:items-end sm:justify-between">
+          <WeeklyHoursForm weeklyHours={plan.weeklyHours} />
+          {hasWork && (
+            <Button variant="outline" asChild>
+              <a href="/api/work-plan">
+                <Download className="mr-2 h-4 w-4" />
+                Export plan
+              </a>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {!hasWork ? (
+        <p className="text-sm text-muted-foreground">
+          No open applications to plan. Add scholarships with upcoming deadlines to build a work plan.
+        </p>
+      ) : (
+        <>
+          {plan.shortfalls.length > 0 && (
+            <Card className="border-2 border-red-200">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg text-red-700">
+                  <AlertTriangle className="h-5 w-5" />
+                  Not enough time before some deadlines
+                </CardTitle>
+                <CardDescription>
+                  Add weekly hours, start sooner, or drop an application to make these fit.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {plan.shortfalls.map((shortfall) => (
+                  <div key={shortfall.scholarshipId} className="flex justify-between gap-2">
+                    <span>{shortfall.title}</span>
+                    <span className="text-red-600">
+                      {formatHours(shortfall.hoursShort)} short · due {formatDate(shortfall.deadline)}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="space-y-4">
+            {plan.weeks.map((week) => (
+              <Card key={week.weekStart} className={`border-2 ${week.overbookedHours > 0 ? 'border-red-200' : ''}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">
+                        {formatDate(week.weekStart)} – {formatDate(week.weekEnd)}
+                      </CardTitle>
+                      <CardDescription>
+                        {formatHours(week.plannedHours)} planned of {formatHours(week.availableHours)} available
+                      </CardDescription>
+                    </div>
+                    {week.overbookedHours > 0 && (
+                      <Badge className="bg-red-100 text-red-700">
+                        Over by {formatHours(week.overbookedHours)}
+                      </Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {week.blocks.length === 0 ? (
+                    <p className="text-muted-foreground">Nothing scheduled</p>
+                  ) : (
+                    week.blocks.map((block) => (
+                      <div key={block.scholarshipId} className="flex justify-between gap-2">
+                        <span>{block.title}</span>
+                        <span className="text-muted-foreground">
+                          {formatHours(block.hours)} · due {formatDate(block.deadline)}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      {exclusions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Left out of the plan</CardTitle>
+            <CardDescription>Open applications the portfolio optimizer chose not to schedule</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {exclusions.map((exclusion) => (
+              <div key={exclusion.scholarship.id} className="flex justify-between gap-2">
+                <span>{exclusion.scholarship.title}</span>
+                <span className="text-muted-foreground">{exclusion.explanation}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Monitor, Smartphone } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { revokeOtherSessions, revokeSession } from '@/app/profile-settings/actions';
+
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// Good enough to tell a user's own devices apart
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown browser';
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+}
+
+function isMobile(userAgent: string | null) {
+  return userAgent !== null && /Mobile|iPhone|Android/.test(userAgent);
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+export default function ActiveSessions({ sessions }: { sessions: SessionSummary[] }) {
+  const router = useRouter();
+  const refreshOnSuccess =
+    (action: (prevState: ActionState, formData: FormData) => Promise<ActionState>) =>
+    async (prevState: ActionState, formData: FormData) => {
+      const result: ActionState = await action(prevState, formData);
+      if (result?.success) {
+        router.refresh();
+      }
+      return result;
+    };
+
+  const [revoked, revokeAction, revoking] = useActionState<ActionState, FormData>(
+    refreshOnSuccess(revokeSession),
+    { error: '' }
+  );
+  const [revokedOthers, revokeOthersAction, revokingOthers] = useActionState<ActionState, FormData>(
+    refreshOnSuccess(revokeOtherSessions),
+    { error: '' }
+  );
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Signed-in devices</CardTitle>
+        <CardDescription>
+          Sign out any device you don&apos;t recognize. Changing your password signs out every device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y">
+          {sessions.map((session) => {
+            const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="flex items-center gap-4 py-3">
+                <Icon className="h-5 w-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {describeDevice(session.userAgent)}
+                    {session.isCurrent && <Badge className="bg-emerald-100 text-emerald-700">This device</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {session.ipAddress ?? 'Unknown IP'} · signed in {formatDate(session.createdAt)} · last active{' '}
+                    {formatDate(session.lastSeenAt)}
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <form action={revokeAction}>
+                    <input type="hidden" name="sessionId" value={session.id} />
+                    <Button type="submit" variant="outline" size="sm" disabled={revoking}>
+                      {revoking ? <Loader2 className="animate-spin h-4 w-4" /> : 'Sign out'}
+                    </Button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {hasOtherSessions && (
+          <form action={revokeOthersAction}>
+            <Button type="submit" variant="destructive" disabled={revokingOthers}>
+              {revokingOthers ? <Loader2 className="animate-spin h-4 w-4" /> : 'Sign out all other devices'}
+            </Button>
+          </form>
+        )}
+
+        {[revoked, revokedOthers].map((state, index) =>
+          state?.error ? (
+            <div key={index} className="text-destructive text-sm">{state.error}</div>
+          ) : state?.success ? (
+            <div key={index} className="text-green-600 text-sm">{state.success}</div>
+          ) : null
+        )}
+      </CardContent>
+    </Card>
+  );
+}
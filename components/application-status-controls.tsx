@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import useSWR from 'swr';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, History, Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { transitionScholarshipStatus } from '@/app/scholarship-management/actions';
+import {
+  APPLICATION_STATUS_LABELS,
+  getAllowedTransitions,
+  isTerminalStatus
+} from '@/lib/engines/application-status-machine';
+import type { ApplicationStatus } from '@/types/spider-web';
+import type { StatusTransition } from '@/lib/db/queries';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export const statusBadgeClassName: Record<ApplicationStatus, string> = {
+  not_started: 'bg-gray-100 text-gray-700',
+  draft: 'bg-slate-100 text-slate-700',
+  in_progress: 'bg-blue-100 text-blue-700',
+  submitted: 'bg-purple-100 text-purple-700',
+  under_review: 'bg-amber-100 text-amber-700',
+  awarded: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-red-100 text-red-700'
+};
+
+export function ApplicationStatusBadge({ status }: { status: ApplicationStatus }) {
+  return (
+    <Badge className={statusBadgeClassName[status]}>
+      {APPLICATION_STATUS_LABELS[status] ?? status}
+    </Badge>
+  );
+}
+
+function formatDate(value: string | Date) {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+function StatusHistory({ scholarshipId }: { scholarshipId: number }) {
+  const { data, isLoading } = useSWR<StatusTransition[]>(
+    `/api/scholarships/${scholarshipId}/history`,
+    fetcher
+  );
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  if (!Array.isArray(data) || data.length === 0) {
+    return <p className="text-xs text-muted-foreground">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {data.map((entry) => (
+        <li key={entry.id} className="text-xs text-muted-foreground flex items-center gap-1">
+          <span>{formatDate(entry.changedAt)}:</span>
+          <span>{APPLICATION_STATUS_LABELS[entry.from] ?? entry.from}</span>
+          <ArrowRight className="h-3 w-3" />
+          <span className="font-medium text-foreground">
+            {APPLICATION_STATUS_LABELS[entry.to] ?? entry.to}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ApplicationStatusControlsProps {
+  scholarship: {
+    id: number;
+    status: ApplicationStatus;
+    submittedDate: string | Date | null;
+    resultDate: string | Date | null;
+  };
+  onChange: () => void;
+}
+
+export default function ApplicationStatusControls({
+  scholarship,
+  onChange
+}: ApplicationStatusControlsProps) {
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const { mutate } = useSWR(
+    showHistory ? `/api/scholarships/${scholarship.id}/history` : null,
+    fetcher
+  );
+
+  async function handleTransition(status: ApplicationStatus) {
+    setBusy(true);
+    setError('');
+    try {
+      const formData = new FormData();
+      formData.append('id', String(scholarship.id));
+      formData.append('status', status);
+      const result: ActionState = await transitionScholarshipStatus({ error: '' }, formData);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      onChange();
+      mutate();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const nextStatuses = getAllowedTransitions(scholarship.status);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {scholarship.submittedDate && <span>Submitted {formatDate(scholarship.submittedDate)}</span>}
+        {scholarship.resultDate && <span>Decision {formatDate(scholarship.resultDate)}</span>}
+      </div>
+
+      {isTerminalStatus(scholarship.status) ? (
+        <p className="text-xs text-muted-foreground">This application has reached a final decision.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">Move to:</span>
+          {nextStatuses.map((status) => (
+            <Button
+              key={status}
+              variant="outline"
+              size="sm"
+              disabled={busy}
+              onClick={() => handleTransition(status)}
+            >
+              {APPLICATION_STATUS_LABELS[status]}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-destructive text-sm">{error}</div>}
+
+      <button
+        type="button"
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setShowHistory((value) => !value)}
+      >
+        <History className="h-3 w-3" />
+        {showHistory ? 'Hide status history' : 'Show status history'}
+      </button>
+      {showHistory && <StatusHistory scholarshipId={scholarship.id} />}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { createCalendarFeed, revokeCalendarFeed, updateCalendarFeed } from '@/app/profile-settings/actions';
+
+export interface CalendarFeedSummary {
+  includeWorkBlocks: boolean;
+  createdAt: string;
+  lastAccessedAt: string | null;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+export default function CalendarFeedSettings({ feed }: { feed: CalendarFeedSummary | null }) {
+  const router = useRouter();
+  const refreshOnSuccess =
+    (action: (prevState: ActionState, formData: FormData) => Promise<ActionState>) =>
+    async (prevState: ActionState, formData: FormData) => {
+      const result: ActionState = await action(prevState, formData);
+      if (result?.success) {
+        router.refresh();
+      }
+      return result;
+    };
+
+  const [created, createAction, creating] = useActionState<ActionState, FormData>(
+    refreshOnSuccess(createCalendarFeed),
+    { error: '' }
+  );
+  const [updated, updateAction, updating] = useActionState<ActionState, FormData>(
+    refreshOnSuccess(updateCalendarFeed),
+    { error: '' }
+  );
+  const [revoked, revokeAction, revoking] = useActionState<ActionState, FormData>(
+    refreshOnSuccess(revokeCalendarFeed),
+    { error: '' }
+  );
+
+  const messages = [created, updated, revoked];
+  const feedUrl: string | undefined = created?.feedUrl;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar subscription</CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see every deadline and reminder.
+          Events move automatically when a deadline changes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {feedUrl && (
+          <div className="space-y-2">
+            <Label htmlFor="feedUrl">Your calendar link</Label>
+            <Input id="feedUrl" value={feedUrl} readOnly onFocus={(event) => event.target.select()} />
+            <p className="text-xs text-muted-foreground">
+              Copy it now; it won&apos;t be shown again. Anyone with this link can see your deadlines.
+            </p>
+          </div>
+        )}
+
+        {feed ? (
+          <p className="text-sm text-muted-foreground">
+            Link created {formatDate(feed.createdAt)}
+            {feed.lastAccessedAt ? `, last synced ${formatDate(feed.lastAccessedAt)}` : ', not synced yet'}.
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">You don&apos;t have a calendar link yet.</p>
+        )}
+
+        <form
+          key={String(feed?.includeWorkBlocks)}
+          action={feed ? updateAction : createAction}
+          className="space-y-4"
+        >
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              name="includeWorkBlocks"
+              defaultChecked={feed?.includeWorkBlocks ?? false}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm font-medium">Include planned work blocks</span>
+              <span className="block text-xs text-muted-foreground">
+                Add a week-long event for each application in your weekly work plan
+              </span>
+            </span>
+          </label>
+
+          <div className="flex flex-wrap gap-2">
+            {feed && (
+              <Button type="submit" variant="outline" disabled={updating}>
+                {updating ? <Loader2 className="animate-spin h-4 w-4" /> : 'Save'}
+              </Button>
+            )}
+            <Button
+              type="submit"
+              formAction={createAction}
+              className="bg-blue-600 hover:bg-blue-700"
+              disabled={creating}
+            >
+              {creating ? <Loader2 className="animate-spin h-4 w-4" /> : feed ? 'Regenerate link' : 'Create link'}
+            </Button>
+          </div>
+        </form>
+
+        {feed && (
+          <form action={revokeAction}>
+            <Button type="submit" variant="destructive" disabled={revoking}>
+              {revoking ? <Loader2 className="animate-spin h-4 w-4" /> : 'Revoke link'}
+            </Button>
+          </form>
+        )}
+
+        {messages.map((state, index) =>
+          state?.error ? (
+            <div key={index} className="text-destructive text-sm">{state.error}</div>
+          ) : state?.success ? (
+            <div key={index} className="text-green-600 text-sm">{state.success}</div>
+          ) : null
+        )}
+      </CardContent>
+    </Card>
+  );
+}
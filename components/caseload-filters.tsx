@@ -0,0 +1,50 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { selectClassName } from '@/components/scholarship-form';
+import {
+  CASELOAD_FILTERS,
+  CASELOAD_FILTER_LABELS,
+  CASELOAD_SORTS,
+  CASELOAD_SORT_LABELS
+} from '@/lib/engines/caseload-engine';
+import type { CaseloadQuery } from '@/lib/validation/caseload-schemas';
+
+// Plain GET form so filters live in the URL and the page stays server rendered
+export default function CaseloadFilters({ query }: { query: CaseloadQuery }) {
+  return (
+    <form method="get" className="grid grid-cols-1 gap-3 sm:grid-cols-4 sm:items-end">
+      <div className="space-y-2 sm:col-span-2">
+        <Label htmlFor="q">Search</Label>
+        <Input id="q" name="q" defaultValue={query.q} placeholder="Student name or email" maxLength={100} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="filter">Show</Label>
+        <select id="filter" name="filter" defaultValue={query.filter} className={selectClassName}>
+          {CASELOAD_FILTERS.map((filter) => (
+            <option key={filter} value={filter}>
+              {CASELOAD_FILTER_LABELS[filter]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="sort">Sort by</Label>
+        <select id="sort" name="sort" defaultValue={query.sort} className={selectClassName}>
+          {CASELOAD_SORTS.map((sort) => (
+            <option key={sort} value={sort}>
+              {CASELOAD_SORT_LABELS[sort]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="sm:col-span-4">
+        <Button type="submit" variant="outline" size="sm">
+          Apply
+        </Button>
+      </div>
+    </form>
+  );
+}
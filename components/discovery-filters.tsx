@@ -0,0 +1,35 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { selectClassName } from '@/components/scholarship-form';
+import { SCHOLARSHIP_CATEGORIES, type DiscoveryQuery } from '@/lib/validation/scholarship-schemas';
+
+// Plain GET form so searches can be bookmarked and the page stays server rendered
+export default function DiscoveryFilters({ query }: { query: DiscoveryQuery }) {
+  return (
+    <form method="get" className="grid grid-cols-1 gap-3 sm:grid-cols-4 sm:items-end">
+      <div className="space-y-2 sm:col-span-2">
+        <Label htmlFor="q">Search</Label>
+        <Input id="q" name="q" defaultValue={query.q} placeholder="Title, provider or keyword" />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="category">Category</Label>
+        <select id="category" name="category" defaultValue={query.category ?? ''} className={selectClassName}>
+          <option value="">All categories</option>
+          {SCHOLARSHIP_CATEGORIES.map((category) => (
+            <option key={category} value={category}>{category}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="minAmount">Minimum award ($)</Label>
+          <Input id="minAmount" name="minAmount" type="number" min={0} step="100" defaultValue={query.minAmount || ''} />
+        </div>
+        <Button type="submit" variant="outline">Search</Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useActionState } from 'react';
+import useSWR from 'swr';
+import { Button } from '@/components/ui/button';
+import { Loader2, MailWarning } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { resendVerificationEmail } from '@/app/(login)/actions';
+import { User } from '@/lib/db/schema';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export default function EmailVerificationBanner() {
+  const { data: user } = useSWR<User | null>('/api/user', fetcher);
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(resendVerificationEmail, { error: '' });
+
+  // Demo-mode users carry no verification flag at all
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  return (
+    <div className="border-b bg-amber-50 text-amber-900">
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center gap-3 text-sm">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        <span className="flex-1">
+          Verify {user.email} to link parents and counselors and receive reminder emails.
+        </span>
+        {state?.success ? (
+          <span className="text-green-700">{state.success}</span>
+        ) : (
+          <form action={formAction} className="flex items-center gap-2">
+            {state?.error && <span className="text-destructive">{state.error}</span>}
+            <Button type="submit" size="sm" variant="outline" disabled={pending}>
+              {pending ? <Loader2 className="animate-spin h-4 w-4" /> : 'Resend link'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
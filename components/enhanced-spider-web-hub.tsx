@@ -263,7 +263,7 @@ export default function EnhancedSpiderWebHub() {
         />
         
         <MetricCard
-          title="Success Rate"
+          title="Completion Rate"
           value={metrics?.completionRate || 0}
           trend={metrics?.successTrend}
           icon={<TrendingUp className="h-6 w-6" />}
@@ -291,7 +291,7 @@ export default function EnhancedSpiderWebHub() {
               <Timer className="h-5 w-5 text-purple-600" />
               <div>
                 <p className="text-sm text-muted-foreground">Avg. Time</p>
-                <p className="font-semibold text-purple-600">{metrics.avgApplicationTime.toFixed(1)}h</p>
+                <p className="font-semibold text-purple-600">{metrics.avgApplicationTime.toFixed(1)}d</p>
               </div>
             </div>
           </Card>
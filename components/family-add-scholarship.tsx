@@ -0,0 +1,32 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Plus } from 'lucide-react';
+import ScholarshipForm from '@/components/scholarship-form';
+
+// Only rendered when the child granted canCreateScholarships; the action re-checks it
+export default function FamilyAddScholarship({ studentId }: { studentId: number }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const router = useRouter();
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Scholarship
+      </Button>
+    );
+  }
+
+  return (
+    <ScholarshipForm
+      studentId={studentId}
+      onDone={() => {
+        setIsOpen(false);
+        router.refresh();
+      }}
+    />
+  );
+}
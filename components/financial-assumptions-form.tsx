@@ -0,0 +1,174 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { resetFinancialAssumptions, updateFinancialAssumptions } from '@/app/profile-settings/actions';
+import type { FinancialAssumptions } from '@/types/spider-web';
+
+type FieldName =
+  | 'opportunityCostRate'
+  | 'applicationHourValue'
+  | 'riskLow'
+  | 'riskMedium'
+  | 'riskHigh'
+  | 'taxFreeThreshold'
+  | 'expectedSalaryIncrease';
+
+const fields: Array<{
+  name: FieldName;
+  label: string;
+  description: string;
+  unit: 'percent' | 'dollars';
+  read: (assumptions: FinancialAssumptions) => number;
+}> = [
+  {
+    name: 'opportunityCostRate',
+    label: 'Opportunity cost rate (%)',
+    description: 'Annual return you could earn on the award amount elsewhere',
+    unit: 'percent',
+    read: (a) => a.opportunityCostRate
+  },
+  {
+    name: 'applicationHourValue',
+    label: 'Value of an hour ($)',
+    description: 'What an hour spent on applications is worth to you',
+    unit: 'dollars',
+    read: (a) => a.applicationHourValue
+  },
+  {
+    name: 'riskLow',
+    label: 'Low competition factor (%)',
+    description: 'Share of the award counted for low-competition scholarships',
+    unit: 'percent',
+    read: (a) => a.riskAdjustmentFactors.low
+  },
+  {
+    name: 'riskMedium',
+    label: 'Medium competition factor (%)',
+    description: 'Share of the award counted for medium-competition scholarships',
+    unit: 'percent',
+    read: (a) => a.riskAdjustmentFactors.medium
+  },
+  {
+    name: 'riskHigh',
+    label: 'High competition factor (%)',
+    description: 'Share of the award counted for high-competition scholarships',
+    unit: 'percent',
+    read: (a) => a.riskAdjustmentFactors.high
+  },
+  {
+    name: 'taxFreeThreshold',
+    label: 'Tax-free threshold ($)',
+    description: 'Award amount assumed to go to tuition, fees and books; the rest is taxed at federal rates',
+    unit: 'dollars',
+    read: (a) => a.taxFreeThreshold
+  },
+  {
+    name: 'expectedSalaryIncrease',
+    label: 'Expected salary increase ($)',
+    description: 'Yearly earnings gain per year of education funded',
+    unit: 'dollars',
+    read: (a) => a.expectedSalaryIncrease
+  }
+];
+
+function displayValue(value: number, unit: 'percent' | 'dollars') {
+  return unit === 'percent' ? Math.round(value * 10000) / 100 : value;
+}
+
+export default function FinancialAssumptionsForm({
+  assumptions,
+  baseline,
+  institutionName
+}: {
+  assumptions: FinancialAssumptions;
+  baseline: FinancialAssumptions;
+  institutionName: string | null;
+}) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(updateFinancialAssumptions, {
+    error: ''
+  });
+  const router = useRouter();
+  const [resetState, resetAction, resetPending] = useActionState<ActionState, FormData>(
+    async (prevState, formData) => {
+      const result: ActionState = await resetFinancialAssumptions(prevState, formData);
+      if (result?.success) {
+        router.refresh();
+      }
+      return result;
+    },
+    { error: '' }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Financial Assumptions</CardTitle>
+        <CardDescription>
+          Used for budget impact and ROI estimates.{' '}
+          {institutionName
+            ? `Defaults include values set by ${institutionName}.`
+            : 'Leave a value unchanged to keep the default.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Keyed so the inputs pick up new values after a reset */}
+        <form key={JSON.stringify(assumptions)} action={formAction} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {fields.map((field) => {
+              const value = displayValue(field.read(assumptions), field.unit);
+              const defaultValue = displayValue(field.read(baseline), field.unit);
+              return (
+                <div key={field.name} className="space-y-2">
+                  <Label htmlFor={field.name}>{field.label}</Label>
+                  <Input
+                    id={field.name}
+                    name={field.name}
+                    type="number"
+                    min={0}
+                    max={field.unit === 'percent' ? 100 : undefined}
+                    step="any"
+                    defaultValue={value}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {field.description}
+                    {value !== defaultValue && ` · default ${defaultValue}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+          {state?.success && <div className="text-green-600 text-sm">{state.success}</div>}
+
+          <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Saving...
+              </>
+            ) : (
+              'Save Assumptions'
+            )}
+          </Button>
+        </form>
+
+        <form action={resetAction} className="flex items-center gap-3 border-t pt-4">
+          <Button type="submit" variant="outline" disabled={resetPending}>
+            Reset to Defaults
+          </Button>
+          {resetState?.error && <span className="text-destructive text-sm">{resetState.error}</span>}
+          {resetState?.success && <span className="text-green-600 text-sm">{resetState.success}</span>}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useActionState, useEffect } from 'react';
+import { mutate } from 'swr';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { createFinancialGoal, updateFinancialGoal } from '@/app/financial-tracking/actions';
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_LABELS,
+  FUNDING_SOURCE_LABELS,
+  FUNDING_SOURCE_TYPES
+} from '@/lib/engines/financial-goal-calculator';
+import type { FinancialGoal } from '@/lib/db/schema';
+
+interface FinancialGoalFormProps {
+  goal?: FinancialGoal;
+  onDone: () => void;
+}
+
+function MoneyInput({ name, label, defaultValue }: { name: string; label: string; defaultValue?: string | number }) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label} ($)</Label>
+      <Input id={name} name={name} type="number" min="0" step="0.01" defaultValue={defaultValue ?? ''} />
+    </div>
+  );
+}
+
+export default function FinancialGoalForm({ goal, onDone }: FinancialGoalFormProps) {
+  const isEditing = !!goal;
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    isEditing ? updateFinancialGoal : createFinancialGoal,
+    { error: '' }
+  );
+
+  useEffect(() => {
+    if (state?.success) {
+      mutate('/api/financial-goals');
+      onDone();
+    }
+  }, [state, onDone]);
+
+  return (
+    <Card className="border-2 border-purple-200">
+      <CardHeader>
+        <CardTitle>{isEditing ? 'Edit Financial Goal' : 'Add Financial Goal'}</CardTitle>
+        <CardDescription>
+          Awarded and pending scholarships are filled in from your tracker automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {isEditing && <input type="hidden" name="id" value={goal.id} />}
+
+          <div className="space-y-2">
+            <Label htmlFor="academicYear">Academic year (fall)</Label>
+            <Input
+              id="academicYear"
+              name="academicYear"
+              type="number"
+              min="2000"
+              max="2100"
+              required
+              defaultValue={goal?.academicYear ?? new Date().getFullYear()}
+            />
+          </div>
+          <MoneyInput name="currentSavings" label="Savings" defaultValue={goal?.currentSavings} />
+          <MoneyInput
+            name="expectedFamilyContribution"
+            label="Family contribution"
+            defaultValue={goal?.expectedFamilyContribution}
+          />
+
+          <p className="text-sm font-medium md:col-span-3">Expenses</p>
+          {EXPENSE_CATEGORIES.map((category) => (
+            <MoneyInput
+              key={category}
+              name={category}
+              label={EXPENSE_LABELS[category]}
+              defaultValue={goal?.expenses?.[category]}
+            />
+          ))}
+
+          <p className="text-sm font-medium md:col-span-3">Other funding sources</p>
+          {FUNDING_SOURCE_TYPES.map((type) => (
+            <MoneyInput
+              key={type}
+              name={type === 'other' ? 'otherFunding' : type}
+              label={FUNDING_SOURCE_LABELS[type]}
+              defaultValue={goal?.fundingSources?.[type]}
+            />
+          ))}
+
+          {state?.error && (
+            <div className="text-destructive text-sm md:col-span-3">{state.error}</div>
+          )}
+
+          <div className="flex gap-2 md:col-span-3">
+            <Button type="submit" className="bg-purple-600 hover:bg-purple-700" disabled={pending}>
+              {pending ? (
+                <>
+                  <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                  Saving...
+                </>
+              ) : isEditing ? (
+                'Save Changes'
+              ) : (
+                'Add Goal'
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={onDone} disabled={pending}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import FinancialGoalForm from './financial-goal-form';
+import { ActionState } from '@/lib/auth/middleware';
+import { deleteFinancialGoal } from '@/app/financial-tracking/actions';
+import type { FinancialGoalWithFunding } from '@/services/financial-goal-service';
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error('Failed to load financial goals');
+    return res.json();
+  });
+
+function formatCurrency(amount: string | number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(Number(amount));
+}
+
+function GoalLine({ label, amount }: { label: string; amount: string | number }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span>{formatCurrency(amount)}</span>
+    </div>
+  );
+}
+
+export default function FinancialGoalsManager() {
+  const { data, error, isLoading, mutate } = useSWR<FinancialGoalWithFunding[]>(
+    '/api/financial-goals',
+    fetcher
+  );
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deleteError, setDeleteError] = useState('');
+
+  const closeAddForm = useCallback(() => setIsAdding(false), []);
+  const closeEditForm = useCallback(() => setEditingId(null), []);
+
+  async function handleDelete(goal: FinancialGoalWithFunding) {
+    if (!window.confirm(`Delete the ${goal.academicYear} financial goal?`)) {
+      return;
+    }
+    setDeleteError('');
+    const formData = new FormData();
+    formData.append('id', String(goal.id));
+    const result: ActionState = await deleteFinancialGoal({ error: '' }, formData);
+    if (result?.error) {
+      setDeleteError(result.error);
+      return;
+    }
+    mutate();
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-2xl font-semibold">Financial Goals</h2>
+        {!isAdding && (
+          <Button className="bg-purple-600 hover:bg-purple-700" onClick={() => setIsAdding(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Financial Goal
+          </Button>
+        )}
+      </div>
+
+      {isAdding && <FinancialGoalForm onDone={closeAddForm} />}
+
+      {isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">Sign in to plan your education costs.</p>}
+
+      {deleteError && <p className="text-sm text-destructive">{deleteError}</p>}
+
+      {data && data.length === 0 && !isAdding && (
+        <p className="text-sm text-muted-foreground">
+          No financial goals yet. Add one for each academic year to see your funding gap.
+        </p>
+      )}
+
+      {data && data.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {data.map((goal) =>
+            editingId === goal.id ? (
+              <FinancialGoalForm key={goal.id} goal={goal} onDone={closeEditForm} />
+            ) : (
+              <Card key={goal.id} className="border-2">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">
+                        {goal.academicYear}–{goal.academicYear + 1}
+                      </CardTitle>
+                      <CardDescription>
+                        {goal.fundingGap === 0
+                          ? 'Fully funded'
+                          : `${formatCurrency(goal.fundingGap)} funding gap`}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit goal"
+                        onClick={() => setEditingId(goal.id)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Delete goal"
+                        className="hover:text-destructive"
+                        onClick={() => handleDelete(goal)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="h-2 rounded-full bg-gray-200">
+                    <div
+                      className="h-2 rounded-full bg-purple-600"
+                      style={{ width: `${goal.funding.percentFunded}%` }}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <GoalLine label="Total cost" amount={goal.totalEducationCost} />
+                    <GoalLine label="Savings" amount={goal.currentSavings} />
+                    <GoalLine label="Family contribution" amount={goal.expectedFamilyContribution} />
+                    <GoalLine label="Scholarships awarded" amount={goal.scholarshipsAwarded} />
+                    <GoalLine label="Scholarships pending" amount={goal.scholarshipsPending} />
+                  </div>
+                  {goal.funding.pending > 0 && goal.fundingGap > 0 && (
+                    <p className="text-muted-foreground">
+                      If every pending scholarship is awarded, the gap drops to{' '}
+                      {formatCurrency(goal.funding.gapIfPendingAwarded)}.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import Link from 'next/link';
 import { useState, Suspense, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { GraduationCap, LogOut, User as UserIcon, Bug, Loader2 } from 'lucide-react';
+import { GraduationCap, LogOut, User as UserIcon, Bug, Loader2, Users, Link2, Home, ShieldCheck } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +17,7 @@ import { useRouter } from 'next/navigation';
 import { User } from '@/lib/db/schema';
 import useSWR, { mutate } from 'swr';
 import ThemeControls from './theme-controls';
+import NotificationCenter from './notification-center';
 import { siteConfig } from '@/lib/config';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
@@ -99,10 +100,12 @@ function UserMenu() {
     );
   }
 
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
   // BugX: Fixed avatar fallback logic
   const getInitials = (user: User) => {
-    if (user.name) {
-      return user.name
+    if (displayName) {
+      return displayName
         .split(' ')
         .filter((n: string) => n.length > 0)
         .map((n: string) => n[0])
@@ -118,7 +121,7 @@ function UserMenu() {
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" className="relative h-9 w-9 rounded-full p-0" aria-label="User menu">
           <Avatar className="h-9 w-9">
-            <AvatarImage alt={user.name || user.email || 'User'} />
+            <AvatarImage alt={displayName || user.email || 'User'} />
             <AvatarFallback className="text-sm font-medium">
               {getInitials(user)}
             </AvatarFallback>
@@ -129,10 +132,39 @@ function UserMenu() {
         <div className="px-2 py-1.5 text-sm font-medium text-foreground">
           <div className="flex items-center">
             <UserIcon className="mr-2 h-4 w-4" />
-            <span className="truncate">{user.name || user.email}</span>
+            <span className="truncate">{displayName || user.email}</span>
           </div>
         </div>
         <DropdownMenuSeparator />
+        {user.role === 'counselor' && (
+          <DropdownMenuItem asChild className="cursor-pointer">
+            <Link href="/caseload">
+              <Users className="mr-2 h-4 w-4" />
+              <span>Caseload</span>
+            </Link>
+          </DropdownMenuItem>
+        )}
+        {user.role === 'parent' && (
+          <DropdownMenuItem asChild className="cursor-pointer">
+            <Link href="/family">
+              <Home className="mr-2 h-4 w-4" />
+              <span>Family</span>
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/profile-settings/connections">
+            <Link2 className="mr-2 h-4 w-4" />
+            <span>Connections</span>
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/profile-settings/security">
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            <span>Security</span>
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
         <DropdownMenuItem
           onClick={handleSignOut}
           disabled={isSigningOut}
@@ -176,6 +208,7 @@ export default function Header() {
             </a>
           </Button>
           <ThemeControls />
+          <NotificationCenter />
           <Suspense fallback={<div className="h-9 w-9 bg-muted rounded-full animate-pulse" />}>
             <UserMenu />
           </Suspense>
@@ -166,7 +166,7 @@ export function JoinSTPRegistration({ onSubmit, isSubmitting = false }: JoinSTPR
                     placeholder="Enter your student's email address"
                   />
                   <p className="text-sm text-gray-500 mt-1">
-                    You can link to your student's account later if you prefer.
+                    We'll ask your student to approve the link. You can also send a request later from Profile &amp; Settings.
                   </p>
                 </div>
               </>
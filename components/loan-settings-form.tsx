@@ -0,0 +1,82 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { selectClassName } from '@/components/scholarship-form';
+import { REPAYMENT_PLANS, REPAYMENT_PLAN_LABELS } from '@/lib/engines/loan-simulator';
+import type { LoanProjectionQuery } from '@/lib/validation/loan-schemas';
+
+// Plain GET form so the assumptions live in the URL and the page stays server rendered
+export default function LoanSettingsForm({ query }: { query: LoanProjectionQuery }) {
+  return (
+    <form method="get" className="grid grid-cols-1 gap-3 sm:grid-cols-3 lg:grid-cols-7 lg:items-end">
+      <div className="space-y-2 lg:col-span-2">
+        <Label htmlFor="plan">Repayment plan</Label>
+        <select id="plan" name="plan" defaultValue={query.plan} className={selectClassName}>
+          {REPAYMENT_PLANS.map((plan) => (
+            <option key={plan} value={plan}>
+              {REPAYMENT_PLAN_LABELS[plan]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="subsidizedRate">Subsidized rate (%)</Label>
+        <Input
+          id="subsidizedRate"
+          name="subsidizedRate"
+          type="number"
+          min={0}
+          max={30}
+          step="0.01"
+          defaultValue={query.subsidizedRate}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="unsubsidizedRate">Unsubsidized rate (%)</Label>
+        <Input
+          id="unsubsidizedRate"
+          name="unsubsidizedRate"
+          type="number"
+          min={0}
+          max={30}
+          step="0.01"
+          defaultValue={query.unsubsidizedRate}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="privateRate">Private rate (%)</Label>
+        <Input
+          id="privateRate"
+          name="privateRate"
+          type="number"
+          min={0}
+          max={30}
+          step="0.01"
+          defaultValue={query.privateRate}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="graceMonths">Grace (months)</Label>
+        <Input id="graceMonths" name="graceMonths" type="number" min={0} max={36} defaultValue={query.graceMonths} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="annualIncome">Starting salary</Label>
+        <Input
+          id="annualIncome"
+          name="annualIncome"
+          type="number"
+          min={0}
+          step="1000"
+          defaultValue={query.annualIncome}
+        />
+      </div>
+      <div className="lg:col-span-7">
+        <Button type="submit" variant="outline">
+          Update projection
+        </Button>
+      </div>
+    </form>
+  );
+}
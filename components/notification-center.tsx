@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import useSWR from 'swr';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator,
+  DropdownMenuLabel
+} from '@/components/ui/dropdown-menu';
+import type { Notification } from '@/lib/db/schema';
+
+type NotificationFeed = {
+  notifications: Notification[];
+  unreadCount: number;
+};
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error('Failed to load notifications');
+    return res.json();
+  });
+
+function formatRelative(value: string | Date) {
+  const days = Math.floor((Date.now() - new Date(value).getTime()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return `${days} days ago`;
+}
+
+export default function NotificationCenter() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data, error, mutate } = useSWR<NotificationFeed>('/api/notifications', fetcher, {
+    revalidateOnFocus: false,
+    refreshInterval: 5 * 60 * 1000
+  });
+
+  // Signed-out visitors and demo mode have no notification feed
+  if (error || !data) {
+    return null;
+  }
+
+  async function markRead(id?: number) {
+    const updated = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(id ? { id } : {})
+    }).then((res) => res.json());
+    mutate(updated, false);
+  }
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-9 w-9 rounded-full"
+          aria-label={`Notifications (${data.unreadCount} unread)`}
+        >
+          <Bell className="h-4 w-4" />
+          {data.unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+              {data.unreadCount > 9 ? '9+' : data.unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {data.unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markRead()}>
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {data.notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          data.notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              asChild
+              className="cursor-pointer"
+              onSelect={() => {
+                if (!notification.readAt) markRead(notification.id);
+              }}
+            >
+              <Link href={notification.link ?? '#'} className="flex items-start gap-2">
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.readAt ? 'bg-transparent' : 'bg-blue-600'}`}
+                />
+                <span className="flex flex-col">
+                  <span className="text-sm font-medium">{notification.title}</span>
+                  <span className="text-xs text-muted-foreground">{notification.message}</span>
+                  <span className="text-xs text-muted-foreground">{formatRelative(notification.scheduledFor)}</span>
+                </span>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/profile-settings/preferences" className="text-xs text-muted-foreground">
+            Notification preferences
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
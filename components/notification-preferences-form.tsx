@@ -0,0 +1,99 @@
+'use client';
+
+import { useActionState } from 'react';
+import { mutate } from 'swr';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { updateNotificationPreferences } from '@/app/profile-settings/actions';
+import type { NotificationPreferences } from '@/services/deadline-reminder-service';
+
+const toggles: Array<{ name: 'deadlineReminders' | 'statusUpdates' | 'newScholarships'; label: string; description: string }> = [
+  {
+    name: 'deadlineReminders',
+    label: 'Deadline reminders',
+    description: 'Remind me before scholarship deadlines at the offsets below'
+  },
+  {
+    name: 'statusUpdates',
+    label: 'Status updates',
+    description: 'Notify me when an application status changes'
+  },
+  {
+    name: 'newScholarships',
+    label: 'New scholarships',
+    description: 'Notify me about newly added scholarships that match my profile'
+  }
+];
+
+export default function NotificationPreferencesForm({
+  preferences
+}: {
+  preferences: NotificationPreferences;
+}) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    async (prevState, formData) => {
+      const result: ActionState = await updateNotificationPreferences(prevState, formData);
+      if (result?.success) {
+        // Offsets may have changed which reminders are due
+        mutate('/api/notifications');
+      }
+      return result;
+    },
+    { error: '' }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choose which notifications appear in your notification center</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="space-y-4">
+          {toggles.map((toggle) => (
+            <label key={toggle.name} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                name={toggle.name}
+                defaultChecked={preferences[toggle.name]}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium">{toggle.label}</span>
+                <span className="block text-xs text-muted-foreground">{toggle.description}</span>
+              </span>
+            </label>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="reminderOffsetDays">Reminder schedule (days before deadline)</Label>
+            <Input
+              id="reminderOffsetDays"
+              name="reminderOffsetDays"
+              defaultValue={(preferences.reminderOffsetDays ?? []).join(', ')}
+              placeholder="30, 14, 7, 1"
+            />
+          </div>
+
+          {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+          {state?.success && <div className="text-green-600 text-sm">{state.success}</div>}
+
+          <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Saving...
+              </>
+            ) : (
+              'Save Preferences'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
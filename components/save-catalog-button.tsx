@@ -0,0 +1,43 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Check, Loader2, Plus } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { saveCatalogScholarship } from '@/app/scholarship-management/actions';
+
+export default function SaveCatalogButton({ catalogId, saved }: { catalogId: number; saved: boolean }) {
+  const router = useRouter();
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    async (prevState, formData) => {
+      const result: ActionState = await saveCatalogScholarship(prevState, formData);
+      if (result?.success) {
+        router.refresh();
+      }
+      return result;
+    },
+    { error: '' }
+  );
+
+  if (saved) {
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <a href="/scholarship-management/tracking">
+          <Check className="mr-2 h-4 w-4" />
+          In your tracker
+        </a>
+      </Button>
+    );
+  }
+
+  return (
+    <form action={formAction} className="flex items-center gap-2">
+      <input type="hidden" name="catalogId" value={catalogId} />
+      <Button type="submit" size="sm" className="bg-blue-600 hover:bg-blue-700" disabled={pending}>
+        {pending ? <Loader2 className="animate-spin h-4 w-4" /> : <><Plus className="mr-2 h-4 w-4" />Save</>}
+      </Button>
+      {state?.error && <span className="text-destructive text-sm">{state.error}</span>}
+    </form>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useActionState, useEffect } from 'react';
+import { mutate } from 'swr';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import {
+  createScholarship,
+  createScholarshipForStudent,
+  updateScholarship
+} from '@/app/scholarship-management/actions';
+import { SCHOLARSHIP_CATEGORIES } from '@/lib/validation/scholarship-schemas';
+import {
+  APPLICATION_STATUS_LABELS,
+  INITIAL_APPLICATION_STATUSES
+} from '@/lib/engines/application-status-machine';
+import type { Scholarship } from '@/lib/db/schema';
+
+export const selectClassName =
+  'w-full h-9 px-3 py-1 border border-input rounded-md bg-background text-foreground text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-primary/50';
+
+interface ScholarshipFormProps {
+  scholarship?: Scholarship;
+  // Adds to a connected student's tracker instead of the user's own
+  studentId?: number;
+  onDone: () => void;
+}
+
+export default function ScholarshipForm({ scholarship, studentId, onDone }: ScholarshipFormProps) {
+  const isEditing = !!scholarship;
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    isEditing ? updateScholarship : studentId ? createScholarshipForStudent : createScholarship,
+    { error: '' }
+  );
+
+  useEffect(() => {
+    if (state?.success) {
+      mutate('/api/scholarships');
+      onDone();
+    }
+  }, [state, onDone]);
+
+  return (
+    <Card className="border-2 border-blue-200">
+      <CardHeader>
+        <CardTitle>{isEditing ? 'Edit Scholarship' : 'Add Scholarship'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form action={formAction} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {isEditing && <input type="hidden" name="id" value={scholarship.id} />}
+          {!isEditing && studentId && <input type="hidden" name="studentId" value={studentId} />}
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="title">Title</Label>
+            <Input id="title" name="title" required maxLength={300} defaultValue={scholarship?.title} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="provider">Provider</Label>
+            <Input id="provider" name="provider" required maxLength={200} defaultValue={scholarship?.provider} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="amount">Amount ($)</Label>
+            <Input
+              id="amount"
+              name="amount"
+              type="number"
+              min="1"
+              step="0.01"
+              required
+              defaultValue={scholarship?.amount}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deadline">Deadline</Label>
+            <Input id="deadline" name="deadline" type="date" required defaultValue={scholarship?.deadline} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category">Category</Label>
+            <select
+              id="category"
+              name="category"
+              className={selectClassName}
+              defaultValue={scholarship?.category ?? 'Merit'}
+            >
+              {SCHOLARSHIP_CATEGORIES.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Existing applications change status through the tracker's transition controls */}
+          {!isEditing && (
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <select id="status" name="status" className={selectClassName} defaultValue="not_started">
+                {INITIAL_APPLICATION_STATUSES.map((status) => (
+                  <option key={status} value={status}>{APPLICATION_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="applicationUrl">Application URL</Label>
+            <Input
+              id="applicationUrl"
+              name="applicationUrl"
+              type="url"
+              placeholder="https://"
+              defaultValue={scholarship?.applicationUrl ?? ''}
+            />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea id="description" name="description" defaultValue={scholarship?.description ?? ''} />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea id="notes" name="notes" defaultValue={scholarship?.notes ?? ''} />
+          </div>
+
+          {state?.error && (
+            <div className="text-destructive text-sm md:col-span-2">{state.error}</div>
+          )}
+
+          <div className="flex gap-2 md:col-span-2">
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={pending}>
+              {pending ? (
+                <>
+                  <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                  Saving...
+                </>
+              ) : isEditing ? (
+                'Save Changes'
+              ) : (
+                'Add Scholarship'
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={onDone} disabled={pending}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import useSWR from 'swr';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Calendar, DollarSign, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import ScholarshipForm, { selectClassName } from './scholarship-form';
+import ApplicationStatusControls, { ApplicationStatusBadge } from './application-status-controls';
+import { ActionState } from '@/lib/auth/middleware';
+import { runAction } from '@/lib/auth/run-action';
+import {
+  deleteScholarship,
+  createRequirement,
+  updateRequirement,
+  deleteRequirement
+} from '@/app/scholarship-management/actions';
+import { REQUIREMENT_TYPES } from '@/lib/validation/scholarship-schemas';
+import { groupRequirementsByType } from '@/lib/engines/requirement-checklist';
+import type { ScholarshipWithRequirements } from '@/lib/db/queries';
+
+const fetcher = (url: string) =>
+  fetch(url).then((res) => {
+    if (!res.ok) throw new Error('Failed to load scholarships');
+    return res.json();
+  });
+
+function formatCurrency(amount: string | number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(Number(amount));
+}
+
+function RequirementList({
+  scholarship,
+  onChange
+}: {
+  scholarship: ScholarshipWithRequirements;
+  onChange: () => void;
+}) {
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<string>(REQUIREMENT_TYPES[0]);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  async function perform(
+    action: (prevState: ActionState, formData: FormData) => Promise<ActionState>,
+    fields: Record<string, string | number | boolean>
+  ) {
+    setBusy(true);
+    setError('');
+    try {
+      const result = await runAction(action, fields);
+      if (result?.error) {
+        setError(result.error);
+        return false;
+      }
+      onChange();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!label.trim()) return;
+    const added = await perform(createRequirement, { scholarshipId: scholarship.id, label, type });
+    if (added) setLabel('');
+  }
+
+  const groups = groupRequirementsByType(scholarship.requirements).filter(
+    (group) => group.total > 0
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Requirements</p>
+        {scholarship.completionText && (
+          <span className="text-xs text-muted-foreground">{scholarship.completionText}</span>
+        )}
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-100">
+        <div
+          className="h-2 rounded-full bg-blue-600 transition-all"
+          style={{ width: `${scholarship.completion}%` }}
+        />
+      </div>
+      {groups.length === 0 && (
+        <p className="text-sm text-muted-foreground">No requirements added yet.</p>
+      )}
+      {groups.map((group) => (
+        <div key={group.type} className="space-y-1">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {group.label} ({group.completed}/{group.total})
+          </p>
+          <ul className="space-y-1">
+            {group.items.map((requirement) => (
+              <li key={requirement.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={requirement.isCompleted}
+                  disabled={busy}
+                  onChange={(e) =>
+                    perform(updateRequirement, { id: requirement.id, isCompleted: e.target.checked })
+                  }
+                  aria-label={`Mark ${requirement.label} as completed`}
+                />
+                <span className={requirement.isCompleted ? 'line-through text-muted-foreground' : ''}>
+                  {requirement.label}
+                </span>
+                {!requirement.isRequired && <Badge variant="secondary">Optional</Badge>}
+                <button
+                  type="button"
+                  className="ml-auto text-muted-foreground hover:text-destructive"
+                  disabled={busy}
+                  onClick={() => perform(deleteRequirement, { id: requirement.id })}
+                  aria-label={`Remove ${requirement.label}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Add a requirement"
+          maxLength={300}
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+          className={`${selectClassName} w-36 capitalize`}
+          aria-label="Requirement type"
+        >
+          {REQUIREMENT_TYPES.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <Button type="submit" variant="outline" size="icon" disabled={busy} aria-label="Add requirement">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+      {error && <div className="text-destructive text-sm">{error}</div>}
+    </div>
+  );
+}
+
+export default function ScholarshipTracker() {
+  const { data, error, isLoading, mutate } = useSWR<ScholarshipWithRequirements[]>(
+    '/api/scholarships',
+    fetcher
+  );
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deleteError, setDeleteError] = useState('');
+
+  const closeAddForm = useCallback(() => setIsAdding(false), []);
+  const closeEditForm = useCallback(() => setEditingId(null), []);
+  const refresh = useCallback(() => {
+    mutate();
+  }, [mutate]);
+
+  async function handleDelete(scholarship: ScholarshipWithRequirements) {
+    if (!window.confirm(`Delete "${scholarship.title}"? This also removes its requirements.`)) {
+      return;
+    }
+    setDeleteError('');
+    const result = await runAction(deleteScholarship, { id: scholarship.id });
+    if (result?.error) {
+      setDeleteError(result.error);
+      return;
+    }
+    mutate();
+  }
+
+  return (
+    <div className="space-y-6">
+      {!isAdding && (
+        <Button className="bg-blue-600 hover:bg-blue-700" onClick={() => setIsAdding(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Scholarship
+        </Button>
+      )}
+
+      {isAdding && <ScholarshipForm onDone={closeAddForm} />}
+
+      {isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive">Sign in to track your scholarships.</p>
+      )}
+
+      {deleteError && <p className="text-sm text-destructive">{deleteError}</p>}
+
+      {data && data.length === 0 && !isAdding && (
+        <p className="text-sm text-muted-foreground">
+          You are not tracking any scholarships yet. Add one to get started.
+        </p>
+      )}
+
+      {data && data.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {data.map((scholarship) =>
+            editingId === scholarship.id ? (
+              <ScholarshipForm
+                key={scholarship.id}
+                scholarship={scholarship}
+                onDone={closeEditForm}
+              />
+            ) : (
+              <Card key={scholarship.id} className="border-2">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">{scholarship.title}</CardTitle>
+                      <CardDescription>{scholarship.provider}</CardDescription>
+                    </div>
+                    <ApplicationStatusBadge status={scholarship.status} />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <DollarSign className="h-4 w-4" />
+                      {formatCurrency(scholarship.amount)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-4 w-4" />
+                      {scholarship.deadline}
+                    </span>
+                    <Badge variant="outline">{scholarship.category}</Badge>
+                  </div>
+
+                  <ApplicationStatusControls scholarship={scholarship} onChange={refresh} />
+
+                  <RequirementList scholarship={scholarship} onChange={refresh} />
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditingId(scholarship.id)}>
+                      <Pencil className="mr-1 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="hover:text-destructive"
+                      onClick={() => handleDelete(scholarship)}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+
+type Action = (prevState: ActionState, formData: FormData) => Promise<ActionState>;
+
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <ul className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground">
+        Save these somewhere safe; they won&apos;t be shown again. Each code signs you in once if you lose
+        your phone.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Scan a QR code, confirm with the first code, then show the recovery codes.
+ * Used from security settings and from the sign-in step when an institution
+ * requires 2FA; `done` is rendered under the recovery codes.
+ */
+export default function TwoFactorEnrollment({
+  begin,
+  confirm,
+  done
+}: {
+  begin: Action;
+  confirm: Action;
+  done: React.ReactNode;
+}) {
+  const [started, beginAction, beginning] = useActionState<ActionState, FormData>(begin, { error: '' });
+  const [confirmed, confirmAction, confirming] = useActionState<ActionState, FormData>(confirm, { error: '' });
+
+  const recoveryCodes: string[] | undefined = confirmed?.recoveryCodes;
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <div className="text-green-600 text-sm">{confirmed.success}</div>
+        <RecoveryCodeList codes={recoveryCodes} />
+        {done}
+      </div>
+    );
+  }
+
+  const enrollment: { secret: string; qrCodeDataUrl: string } | undefined = started?.enrollment;
+  if (!enrollment) {
+    return (
+      <form action={beginAction} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Use an authenticator app such as Google Authenticator, 1Password or Authy to get a code each
+          time you sign in.
+        </p>
+        {started?.error && <div className="text-destructive text-sm">{started.error}</div>}
+        <Button type="submit" disabled={beginning}>
+          {beginning ? <Loader2 className="animate-spin h-4 w-4" /> : 'Set up authenticator app'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Scan this QR code with your authenticator app.</p>
+      <img
+        src={enrollment.qrCodeDataUrl}
+        alt="QR code for your authenticator app"
+        width={200}
+        height={200}
+        className="rounded-md border bg-white"
+      />
+      <div className="space-y-1">
+        <Label htmlFor="twoFactorSecret">Can&apos;t scan it? Enter this key instead</Label>
+        <Input
+          id="twoFactorSecret"
+          value={enrollment.secret}
+          readOnly
+          className="font-mono"
+          onFocus={(event) => event.target.select()}
+        />
+      </div>
+
+      <form action={confirmAction} className="space-y-2">
+        <Label htmlFor="twoFactorCode">Code from the app</Label>
+        <div className="flex gap-2">
+          <Input
+            id="twoFactorCode"
+            name="code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            required
+            maxLength={20}
+            placeholder="123456"
+          />
+          <Button type="submit" disabled={confirming}>
+            {confirming ? <Loader2 className="animate-spin h-4 w-4" /> : 'Turn on'}
+          </Button>
+        </div>
+        {confirmed?.error && <div className="text-destructive text-sm">{confirmed.error}</div>}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import TwoFactorEnrollment, { RecoveryCodeList } from '@/components/two-factor-enrollment';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '@/app/profile-settings/actions';
+
+export interface TwoFactorSummary {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export default function TwoFactorSettings({ status }: { status: TwoFactorSummary }) {
+  const router = useRouter();
+  const refreshOnSuccess =
+    (action: (prevState: ActionState, formData: FormData) => Promise<ActionState>) =>
+    async (prevState: ActionState, formData: FormData) => {
+      const result: ActionState = await action(prevState, formData);
+      if (result?.success) {
+        router.refresh();
+      }
+      return result;
+    };
+
+  const [regenerated, regenerateAction, regenerating] = useActionState<ActionState, FormData>(
+    regenerateRecoveryCodes,
+    { error: '' }
+  );
+  const [disabled, disableAction, disabling] = useActionState<ActionState, FormData>(
+    refreshOnSuccess(disableTwoFactor),
+    { error: '' }
+  );
+
+  const newRecoveryCodes: string[] | undefined = regenerated?.recoveryCodes;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-factor authentication
+          {status.enabled ? (
+            <Badge className="bg-emerald-100 text-emerald-700">On</Badge>
+          ) : (
+            <Badge variant="secondary">Off</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from your phone after your password, so a leaked password alone can&apos;t open
+          your account.
+          {status.required && ' Your institution requires this for counselor accounts.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!status.enabled ? (
+          <TwoFactorEnrollment
+            begin={beginTwoFactorEnrollment}
+            confirm={confirmTwoFactorEnrollment}
+            done={<Button onClick={() => router.refresh()}>Done</Button>}
+          />
+        ) : (
+          <>
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {status.recoveryCodesRemaining} of your recovery codes{' '}
+                {status.recoveryCodesRemaining === 1 ? 'is' : 'are'} unused. Creating new codes replaces
+                all of them.
+              </p>
+              {newRecoveryCodes ? (
+                <>
+                  <div className="text-green-600 text-sm">{regenerated.success}</div>
+                  <RecoveryCodeList codes={newRecoveryCodes} />
+                  <Button variant="outline" onClick={() => router.refresh()}>
+                    Done
+                  </Button>
+                </>
+              ) : (
+                <form action={regenerateAction} className="space-y-2">
+                  <Label htmlFor="regeneratePassword">Current password</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="regeneratePassword"
+                      name="password"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      minLength={8}
+                      maxLength={100}
+                    />
+                    <Button type="submit" variant="outline" disabled={regenerating}>
+                      {regenerating ? <Loader2 className="animate-spin h-4 w-4" /> : 'New recovery codes'}
+                    </Button>
+                  </div>
+                  {regenerated?.error && <div className="text-destructive text-sm">{regenerated.error}</div>}
+                </form>
+              )}
+            </div>
+
+            {!status.required && (
+              <form action={disableAction} className="space-y-2 border-t pt-6">
+                <Label htmlFor="disablePassword">Turn off two-factor authentication</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="disablePassword"
+                    name="password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    minLength={8}
+                    maxLength={100}
+                    placeholder="Current password"
+                  />
+                  <Button type="submit" variant="destructive" disabled={disabling}>
+                    {disabling ? <Loader2 className="animate-spin h-4 w-4" /> : 'Turn off'}
+                  </Button>
+                </div>
+                {disabled?.error && <div className="text-destructive text-sm">{disabled.error}</div>}
+              </form>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { ActionState } from '@/lib/auth/middleware';
+import { updateWorkPlanPreferences } from '@/app/profile-settings/actions';
+import { WORK_PLAN_CONFIG } from '@/config/spider-web-config';
+
+export default function WeeklyHoursForm({ weeklyHours }: { weeklyHours: number }) {
+  const router = useRouter();
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    async (prevState, formData) => {
+      const result: ActionState = await updateWorkPlanPreferences(prevState, formData);
+      if (result?.success) {
+        // The plan is rendered on the server from the saved hours
+        router.refresh();
+      }
+      return result;
+    },
+    { error: '' }
+  );
+
+  return (
+    <form action={formAction} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+      <div className="space-y-2">
+        <Label htmlFor="weeklyHours">Hours per week for applications</Label>
+        <Input
+          id="weeklyHours"
+          name="weeklyHours"
+          type="number"
+          min={1}
+          max={WORK_PLAN_CONFIG.maxWeeklyHours}
+          step="0.5"
+          defaultValue={weeklyHours}
+          required
+        />
+      </div>
+      <Button type="submit" variant="outline" disabled={pending}>
+        {pending ? <Loader2 className="animate-spin h-4 w-4" /> : 'Update plan'}
+      </Button>
+      {state?.error && <div className="text-destructive text-sm">{state.error}</div>}
+    </form>
+  );
+}
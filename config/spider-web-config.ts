@@ -1,4 +1,10 @@
-import { SpiderWebDesignSystem, SpiderWebSpoke, ScoringWeights, AntiPattern } from '@/types/spider-web';
+import {
+  SpiderWebDesignSystem,
+  SpiderWebSpoke,
+  ScoringWeights,
+  AntiPattern,
+  FinancialAssumptions
+} from '@/types/spider-web';
 
 /**
  * Core configuration for Scholarship Tracker Pro v2 Spider Web Architecture
@@ -94,14 +100,14 @@ export const SPIDER_WEB_SPOKES: SpiderWebSpoke[] = [
         title: 'Smart Discovery',
         description: 'AI-powered scholarship discovery based on your profile',
         path: '/scholarship-management/discovery',
-        isImplemented: false,
+        isImplemented: true,
       },
       {
         id: 'tracking',
         title: 'Application Tracking',
         description: 'Track application status, deadlines, and requirements',
         path: '/scholarship-management/tracking',
-        isImplemented: false,
+        isImplemented: true,
       },
       {
         id: 'matching',
@@ -115,7 +121,7 @@ export const SPIDER_WEB_SPOKES: SpiderWebSpoke[] = [
         title: 'Deadline Management',
         description: 'Never miss a scholarship deadline with smart reminders',
         path: '/scholarship-management/deadlines',
-        isImplemented: false,
+        isImplemented: true,
       },
     ],
   },
@@ -155,7 +161,7 @@ export const SPIDER_WEB_SPOKES: SpiderWebSpoke[] = [
         title: 'Cost Analysis',
         description: 'Analyze the true cost of education and funding gaps',
         path: '/financial-tracking/cost-analysis',
-        isImplemented: false,
+        isImplemented: true,
       },
     ],
   },
@@ -221,7 +227,28 @@ export const SPIDER_WEB_SPOKES: SpiderWebSpoke[] = [
         title: 'Preferences',
         description: 'Configure your notification and application preferences',
         path: '/profile-settings/preferences',
-        isImplemented: false,
+        isImplemented: true,
+      },
+      {
+        id: 'connections',
+        title: 'Connections',
+        description: 'Approve parents and counselors and choose what they can see',
+        path: '/profile-settings/connections',
+        isImplemented: true,
+      },
+      {
+        id: 'financial-assumptions',
+        title: 'Financial Assumptions',
+        description: 'Adjust the rates and values behind budget impact and ROI estimates',
+        path: '/profile-settings/assumptions',
+        isImplemented: true,
+      },
+      {
+        id: 'calendar-feed',
+        title: 'Calendar Feed',
+        description: 'Subscribe to your deadlines, reminders and work plan in any calendar app',
+        path: '/profile-settings/calendar',
+        isImplemented: true,
       },
       {
         id: 'data-export',
@@ -233,9 +260,9 @@ export const SPIDER_WEB_SPOKES: SpiderWebSpoke[] = [
       {
         id: 'security',
         title: 'Security Settings',
-        description: 'Manage your account security and privacy settings',
+        description: 'Set up two-factor sign-in and sign out devices remotely',
         path: '/profile-settings/security',
-        isImplemented: false,
+        isImplemented: true,
       },
     ],
   },
@@ -251,6 +278,177 @@ export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
   essays: 0.10,     // 10% - Essay quality and relevance
 };
 
+// Eligibility Pre-screening Configuration
+export const ELIGIBILITY_CONFIG = {
+  // A major requirement naming a field matches any of these majors
+  majorGroups: {
+    stem: ['computer science', 'engineering', 'mathematics', 'physics', 'chemistry', 'biology', 'statistics', 'data science', 'information technology'],
+    technology: ['computer science', 'computer engineering', 'information technology', 'software', 'data science', 'cybersecurity'],
+    healthcare: ['medicine', 'nursing', 'pre-med', 'public health', 'pharmacy', 'biology', 'health'],
+    business: ['business', 'economics', 'accounting', 'finance', 'marketing', 'management'],
+  } as Record<string, readonly string[]>,
+  // Alternate names for the education levels stored on user profiles
+  educationLevelAliases: {
+    high_school: ['high school', 'secondary'],
+    undergraduate: ['bachelor', 'associate', 'college', 'undergrad'],
+    graduate: ['masters', 'master', 'grad'],
+    doctoral: ['phd', 'doctorate'],
+    post_doctoral: ['postdoc', 'post-doctoral'],
+  } as Record<string, readonly string[]>,
+  // Demographic requirement text naming one of these becomes an ethnicity
+  // rule; other unrecognized text is left out of screening
+  ethnicityTerms: ['hispanic', 'latino', 'latina', 'latinx', 'black', 'african american', 'asian', 'pacific islander', 'native american', 'american indian', 'alaska native', 'native hawaiian', 'indigenous', 'middle eastern'],
+  // Match multiplier change per preference rule met, and per one missed
+  matchBonus: {
+    min_gpa: 0.1,
+    major: 0.15,
+    education_level: 0.05,
+    demographic: 0.05,
+    gender: 0.05,
+    ethnicity: 0.05,
+    max_family_income: 0.1,
+    max_family_contribution: 0.1,
+    residency: 0.05,
+    graduation_year: 0.05,
+  },
+  missedPreferencePenalty: 0.1,
+} as const;
+
+// Financial Analysis Engine Configuration
+// Institutions and users can override any of these from profile settings
+export const DEFAULT_FINANCIAL_ASSUMPTIONS: FinancialAssumptions = {
+  opportunityCostRate: 0.15, // 15% annual opportunity cost
+  applicationHourValue: 25, // $25/hour value of student time
+  riskAdjustmentFactors: {
+    low: 0.9,
+    medium: 0.7,
+    high: 0.4,
+  },
+  taxFreeThreshold: 20000, // rough estimate of qualified expenses covered; taxed above via SCHOLARSHIP_TAX_CONFIG
+  expectedSalaryIncrease: 5000, // rough estimate per year of education funded
+};
+
+// Portfolio Optimizer Configuration
+export const PORTFOLIO_CONFIG = {
+  // Largest share of the portfolio each risk category may take (rounded up);
+  // safe applications are never limited
+  riskMix: { safe: 0.4, moderate: 0.4, reach: 0.2 },
+  planningWeeks: 4, // the hour budget covers this many weeks of work
+  maxSearchNodes: 200000, // past this the best portfolio found so far is returned
+} as const;
+
+// Work Plan Scheduler Configuration
+export const WORK_PLAN_CONFIG = {
+  defaultWeeklyHours: 10,
+  maxWeeklyHours: 80,
+  horizonWeeks: 26, // deadlines further out are planned within this window
+} as const;
+
+// Deadline Reminder Configuration
+export const DEADLINE_REMINDER_CONFIG = {
+  defaultOffsetDays: [30, 14, 7, 1], // days before a deadline
+  maxOffsetDays: 365,
+  // Applications past these statuses no longer need deadline reminders
+  activeStatuses: ['not_started', 'draft', 'in_progress'],
+} as const;
+
+// Account Security Configuration
+export const ACCOUNT_SECURITY_CONFIG = {
+  passwordResetMinutes: 60,
+  emailVerificationHours: 48,
+  sessionHours: 24, // signed out after this long without activity
+  sessionRefreshMinutes: 60, // how often an active session's cookie is re-issued
+  sessionLastSeenMinutes: 5, // granularity of a device's last-seen time
+  // Failed sign-ins beyond freeAttempts wait backoffBaseSeconds, doubling per
+  // failure; lockoutAfter failures within the window lock the key out
+  signInThrottle: {
+    account: { freeAttempts: 3, lockoutAfter: 10 },
+    ip: { freeAttempts: 10, lockoutAfter: 50 },
+    backoffBaseSeconds: 2,
+    backoffMaxSeconds: 300,
+    lockoutMinutes: 15,
+    failureWindowMinutes: 60,
+  },
+  // Reset links per address and per client IP, and verification links per
+  // account, that can be requested per window
+  passwordResetRequests: {
+    perEmail: 3,
+    perIp: 20,
+    windowMinutes: 60,
+  },
+  verificationEmails: {
+    perUser: 3,
+    windowMinutes: 60,
+  },
+  // Connection requests a parent or counselor can send per window; each
+  // address gets at most one invitation email from them per window
+  connectionRequests: {
+    perRequester: 10,
+    windowMinutes: 24 * 60,
+  },
+  // TOTP (RFC 6238) as shown by authenticator apps
+  twoFactor: {
+    stepSeconds: 30,
+    digits: 6,
+    driftSteps: 1, // codes from the previous or next step are accepted
+    recoveryCodeCount: 10,
+    challengeMinutes: 10, // time to enter a code after the password
+  },
+  // Features withheld from accounts until their email address is verified
+  requireVerifiedEmail: {
+    connections: true, // linking parents and counselors
+    reminderEmails: true, // deadline reminders are still shown in-app
+    parentLookup: true, // found by email when a parent or counselor signs up
+  },
+} as const;
+
+// Student Loan Configuration (2024-25 federal undergraduate terms)
+export const LOAN_CONFIG = {
+  defaultTerms: {
+    federal_subsidized: { annualRate: 0.0653, graceMonths: 6, originationFee: 0.01057 },
+    federal_unsubsidized: { annualRate: 0.0653, graceMonths: 6, originationFee: 0.01057 },
+    private: { annualRate: 0.09, graceMonths: 6, originationFee: 0 },
+  },
+  // Dependent undergraduate limits by year in school (4th year onward repeats the last entry)
+  annualLimits: {
+    subsidized: [3500, 4500, 5500],
+    federalTotal: [5500, 6500, 7500],
+  },
+  // School runs August through May; repayment starts after graduation plus grace
+  disbursementMonth: 8,
+  graduationMonth: 5,
+  standardTermMonths: 120,
+  graduated: {
+    stepMonths: 24,
+    stepRate: 1.2, // each step raises the payment 20%
+  },
+  incomeDriven: {
+    paymentShare: 0.1, // of discretionary income
+    povertyGuideline: 15060,
+    povertyMultiplier: 1.5,
+    incomeGrowthRate: 0.03,
+    forgivenessMonths: 240,
+    defaultStartingIncome: 45000,
+  },
+} as const;
+
+// Scholarship Tax Configuration (2024 federal brackets, single filer)
+export const SCHOLARSHIP_TAX_CONFIG = {
+  // upTo is the top of each bracket's taxable income; null means no limit
+  brackets: [
+    { upTo: 11600, rate: 0.1 },
+    { upTo: 47150, rate: 0.12 },
+    { upTo: 100525, rate: 0.22 },
+    { upTo: 191950, rate: 0.24 },
+    { upTo: 243725, rate: 0.32 },
+    { upTo: 609350, rate: 0.35 },
+    { upTo: null, rate: 0.37 },
+  ],
+  standardDeduction: 14600,
+  // Share of an academic year's awards received in the fall (its first tax year)
+  fallShare: 0.5,
+} as const;
+
 // Performance Targets Configuration
 export const PERFORMANCE_TARGETS = {
   validationTime: 5, // sub-5ms validation performance
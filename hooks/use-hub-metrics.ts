@@ -1,102 +1,46 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { HubMetrics } from '@/types/spider-web';
+import useSWR from 'swr';
+import { EnhancedHubMetrics, MetricsHistory } from '@/types/spider-web';
 
-export interface EnhancedHubMetrics extends HubMetrics {
-  scholarshipsThisMonth: number;
-  applicationsThisWeek: number;
-  avgApplicationTime: number;
-  successTrend: number; // positive/negative percentage change
-  upcomingDeadlines: number;
-  portfolioValue: number;
-  riskScore: number;
-  efficiencyScore: number;
-}
+export type { EnhancedHubMetrics, MetricsHistory } from '@/types/spider-web';
 
-export interface MetricsHistory {
-  date: string;
-  totalScholarships: number;
-  activeApplications: number;
-  completionRate: number;
-  totalAwardAmount: number;
-}
+type MetricsResponse = {
+  metrics: EnhancedHubMetrics;
+  history: MetricsHistory[];
+};
 
-// Simulated data service - in a real app, this would come from API
-const generateMockMetrics = (): EnhancedHubMetrics => {
-  const baseDate = new Date();
-  
+// Signed-out visitors get no metrics rather than an error state
+const fetcher = async (url: string): Promise<MetricsResponse | null> => {
+  const res = await fetch(url);
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error('Failed to fetch metrics');
+
+  const data: MetricsResponse = await res.json();
   return {
-    totalScholarships: 47 + Math.floor(Math.random() * 10),
-    activeApplications: 12 + Math.floor(Math.random() * 5),
-    totalAwardAmount: 85000 + Math.floor(Math.random() * 15000),
-    completionRate: 73 + Math.floor(Math.random() * 10),
-    lastUpdated: baseDate,
-    scholarshipsThisMonth: 8 + Math.floor(Math.random() * 5),
-    applicationsThisWeek: 3 + Math.floor(Math.random() * 3),
-    avgApplicationTime: 4.2 + Math.random() * 2,
-    successTrend: Math.floor(Math.random() * 20) - 10, // -10 to +10
-    upcomingDeadlines: 5 + Math.floor(Math.random() * 8),
-    portfolioValue: 125000 + Math.floor(Math.random() * 25000),
-    riskScore: 35 + Math.floor(Math.random() * 30), // 0-100 scale
-    efficiencyScore: 78 + Math.floor(Math.random() * 15), // 0-100 scale
+    ...data,
+    metrics: { ...data.metrics, lastUpdated: new Date(data.metrics.lastUpdated) }
   };
 };
 
-const generateMockHistory = (days: number = 30): MetricsHistory[] => {
-  const history: MetricsHistory[] = [];
-  const baseMetrics = generateMockMetrics();
-  
-  for (let i = days; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    
-    history.push({
-      date: date.toISOString().split('T')[0],
-      totalScholarships: Math.max(0, baseMetrics.totalScholarships - Math.floor(Math.random() * i * 0.5)),
-      activeApplications: Math.max(0, baseMetrics.activeApplications + Math.floor(Math.random() * 3) - 1),
-      completionRate: Math.max(0, Math.min(100, baseMetrics.completionRate + Math.floor(Math.random() * 10) - 5)),
-      totalAwardAmount: Math.max(0, baseMetrics.totalAwardAmount - Math.floor(Math.random() * i * 100)),
-    });
-  }
-  
-  return history;
-};
-
 export function useHubMetrics(refreshInterval: number = 60000) { // 1 minute default
-  const [metrics, setMetrics] = useState<EnhancedHubMetrics | null>(null);
-  const [metricsHistory, setMetricsHistory] = useState<MetricsHistory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const { data, error: fetchError, isValidating, mutate } = useSWR<MetricsResponse | null>(
+    '/api/metrics',
+    fetcher,
+    { refreshInterval, revalidateOnFocus: false }
+  );
 
-  // Fetch metrics data
-  const fetchMetrics = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, Math.random() * 500 + 200));
-      
-      // In a real application, this would be an API call
-      const newMetrics = generateMockMetrics();
-      const history = generateMockHistory();
-      
-      setMetrics(newMetrics);
-      setMetricsHistory(history);
-      setLastRefresh(new Date());
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch metrics');
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  const metrics = data?.metrics ?? null;
+  const metricsHistory = useMemo(() => data?.history ?? [], [data]);
+  const isLoading = isValidating;
+  const error = fetchError ? (fetchError instanceof Error ? fetchError.message : 'Failed to fetch metrics') : null;
+  const lastRefresh = metrics?.lastUpdated ?? null;
 
   // Refresh metrics manually
   const refreshMetrics = useCallback(() => {
-    fetchMetrics();
-  }, [fetchMetrics]);
+    mutate();
+  }, [mutate]);
 
   /**
    * BugX v1.4 PATTERN TEMPLATE: scope_error
@@ -163,7 +107,7 @@ export function useHubMetrics(refreshInterval: number = 60000) { // 1 minute def
     
     // Calculate trends
     const scholarshipTrend = recentHistory.length > 1 
-      ? ((recentHistory[recentHistory.length - 1].totalScholarships - recentHistory[0].totalScholarships) / recentHistory[0].totalScholarships) * 100
+      ? ((recentHistory[recentHistory.length - 1].totalScholarships - recentHistory[0].totalScholarships) / Math.max(1, recentHistory[0].totalScholarships)) * 100
       : 0;
 
     const applicationTrend = recentHistory.length > 1
@@ -186,17 +130,6 @@ export function useHubMetrics(refreshInterval: number = 60000) { // 1 minute def
     };
   }, [metrics, metricsHistory, calculateEfficiencyScore, calculateRiskLevel]); // BugX: Complete dependency array
 
-  // Set up auto-refresh
-  useEffect(() => {
-    fetchMetrics(); // Initial fetch
-
-    const interval = setInterval(() => {
-      fetchMetrics();
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [fetchMetrics, refreshInterval]);
-
   // Format currency
   const formatCurrency = useCallback((amount: number): string => {
     return new Intl.NumberFormat('en-US', {
@@ -0,0 +1,65 @@
+/**
+ * Connection Permissions
+ * Defaults and checks for what a connected parent or counselor may do
+ * with a student's data. Only flags something in the app enforces belong
+ * here. Stored permissions may be partial or carry retired flags, so every
+ * read goes through resolvePermissions.
+ */
+
+import type { ConnectionPermissions, ConnectionStatus } from '@/lib/db/schema';
+
+export type ConnectionType = 'parent' | 'counselor';
+export type ConnectionPermission = keyof ConnectionPermissions;
+
+export const CONNECTION_PERMISSION_LABELS: Record<ConnectionPermission, string> = {
+  canViewApplications: 'View scholarship applications',
+  canViewFinancialGoals: 'View financial goals',
+  canViewProgress: 'View application progress',
+  canCreateScholarships: 'Add scholarships',
+};
+
+export const CONNECTION_PERMISSIONS = Object.keys(CONNECTION_PERMISSION_LABELS) as ConnectionPermission[];
+
+// Read access follows the modernization guide's parent and counselor
+// connection factories; anything that writes to the student's data starts
+// off until the student turns it on
+export const DEFAULT_CONNECTION_PERMISSIONS: Record<ConnectionType, ConnectionPermissions> = {
+  parent: {
+    canViewApplications: true,
+    canViewFinancialGoals: true,
+    canViewProgress: true,
+    canCreateScholarships: false,
+  },
+  counselor: {
+    canViewApplications: true,
+    canViewFinancialGoals: false, // Privacy protection
+    canViewProgress: true,
+    canCreateScholarships: false,
+  },
+};
+
+export function resolvePermissions(
+  stored: Partial<ConnectionPermissions> | null | undefined,
+  connectionType: string
+): ConnectionPermissions {
+  const defaults = DEFAULT_CONNECTION_PERMISSIONS[connectionType === 'parent' ? 'parent' : 'counselor'];
+  return Object.fromEntries(
+    CONNECTION_PERMISSIONS.map((permission) => [permission, stored?.[permission] ?? defaults[permission]])
+  ) as ConnectionPermissions;
+}
+
+export function hasConnectionPermission(
+  connection: {
+    status: ConnectionStatus;
+    isActive: boolean;
+    connectionType: string;
+    permissions: Partial<ConnectionPermissions> | null;
+  },
+  permission: ConnectionPermission
+): boolean {
+  return (
+    connection.status === 'approved' &&
+    connection.isActive &&
+    resolvePermissions(connection.permissions, connection.connectionType)[permission]
+  );
+}
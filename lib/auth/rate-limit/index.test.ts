@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Only the in-memory store is used here; the Postgres one needs a database
+vi.mock('./stores/postgres', () => ({ PostgresAttemptStore: class {} }));
+
+import { countAttempt, setAttemptStore } from './index';
+import { MemoryAttemptStore } from './stores/memory';
+
+const start = new Date(2026, 0, 1, 12, 0);
+const at = (offsetMinutes: number) => new Date(start.getTime() + offsetMinutes * 60 * 1000);
+
+describe('countAttempt', () => {
+  afterEach(() => setAttemptStore(null));
+
+  it('allows up to the limit within the window and refuses the rest', async () => {
+    setAttemptStore(new MemoryAttemptStore());
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push((await countAttempt('password_reset:a@example.com', 3, 60, at(i))).allowed);
+    }
+
+    expect(results).toEqual([true, true, true, false]);
+  });
+
+  it('keeps keys apart and starts over once the window is quiet', async () => {
+    setAttemptStore(new MemoryAttemptStore());
+    await countAttempt('password_reset:a@example.com', 1, 60, at(0));
+
+    expect((await countAttempt('password_reset:b@example.com', 1, 60, at(1))).allowed).toBe(true);
+    expect((await countAttempt('password_reset:a@example.com', 1, 60, at(2))).allowed).toBe(false);
+    expect(await countAttempt('password_reset:a@example.com', 1, 60, at(90))).toEqual({ allowed: true, count: 1 });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Sign-in Rate Limiting
+ * Failed attempts are counted per account and per client IP in a pluggable
+ * store selected by LOGIN_THROTTLE_STORE:
+ * - postgres: login_throttles table, shared across instances (default)
+ * - memory:   in-process counters for local development
+ * The same store also counts emails users can trigger (connection requests,
+ * password resets, verification links) through countAttempt.
+ */
+
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+import { MemoryAttemptStore } from './stores/memory';
+import { PostgresAttemptStore } from './stores/postgres';
+import type { LoginAttemptStore, ThrottleRecord } from './types';
+
+export type { LoginAttemptStore, ThrottleRecord } from './types';
+
+export type ThrottleScope = 'account' | 'ip';
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterMs: number };
+
+let store: LoginAttemptStore | null = null;
+
+export function getAttemptStore(): LoginAttemptStore {
+  if (store) {
+    return store;
+  }
+
+  const kind = process.env.LOGIN_THROTTLE_STORE ?? (process.env.POSTGRES_URL ? 'postgres' : 'memory');
+  store = kind === 'memory' ? new MemoryAttemptStore() : new PostgresAttemptStore();
+  return store;
+}
+
+// Tests and scripts can swap in their own store
+export function setAttemptStore(custom: LoginAttemptStore | null) {
+  store = custom;
+}
+
+export function throttleKey(scope: ThrottleScope, value: string): string {
+  return `${scope}:${value.trim().toLowerCase()}`;
+}
+
+export function failureWindowStart(now: Date): Date {
+  return new Date(now.getTime() - ACCOUNT_SECURITY_CONFIG.signInThrottle.failureWindowMinutes * 60 * 1000);
+}
+
+/**
+ * Whether another attempt is allowed right now. Past the free attempts,
+ * each failure doubles the wait before the next try.
+ */
+export function evaluateThrottle(
+  record: ThrottleRecord | null,
+  scope: ThrottleScope,
+  now: Date,
+  config = ACCOUNT_SECURITY_CONFIG.signInThrottle
+): ThrottleDecision {
+  if (!record) {
+    return { allowed: true };
+  }
+  if (record.lockedUntil && record.lockedUntil > now) {
+    return { allowed: false, locked: true, retryAfterMs: record.lockedUntil.getTime() - now.getTime() };
+  }
+  if (record.lastFailureAt < failureWindowStart(now)) {
+    return { allowed: true };
+  }
+
+  const excess = record.failures - config[scope].freeAttempts;
+  if (excess <= 0) {
+    return { allowed: true };
+  }
+
+  const delaySeconds = Math.min(config.backoffBaseSeconds * 2 ** (excess - 1), config.backoffMaxSeconds);
+  const retryAt = record.lastFailureAt.getTime() + delaySeconds * 1000;
+  return retryAt > now.getTime()
+    ? { allowed: false, locked: false, retryAfterMs: retryAt - now.getTime() }
+    : { allowed: true };
+}
+
+/**
+ * Count one attempt at a rate-limited action and report whether it is
+ * within `limit` per window. Attempts over the limit still count, so
+ * retrying keeps the key limited until things go quiet.
+ */
+export async function countAttempt(
+  key: string,
+  limit: number,
+  windowMinutes: number,
+  now: Date = new Date()
+): Promise<{ allowed: boolean; count: number }> {
+  const windowStart = new Date(now.getTime() - windowMinutes * 60 * 1000);
+  const { failures } = await getAttemptStore().recordFailure(key, now, windowStart);
+  return { allowed: failures <= limit, count: failures };
+}
+
+// Failure counts at or past the scope's limit lock the key out
+export function shouldLock(
+  failures: number,
+  scope: ThrottleScope,
+  config = ACCOUNT_SECURITY_CONFIG.signInThrottle
+): boolean {
+  return failures >= config[scope].lockoutAfter;
+}
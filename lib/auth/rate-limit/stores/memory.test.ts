@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryAttemptStore } from './memory';
+
+const minutes = (count: number) => count * 60 * 1000;
+const start = new Date(2026, 0, 1, 12, 0);
+const at = (offsetMinutes: number) => new Date(start.getTime() + minutes(offsetMinutes));
+const windowStartFor = (now: Date) => new Date(now.getTime() - minutes(60));
+
+describe('MemoryAttemptStore', () => {
+  it('counts failures within the window and starts over after it', async () => {
+    const store = new MemoryAttemptStore();
+
+    await store.recordFailure('account:a', at(0), windowStartFor(at(0)));
+    const second = await store.recordFailure('account:a', at(5), windowStartFor(at(5)));
+    const later = await store.recordFailure('account:a', at(70), windowStartFor(at(70)));
+
+    expect(second.failures).toBe(2);
+    expect(later.failures).toBe(1);
+  });
+
+  it('keeps an active lockout on new failures', async () => {
+    const store = new MemoryAttemptStore();
+    await store.recordFailure('account:a', at(0), windowStartFor(at(0)));
+    await store.lock('account:a', at(15));
+
+    const record = await store.recordFailure('account:a', at(1), windowStartFor(at(1)));
+
+    expect(record).toEqual({ failures: 2, lastFailureAt: at(1), lockedUntil: at(15) });
+  });
+
+  it('starts the count over once a lockout runs out', async () => {
+    const store = new MemoryAttemptStore();
+    for (let i = 0; i < 10; i++) {
+      await store.recordFailure('account:a', at(0), windowStartFor(at(0)));
+    }
+    await store.lock('account:a', at(15));
+
+    const record = await store.recordFailure('account:a', at(16), windowStartFor(at(16)));
+
+    expect(record).toEqual({ failures: 1, lastFailureAt: at(16), lockedUntil: null });
+  });
+});
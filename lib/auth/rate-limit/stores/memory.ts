@@ -0,0 +1,55 @@
+import type { LoginAttemptStore, ThrottleRecord } from '../types';
+
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * In-process store for local development and single-instance deployments.
+ * Counters are lost on restart and aren't shared between instances.
+ */
+export class MemoryAttemptStore implements LoginAttemptStore {
+  readonly name = 'memory';
+  private records = new Map<string, ThrottleRecord>();
+
+  async get(key: string): Promise<ThrottleRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async recordFailure(key: string, now: Date, windowStart: Date): Promise<ThrottleRecord> {
+    if (this.records.size >= PRUNE_THRESHOLD) {
+      this.prune(now, windowStart);
+    }
+
+    const existing = this.records.get(key);
+    const lockExpired = !!existing?.lockedUntil && existing.lockedUntil <= now;
+    const record: ThrottleRecord =
+      existing && existing.lastFailureAt >= windowStart && !lockExpired
+        ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+        : { failures: 1, lastFailureAt: now, lockedUntil: lockExpired ? null : existing?.lockedUntil ?? null };
+    this.records.set(key, record);
+
+    return { ...record };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const existing = this.records.get(key);
+    this.records.set(key, {
+      failures: existing?.failures ?? 0,
+      lastFailureAt: existing?.lastFailureAt ?? new Date(),
+      lockedUntil: until
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  // Drop keys that no longer affect anything
+  private prune(now: Date, windowStart: Date) {
+    for (const [key, record] of this.records) {
+      if (record.lastFailureAt < windowStart && (!record.lockedUntil || record.lockedUntil <= now)) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
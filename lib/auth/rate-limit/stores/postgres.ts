@@ -0,0 +1,45 @@
+import { eq, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { loginThrottles } from '@/lib/db/schema';
+import type { LoginAttemptStore, ThrottleRecord } from '../types';
+
+/**
+ * Shared store backed by the login_throttles table, so limits hold across
+ * server instances and restarts. Increments are a single upsert.
+ */
+export class PostgresAttemptStore implements LoginAttemptStore {
+  readonly name = 'postgres';
+
+  async get(key: string): Promise<ThrottleRecord | null> {
+    const [row] = await db.select().from(loginThrottles).where(eq(loginThrottles.key, key)).limit(1);
+    return row ? { failures: row.failures, lastFailureAt: row.lastFailureAt, lockedUntil: row.lockedUntil } : null;
+  }
+
+  async recordFailure(key: string, now: Date, windowStart: Date): Promise<ThrottleRecord> {
+    const [row] = await db
+      .insert(loginThrottles)
+      .values({ key, failures: 1, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`case when ${or(lt(loginThrottles.lastFailureAt, windowStart), lte(loginThrottles.lockedUntil, now))} then 1 else ${loginThrottles.failures} + 1 end`,
+          lastFailureAt: now,
+          lockedUntil: sql`case when ${lte(loginThrottles.lockedUntil, now)} then null else ${loginThrottles.lockedUntil} end`
+        }
+      })
+      .returning();
+
+    return { failures: row.failures, lastFailureAt: row.lastFailureAt, lockedUntil: row.lockedUntil };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await db
+      .insert(loginThrottles)
+      .values({ key, lockedUntil: until })
+      .onConflictDoUpdate({ target: loginThrottles.key, set: { lockedUntil: until } });
+  }
+
+  async clear(key: string): Promise<void> {
+    await db.delete(loginThrottles).where(eq(loginThrottles.key, key));
+  }
+}
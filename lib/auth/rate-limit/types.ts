@@ -0,0 +1,16 @@
+export interface ThrottleRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+// Stores count failures per key; the policy decides what they mean
+export interface LoginAttemptStore {
+  readonly name: string;
+  get(key: string): Promise<ThrottleRecord | null>;
+  // Count a failure, starting over when the last one is older than windowStart
+  // or an earlier lockout has run out (which also clears lockedUntil)
+  recordFailure(key: string, now: Date, windowStart: Date): Promise<ThrottleRecord>;
+  lock(key: string, until: Date): Promise<void>;
+  clear(key: string): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { clientIpFromHeaders } from './request';
+
+describe('clientIpFromHeaders', () => {
+  it('takes the entry appended by the trusted proxy, not the client-supplied one', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' });
+
+    expect(clientIpFromHeaders(headers, 1)).toBe('203.0.113.7');
+  });
+
+  it('counts back one entry per trusted proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': 'forged, 203.0.113.7, 10.0.0.2' });
+
+    expect(clientIpFromHeaders(headers, 2)).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP when there are fewer entries than proxies', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '198.51.100.9' });
+
+    expect(clientIpFromHeaders(headers, 2)).toBe('198.51.100.9');
+  });
+
+  it('trusts no headers when the app is reached directly', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '198.51.100.9' });
+
+    expect(clientIpFromHeaders(headers, 0)).toBeUndefined();
+  });
+});
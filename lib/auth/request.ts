@@ -0,0 +1,40 @@
+import { headers } from 'next/headers';
+
+/**
+ * The client IP as seen by our own proxies. Each proxy appends the address
+ * it received the request from to X-Forwarded-For, so only the last
+ * TRUSTED_PROXY_HOPS entries were written by infrastructure we control;
+ * anything before them came from the client and can be forged. Without a
+ * usable forwarded entry the platform's X-Real-IP is used. Next.js doesn't
+ * expose the socket address, so with no trusted proxy there is no IP. The
+ * default is no trusted proxy: trusting a hop that isn't there would take a
+ * client-written entry as the IP.
+ */
+export function clientIpFromHeaders(requestHeaders: Headers, trustedHops: number): string | undefined {
+  if (trustedHops <= 0) {
+    return undefined;
+  }
+
+  const forwarded = (requestHeaders.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip = forwarded.length >= trustedHops ? forwarded[forwarded.length - trustedHops] : undefined;
+
+  return (ip || requestHeaders.get('x-real-ip')?.trim() || undefined)?.slice(0, 45);
+}
+
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 0;
+}
+
+// Client details for audit logs and sign-in throttling
+export async function getRequestContext(): Promise<{ ipAddress?: string; userAgent?: string }> {
+  const requestHeaders = await headers();
+
+  return {
+    ipAddress: clientIpFromHeaders(requestHeaders, trustedProxyHops()),
+    userAgent: requestHeaders.get('user-agent') ?? undefined
+  };
+}
@@ -0,0 +1,11 @@
+import type { ActionState } from '@/lib/auth/middleware';
+
+// Calls a form server action outside useActionState, e.g. from a button click
+export async function runAction(
+  action: (prevState: ActionState, formData: FormData) => Promise<ActionState>,
+  fields: Record<string, string | number | boolean>
+): Promise<ActionState> {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, String(value)));
+  return action({ error: '' }, formData);
+}
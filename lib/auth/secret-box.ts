@@ -0,0 +1,25 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+// Secrets that must be read back (unlike tokens, which are only hashed) are
+// sealed with AES-256-GCM under a key derived from AUTH_SECRET
+
+function key(purpose: string): Buffer {
+  if (!process.env.AUTH_SECRET) {
+    throw new Error('AUTH_SECRET environment variable is required to encrypt secrets');
+  }
+  return createHash('sha256').update(`${purpose}:${process.env.AUTH_SECRET}`).digest();
+}
+
+export function sealSecret(plaintext: string, purpose: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key(purpose), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+export function openSecret(sealed: string, purpose: string): string {
+  const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', key(purpose), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
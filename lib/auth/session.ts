@@ -2,6 +2,7 @@ import { compare, hash } from 'bcryptjs';
 import { SignJWT, jwtVerify } from 'jose';
 import { cookies } from 'next/headers';
 import { NewUser } from '@/lib/db/schema';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
 
 if (!process.env.AUTH_SECRET) {
   throw new Error('AUTH_SECRET environment variable is required for JWT signing');
@@ -23,14 +24,27 @@ export async function comparePasswords(
 
 type SessionData = {
   user: { id: number };
+  sid: string; // user_sessions row backing this cookie
   expires: string;
+  iat?: number; // seconds; kept when the session is refreshed
 };
 
+const SESSION_LIFETIME_MS = ACCOUNT_SECURITY_CONFIG.sessionHours * 60 * 60 * 1000;
+
+export function sessionExpiry(now: number = Date.now()) {
+  return new Date(now + SESSION_LIFETIME_MS);
+}
+
+// Server-side sessions idle since before this are no longer accepted
+export function sessionIdleCutoff(now: Date = new Date()) {
+  return new Date(now.getTime() - SESSION_LIFETIME_MS);
+}
+
 export async function signToken(payload: SessionData) {
   return await new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
-    .setIssuedAt()
-    .setExpirationTime('1 day from now')
+    .setIssuedAt(payload.iat)
+    .setExpirationTime(`${ACCOUNT_SECURITY_CONFIG.sessionHours}h`)
     .sign(key);
 }
 
@@ -47,17 +61,63 @@ export async function getSession() {
   return await verifyToken(session);
 }
 
-export async function setSession(user: NewUser) {
-  const expiresInOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+// Writes the cookie for a session already recorded server-side; sign-in goes
+// through SessionService.start, which creates the record first
+export async function setSession(user: NewUser, sessionId: string) {
+  const expires = sessionExpiry();
   const session: SessionData = {
     user: { id: user.id! },
-    expires: expiresInOneDay.toISOString(),
+    sid: sessionId,
+    expires: expires.toISOString(),
   };
   const encryptedSession = await signToken(session);
   (await cookies()).set('session', encryptedSession, {
-    expires: expiresInOneDay,
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+  });
+}
+
+// Between a correct password and the second factor the browser holds only a
+// short-lived challenge, never a session
+export type TwoFactorChallenge = {
+  userId: number;
+  stage: 'verify' | 'enroll'; // enroll: 2FA is required but not set up yet
+};
+
+const TWO_FACTOR_AUDIENCE = 'two-factor';
+
+export async function setTwoFactorChallenge(challenge: TwoFactorChallenge) {
+  const { challengeMinutes } = ACCOUNT_SECURITY_CONFIG.twoFactor;
+  const token = await new SignJWT(challenge)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(TWO_FACTOR_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${challengeMinutes}m`)
+    .sign(key);
+  (await cookies()).set('two_factor', token, {
+    maxAge: challengeMinutes * 60,
     httpOnly: true,
     secure: true,
     sameSite: 'lax',
   });
 }
+
+export async function getTwoFactorChallenge(): Promise<TwoFactorChallenge | null> {
+  const token = (await cookies()).get('two_factor')?.value;
+  if (!token) return null;
+  try {
+    const { payload } = await jwtVerify(token, key, {
+      algorithms: ['HS256'],
+      audience: TWO_FACTOR_AUDIENCE,
+    });
+    return typeof payload.userId === 'number' ? (payload as unknown as TwoFactorChallenge) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearTwoFactorChallenge() {
+  (await cookies()).delete('two_factor');
+}
@@ -0,0 +1,10 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+// URL-safe random token; hand the raw value to the user, store only its hash
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,117 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1) as used by
+ * authenticator apps, plus the base32 encoding their secrets use.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  stepSeconds: number;
+  digits: number;
+}
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(time: Date, stepSeconds: number): number {
+  return Math.floor(time.getTime() / 1000 / stepSeconds);
+}
+
+// HOTP value (RFC 4226) for one counter
+export function generateHotp(secret: Buffer, counter: number, digits: number): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const hmac = createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return String(binary).padStart(digits, '0');
+}
+
+export function generateTotp(secret: string, time: Date, options: TotpOptions): string {
+  return generateHotp(base32Decode(secret), totpStep(time, options.stepSeconds), options.digits);
+}
+
+/**
+ * The time step a code belongs to, allowing `driftSteps` of clock skew
+ * either way, or null when it doesn't match. Callers reject steps at or
+ * before the last one used so a code can't be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  time: Date,
+  options: TotpOptions & { driftSteps: number }
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== options.digits) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(time, options.stepSeconds);
+  for (let drift = -options.driftSteps; drift <= options.driftSteps; drift++) {
+    const expected = generateHotp(key, current + drift, options.digits);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return current + drift;
+    }
+  }
+  return null;
+}
+
+// Key URI understood by Google Authenticator, 1Password, Authy and others
+export function totpUri(secret: string, accountName: string, issuer: string, options: TotpOptions): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  // Percent-encoded rather than URLSearchParams, whose '+' for spaces some apps show literally
+  const params = Object.entries({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(options.digits),
+    period: String(options.stepSeconds)
+  }).map(([key, value]) => `${key}=${encodeURIComponent(value)}`);
+  return `otpauth://totp/${label}?${params.join('&')}`;
+}
@@ -6,11 +6,15 @@
 export const DEMO_USER = {
   id: '1',
   email: 'test@test.com',
-  name: 'Test User',
+  firstName: 'Test',
+  lastName: 'User',
   role: 'admin' as const,
   created_at: new Date().toISOString()
 };
 
+// Demo sessions have no server-side record
+export const DEMO_SESSION_ID = 'demo';
+
 export async function validateDemoCredentials(email: string, password: string): Promise<boolean> {
   console.log('🔄 BugX Plan C: Using demo mode authentication');
   
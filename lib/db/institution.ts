@@ -0,0 +1,48 @@
+import { parseArgs } from 'node:util';
+import { InstitutionService } from '@/services/institution-service';
+
+const USAGE =
+  'Usage: npm run db:institution -- --name "Lincoln High" --domain lincoln.edu [--type high_school] [--require-counselor-2fa]';
+
+// Registers an institution (or updates the one on that domain) and enrolls
+// existing verified accounts on its email domain. Rerun without
+// --require-counselor-2fa to lift the requirement.
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      name: { type: 'string' },
+      domain: { type: 'string' },
+      type: { type: 'string' },
+      'require-counselor-2fa': { type: 'boolean', default: false }
+    }
+  });
+
+  if (!values.name || !values.domain) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const { institution, membersAdded } = await new InstitutionService().upsert({
+    name: values.name,
+    domain: values.domain,
+    type: values.type,
+    requireCounselorTwoFactor: values['require-counselor-2fa']
+  });
+
+  console.log(`Institution "${institution.name}" saved for @${institution.domain}.`);
+  console.log(
+    institution.requireCounselorTwoFactor
+      ? 'Counselors must set up two-factor authentication at their next sign-in.'
+      : 'Two-factor authentication is optional for its counselors.'
+  );
+  console.log(`${membersAdded} existing verified account(s) joined.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Saving the institution failed:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    process.exit(0);
+  });
@@ -0,0 +1,87 @@
+import { fileURLToPath } from 'node:url';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { describe, expect, it } from 'vitest';
+import { baselineLegacyDatabase } from './legacy-baseline';
+
+const migrationsFolder = fileURLToPath(new URL('./migrations', import.meta.url));
+const migrations = readMigrationFiles({ migrationsFolder });
+
+// What the old raw-SQL initializer and seed left behind.
+async function createLegacyDatabase() {
+  const client = new PGlite();
+  await client.exec(`
+    CREATE TABLE users (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100),
+      email VARCHAR(255) NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      deleted_at TIMESTAMP
+    );
+    CREATE TABLE activity_logs (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      action TEXT NOT NULL,
+      timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
+      ip_address VARCHAR(45),
+      metadata TEXT
+    );
+    INSERT INTO users (name, email, password_hash)
+    VALUES ('Test User', 'test@test.com', '$2b$10$hash');
+  `);
+  return client;
+}
+
+async function upgrade(client: PGlite) {
+  const database = drizzle(client);
+  await baselineLegacyDatabase(database, migrationsFolder);
+  await migrate(database, { migrationsFolder });
+}
+
+describe('baselineLegacyDatabase', () => {
+  it('upgrades a seeded legacy database to the latest migration', async () => {
+    const client = await createLegacyDatabase();
+
+    await upgrade(client);
+
+    const { rows } = await client.query<{ first_name: string; last_name: string; role: string }>(
+      `SELECT first_name, last_name, role FROM users WHERE email = 'test@test.com'`
+    );
+    expect(rows).toEqual([{ first_name: 'Test', last_name: 'User', role: 'student' }]);
+    const journal = await client.query(`SELECT hash FROM drizzle.__drizzle_migrations`);
+    expect(journal.rows).toHaveLength(migrations.length);
+    await client.close();
+  }, 30_000);
+
+  it('recovers a legacy database left at 0000 by a failed upgrade', async () => {
+    const client = await createLegacyDatabase();
+    const [initialMigration] = migrations;
+    await client.exec(`
+      CREATE SCHEMA drizzle;
+      CREATE TABLE drizzle.__drizzle_migrations (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint);
+      INSERT INTO drizzle.__drizzle_migrations (hash, created_at)
+      VALUES ('${initialMigration.hash}', ${initialMigration.folderMillis});
+    `);
+
+    await upgrade(client);
+
+    const { rows } = await client.query<{ role: string }>(`SELECT role FROM users`);
+    expect(rows).toEqual([{ role: 'student' }]);
+    await client.close();
+  }, 30_000);
+
+  it('leaves databases created by the migrator alone', async () => {
+    const client = new PGlite();
+    await migrate(drizzle(client), { migrationsFolder });
+
+    await upgrade(client);
+
+    const journal = await client.query(`SELECT hash FROM drizzle.__drizzle_migrations`);
+    expect(journal.rows).toHaveLength(migrations.length);
+    await client.close();
+  }, 30_000);
+});
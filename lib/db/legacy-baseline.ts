@@ -0,0 +1,81 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+
+type AnyPgDatabase = PgDatabase<PgQueryResultHKT, Record<string, unknown>>;
+
+// 0001 adds "role" as NOT NULL without a default, which aborts on any table
+// that already has rows. Fresh databases never hit this; legacy ones always do.
+const ROLE_COLUMN_STATEMENT = 'ALTER TABLE "users" ADD COLUMN "role" "user_role" NOT NULL;';
+const LEGACY_ROLE_COLUMN_STATEMENT =
+  'ALTER TABLE "users" ADD COLUMN "role" "user_role" DEFAULT \'student\' NOT NULL;';
+
+async function selectRows<T>(database: AnyPgDatabase, query: SQL): Promise<T[]> {
+  const result: unknown = await database.execute(query);
+  // postgres-js returns the rows directly, pglite wraps them in { rows }.
+  return (Array.isArray(result) ? result : (result as { rows: T[] }).rows) as T[];
+}
+
+/**
+ * Databases bootstrapped by the old raw-SQL initializer already have the
+ * exact shape of migration 0000 but no drizzle journal, so the migrator
+ * would fail re-creating "users". Record 0000 as applied, then apply 0001
+ * here with a 'student' default on "role" so the rows the old seed always
+ * inserted survive the NOT NULL column. 0002 sets the same default anyway.
+ *
+ * Also picks up databases left at 0000 by an earlier upgrade that failed on
+ * that column.
+ */
+export async function baselineLegacyDatabase(
+  database: AnyPgDatabase,
+  migrationsFolder: string
+) {
+  const [{ hasUsers }] = await selectRows<{ hasUsers: boolean }>(database, sql`
+    SELECT to_regclass('public.users') IS NOT NULL AS "hasUsers";
+  `);
+  if (!hasUsers) {
+    return;
+  }
+
+  await database.execute(sql`CREATE SCHEMA IF NOT EXISTS drizzle;`);
+  await database.execute(sql`
+    CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (
+      id SERIAL PRIMARY KEY,
+      hash text NOT NULL,
+      created_at bigint
+    );
+  `);
+
+  const applied = await selectRows<{ hash: string }>(database, sql`
+    SELECT hash FROM drizzle.__drizzle_migrations ORDER BY created_at;
+  `);
+  if (applied.length > 1) {
+    return;
+  }
+
+  const [initialMigration, roleMigration] = readMigrationFiles({ migrationsFolder });
+  if (applied.length === 0) {
+    await database.execute(sql`
+      INSERT INTO drizzle.__drizzle_migrations (hash, created_at)
+      VALUES (${initialMigration.hash}, ${initialMigration.folderMillis});
+    `);
+    console.log('ℹ️ Legacy database detected, baselined at migration 0000');
+  }
+
+  if (!roleMigration.sql.some((statement) => statement.trim() === ROLE_COLUMN_STATEMENT)) {
+    throw new Error('Migration 0001 no longer adds "role" as expected; update the legacy baseline');
+  }
+
+  await database.transaction(async (tx) => {
+    for (const statement of roleMigration.sql) {
+      const patched =
+        statement.trim() === ROLE_COLUMN_STATEMENT ? LEGACY_ROLE_COLUMN_STATEMENT : statement;
+      await tx.execute(sql.raw(patched));
+    }
+    await tx.execute(sql`
+      INSERT INTO drizzle.__drizzle_migrations (hash, created_at)
+      VALUES (${roleMigration.hash}, ${roleMigration.folderMillis});
+    `);
+  });
+  console.log('ℹ️ Applied migration 0001 with a default role for existing users');
+}
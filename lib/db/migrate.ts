@@ -1,43 +1,19 @@
+import path from 'node:path';
 import { sql } from 'drizzle-orm';
+import { migrate } from 'drizzle-orm/postgres-js/migrator';
 import { db } from './drizzle';
+import { baselineLegacyDatabase } from './legacy-baseline';
+
+const MIGRATIONS_FOLDER = path.join(process.cwd(), 'lib/db/migrations');
 
 export async function initializeDatabase() {
   try {
-    console.log('🚀 Initializing database tables...');
-
-    // Create users table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS users (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(100),
-        email VARCHAR(255) NOT NULL UNIQUE,
-        password_hash TEXT NOT NULL,
-        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        deleted_at TIMESTAMP
-      );
-    `);
-
-    // Create activity_logs table
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS activity_logs (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER NOT NULL REFERENCES users(id),
-        action TEXT NOT NULL,
-        timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
-        ip_address VARCHAR(45),
-        metadata TEXT
-      );
-    `);
+    console.log('🚀 Applying database migrations...');
 
-    // Create indexes for better performance
-    await db.execute(sql`
-      CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-      CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id ON activity_logs(user_id);
-      CREATE INDEX IF NOT EXISTS idx_activity_logs_timestamp ON activity_logs(timestamp);
-    `);
+    await baselineLegacyDatabase(db, MIGRATIONS_FOLDER);
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
 
-    console.log('✅ Database tables initialized successfully');
+    console.log('✅ Database migrations applied successfully');
     return true;
   } catch (error) {
     console.error('❌ Database initialization failed:', error);
@@ -48,7 +24,7 @@ export async function initializeDatabase() {
 export async function seedDatabase() {
   try {
     console.log('🌱 Seeding database...');
-    
+
     // Check if test user already exists
     const existingUser = await db.execute(sql`
       SELECT id FROM users WHERE email = 'test@test.com' LIMIT 1;
@@ -58,8 +34,8 @@ export async function seedDatabase() {
       // Create test user (password is 'admin123')
       // Hash generated with bcrypt: $2b$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi
       await db.execute(sql`
-        INSERT INTO users (name, email, password_hash)
-        VALUES ('Test User', 'test@test.com', '$2b$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi');
+        INSERT INTO users (first_name, last_name, email, password_hash, role)
+        VALUES ('Test', 'User', 'test@test.com', '$2b$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', 'student');
       `);
       console.log('✅ Test user created: test@test.com / admin123');
     } else {
@@ -71,4 +47,4 @@ export async function seedDatabase() {
     console.error('❌ Database seeding failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
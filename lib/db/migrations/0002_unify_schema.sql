@@ -0,0 +1,83 @@
+CREATE TABLE "financial_goals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"academic_year" integer NOT NULL,
+	"total_education_cost" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"current_savings" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"expected_family_contribution" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"scholarships_awarded" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"scholarships_pending" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"expenses" json,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scholarship_requirements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scholarship_id" integer NOT NULL,
+	"external_id" varchar(50),
+	"label" varchar(300) NOT NULL,
+	"type" varchar(30) NOT NULL,
+	"is_required" boolean DEFAULT true NOT NULL,
+	"is_completed" boolean DEFAULT false NOT NULL,
+	"completed_date" timestamp,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scholarships" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"external_id" varchar(50),
+	"user_id" integer NOT NULL,
+	"title" varchar(300) NOT NULL,
+	"provider" varchar(200) NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"deadline" date NOT NULL,
+	"status" varchar(30) NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"application_url" text,
+	"description" text,
+	"notes" text,
+	"tags" json,
+	"completion" integer DEFAULT 0 NOT NULL,
+	"completion_text" varchar(100),
+	"bugx_validated" boolean DEFAULT false NOT NULL,
+	"last_validation" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scholarships_external_id_unique" UNIQUE("external_id")
+);
+--> statement-breakpoint
+CREATE TABLE "user_connections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"parent_user_id" integer NOT NULL,
+	"child_user_id" integer NOT NULL,
+	"connection_type" varchar(20) NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"permissions" json,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_connections_parent_user_id_child_user_id_connection_type_unique" UNIQUE("parent_user_id","child_user_id","connection_type")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "role" SET DEFAULT 'student';--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "goal" varchar(500);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "date_of_birth" date;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "address" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "city" varchar(100);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "state" varchar(50);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "zip_code" varchar(10);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "major" varchar(200);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "gpa" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "institution_type" varchar(100);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "preferences" json;--> statement-breakpoint
+ALTER TABLE "financial_goals" ADD CONSTRAINT "financial_goals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scholarship_requirements" ADD CONSTRAINT "scholarship_requirements_scholarship_id_scholarships_id_fk" FOREIGN KEY ("scholarship_id") REFERENCES "public"."scholarships"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scholarships" ADD CONSTRAINT "scholarships_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_connections" ADD CONSTRAINT "user_connections_parent_user_id_users_id_fk" FOREIGN KEY ("parent_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_connections" ADD CONSTRAINT "user_connections_child_user_id_users_id_fk" FOREIGN KEY ("child_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_institution_id_institutions_id_fk" FOREIGN KEY ("institution_id") REFERENCES "public"."institutions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+UPDATE "users" SET "first_name" = split_part("first_name", ' ', 1), "last_name" = substring("first_name" from position(' ' in "first_name") + 1) WHERE "last_name" IS NULL AND position(' ' in "first_name") > 0;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."scholarship_status" AS ENUM('not_started', 'draft', 'in_progress', 'submitted', 'under_review', 'awarded', 'rejected');--> statement-breakpoint
+-- Map free-text statuses onto the enum labels so the cast below can't fail;
+-- anything unrecognized starts over as not_started
+UPDATE "scholarships" SET "status" = CASE
+	WHEN regexp_replace(lower(trim("status")), '[\s-]+', '_', 'g') IN ('not_started', 'draft', 'in_progress', 'submitted', 'under_review', 'awarded', 'rejected')
+		THEN regexp_replace(lower(trim("status")), '[\s-]+', '_', 'g')
+	WHEN lower(trim("status")) IN ('pending', 'started', 'working', 'applying') THEN 'in_progress'
+	WHEN lower(trim("status")) IN ('applied', 'sent', 'complete', 'completed') THEN 'submitted'
+	WHEN lower(trim("status")) IN ('review', 'reviewing', 'in review') THEN 'under_review'
+	WHEN lower(trim("status")) IN ('won', 'accepted', 'received', 'funded') THEN 'awarded'
+	WHEN lower(trim("status")) IN ('declined', 'denied', 'lost', 'not awarded', 'not selected') THEN 'rejected'
+	ELSE 'not_started'
+END;--> statement-breakpoint
+ALTER TABLE "scholarships" ALTER COLUMN "status" SET DATA TYPE "public"."scholarship_status" USING "status"::"public"."scholarship_status";--> statement-breakpoint
+ALTER TABLE "scholarships" ALTER COLUMN "status" SET DEFAULT 'not_started'::"public"."scholarship_status";--> statement-breakpoint
+ALTER TABLE "scholarships" ADD COLUMN "submitted_date" timestamp;--> statement-breakpoint
+ALTER TABLE "scholarships" ADD COLUMN "result_date" timestamp;
\ No newline at end of file
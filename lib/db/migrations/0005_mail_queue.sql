@@ -0,0 +1,19 @@
+CREATE TABLE "mail_queue" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"to_address" varchar(255) NOT NULL,
+	"template" varchar(50) NOT NULL,
+	"subject" varchar(300) NOT NULL,
+	"text_body" text NOT NULL,
+	"html_body" text,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mail_queue" ADD CONSTRAINT "mail_queue_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
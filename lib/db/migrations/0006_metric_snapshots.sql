@@ -0,0 +1,14 @@
+CREATE TABLE "metric_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"snapshot_date" date NOT NULL,
+	"total_scholarships" integer DEFAULT 0 NOT NULL,
+	"active_applications" integer DEFAULT 0 NOT NULL,
+	"total_award_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"completion_rate" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "metric_snapshots_user_id_snapshot_date_unique" UNIQUE("user_id","snapshot_date")
+);
+--> statement-breakpoint
+ALTER TABLE "metric_snapshots" ADD CONSTRAINT "metric_snapshots_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TYPE "public"."connection_status" AS ENUM('pending', 'approved', 'rejected', 'revoked');--> statement-breakpoint
+ALTER TABLE "user_connections" ADD COLUMN "status" "connection_status" DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_connections" ADD COLUMN "requires_student_approval" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_connections" ADD COLUMN "can_student_revoke" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_connections" ADD COLUMN "responded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user_connections" ADD COLUMN "revoked_at" timestamp;--> statement-breakpoint
+-- Links created before invitations existed were already in effect
+UPDATE "user_connections" SET "status" = CASE WHEN "is_active" THEN 'approved'::"connection_status" ELSE 'revoked'::"connection_status" END;--> statement-breakpoint
+-- Carry legacy users.parent_id links over as approved parent connections
+INSERT INTO "user_connections" ("parent_user_id", "child_user_id", "connection_type", "is_active", "status", "responded_at")
+SELECT "parent_id", "id", 'parent', true, 'approved', now() FROM "users" WHERE "parent_id" IS NOT NULL
+ON CONFLICT ("parent_user_id", "child_user_id", "connection_type") DO NOTHING;
@@ -0,0 +1 @@
+ALTER TABLE "financial_goals" ADD COLUMN "funding_sources" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "institutions" ADD COLUMN "financial_assumptions" json;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TYPE "public"."competitiveness" AS ENUM('low', 'medium', 'high');--> statement-breakpoint
+CREATE TABLE "scholarship_catalog" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" varchar(300) NOT NULL,
+	"provider" varchar(200) NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"deadline" date NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"competitiveness" "competitiveness" DEFAULT 'medium' NOT NULL,
+	"renewable" boolean DEFAULT false NOT NULL,
+	"application_url" text,
+	"description" text,
+	"tags" json,
+	"eligibility" json DEFAULT '[]'::json NOT NULL,
+	"requirements" json DEFAULT '[]'::json NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scholarships" ADD COLUMN "catalog_id" integer;--> statement-breakpoint
+ALTER TABLE "scholarships" ADD CONSTRAINT "scholarships_catalog_id_scholarship_catalog_id_fk" FOREIGN KEY ("catalog_id") REFERENCES "public"."scholarship_catalog"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scholarships" ADD CONSTRAINT "scholarships_user_id_catalog_id_unique" UNIQUE("user_id","catalog_id");
\ No newline at end of file
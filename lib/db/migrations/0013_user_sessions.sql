@@ -0,0 +1,11 @@
+CREATE TABLE "user_sessions" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_agent" text,
+	"ip_address" varchar(45),
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
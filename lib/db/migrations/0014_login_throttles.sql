@@ -0,0 +1,6 @@
+CREATE TABLE "login_throttles" (
+	"key" varchar(300) PRIMARY KEY NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp DEFAULT now() NOT NULL,
+	"locked_until" timestamp
+);
@@ -0,0 +1,9 @@
+-- Accounts created before email verification existed were never sent a link.
+-- Treat them as verified so reminder emails and linking keep working; anyone
+-- who has been sent a verification link still has to redeem it.
+UPDATE "users" SET "email_verified" = true, "email_verified_at" = COALESCE("email_verified_at", "created_at")
+WHERE "email_verified" IS NOT TRUE
+  AND NOT EXISTS (
+    SELECT 1 FROM "auth_tokens"
+    WHERE "auth_tokens"."user_id" = "users"."id" AND "auth_tokens"."purpose" = 'email_verification'
+  );
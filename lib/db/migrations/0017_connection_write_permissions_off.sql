@@ -0,0 +1,6 @@
+-- Adding scholarships used to be on by default. Requests the student hasn't
+-- answered yet start with it off like new ones; approved connections keep
+-- whatever the student agreed to.
+UPDATE "user_connections"
+SET "permissions" = jsonb_set(COALESCE("permissions"::jsonb, '{}'::jsonb), '{canCreateScholarships}', 'false')::json
+WHERE "status" = 'pending';
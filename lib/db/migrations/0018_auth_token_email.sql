@@ -0,0 +1 @@
+ALTER TABLE "auth_tokens" ADD COLUMN "email" varchar(255);
\ No newline at end of file
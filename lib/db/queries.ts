@@ -1,10 +1,34 @@
-import { desc, and, eq, isNull } from 'drizzle-orm';
+import { desc, asc, and, eq, gt, gte, isNull, inArray, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import { db } from './drizzle';
-import { activityLogs, users } from './schema';
+import {
+  activityLogs,
+  users,
+  scholarships,
+  scholarshipRequirements,
+  notifications,
+  userConnections,
+  financialGoals,
+  userSessions,
+  ActivityType,
+  type NewActivityLog,
+  type Scholarship,
+  type ScholarshipRequirement,
+  type ScholarshipStatus,
+  type Notification,
+  type UserConnection,
+  type FinancialGoal
+} from './schema';
 import { cookies } from 'next/headers';
-import { verifyToken } from '@/lib/auth/session';
+import { sessionIdleCutoff, verifyToken } from '@/lib/auth/session';
+import { getRequestContext } from '@/lib/auth/request';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
 import { ensureDatabaseInitialized } from './init';
 import { validateDatabaseConnection } from './connection-validator';
+import {
+  hasConnectionPermission,
+  type ConnectionPermission
+} from '@/lib/auth/connection-permissions';
 
 export async function getUser() {
   try {
@@ -31,7 +55,8 @@ export async function getUser() {
   if (
     !sessionData ||
     !sessionData.user ||
-    typeof sessionData.user.id !== 'number'
+    typeof sessionData.user.id !== 'number' ||
+    typeof sessionData.sid !== 'string'
   ) {
     return null;
   }
@@ -51,6 +76,38 @@ export async function getUser() {
       return null;
     }
 
+    // Sessions from before a password reset are no longer valid
+    const { passwordChangedAt } = user[0];
+    if (passwordChangedAt && (sessionData.iat ?? 0) < Math.floor(passwordChangedAt.getTime() / 1000)) {
+      return null;
+    }
+
+    // The cookie is only honoured while its server-side session is active
+    const now = new Date();
+    const [session] = await db
+      .select({ lastSeenAt: userSessions.lastSeenAt })
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.id, sessionData.sid),
+          eq(userSessions.userId, user[0].id),
+          isNull(userSessions.revokedAt),
+          gt(userSessions.lastSeenAt, sessionIdleCutoff(now))
+        )
+      )
+      .limit(1);
+    if (!session) {
+      return null;
+    }
+
+    if (now.getTime() - session.lastSeenAt.getTime() > ACCOUNT_SECURITY_CONFIG.sessionLastSeenMinutes * 60 * 1000) {
+      const { ipAddress } = await getRequestContext();
+      await db
+        .update(userSessions)
+        .set({ lastSeenAt: now, ...(ipAddress && { ipAddress }) })
+        .where(eq(userSessions.id, sessionData.sid));
+    }
+
     return user[0];
   } catch (error) {
     console.error('Database query failed in getUser:', error);
@@ -81,7 +138,8 @@ export async function getActivityLogs() {
         timestamp: activityLogs.timestamp,
         ipAddress: activityLogs.ipAddress,
         metadata: activityLogs.metadata,
-        userName: users.name
+        userFirstName: users.firstName,
+        userLastName: users.lastName
       })
       .from(activityLogs)
       .leftJoin(users, eq(activityLogs.userId, users.id))
@@ -92,4 +150,338 @@ export async function getActivityLogs() {
     console.error('Database query failed in getActivityLogs:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function logActivity(
+  userId: number,
+  type: ActivityType,
+  ipAddress?: string,
+  metadata?: string
+) {
+  const newActivity: NewActivityLog = {
+    userId,
+    action: type,
+    ipAddress: ipAddress || '',
+    metadata: metadata || null
+  };
+  await db.insert(activityLogs).values(newActivity);
+}
+
+export type ScholarshipWithRequirements = Scholarship & {
+  requirements: ScholarshipRequirement[];
+};
+
+export async function getScholarshipsForUser(
+  userId: number
+): Promise<ScholarshipWithRequirements[]> {
+  const rows = await db
+    .select()
+    .from(scholarships)
+    .where(eq(scholarships.userId, userId))
+    .orderBy(asc(scholarships.deadline));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const requirements = await db
+    .select()
+    .from(scholarshipRequirements)
+    .where(inArray(scholarshipRequirements.scholarshipId, rows.map((row) => row.id)))
+    .orderBy(asc(scholarshipRequirements.id));
+
+  return rows.map((row) => ({
+    ...row,
+    requirements: requirements.filter((req) => req.scholarshipId === row.id)
+  }));
+}
+
+export async function getScholarshipForUser(
+  scholarshipId: number,
+  userId: number
+): Promise<ScholarshipWithRequirements | null> {
+  const [row] = await db
+    .select()
+    .from(scholarships)
+    .where(and(eq(scholarships.id, scholarshipId), eq(scholarships.userId, userId)))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const requirements = await db
+    .select()
+    .from(scholarshipRequirements)
+    .where(eq(scholarshipRequirements.scholarshipId, row.id))
+    .orderBy(asc(scholarshipRequirements.id));
+
+  return { ...row, requirements };
+}
+
+export async function getRequirementForUser(requirementId: number, userId: number) {
+  const [row] = await db
+    .select({ requirement: scholarshipRequirements })
+    .from(scholarshipRequirements)
+    .innerJoin(scholarships, eq(scholarshipRequirements.scholarshipId, scholarships.id))
+    .where(and(eq(scholarshipRequirements.id, requirementId), eq(scholarships.userId, userId)))
+    .limit(1);
+
+  return row ? row.requirement : null;
+}
+
+export type StatusTransition = {
+  id: number;
+  from: ScholarshipStatus;
+  to: ScholarshipStatus;
+  changedAt: string;
+};
+
+export async function getStatusHistoryForScholarship(
+  scholarshipId: number,
+  userId: number
+): Promise<StatusTransition[]> {
+  const rows = await db
+    .select({
+      id: activityLogs.id,
+      timestamp: activityLogs.timestamp,
+      metadata: activityLogs.metadata
+    })
+    .from(activityLogs)
+    .where(
+      and(
+        eq(activityLogs.userId, userId),
+        eq(activityLogs.action, ActivityType.APPLICATION_STATUS_CHANGED),
+        sql`(${activityLogs.metadata})::jsonb ->> 'scholarshipId' = ${String(scholarshipId)}`
+      )
+    )
+    .orderBy(asc(activityLogs.timestamp));
+
+  return rows.map((row) => {
+    const metadata = JSON.parse(row.metadata || '{}');
+    return {
+      id: row.id,
+      from: metadata.from,
+      to: metadata.to,
+      changedAt: metadata.changedAt ?? row.timestamp.toISOString()
+    };
+  });
+}
+
+export async function getNotificationsForUser(
+  userId: number,
+  limit = 20
+): Promise<{ notifications: Notification[]; unreadCount: number }> {
+  const [items, unread] = await Promise.all([
+    db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.scheduledFor), desc(notifications.id))
+      .limit(limit),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+  ]);
+
+  return { notifications: items, unreadCount: unread[0]?.count ?? 0 };
+}
+
+// Active goals only; deleted goals are kept inactive for history
+export async function getFinancialGoalForUser(goalId: number, userId: number) {
+  const [goal] = await db
+    .select()
+    .from(financialGoals)
+    .where(
+      and(
+        eq(financialGoals.id, goalId),
+        eq(financialGoals.userId, userId),
+        eq(financialGoals.isActive, true)
+      )
+    )
+    .limit(1);
+
+  return goal ?? null;
+}
+
+export async function getFinancialGoalForYear(userId: number, academicYear: number) {
+  const [goal] = await db
+    .select()
+    .from(financialGoals)
+    .where(
+      and(
+        eq(financialGoals.userId, userId),
+        eq(financialGoals.academicYear, academicYear),
+        eq(financialGoals.isActive, true)
+      )
+    )
+    .limit(1);
+
+  return goal ?? null;
+}
+
+// The goal for this academic year, or the nearest one planned after it
+export async function getUpcomingFinancialGoal(userId: number, academicYear: number) {
+  const [goal] = await db
+    .select()
+    .from(financialGoals)
+    .where(
+      and(
+        eq(financialGoals.userId, userId),
+        gte(financialGoals.academicYear, academicYear),
+        eq(financialGoals.isActive, true)
+      )
+    )
+    .orderBy(asc(financialGoals.academicYear))
+    .limit(1);
+
+  return goal ?? null;
+}
+
+// ===================================================================
+// CONNECTIONS (parent/counselor access to a student's data)
+// ===================================================================
+
+export type ConnectionContact = {
+  id: number;
+  firstName: string | null;
+  lastName: string | null;
+  email: string;
+  role: string;
+};
+
+export type ConnectionWithContact = UserConnection & { contact: ConnectionContact };
+
+const requesters = alias(users, 'requesters');
+const students = alias(users, 'students');
+
+/**
+ * Connections where the user is the student (incoming requests) and where
+ * the user is the parent or counselor (outgoing requests)
+ */
+export async function getConnectionsForUser(userId: number): Promise<{
+  incoming: ConnectionWithContact[];
+  outgoing: ConnectionWithContact[];
+}> {
+  const contactFields = (table: typeof requesters | typeof students) => ({
+    id: table.id,
+    firstName: table.firstName,
+    lastName: table.lastName,
+    email: table.email,
+    role: table.role
+  });
+
+  const [incoming, outgoing] = await Promise.all([
+    db
+      .select({ connection: userConnections, contact: contactFields(requesters) })
+      .from(userConnections)
+      .innerJoin(requesters, eq(userConnections.parentUserId, requesters.id))
+      .where(and(eq(userConnections.childUserId, userId), isNull(requesters.deletedAt)))
+      .orderBy(desc(userConnections.updatedAt)),
+    db
+      .select({ connection: userConnections, contact: contactFields(students) })
+      .from(userConnections)
+      .innerJoin(students, eq(userConnections.childUserId, students.id))
+      .where(and(eq(userConnections.parentUserId, userId), isNull(students.deletedAt)))
+      .orderBy(desc(userConnections.updatedAt))
+  ]);
+
+  const flatten = (row: { connection: UserConnection; contact: ConnectionContact }) => ({
+    ...row.connection,
+    contact: row.contact
+  });
+
+  return { incoming: incoming.map(flatten), outgoing: outgoing.map(flatten) };
+}
+
+// A connection the given student owns, for approve/reject/permission changes
+export async function getConnectionForStudent(connectionId: number, studentId: number) {
+  const [connection] = await db
+    .select()
+    .from(userConnections)
+    .where(and(eq(userConnections.id, connectionId), eq(userConnections.childUserId, studentId)))
+    .limit(1);
+
+  return connection ?? null;
+}
+
+/**
+ * The approved connection through which a viewer may exercise a permission
+ * on a student's data, or null. Every on-behalf read must go through here.
+ */
+export async function getConnectionAccess(
+  viewerId: number,
+  studentId: number,
+  permission: ConnectionPermission
+): Promise<UserConnection | null> {
+  const connections = await db
+    .select()
+    .from(userConnections)
+    .where(
+      and(
+        eq(userConnections.parentUserId, viewerId),
+        eq(userConnections.childUserId, studentId),
+        eq(userConnections.status, 'approved')
+      )
+    );
+
+  return connections.find((connection) => hasConnectionPermission(connection, permission)) ?? null;
+}
+
+export async function getScholarshipsForConnectedStudent(
+  viewerId: number,
+  studentId: number
+): Promise<ScholarshipWithRequirements[] | null> {
+  const access = await getConnectionAccess(viewerId, studentId, 'canViewApplications');
+  if (!access) {
+    return null;
+  }
+
+  return getScholarshipsForUser(studentId);
+}
+
+export type ScholarshipProgress = Pick<
+  Scholarship,
+  'id' | 'title' | 'deadline' | 'status' | 'completion' | 'completionText'
+>;
+
+// Progress-only view for connections without canViewApplications
+export async function getProgressForConnectedStudent(
+  viewerId: number,
+  studentId: number
+): Promise<ScholarshipProgress[] | null> {
+  const access = await getConnectionAccess(viewerId, studentId, 'canViewProgress');
+  if (!access) {
+    return null;
+  }
+
+  return db
+    .select({
+      id: scholarships.id,
+      title: scholarships.title,
+      deadline: scholarships.deadline,
+      status: scholarships.status,
+      completion: scholarships.completion,
+      completionText: scholarships.completionText
+    })
+    .from(scholarships)
+    .where(eq(scholarships.userId, studentId))
+    .orderBy(asc(scholarships.deadline));
+}
+
+export async function getFinancialGoalsForConnectedStudent(
+  viewerId: number,
+  studentId: number
+): Promise<FinancialGoal[] | null> {
+  const access = await getConnectionAccess(viewerId, studentId, 'canViewFinancialGoals');
+  if (!access) {
+    return null;
+  }
+
+  return db
+    .select()
+    .from(financialGoals)
+    .where(and(eq(financialGoals.userId, studentId), eq(financialGoals.isActive, true)))
+    .orderBy(asc(financialGoals.academicYear));
+}
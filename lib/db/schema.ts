@@ -6,9 +6,20 @@ import {
   timestamp,
   integer,
   boolean,
+  decimal,
+  date,
+  json,
+  unique,
   pgEnum,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { EligibilityRule, FinancialAssumptionOverrides } from '@/types/spider-web';
+
+/**
+ * Canonical Database Schema for Scholarship Tracker Pro
+ * Single source of truth for drizzle-kit migrations in lib/db/migrations
+ */
 
 // Enums for user roles and education levels
 export const userRoleEnum = pgEnum('user_role', ['student', 'parent', 'counselor']);
@@ -26,8 +37,46 @@ export const educationalStatusEnum = pgEnum('educational_status', [
   'gap_year',
   'transferring'
 ]);
+export const scholarshipStatusEnum = pgEnum('scholarship_status', [
+  'not_started',
+  'draft',
+  'in_progress',
+  'submitted',
+  'under_review',
+  'awarded',
+  'rejected'
+]);
+export const competitivenessEnum = pgEnum('competitiveness', ['low', 'medium', 'high']);
+export const connectionStatusEnum = pgEnum('connection_status', [
+  'pending',
+  'approved',
+  'rejected',
+  'revoked'
+]);
 
-export const users: any = pgTable('users', {
+// ===================================================================
+// CORE USER TABLES
+// ===================================================================
+
+export type UserPreferences = {
+  theme: 'light' | 'dark' | 'system';
+  notifications: {
+    deadlineReminders: boolean;
+    statusUpdates: boolean;
+    newScholarships: boolean;
+    reminderOffsetDays?: number[]; // Days before a deadline, e.g. [30, 14, 7, 1]
+  };
+  dashboard: {
+    defaultView: 'overview' | 'scholarships' | 'financial';
+    compactMode: boolean;
+  };
+  financialAssumptions?: FinancialAssumptionOverrides;
+  workPlan?: {
+    weeklyHours: number; // available for scholarship applications
+  };
+};
+
+export const users = pgTable('users', {
   id: serial('id').primaryKey(),
   // Basic fields
   firstName: varchar('first_name', { length: 100 }),
@@ -37,27 +86,44 @@ export const users: any = pgTable('users', {
   phoneNumber: varchar('phone_number', { length: 20 }),
   
   // Role-based fields
-  role: userRoleEnum('role').notNull(),
+  role: userRoleEnum('role').notNull().default('student'),
   goal: varchar('goal', { length: 500 }), // Optional based on role
   
+  // Profile information
+  dateOfBirth: date('date_of_birth'),
+  address: text('address'),
+  city: varchar('city', { length: 100 }),
+  state: varchar('state', { length: 50 }),
+  zipCode: varchar('zip_code', { length: 10 }),
+  
   // Educational fields (mainly for students)
   educationalStatus: educationalStatusEnum('educational_status'),
   educationLevel: educationLevelEnum('education_level'),
   expectedGraduationYear: integer('expected_graduation_year'),
   currentInstitution: varchar('current_institution', { length: 255 }),
+  futureInstitution: varchar('future_institution', { length: 255 }),
+  major: varchar('major', { length: 200 }),
+  gpa: decimal('gpa', { precision: 3, scale: 2 }),
   
   // Institution fields (for counselors)
   institutionType: varchar('institution_type', { length: 100 }),
   
   // Parent-child relationship
-  parentId: integer('parent_id').references(() => users.id),
+  parentId: integer('parent_id').references((): AnyPgColumn => users.id),
   
   // Institution association (for licensing)
-  institutionId: integer('institution_id'),
+  institutionId: integer('institution_id').references((): AnyPgColumn => institutions.id),
   
   // Email verification
   emailVerified: boolean('email_verified').default(false),
   emailVerifiedAt: timestamp('email_verified_at'),
+
+  // Sessions issued before this are rejected (set on password reset)
+  passwordChangedAt: timestamp('password_changed_at'),
+  
+  // System fields
+  isActive: boolean('is_active').notNull().default(true),
+  preferences: json('preferences').$type<UserPreferences>(),
   
   // Timestamps
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -76,6 +142,326 @@ export const activityLogs = pgTable('activity_logs', {
   metadata: text('metadata'), // JSON field for additional sharing-related data
 });
 
+// Institution table for B2B2C licensing
+export const institutions = pgTable('institutions', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  domain: varchar('domain', { length: 100 }).notNull().unique(), // for email domain validation
+  type: varchar('type', { length: 100 }), // university, high_school, etc.
+  address: text('address'),
+  contactEmail: varchar('contact_email', { length: 255 }),
+  // Defaults for every member, layered under each user's own overrides
+  financialAssumptions: json('financial_assumptions').$type<FinancialAssumptionOverrides>(),
+  requireCounselorTwoFactor: boolean('require_counselor_two_factor').notNull().default(false),
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// USER RELATIONSHIPS
+// ===================================================================
+
+// What a parent or counselor may do with a connected student's data
+export type ConnectionPermissions = {
+  canViewApplications: boolean;
+  canViewFinancialGoals: boolean;
+  canViewProgress: boolean;
+  canCreateScholarships: boolean;
+};
+
+export const userConnections = pgTable('user_connections', {
+  id: serial('id').primaryKey(),
+  parentUserId: integer('parent_user_id').notNull().references(() => users.id), // Parent or Counselor
+  childUserId: integer('child_user_id').notNull().references(() => users.id), // Student
+  connectionType: varchar('connection_type', { length: 20 }).notNull(), // parent, counselor
+  isActive: boolean('is_active').notNull().default(true),
+  permissions: json('permissions').$type<Partial<ConnectionPermissions>>(),
+  
+  // Invitation Lifecycle
+  status: connectionStatusEnum('status').notNull().default('pending'),
+  requiresStudentApproval: boolean('requires_student_approval').notNull().default(true),
+  canStudentRevoke: boolean('can_student_revoke').notNull().default(true),
+  respondedAt: timestamp('responded_at'),
+  revokedAt: timestamp('revoked_at'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.parentUserId, table.childUserId, table.connectionType),
+]);
+
+// ===================================================================
+// SCHOLARSHIP TABLES
+// ===================================================================
+
+// Requirement template copied into scholarship_requirements on save
+export type CatalogRequirement = {
+  label: string;
+  type: string; // document, academic, activity, financial, process
+  isRequired: boolean;
+};
+
+// Shared discovery catalog; students save entries into their own tracker
+export const scholarshipCatalog = pgTable('scholarship_catalog', {
+  id: serial('id').primaryKey(),
+  title: varchar('title', { length: 300 }).notNull(),
+  provider: varchar('provider', { length: 200 }).notNull(),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  deadline: date('deadline').notNull(),
+  category: varchar('category', { length: 50 }).notNull(),
+  competitiveness: competitivenessEnum('competitiveness').notNull().default('medium'),
+  renewable: boolean('renewable').notNull().default(false),
+
+  applicationUrl: text('application_url'),
+  description: text('description'),
+  tags: json('tags').$type<string[]>(),
+  eligibility: json('eligibility').$type<EligibilityRule[]>().notNull().default([]),
+  // Copied into the tracker's requirement checklist when a student saves the entry
+  requirements: json('requirements').$type<CatalogRequirement[]>().notNull().default([]),
+
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const scholarships = pgTable('scholarships', {
+  id: serial('id').primaryKey(),
+  externalId: varchar('external_id', { length: 50 }).unique(), // For import compatibility
+  userId: integer('user_id').notNull().references(() => users.id),
+  catalogId: integer('catalog_id').references(() => scholarshipCatalog.id, { onDelete: 'set null' }), // Set when saved from discovery
+  title: varchar('title', { length: 300 }).notNull(),
+  provider: varchar('provider', { length: 200 }).notNull(),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  deadline: date('deadline').notNull(),
+  status: scholarshipStatusEnum('status').notNull().default('not_started'),
+  category: varchar('category', { length: 50 }).notNull(),
+  
+  // Optional Details
+  applicationUrl: text('application_url'),
+  description: text('description'),
+  notes: text('notes'),
+  tags: json('tags').$type<string[]>(),
+  
+  // Progress Tracking
+  completion: integer('completion').notNull().default(0), // 0-100
+  completionText: varchar('completion_text', { length: 100 }),
+  
+  // Application Lifecycle (set by status transitions)
+  submittedDate: timestamp('submitted_date'),
+  resultDate: timestamp('result_date'),
+  
+  // BugX Integration
+  bugxValidated: boolean('bugx_validated').notNull().default(false),
+  lastValidation: timestamp('last_validation'),
+  
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.catalogId),
+]);
+
+export const scholarshipRequirements = pgTable('scholarship_requirements', {
+  id: serial('id').primaryKey(),
+  scholarshipId: integer('scholarship_id').notNull().references(() => scholarships.id, { onDelete: 'cascade' }),
+  externalId: varchar('external_id', { length: 50 }), // For import compatibility
+  label: varchar('label', { length: 300 }).notNull(),
+  type: varchar('type', { length: 30 }).notNull(), // document, academic, activity, financial, process
+  isRequired: boolean('is_required').notNull().default(true),
+  isCompleted: boolean('is_completed').notNull().default(false),
+  completedDate: timestamp('completed_date'),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// FINANCIAL TRACKING
+// ===================================================================
+
+export const financialGoals = pgTable('financial_goals', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  academicYear: integer('academic_year').notNull(),
+  
+  // Cost Planning
+  totalEducationCost: decimal('total_education_cost', { precision: 10, scale: 2 }).notNull().default('0'),
+  currentSavings: decimal('current_savings', { precision: 10, scale: 2 }).notNull().default('0'),
+  expectedFamilyContribution: decimal('expected_family_contribution', { precision: 10, scale: 2 }).notNull().default('0'),
+  scholarshipsAwarded: decimal('scholarships_awarded', { precision: 10, scale: 2 }).notNull().default('0'),
+  scholarshipsPending: decimal('scholarships_pending', { precision: 10, scale: 2 }).notNull().default('0'),
+  
+  // Detailed Expenses
+  expenses: json('expenses').$type<{
+    tuition: number;
+    housing: number;
+    meals: number;
+    books: number;
+    transportation: number;
+    personal: number;
+    other?: number;
+  }>(),
+  
+  // Funding Sources beyond savings, family contribution and awarded
+  // scholarships, which have their own columns above
+  fundingSources: json('funding_sources').$type<{
+    workStudy: number;
+    studentLoans: number;
+    grants: number;
+    other?: number;
+  }>(),
+  
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// HUB METRICS
+// ===================================================================
+
+// One row per user per day; the latest computation of the day wins
+export const metricSnapshots = pgTable('metric_snapshots', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  snapshotDate: date('snapshot_date').notNull(),
+  totalScholarships: integer('total_scholarships').notNull().default(0),
+  activeApplications: integer('active_applications').notNull().default(0),
+  totalAwardAmount: decimal('total_award_amount', { precision: 12, scale: 2 }).notNull().default('0'),
+  completionRate: integer('completion_rate').notNull().default(0), // 0-100
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.snapshotDate),
+]);
+
+// ===================================================================
+// NOTIFICATIONS
+// ===================================================================
+
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  type: varchar('type', { length: 50 }).notNull(), // deadline_reminder, ...
+  title: varchar('title', { length: 300 }).notNull(),
+  message: text('message').notNull(),
+  link: text('link'),
+  scholarshipId: integer('scholarship_id').references(() => scholarships.id, { onDelete: 'cascade' }),
+  // Identifies the event a notification was generated for, so schedulers can re-run safely
+  dedupeKey: varchar('dedupe_key', { length: 200 }),
+  scheduledFor: timestamp('scheduled_for').notNull().defaultNow(),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.userId, table.dedupeKey),
+]);
+
+// ===================================================================
+// OUTBOUND MAIL
+// ===================================================================
+
+export const mailQueue = pgTable('mail_queue', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  toAddress: varchar('to_address', { length: 255 }).notNull(),
+  template: varchar('template', { length: 50 }).notNull(), // email_verification, password_reset, ...
+  subject: varchar('subject', { length: 300 }).notNull(),
+  textBody: text('text_body').notNull(),
+  htmlBody: text('html_body'),
+  status: varchar('status', { length: 20 }).notNull().default('pending'), // pending, sent, failed
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+  lastError: text('last_error'),
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// AUTH TOKENS
+// ===================================================================
+
+export const authTokenPurposeEnum = pgEnum('auth_token_purpose', ['password_reset', 'email_verification']);
+
+// Single-use emailed tokens; only a hash is stored and usedAt makes them one-shot
+export const authTokens = pgTable('auth_tokens', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  purpose: authTokenPurposeEnum('purpose').notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  requestedIp: varchar('requested_ip', { length: 45 }),
+  // Address the link was sent to; verification only applies while it still matches
+  email: varchar('email', { length: 255 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// CALENDAR FEEDS
+// ===================================================================
+
+// Token-authenticated .ics subscription; only a hash of the token is stored
+export const calendarFeeds = pgTable('calendar_feeds', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  includeWorkBlocks: boolean('include_work_blocks').notNull().default(false),
+  lastAccessedAt: timestamp('last_accessed_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// SESSIONS
+// ===================================================================
+
+// Server-side record behind each session cookie; the JWT carries the id, so
+// revoking the row signs that device out
+export const userSessions = pgTable('user_sessions', {
+  id: varchar('id', { length: 64 }).primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// TWO-FACTOR AUTHENTICATION
+// ===================================================================
+
+// TOTP enrollment; the row exists from setup, but 2FA is only on once the
+// first code is confirmed (enabledAt)
+export const userTwoFactor = pgTable('user_two_factor', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(), // sealed with AUTH_SECRET
+  enabledAt: timestamp('enabled_at'),
+  lastUsedStep: integer('last_used_step'), // rejects replayed codes
+  recoveryCodeHashes: json('recovery_code_hashes').$type<string[]>().notNull().default([]),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// ===================================================================
+// SIGN-IN THROTTLING
+// ===================================================================
+
+// Failed sign-in counters keyed by account ("account:<email>") or client
+// ("ip:<address>"); used by the Postgres login attempt store
+export const loginThrottles = pgTable('login_throttles', {
+  key: varchar('key', { length: 300 }).primaryKey(),
+  failures: integer('failures').notNull().default(0),
+  lastFailureAt: timestamp('last_failure_at').notNull().defaultNow(),
+  lockedUntil: timestamp('locked_until'),
+});
+
+// ===================================================================
+// RELATIONS
+// ===================================================================
+
 export const usersRelations = relations(users, ({ many, one }) => ({
   activityLogs: many(activityLogs),
   parent: one(users, {
@@ -86,6 +472,19 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   children: many(users, {
     relationName: 'parent_child'
   }),
+  institution: one(institutions, {
+    fields: [users.institutionId],
+    references: [institutions.id],
+  }),
+  scholarships: many(scholarships),
+  financialGoals: many(financialGoals),
+  parentConnections: many(userConnections, { relationName: 'parent' }),
+  childConnections: many(userConnections, { relationName: 'child' }),
+  notifications: many(notifications),
+  authTokens: many(authTokens),
+  calendarFeeds: many(calendarFeeds),
+  sessions: many(userSessions),
+  twoFactor: one(userTwoFactor),
 }));
 
 export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
@@ -95,28 +494,89 @@ export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
   }),
 }));
 
-// Institution table for B2B2C licensing
-export const institutions = pgTable('institutions', {
-  id: serial('id').primaryKey(),
-  name: varchar('name', { length: 255 }).notNull(),
-  domain: varchar('domain', { length: 100 }).notNull().unique(), // for email domain validation
-  type: varchar('type', { length: 100 }), // university, high_school, etc.
-  address: text('address'),
-  contactEmail: varchar('contact_email', { length: 255 }),
-  isActive: boolean('is_active').default(true),
-  createdAt: timestamp('created_at').notNull().defaultNow(),
-  updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
-
 export const institutionsRelations = relations(institutions, ({ many }) => ({
   users: many(users),
 }));
 
-// Add institution relation to users
-export const usersInstitutionRelations = relations(users, ({ one }) => ({
-  institution: one(institutions, {
-    fields: [users.institutionId],
-    references: [institutions.id],
+export const userConnectionsRelations = relations(userConnections, ({ one }) => ({
+  parent: one(users, {
+    fields: [userConnections.parentUserId],
+    references: [users.id],
+    relationName: 'parent'
+  }),
+  child: one(users, {
+    fields: [userConnections.childUserId],
+    references: [users.id],
+    relationName: 'child'
+  }),
+}));
+
+export const scholarshipCatalogRelations = relations(scholarshipCatalog, ({ many }) => ({
+  savedScholarships: many(scholarships),
+}));
+
+export const scholarshipsRelations = relations(scholarships, ({ one, many }) => ({
+  user: one(users, {
+    fields: [scholarships.userId],
+    references: [users.id],
+  }),
+  catalogEntry: one(scholarshipCatalog, {
+    fields: [scholarships.catalogId],
+    references: [scholarshipCatalog.id],
+  }),
+  requirements: many(scholarshipRequirements),
+}));
+
+export const requirementsRelations = relations(scholarshipRequirements, ({ one }) => ({
+  scholarship: one(scholarships, {
+    fields: [scholarshipRequirements.scholarshipId],
+    references: [scholarships.id],
+  }),
+}));
+
+export const financialGoalsRelations = relations(financialGoals, ({ one }) => ({
+  user: one(users, {
+    fields: [financialGoals.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  scholarship: one(scholarships, {
+    fields: [notifications.scholarshipId],
+    references: [scholarships.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  user: one(users, {
+    fields: [calendarFeeds.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userTwoFactorRelations = relations(userTwoFactor, ({ one }) => ({
+  user: one(users, {
+    fields: [userTwoFactor.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
   }),
 }));
 
@@ -124,11 +584,38 @@ export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Institution = typeof institutions.$inferSelect;
 export type NewInstitution = typeof institutions.$inferInsert;
+export type UserConnection = typeof userConnections.$inferSelect;
+export type NewUserConnection = typeof userConnections.$inferInsert;
+export type CatalogScholarship = typeof scholarshipCatalog.$inferSelect;
+export type NewCatalogScholarship = typeof scholarshipCatalog.$inferInsert;
+export type Scholarship = typeof scholarships.$inferSelect;
+export type NewScholarship = typeof scholarships.$inferInsert;
+export type ScholarshipRequirement = typeof scholarshipRequirements.$inferSelect;
+export type NewScholarshipRequirement = typeof scholarshipRequirements.$inferInsert;
+export type FinancialGoal = typeof financialGoals.$inferSelect;
+export type NewFinancialGoal = typeof financialGoals.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type MetricSnapshot = typeof metricSnapshots.$inferSelect;
+export type NewMetricSnapshot = typeof metricSnapshots.$inferInsert;
+export type QueuedMail = typeof mailQueue.$inferSelect;
+export type NewQueuedMail = typeof mailQueue.$inferInsert;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type NewAuthToken = typeof authTokens.$inferInsert;
+export type AuthTokenPurpose = AuthToken['purpose'];
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type NewCalendarFeed = typeof calendarFeeds.$inferInsert;
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
 
 // Export role enums as types
 export type UserRole = 'student' | 'parent' | 'counselor';
 export type EducationLevel = 'high_school' | 'undergraduate' | 'graduate' | 'doctoral' | 'post_doctoral';
 export type EducationalStatus = 'accepted_planning_to_attend' | 'currently_enrolled' | 'graduated' | 'gap_year' | 'transferring';
+export type ConnectionStatus = 'pending' | 'approved' | 'rejected' | 'revoked';
+export type ScholarshipStatus = 'not_started' | 'draft' | 'in_progress' | 'submitted' | 'under_review' | 'awarded' | 'rejected';
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type NewActivityLog = typeof activityLogs.$inferInsert;
 
@@ -137,6 +624,8 @@ export enum ActivityType {
   SIGN_IN = 'SIGN_IN',
   SIGN_OUT = 'SIGN_OUT',
   UPDATE_PASSWORD = 'UPDATE_PASSWORD',
+  PASSWORD_RESET_REQUESTED = 'PASSWORD_RESET_REQUESTED',
+  PASSWORD_RESET = 'PASSWORD_RESET',
   DELETE_ACCOUNT = 'DELETE_ACCOUNT',
   UPDATE_ACCOUNT = 'UPDATE_ACCOUNT',
   SHARE_CREATED = 'SHARE_CREATED',
@@ -145,4 +634,33 @@ export enum ActivityType {
   SHARE_DELETED = 'SHARE_DELETED',
   EMAIL_VERIFIED = 'EMAIL_VERIFIED',
   PROFILE_UPDATED = 'PROFILE_UPDATED',
+  SCHOLARSHIP_CREATED = 'SCHOLARSHIP_CREATED',
+  SCHOLARSHIP_SAVED_FROM_CATALOG = 'SCHOLARSHIP_SAVED_FROM_CATALOG',
+  SCHOLARSHIP_UPDATED = 'SCHOLARSHIP_UPDATED',
+  SCHOLARSHIP_DELETED = 'SCHOLARSHIP_DELETED',
+  REQUIREMENT_CREATED = 'REQUIREMENT_CREATED',
+  REQUIREMENT_UPDATED = 'REQUIREMENT_UPDATED',
+  REQUIREMENT_DELETED = 'REQUIREMENT_DELETED',
+  APPLICATION_STATUS_CHANGED = 'APPLICATION_STATUS_CHANGED',
+  NOTIFICATION_PREFERENCES_UPDATED = 'NOTIFICATION_PREFERENCES_UPDATED',
+  CONNECTION_REQUESTED = 'CONNECTION_REQUESTED',
+  CONNECTION_APPROVED = 'CONNECTION_APPROVED',
+  CONNECTION_REJECTED = 'CONNECTION_REJECTED',
+  CONNECTION_REVOKED = 'CONNECTION_REVOKED',
+  CONNECTION_PERMISSIONS_UPDATED = 'CONNECTION_PERMISSIONS_UPDATED',
+  FINANCIAL_GOAL_CREATED = 'FINANCIAL_GOAL_CREATED',
+  FINANCIAL_GOAL_UPDATED = 'FINANCIAL_GOAL_UPDATED',
+  FINANCIAL_GOAL_DELETED = 'FINANCIAL_GOAL_DELETED',
+  FINANCIAL_ASSUMPTIONS_UPDATED = 'FINANCIAL_ASSUMPTIONS_UPDATED',
+  WORK_PLAN_PREFERENCES_UPDATED = 'WORK_PLAN_PREFERENCES_UPDATED',
+  CALENDAR_FEED_CREATED = 'CALENDAR_FEED_CREATED',
+  CALENDAR_FEED_REVOKED = 'CALENDAR_FEED_REVOKED',
+  SESSION_REVOKED = 'SESSION_REVOKED',
+  ALL_SESSIONS_REVOKED = 'ALL_SESSIONS_REVOKED',
+  SIGN_IN_FAILED = 'SIGN_IN_FAILED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  TWO_FACTOR_ENABLED = 'TWO_FACTOR_ENABLED',
+  TWO_FACTOR_DISABLED = 'TWO_FACTOR_DISABLED',
+  RECOVERY_CODE_USED = 'RECOVERY_CODE_USED',
+  RECOVERY_CODES_REGENERATED = 'RECOVERY_CODES_REGENERATED',
 }
\ No newline at end of file
@@ -14,34 +14,55 @@ async function quickSeed() {
   const demoPassword = 'Demo123!';
   const passwordHash = await hashPassword(demoPassword);
 
-  // Create demo users
+  // Create demo users; their addresses count as verified so linking works
+  const emailVerifiedAt = new Date();
   const demoUsers = await db
     .insert(users)
     .values([
       {
         email: 'alex.johnson@demo.com',
         passwordHash: passwordHash,
-        name: 'Alex Johnson',
+        firstName: 'Alex',
+        lastName: 'Johnson',
+        role: 'student',
+        emailVerified: true,
+        emailVerifiedAt,
       },
       {
         email: 'morgan.davis@demo.com', 
         passwordHash: passwordHash,
-        name: 'Morgan Davis',
+        firstName: 'Morgan',
+        lastName: 'Davis',
+        role: 'student',
+        emailVerified: true,
+        emailVerifiedAt,
       },
       {
         email: 'patricia.johnson@demo.com',
         passwordHash: passwordHash,
-        name: 'Patricia Johnson (Parent)',
+        firstName: 'Patricia',
+        lastName: 'Johnson',
+        role: 'parent',
+        emailVerified: true,
+        emailVerifiedAt,
       },
       {
         email: 'dr.rodriguez@demo.com',
         passwordHash: passwordHash,
-        name: 'Dr. Michael Rodriguez (Counselor)',
+        firstName: 'Michael',
+        lastName: 'Rodriguez',
+        role: 'counselor',
+        emailVerified: true,
+        emailVerifiedAt,
       },
       {
         email: 'test@test.com', // Keep existing test user
         passwordHash: passwordHash,
-        name: 'Test User',
+        firstName: 'Test',
+        lastName: 'User',
+        role: 'student',
+        emailVerified: true,
+        emailVerifiedAt,
       }
     ])
     .returning();
@@ -1,5 +1,5 @@
 import { db } from './drizzle';
-import { users } from './schema';
+import { scholarshipCatalog, users } from './schema';
 import { hashPassword } from '@/lib/auth/session';
 
 async function seed() {
@@ -13,12 +13,73 @@ async function seed() {
       {
         email: email,
         passwordHash: passwordHash,
-        name: 'Test User',
+        firstName: 'Test',
+        lastName: 'User',
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
       },
     ])
     .returning();
 
   console.log('Initial user created.');
+
+  // Deadlines in the next calendar year so Smart Discovery has open entries
+  const nextYear = new Date().getFullYear() + 1;
+  await db.insert(scholarshipCatalog).values([
+    {
+      title: 'STEM Excellence Scholarship',
+      provider: 'Technology Education Foundation',
+      amount: '25000',
+      deadline: `${nextYear}-03-15`,
+      category: 'STEM',
+      competitiveness: 'high',
+      renewable: true,
+      eligibility: [
+        { kind: 'min_gpa', minimum: 3.5, isRequired: true },
+        { kind: 'major', majors: ['STEM'], isRequired: true },
+      ],
+      requirements: [
+        { label: 'Career goals essay', type: 'document', isRequired: true },
+        { label: 'Official transcript', type: 'academic', isRequired: true },
+      ],
+    },
+    {
+      title: 'First Generation College Student Award',
+      provider: 'Educational Opportunity Fund',
+      amount: '15000',
+      deadline: `${nextYear}-04-01`,
+      category: 'Need-Based',
+      competitiveness: 'medium',
+      renewable: true,
+      eligibility: [
+        { kind: 'demographic', flag: 'firstGeneration', isRequired: true },
+        { kind: 'max_family_income', maximum: 60000, isRequired: true },
+        { kind: 'min_gpa', minimum: 3.0, isRequired: true },
+      ],
+      requirements: [
+        { label: 'FAFSA submission confirmation', type: 'financial', isRequired: true },
+        { label: 'Personal statement', type: 'document', isRequired: true },
+      ],
+    },
+    {
+      title: 'Community Service Leadership Grant',
+      provider: 'Civic Futures Council',
+      amount: '2000',
+      deadline: `${nextYear}-02-01`,
+      category: 'Service',
+      competitiveness: 'low',
+      renewable: false,
+      eligibility: [
+        { kind: 'education_level', levels: ['high_school', 'undergraduate'], isRequired: true },
+      ],
+      requirements: [
+        { label: 'Letter of recommendation', type: 'document', isRequired: true },
+        { label: 'Service hours log', type: 'activity', isRequired: false },
+      ],
+    },
+  ]);
+
+  console.log('Scholarship catalog seeded.');
   console.log('Seed data created successfully.');
 }
 
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ApplicationScheduler, type SchedulableApplication } from './application-scheduler';
+
+// Wednesday; its week (Mon 19 - Sun 25) has five days left
+const NOW = new Date(2026, 9, 21, 15, 30);
+
+function application(id: number, deadline: string, hours: number): SchedulableApplication {
+  return { id, title: `Scholarship ${id}`, deadline, hours };
+}
+
+describe('ApplicationScheduler', () => {
+  // 7 hours a week is one hour a day
+  const scheduler = new ApplicationScheduler(7, 4);
+
+  it('spreads work across week boundaries and only offers the days left this week', () => {
+    const plan = scheduler.schedule([application(1, '2026-10-27', 6)], NOW);
+
+    const weeks = plan.weeks.map(({ weekStart, weekEnd, availableHours, plannedHours }) => ({
+      weekStart,
+      weekEnd,
+      availableHours,
+      plannedHours,
+    }));
+
+    expect(weeks).toEqual([
+      { weekStart: '2026-10-19', weekEnd: '2026-10-25', availableHours: 5, plannedHours: 5 },
+      { weekStart: '2026-10-26', weekEnd: '2026-11-01', availableHours: 7, plannedHours: 1 },
+    ]);
+    expect(plan.shortfalls).toEqual([]);
+    expect(plan.infeasibleWeeks).toEqual([]);
+  });
+
+  it('books hours that miss a deadline on the deadline day and reports the shortfall', () => {
+    const plan = scheduler.schedule([application(1, '2026-10-27', 10)], NOW);
+
+    expect(plan.shortfalls).toEqual([
+      { scholarshipId: 1, title: 'Scholarship 1', deadline: '2026-10-27', hoursShort: 3 },
+    ]);
+    // Monday and Tuesday plus the three hours booked on the deadline
+    expect(plan.weeks[1].blocks).toEqual([
+      { scholarshipId: 1, title: 'Scholarship 1', deadline: '2026-10-27', hours: 5 },
+    ]);
+    expect(plan.infeasibleWeeks).toEqual([]);
+  });
+
+  it('marks the week infeasible once the shortfall crowds out later work', () => {
+    const plan = scheduler.schedule(
+      [application(2, '2026-11-01', 5), application(1, '2026-10-27', 10)],
+      NOW
+    );
+
+    expect(plan.weeks[0]).toMatchObject({ plannedHours: 5, overbookedHours: 0 });
+    expect(plan.weeks[1]).toMatchObject({ availableHours: 7, plannedHours: 10, overbookedHours: 3 });
+    expect(plan.infeasibleWeeks).toEqual(['2026-10-26']);
+    expect(plan.shortfalls.map((shortfall) => shortfall.scholarshipId)).toEqual([1]);
+  });
+
+  it('plans deadlines past the horizon within it without a shortfall', () => {
+    const plan = new ApplicationScheduler(7, 2).schedule([application(1, '2026-12-01', 20)], NOW);
+
+    expect(plan.weeks.map((week) => week.plannedHours)).toEqual([5, 7]);
+    expect(plan.shortfalls).toEqual([]);
+    expect(plan.infeasibleWeeks).toEqual([]);
+  });
+
+  it('skips finished and past-due applications and drops empty trailing weeks', () => {
+    const plan = scheduler.schedule(
+      [application(1, '2026-10-20', 4), application(2, '2026-10-30', 0), application(3, '2026-10-23', 2)],
+      NOW
+    );
+
+    expect(plan.totalHours).toBe(2);
+    expect(plan.weeks).toHaveLength(1);
+    expect(plan.weeks[0].blocks.map((block) => block.scholarshipId)).toEqual([3]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Application Scheduler - Weekly Work Plan
+ * Lays out the remaining hours for each planned application as weekly work
+ * blocks before its deadline, given how many hours a week the student has.
+ *
+ * Scheduling rules:
+ * - Weekly hours are spread evenly over the days of the week, so the
+ *   current week and a deadline's week only offer the days left in them
+ * - Applications are planned earliest deadline first, each taking the
+ *   earliest free time from today through its deadline day
+ * - Hours that don't fit before a deadline are booked on the deadline day
+ *   anyway and reported as a shortfall, so the week shows up as infeasible
+ * - Deadlines past the horizon are planned within it without a shortfall
+ * - Weeks start on Monday; dates are local calendar days (YYYY-MM-DD)
+ */
+
+import { WORK_PLAN_CONFIG } from '@/config/spider-web-config';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface SchedulableApplication {
+  id: number;
+  title: string;
+  deadline: string; // YYYY-MM-DD
+  hours: number; // still to do
+}
+
+export interface WorkBlock {
+  scholarshipId: number;
+  title: string;
+  deadline: string;
+  hours: number;
+}
+
+export interface WeekPlan {
+  weekStart: string; // Monday
+  weekEnd: string; // Sunday
+  availableHours: number;
+  plannedHours: number;
+  overbookedHours: number;
+  blocks: WorkBlock[];
+}
+
+export interface ApplicationShortfall {
+  scholarshipId: number;
+  title: string;
+  deadline: string;
+  hoursShort: number;
+}
+
+export interface WorkPlan {
+  weeklyHours: number;
+  weeks: WeekPlan[];
+  infeasibleWeeks: string[]; // weekStart of every overbooked week
+  shortfalls: ApplicationShortfall[];
+  totalHours: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function toPlanDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfWeek(date: Date): Date {
+  // getDay() is 0 for Sunday; weeks start on Monday
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+export class ApplicationScheduler {
+  constructor(
+    private readonly weeklyHours: number = WORK_PLAN_CONFIG.defaultWeeklyHours,
+    private readonly horizonWeeks: number = WORK_PLAN_CONFIG.horizonWeeks
+  ) {}
+
+  schedule(applications: SchedulableApplication[], now: Date = new Date()): WorkPlan {
+    const today = startOfDay(now);
+    const horizonEnd = addDays(startOfWeek(today), this.horizonWeeks * 7 - 1);
+    const dayIndex = (date: Date) => Math.round((date.getTime() - today.getTime()) / MS_PER_DAY);
+
+    const pending = applications
+      .filter((application) => application.hours > 0 && dayIndex(parseDate(application.deadline)) >= 0)
+      .sort((a, b) => a.deadline.localeCompare(b.deadline) || a.id - b.id);
+
+    const dayCount = dayIndex(horizonEnd) + 1;
+    const dailyHours = this.weeklyHours / 7;
+    const free = new Array<number>(dayCount).fill(dailyHours);
+    // allocations[day] maps scholarship id to hours booked that day
+    const allocations = Array.from({ length: dayCount }, () => new Map<number, number>());
+    const shortfalls: ApplicationShortfall[] = [];
+
+    for (const application of pending) {
+      const lastDay = Math.min(dayIndex(parseDate(application.deadline)), dayCount - 1);
+      let remaining = application.hours;
+
+      for (let day = 0; day <= lastDay && remaining > 1e-9; day++) {
+        const take = Math.min(free[day], remaining);
+        if (take > 0) {
+          free[day] -= take;
+          remaining -= take;
+          allocations[day].set(application.id, (allocations[day].get(application.id) ?? 0) + take);
+        }
+      }
+
+      // Past the horizon there is still time; later plans will pick it up
+      if (remaining > 1e-9 && dayIndex(parseDate(application.deadline)) < dayCount) {
+        allocations[lastDay].set(application.id, (allocations[lastDay].get(application.id) ?? 0) + remaining);
+        shortfalls.push({
+          scholarshipId: application.id,
+          title: application.title,
+          deadline: application.deadline,
+          hoursShort: round(remaining),
+        });
+      }
+    }
+
+    const byId = new Map(pending.map((application) => [application.id, application]));
+    const weeks: WeekPlan[] = [];
+
+    for (let weekStart = startOfWeek(today); weekStart <= horizonEnd; weekStart = addDays(weekStart, 7)) {
+      const firstDay = Math.max(dayIndex(weekStart), 0);
+      const lastDay = dayIndex(addDays(weekStart, 6));
+      const hoursById = new Map<number, number>();
+      for (let day = firstDay; day <= lastDay; day++) {
+        allocations[day].forEach((hours, id) => hoursById.set(id, (hoursById.get(id) ?? 0) + hours));
+      }
+
+      const availableHours = dailyHours * (lastDay - firstDay + 1);
+      const plannedHours = Array.from(hoursById.values()).reduce((sum, hours) => sum + hours, 0);
+
+      weeks.push({
+        weekStart: toPlanDate(weekStart),
+        weekEnd: toPlanDate(addDays(weekStart, 6)),
+        availableHours: round(availableHours),
+        plannedHours: round(plannedHours),
+        overbookedHours: round(Math.max(plannedHours - availableHours, 0)),
+        blocks: Array.from(hoursById.entries()).map(([id, hours]) => ({
+          scholarshipId: id,
+          title: byId.get(id)!.title,
+          deadline: byId.get(id)!.deadline,
+          hours: round(hours),
+        })),
+      });
+    }
+
+    // Drop the empty tail after the last booked week
+    while (weeks.length > 1 && weeks[weeks.length - 1].blocks.length === 0) {
+      weeks.pop();
+    }
+
+    return {
+      weeklyHours: this.weeklyHours,
+      weeks,
+      infeasibleWeeks: weeks.filter((week) => week.overbookedHours > 0).map((week) => week.weekStart),
+      shortfalls,
+      totalHours: round(pending.reduce((sum, application) => sum + application.hours, 0)),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { ApplicationStatus } from '@/types/spider-web';
+import {
+  APPLICATION_STATUS_TRANSITIONS,
+  canTransition,
+  describeTransitionError,
+  getTransitionDates,
+  isTerminalStatus,
+} from './application-status-machine';
+
+const STATUSES = Object.keys(APPLICATION_STATUS_TRANSITIONS) as ApplicationStatus[];
+
+const ALLOWED: [ApplicationStatus, ApplicationStatus][] = [
+  ['not_started', 'draft'],
+  ['not_started', 'in_progress'],
+  ['draft', 'in_progress'],
+  ['in_progress', 'draft'],
+  ['draft', 'submitted'],
+  ['in_progress', 'submitted'],
+  ['submitted', 'under_review'],
+  ['submitted', 'awarded'],
+  ['submitted', 'rejected'],
+  ['under_review', 'awarded'],
+  ['under_review', 'rejected'],
+];
+
+describe('application status machine', () => {
+  it('allows exactly the lifecycle transitions', () => {
+    for (const from of STATUSES) {
+      for (const to of STATUSES) {
+        const expected = ALLOWED.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to);
+        expect(canTransition(from, to), `${from} → ${to}`).toBe(expected);
+      }
+    }
+  });
+
+  it('treats decisions as final', () => {
+    expect(STATUSES.filter(isTerminalStatus)).toEqual(['awarded', 'rejected']);
+    expect(describeTransitionError('awarded', 'draft')).toBe('Awarded is a final status and cannot be changed.');
+  });
+
+  it('lists the allowed moves when a transition is refused', () => {
+    expect(describeTransitionError('not_started', 'submitted')).toBe(
+      'Cannot move from Not Started to Submitted. Allowed: Draft, In Progress.'
+    );
+  });
+
+  describe('getTransitionDates', () => {
+    const earlier = new Date('2026-03-01T12:00:00Z');
+    const now = new Date('2026-04-15T09:00:00Z');
+
+    it('stamps submittedDate on submission', () => {
+      expect(getTransitionDates({ submittedDate: null, resultDate: null }, 'submitted', now)).toEqual({
+        submittedDate: now,
+        resultDate: null,
+      });
+    });
+
+    it('keeps the first submittedDate if one is already set', () => {
+      expect(getTransitionDates({ submittedDate: earlier, resultDate: null }, 'submitted', now)).toEqual({
+        submittedDate: earlier,
+        resultDate: null,
+      });
+    });
+
+    it('stamps resultDate on a decision and keeps the submission date', () => {
+      for (const decision of ['awarded', 'rejected'] as const) {
+        expect(getTransitionDates({ submittedDate: earlier, resultDate: null }, decision, now)).toEqual({
+          submittedDate: earlier,
+          resultDate: now,
+        });
+      }
+    });
+
+    it('leaves both dates alone while preparing or under review', () => {
+      for (const status of ['draft', 'in_progress', 'under_review'] as const) {
+        expect(getTransitionDates({ submittedDate: earlier, resultDate: null }, status, now)).toEqual({
+          submittedDate: earlier,
+          resultDate: null,
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Application Status Machine - Scholarship Application Lifecycle
+ * Defines which status changes are allowed and which lifecycle
+ * timestamps each change stamps onto the scholarship.
+ *
+ * Lifecycle:
+ * - Preparation: not_started → draft ⇄ in_progress
+ * - Submission:  draft | in_progress → submitted → under_review
+ * - Decision:    submitted | under_review → awarded | rejected
+ */
+
+import { ApplicationStatus } from '@/types/spider-web';
+
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  not_started: ['draft', 'in_progress'],
+  draft: ['in_progress', 'submitted'],
+  in_progress: ['draft', 'submitted'],
+  submitted: ['under_review', 'awarded', 'rejected'],
+  under_review: ['awarded', 'rejected'],
+  awarded: [],
+  rejected: [],
+};
+
+// Statuses a scholarship may be created in, before anything has been submitted
+export const INITIAL_APPLICATION_STATUSES: readonly ApplicationStatus[] = [
+  'not_started',
+  'draft',
+  'in_progress',
+];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  not_started: 'Not Started',
+  draft: 'Draft',
+  in_progress: 'In Progress',
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  awarded: 'Awarded',
+  rejected: 'Rejected',
+};
+
+export interface ApplicationLifecycleDates {
+  submittedDate: Date | null;
+  resultDate: Date | null;
+}
+
+export function getAllowedTransitions(from: ApplicationStatus): readonly ApplicationStatus[] {
+  return APPLICATION_STATUS_TRANSITIONS[from] ?? [];
+}
+
+export function canTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+export function isTerminalStatus(status: ApplicationStatus): boolean {
+  return getAllowedTransitions(status).length === 0;
+}
+
+/**
+ * Compute the lifecycle timestamps after moving into `to`.
+ * Submission stamps submittedDate once; a decision stamps resultDate.
+ */
+export function getTransitionDates(
+  current: ApplicationLifecycleDates,
+  to: ApplicationStatus,
+  at: Date = new Date()
+): ApplicationLifecycleDates {
+  const submittedDate = to === 'submitted' ? current.submittedDate ?? at : current.submittedDate;
+  const resultDate = to === 'awarded' || to === 'rejected' ? at : current.resultDate;
+
+  return { submittedDate, resultDate };
+}
+
+export function describeTransitionError(from: ApplicationStatus, to: ApplicationStatus): string {
+  const allowed = getAllowedTransitions(from);
+  if (allowed.length === 0) {
+    return `${APPLICATION_STATUS_LABELS[from]} is a final status and cannot be changed.`;
+  }
+  return `Cannot move from ${APPLICATION_STATUS_LABELS[from]} to ${APPLICATION_STATUS_LABELS[to]}. ` +
+    `Allowed: ${allowed.map((status) => APPLICATION_STATUS_LABELS[status]).join(', ')}.`;
+}
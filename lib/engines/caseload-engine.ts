@@ -0,0 +1,183 @@
+/**
+ * Caseload Engine - Counselor Dashboard
+ * Summarizes each linked student's scholarships and filters/sorts the
+ * caseload. Uses the hub metrics definitions so a student's numbers match
+ * what they see on their own dashboard.
+ *
+ * Access levels follow the connection's permissions:
+ * - full: canViewApplications (amounts and awarded totals included)
+ * - progress: canViewProgress only (statuses, deadlines and completion)
+ * - none: linked but neither permission granted
+ */
+
+import { ApplicationStatus } from '@/types/spider-web';
+import {
+  ACTIVE_STATUSES,
+  AT_RISK_COMPLETION_THRESHOLD,
+  AT_RISK_WINDOW_DAYS,
+  OPEN_STATUSES,
+  UPCOMING_DEADLINE_WINDOW_DAYS,
+  daysUntil
+} from './hub-metrics-engine';
+
+export type CaseloadAccess = 'full' | 'progress' | 'none';
+
+export const CASELOAD_FILTERS = ['all', 'at_risk', 'upcoming', 'no_access'] as const;
+export type CaseloadFilter = (typeof CASELOAD_FILTERS)[number];
+
+export const CASELOAD_SORTS = ['name', 'next_deadline', 'completion', 'awarded', 'at_risk'] as const;
+export type CaseloadSort = (typeof CASELOAD_SORTS)[number];
+
+export const CASELOAD_FILTER_LABELS: Record<CaseloadFilter, string> = {
+  all: 'All students',
+  at_risk: 'At risk',
+  upcoming: 'Deadlines in 30 days',
+  no_access: 'No access granted',
+};
+
+export const CASELOAD_SORT_LABELS: Record<CaseloadSort, string> = {
+  name: 'Name',
+  next_deadline: 'Next deadline',
+  completion: 'Completion (lowest first)',
+  awarded: 'Awarded (highest first)',
+  at_risk: 'Most at risk',
+};
+
+export interface CaseloadStudent {
+  id: number;
+  name: string;
+  email: string;
+  institution: string | null;
+  graduationYear: number | null;
+}
+
+export interface CaseloadScholarship {
+  id: number;
+  title: string;
+  amount: string | number | null; // null when the counselor only has progress access
+  deadline: string; // YYYY-MM-DD
+  status: ApplicationStatus;
+  completion: number;
+}
+
+export interface AtRiskScholarship {
+  id: number;
+  title: string;
+  deadline: string;
+  daysRemaining: number;
+  completion: number;
+}
+
+export interface CaseloadStudentSummary {
+  student: CaseloadStudent;
+  access: CaseloadAccess;
+  inFlight: number;
+  upcomingDeadlines: number;
+  nextDeadline: string | null;
+  completionRate: number;
+  awardedTotal: number | null;
+  atRisk: AtRiskScholarship[];
+}
+
+export class CaseloadEngine {
+  summarize(
+    student: CaseloadStudent,
+    access: CaseloadAccess,
+    scholarships: CaseloadScholarship[],
+    now: Date = new Date()
+  ): CaseloadStudentSummary {
+    if (access === 'none') {
+      return {
+        student,
+        access,
+        inFlight: 0,
+        upcomingDeadlines: 0,
+        nextDeadline: null,
+        completionRate: 0,
+        awardedTotal: null,
+        atRisk: [],
+      };
+    }
+
+    const open = scholarships
+      .filter((scholarship) => OPEN_STATUSES.includes(scholarship.status))
+      .map((scholarship) => ({ scholarship, daysRemaining: daysUntil(scholarship.deadline, now) }))
+      .filter(({ daysRemaining }) => daysRemaining >= 0)
+      .sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+    const atRisk = open
+      .filter(
+        ({ scholarship, daysRemaining }) =>
+          daysRemaining <= AT_RISK_WINDOW_DAYS && scholarship.completion < AT_RISK_COMPLETION_THRESHOLD
+      )
+      .map(({ scholarship, daysRemaining }) => ({
+        id: scholarship.id,
+        title: scholarship.title,
+        deadline: scholarship.deadline,
+        daysRemaining,
+        completion: scholarship.completion,
+      }));
+
+    const completionRate =
+      open.length === 0
+        ? 0
+        : Math.round(open.reduce((sum, { scholarship }) => sum + scholarship.completion, 0) / open.length);
+
+    return {
+      student,
+      access,
+      inFlight: scholarships.filter((scholarship) => ACTIVE_STATUSES.includes(scholarship.status)).length,
+      upcomingDeadlines: open.filter(({ daysRemaining }) => daysRemaining <= UPCOMING_DEADLINE_WINDOW_DAYS).length,
+      nextDeadline: open[0]?.scholarship.deadline ?? null,
+      completionRate,
+      awardedTotal:
+        access === 'full'
+          ? scholarships
+              .filter((scholarship) => scholarship.status === 'awarded')
+              .reduce((sum, scholarship) => sum + (Number(scholarship.amount) || 0), 0)
+          : null,
+      atRisk,
+    };
+  }
+
+  filter(summaries: CaseloadStudentSummary[], filter: CaseloadFilter, search = ''): CaseloadStudentSummary[] {
+    const query = search.trim().toLowerCase();
+
+    return summaries.filter((summary) => {
+      if (
+        query &&
+        !summary.student.name.toLowerCase().includes(query) &&
+        !summary.student.email.toLowerCase().includes(query)
+      ) {
+        return false;
+      }
+
+      switch (filter) {
+        case 'at_risk':
+          return summary.atRisk.length > 0;
+        case 'upcoming':
+          return summary.upcomingDeadlines > 0;
+        case 'no_access':
+          return summary.access === 'none';
+        default:
+          return true;
+      }
+    });
+  }
+
+  sort(summaries: CaseloadStudentSummary[], sort: CaseloadSort): CaseloadStudentSummary[] {
+    const byName = (a: CaseloadStudentSummary, b: CaseloadStudentSummary) =>
+      a.student.name.localeCompare(b.student.name);
+
+    const compare: Record<CaseloadSort, (a: CaseloadStudentSummary, b: CaseloadStudentSummary) => number> = {
+      name: byName,
+      // Students without an open deadline go last
+      next_deadline: (a, b) => (a.nextDeadline ?? '9999-12-31').localeCompare(b.nextDeadline ?? '9999-12-31'),
+      completion: (a, b) => a.completionRate - b.completionRate,
+      awarded: (a, b) => (b.awardedTotal ?? -1) - (a.awardedTotal ?? -1),
+      at_risk: (a, b) => b.atRisk.length - a.atRisk.length,
+    };
+
+    return [...summaries].sort((a, b) => compare[sort](a, b) || byName(a, b));
+  }
+}
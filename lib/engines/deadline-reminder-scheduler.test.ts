@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DeadlineReminderScheduler, type ReminderCandidate } from './deadline-reminder-scheduler';
+
+const NOW = new Date(2026, 5, 1, 18, 45); // June 1, evening
+
+function scholarship(overrides: Partial<ReminderCandidate> = {}): ReminderCandidate {
+  return { id: 7, title: 'STEM Award', deadline: '2026-06-15', status: 'in_progress', ...overrides };
+}
+
+describe('DeadlineReminderScheduler', () => {
+  describe('normalizeOffsets', () => {
+    it('keeps unique whole days within range, largest first', () => {
+      expect(DeadlineReminderScheduler.normalizeOffsets([1, 7, 7, 0, 2.5, -3, 400, 30])).toEqual([30, 7, 1, 0]);
+    });
+
+    it('falls back to the default offsets', () => {
+      expect(DeadlineReminderScheduler.normalizeOffsets()).toEqual([30, 14, 7, 1]);
+      expect(DeadlineReminderScheduler.normalizeOffsets([-1])).toEqual([30, 14, 7, 1]);
+    });
+  });
+
+  it('schedules one reminder per offset before the deadline', () => {
+    const reminders = new DeadlineReminderScheduler([7, 1])
+      .scheduleFor(scholarship())
+      .map(({ offsetDays, scheduledFor, dedupeKey }) => ({ offsetDays, scheduledFor, dedupeKey }));
+
+    expect(reminders).toEqual([
+      { offsetDays: 7, scheduledFor: new Date(2026, 5, 8), dedupeKey: 'deadline:7:2026-06-15:7' },
+      { offsetDays: 1, scheduledFor: new Date(2026, 5, 14), dedupeKey: 'deadline:7:2026-06-15:1' },
+    ]);
+  });
+
+  describe('across a daylight saving change', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('keeps each reminder on its calendar day', () => {
+      // Clocks spring forward on March 8, 2026 in New York
+      vi.stubEnv('TZ', 'America/New_York');
+
+      const reminders = new DeadlineReminderScheduler([7])
+        .scheduleFor(scholarship({ deadline: '2026-03-12' }))
+        .map(({ scheduledFor }) => scheduledFor);
+
+      expect(reminders).toEqual([new Date(2026, 2, 5)]);
+    });
+  });
+
+  describe('getDueReminders', () => {
+    const scheduler = new DeadlineReminderScheduler([30, 14, 7, 1]);
+
+    it('sends only the closest reached offset', () => {
+      const [reminder] = scheduler.getDueReminders([scholarship({ deadline: '2026-06-06' })], NOW);
+
+      expect(reminder).toMatchObject({
+        offsetDays: 7,
+        daysRemaining: 5,
+        scheduledFor: new Date(2026, 5, 1),
+        dedupeKey: 'deadline:7:2026-06-06:7',
+        title: 'STEM Award is due in 5 days',
+      });
+    });
+
+    it('counts calendar days regardless of the time of day', () => {
+      const [tomorrow] = scheduler.getDueReminders([scholarship({ deadline: '2026-06-02' })], NOW);
+      const [today] = scheduler.getDueReminders([scholarship({ deadline: '2026-06-01' })], NOW);
+
+      expect(tomorrow).toMatchObject({ offsetDays: 1, daysRemaining: 1, title: 'STEM Award is due tomorrow' });
+      expect(today).toMatchObject({ offsetDays: 1, daysRemaining: 0, title: 'STEM Award is due today' });
+    });
+
+    it('waits until the first offset is reached and stops after the deadline', () => {
+      expect(scheduler.getDueReminders([scholarship({ deadline: '2026-07-15' })], NOW)).toEqual([]);
+      expect(scheduler.getDueReminders([scholarship({ deadline: '2026-05-31' })], NOW)).toEqual([]);
+    });
+
+    it('skips applications that are already submitted or decided', () => {
+      const statuses = ['submitted', 'under_review', 'awarded', 'rejected'] as const;
+
+      expect(scheduler.getDueReminders(statuses.map((status) => scholarship({ status })), NOW)).toEqual([]);
+    });
+
+    it('keys reminders so a moved deadline starts a fresh set', () => {
+      const [before] = scheduler.getDueReminders([scholarship({ deadline: '2026-06-10' })], NOW);
+      const [after] = scheduler.getDueReminders([scholarship({ deadline: '2026-06-11' })], NOW);
+
+      expect(before.offsetDays).toBe(after.offsetDays);
+      expect(before.dedupeKey).not.toBe(after.dedupeKey);
+    });
+  });
+});
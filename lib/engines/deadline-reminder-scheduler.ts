@@ -0,0 +1,131 @@
+/**
+ * Deadline Reminder Scheduler - Scholarship Deadline Management
+ * Computes which reminders are due for a set of scholarships given the
+ * user's reminder offsets (days before each deadline).
+ *
+ * Scheduling rules:
+ * - Only applications that have not been submitted get reminders
+ * - At most one reminder per scholarship per run: the closest offset that
+ *   has been reached, so a late-added scholarship doesn't fire every offset
+ * - Each reminder carries a dedupe key (scholarship + deadline + offset),
+ *   so re-running the scheduler never duplicates a reminder and moving a
+ *   deadline schedules a fresh set
+ */
+
+import { ApplicationStatus } from '@/types/spider-web';
+import { DEADLINE_REMINDER_CONFIG } from '@/config/spider-web-config';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ReminderCandidate {
+  id: number;
+  title: string;
+  deadline: string; // YYYY-MM-DD
+  status: ApplicationStatus;
+}
+
+export interface ScheduledReminder {
+  scholarshipId: number;
+  offsetDays: number;
+  daysRemaining: number;
+  scheduledFor: Date;
+  dedupeKey: string;
+  title: string;
+  message: string;
+}
+
+// Calendar-day arithmetic in local time so "1 day before" means the previous date
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function parseDeadline(deadline: string): Date {
+  const [year, month, day] = deadline.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export class DeadlineReminderScheduler {
+  private offsets: number[];
+
+  constructor(offsetDays?: number[]) {
+    this.offsets = DeadlineReminderScheduler.normalizeOffsets(offsetDays);
+  }
+
+  // Unique whole days within range, largest first; falls back to the defaults
+  static normalizeOffsets(offsetDays?: number[]): number[] {
+    const valid = (offsetDays ?? []).filter(
+      (days) => Number.isInteger(days) && days >= 0 && days <= DEADLINE_REMINDER_CONFIG.maxOffsetDays
+    );
+    const offsets = valid.length > 0 ? valid : [...DEADLINE_REMINDER_CONFIG.defaultOffsetDays];
+    return Array.from(new Set(offsets)).sort((a, b) => b - a);
+  }
+
+  getOffsets(): number[] {
+    return [...this.offsets];
+  }
+
+  isActive(scholarship: ReminderCandidate): boolean {
+    return (DEADLINE_REMINDER_CONFIG.activeStatuses as readonly ApplicationStatus[]).includes(
+      scholarship.status
+    );
+  }
+
+  daysUntilDeadline(deadline: string, now: Date = new Date()): number {
+    return Math.round((parseDeadline(deadline).getTime() - startOfDay(now).getTime()) / MS_PER_DAY);
+  }
+
+  // Every reminder date for a scholarship, whether or not it has been reached
+  scheduleFor(scholarship: ReminderCandidate): ScheduledReminder[] {
+    const deadline = parseDeadline(scholarship.deadline);
+    // Step back on the calendar, not in milliseconds, so a DST change inside
+    // the offset can't move the reminder onto the day before
+    return this.offsets.map((offsetDays) =>
+      this.buildReminder(
+        scholarship,
+        offsetDays,
+        offsetDays,
+        new Date(deadline.getFullYear(), deadline.getMonth(), deadline.getDate() - offsetDays)
+      )
+    );
+  }
+
+  getDueReminders(scholarships: ReminderCandidate[], now: Date = new Date()): ScheduledReminder[] {
+    const due: ScheduledReminder[] = [];
+
+    for (const scholarship of scholarships) {
+      if (!this.isActive(scholarship)) continue;
+
+      const daysRemaining = this.daysUntilDeadline(scholarship.deadline, now);
+      if (daysRemaining < 0) continue;
+
+      // Offsets are sorted largest first, so the last reached one is the closest
+      const reached = this.offsets.filter((offsetDays) => offsetDays >= daysRemaining);
+      if (reached.length === 0) continue;
+
+      const offsetDays = reached[reached.length - 1];
+      due.push(this.buildReminder(scholarship, offsetDays, daysRemaining, startOfDay(now)));
+    }
+
+    return due;
+  }
+
+  private buildReminder(
+    scholarship: ReminderCandidate,
+    offsetDays: number,
+    daysRemaining: number,
+    scheduledFor: Date
+  ): ScheduledReminder {
+    const when =
+      daysRemaining === 0 ? 'today' : daysRemaining === 1 ? 'tomorrow' : `in ${daysRemaining} days`;
+
+    return {
+      scholarshipId: scholarship.id,
+      offsetDays,
+      daysRemaining,
+      scheduledFor,
+      dedupeKey: `deadline:${scholarship.id}:${scholarship.deadline}:${offsetDays}`,
+      title: `${scholarship.title} is due ${when}`,
+      message: `The application deadline for ${scholarship.title} is ${scholarship.deadline}.`,
+    };
+  }
+}
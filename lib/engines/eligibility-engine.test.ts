@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import type { EligibilityRule, EligibilityStatus, Scholarship, StudentProfile } from '@/types/spider-web';
+import { EligibilityEngine, requirementToRule } from './eligibility-engine';
+
+function profile(overrides: Partial<StudentProfile> = {}): StudentProfile {
+  return {
+    id: 'student-1',
+    gpa: 3.4,
+    educationLevel: 'undergraduate',
+    major: 'Computer Science',
+    demographics: {
+      ethnicity: 'Hispanic or Latino',
+      gender: 'female',
+      firstGeneration: true,
+      disability: false,
+      veteran: false,
+    },
+    financialNeed: {
+      familyIncome: 52000,
+      dependents: 3,
+      assets: 10000,
+      expectedFamilyContribution: 4000,
+      financialNeed: 20000,
+    },
+    activities: [],
+    essays: [],
+    state: 'CA',
+    graduationYear: 2028,
+    ...overrides,
+  };
+}
+
+function scholarship(eligibility: EligibilityRule[], requirements: Scholarship['requirements'] = []): Scholarship {
+  return {
+    id: 'scholarship-1',
+    title: 'Test Scholarship',
+    provider: 'Test Foundation',
+    amount: 5000,
+    deadline: new Date(2027, 2, 1),
+    requirements,
+    competitiveness: 'medium',
+    renewability: false,
+    eligibility,
+  };
+}
+
+const engine = new EligibilityEngine();
+
+function statusOf(rule: EligibilityRule, student: StudentProfile = profile()): EligibilityStatus {
+  return engine.evaluate(student, scholarship([rule])).checks[0].status;
+}
+
+const noDemographics = profile({ incomplete: ['demographics'] });
+const noFinancial = profile({ incomplete: ['familyIncome', 'familyContribution'] });
+
+describe('EligibilityEngine rule checks', () => {
+  const cases: Array<{
+    rule: EligibilityRule;
+    pass: StudentProfile;
+    fail: StudentProfile;
+    unknown: StudentProfile;
+  }> = [
+    {
+      rule: { kind: 'min_gpa', minimum: 3.0, isRequired: true },
+      pass: profile({ gpa: 3.0 }),
+      fail: profile({ gpa: 2.9 }),
+      unknown: profile({ gpa: null }),
+    },
+    {
+      rule: { kind: 'major', majors: ['STEM'], isRequired: true },
+      pass: profile({ major: 'Mechanical Engineering' }),
+      fail: profile({ major: 'History' }),
+      unknown: profile({ major: ' ' }),
+    },
+    {
+      rule: { kind: 'education_level', levels: ['undergraduate'], isRequired: true },
+      pass: profile({ educationLevel: 'College' }),
+      fail: profile({ educationLevel: 'graduate' }),
+      unknown: profile({ educationLevel: '' }),
+    },
+    {
+      rule: { kind: 'demographic', flag: 'firstGeneration', isRequired: true },
+      pass: profile(),
+      fail: profile({ demographics: { ...profile().demographics, firstGeneration: false } }),
+      unknown: noDemographics,
+    },
+    {
+      rule: { kind: 'gender', genders: ['male'], isRequired: true },
+      pass: profile({ demographics: { ...profile().demographics, gender: 'Male' } }),
+      // "male" is inside "female", so genders must match exactly
+      fail: profile(),
+      unknown: profile({ demographics: { ...profile().demographics, gender: undefined } }),
+    },
+    {
+      rule: { kind: 'ethnicity', ethnicities: ['hispanic'], isRequired: true },
+      pass: profile(),
+      fail: profile({ demographics: { ...profile().demographics, ethnicity: 'Asian' } }),
+      unknown: noDemographics,
+    },
+    {
+      rule: { kind: 'max_family_income', maximum: 60000, isRequired: true },
+      pass: profile(),
+      fail: profile({ financialNeed: { ...profile().financialNeed, familyIncome: 60001 } }),
+      unknown: noFinancial,
+    },
+    {
+      rule: { kind: 'max_family_contribution', maximum: 5000, isRequired: true },
+      pass: profile(),
+      fail: profile({ financialNeed: { ...profile().financialNeed, expectedFamilyContribution: 9000 } }),
+      unknown: noFinancial,
+    },
+    {
+      rule: { kind: 'residency', states: ['ca', 'OR'], isRequired: true },
+      pass: profile({ state: 'CA' }),
+      fail: profile({ state: 'NV' }),
+      unknown: profile({ state: undefined }),
+    },
+    {
+      rule: { kind: 'graduation_year', from: 2027, to: 2029, isRequired: true },
+      pass: profile({ graduationYear: 2029 }),
+      fail: profile({ graduationYear: 2030 }),
+      unknown: profile({ graduationYear: undefined }),
+    },
+  ];
+
+  it.each(cases)('$rule.kind passes, fails and is unknown on the right profiles', ({ rule, pass, fail, unknown }) => {
+    expect(statusOf(rule, pass)).toBe('pass');
+    expect(statusOf(rule, fail)).toBe('fail');
+    expect(statusOf(rule, unknown)).toBe('unknown');
+  });
+
+  it('explains each outcome', () => {
+    const rule: EligibilityRule = { kind: 'min_gpa', minimum: 3.0, isRequired: true };
+
+    expect(engine.evaluate(profile({ gpa: 2.5 }), scholarship([rule])).checks[0].reason).toBe(
+      'GPA 2.5 is below the 3 minimum'
+    );
+    expect(engine.evaluate(profile({ gpa: null }), scholarship([rule])).checks[0].reason).toBe(
+      'Requires a 3 GPA; add your GPA to your profile'
+    );
+  });
+});
+
+describe('EligibilityEngine.evaluate', () => {
+  it('excludes only on a failed required rule', () => {
+    const student = profile({ gpa: 2.5, state: undefined });
+    const eligibleFor = (rule: EligibilityRule) => engine.evaluate(student, scholarship([rule])).eligible;
+
+    expect(eligibleFor({ kind: 'min_gpa', minimum: 3, isRequired: true })).toBe(false);
+    expect(eligibleFor({ kind: 'min_gpa', minimum: 3, isRequired: false })).toBe(true);
+    // Unknown never excludes
+    expect(eligibleFor({ kind: 'residency', states: ['CA'], isRequired: true })).toBe(true);
+  });
+
+  it('converts legacy requirements into rules alongside typed ones', () => {
+    const result = engine.evaluate(
+      profile(),
+      scholarship(
+        [{ kind: 'residency', states: ['CA'], isRequired: true }],
+        [
+          { type: 'gpa', value: '3.5', isRequired: true },
+          { type: 'essay', value: 'Why you?', isRequired: true },
+        ]
+      )
+    );
+
+    expect(result.checks.map(({ rule, status }) => [rule.kind, status])).toEqual([
+      ['residency', 'pass'],
+      ['min_gpa', 'fail'],
+    ]);
+    expect(result.eligible).toBe(false);
+  });
+
+  it('screens scholarships into eligible and ineligible', () => {
+    const open = { ...scholarship([]), id: 'open' };
+    const closed = { ...scholarship([{ kind: 'residency', states: ['NY'], isRequired: true }]), id: 'closed' };
+
+    const { eligible, ineligible } = engine.screen(profile(), [open, closed]);
+
+    expect(eligible.map(({ scholarship }) => scholarship.id)).toEqual(['open']);
+    expect(ineligible.map((result) => result.scholarshipId)).toEqual(['closed']);
+  });
+
+  it('rewards met rules and penalizes missed preferences in the match adjustment', () => {
+    const result = engine.evaluate(
+      profile(),
+      scholarship([
+        { kind: 'major', majors: ['STEM'], isRequired: true },
+        { kind: 'residency', states: ['NY'], isRequired: false },
+        { kind: 'graduation_year', isRequired: false, from: 2020 },
+      ])
+    );
+
+    expect(engine.matchAdjustment(result)).toBeCloseTo(0.15 - 0.1 + 0.05);
+  });
+});
+
+describe('requirementToRule', () => {
+  it('reads the legacy requirement types', () => {
+    expect(requirementToRule({ type: 'gpa', value: 3.2, isRequired: true })).toEqual({
+      kind: 'min_gpa',
+      minimum: 3.2,
+      isRequired: true,
+    });
+    expect(requirementToRule({ type: 'financial', value: '8000', isRequired: false })).toEqual({
+      kind: 'max_family_contribution',
+      maximum: 8000,
+      isRequired: false,
+    });
+    expect(requirementToRule({ type: 'demographic', value: 'First-Gen students', isRequired: true })).toEqual({
+      kind: 'demographic',
+      flag: 'firstGeneration',
+      isRequired: true,
+    });
+    expect(requirementToRule({ type: 'demographic', value: 'Women in STEM', isRequired: true })).toMatchObject({
+      kind: 'gender',
+    });
+    expect(requirementToRule({ type: 'demographic', value: 'Hispanic or Latino heritage', isRequired: true })).toEqual({
+      kind: 'ethnicity',
+      ethnicities: ['hispanic', 'latino'],
+      isRequired: true,
+    });
+  });
+
+  it('ignores requirements that are not eligibility criteria or cannot be read', () => {
+    expect(requirementToRule({ type: 'essay', value: 'Tell us about yourself', isRequired: true })).toBeNull();
+    expect(requirementToRule({ type: 'gpa', value: 'high', isRequired: true })).toBeNull();
+    expect(requirementToRule({ type: 'demographic', value: 'Left-handed applicants', isRequired: true })).toBeNull();
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Eligibility Engine - Scholarship Pre-screening
+ * Checks a student profile against a scholarship's eligibility rules before
+ * any scoring happens, with a pass/fail reason for every rule.
+ *
+ * Rules:
+ * - Typed rules come from the scholarship's eligibility list; older
+ *   gpa/major/demographic/financial requirements are converted to rules
+ *   when their text can be read, and left out otherwise
+ * - A failed required rule makes the scholarship ineligible
+ * - A rule the profile has no data for is 'unknown' and never excludes,
+ *   so an incomplete profile doesn't hide scholarships
+ * - Preference (non-required) rules never exclude; they adjust the match
+ */
+
+import type {
+  EligibilityCheck,
+  EligibilityResult,
+  EligibilityRule,
+  EligibilityStatus,
+  Scholarship,
+  ScholarshipRequirement,
+  StudentProfile,
+} from '@/types/spider-web';
+import { ELIGIBILITY_CONFIG } from '@/config/spider-web-config';
+
+type EligibilityConfig = typeof ELIGIBILITY_CONFIG;
+
+const DEMOGRAPHIC_LABELS = {
+  firstGeneration: 'first-generation college students',
+  disability: 'students with a disability',
+  veteran: 'veterans',
+} as const;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function check(rule: EligibilityRule, status: EligibilityStatus, reason: string): EligibilityCheck {
+  return { rule, status, reason };
+}
+
+function list(values: readonly string[]): string {
+  return values.join(', ');
+}
+
+function yearRange(from?: number, to?: number): string {
+  if (from !== undefined && to !== undefined) return `${from}–${to}`;
+  return from !== undefined ? `${from} or later` : `${to} or earlier`;
+}
+
+/**
+ * Convert an untyped requirement to a rule; null when it isn't an
+ * eligibility criterion (essays, documents) or its value can't be read
+ */
+export function requirementToRule(requirement: ScholarshipRequirement): EligibilityRule | null {
+  const { value, isRequired } = requirement;
+
+  switch (requirement.type) {
+    case 'gpa': {
+      const minimum = Number(value);
+      return Number.isFinite(minimum) ? { kind: 'min_gpa', minimum, isRequired } : null;
+    }
+    case 'major':
+      return typeof value === 'string' && value.trim() ? { kind: 'major', majors: [value], isRequired } : null;
+    case 'financial': {
+      const maximum = Number(value);
+      return Number.isFinite(maximum) ? { kind: 'max_family_contribution', maximum, isRequired } : null;
+    }
+    case 'demographic': {
+      const text = typeof value === 'string' ? normalize(value) : '';
+      if (/first.?gen/.test(text)) return { kind: 'demographic', flag: 'firstGeneration', isRequired };
+      if (/veteran|military/.test(text)) return { kind: 'demographic', flag: 'veteran', isRequired };
+      if (/disab/.test(text)) return { kind: 'demographic', flag: 'disability', isRequired };
+      if (/female|wom[ae]n/.test(text)) return { kind: 'gender', genders: ['female', 'woman'], isRequired };
+      const ethnicities = ELIGIBILITY_CONFIG.ethnicityTerms.filter((term) => text.includes(term));
+      return ethnicities.length > 0 ? { kind: 'ethnicity', ethnicities, isRequired } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export class EligibilityEngine {
+  constructor(private readonly config: EligibilityConfig = ELIGIBILITY_CONFIG) {}
+
+  rulesFor(scholarship: Scholarship): EligibilityRule[] {
+    const converted = scholarship.requirements
+      .map(requirementToRule)
+      .filter((rule): rule is EligibilityRule => rule !== null);
+    return [...(scholarship.eligibility ?? []), ...converted];
+  }
+
+  evaluate(profile: StudentProfile, scholarship: Scholarship): EligibilityResult {
+    const checks = this.rulesFor(scholarship).map((rule) => this.checkRule(profile, rule));
+
+    return {
+      scholarshipId: scholarship.id,
+      eligible: !checks.some((result) => result.rule.isRequired && result.status === 'fail'),
+      checks,
+    };
+  }
+
+  /**
+   * Split scholarships into those the student can apply for and the
+   * results explaining why the rest were screened out
+   */
+  screen(
+    profile: StudentProfile,
+    scholarships: Scholarship[]
+  ): { eligible: Array<{ scholarship: Scholarship; eligibility: EligibilityResult }>; ineligible: EligibilityResult[] } {
+    const eligible: Array<{ scholarship: Scholarship; eligibility: EligibilityResult }> = [];
+    const ineligible: EligibilityResult[] = [];
+
+    for (const scholarship of scholarships) {
+      const eligibility = this.evaluate(profile, scholarship);
+      if (eligibility.eligible) {
+        eligible.push({ scholarship, eligibility });
+      } else {
+        ineligible.push(eligibility);
+      }
+    }
+
+    return { eligible, ineligible };
+  }
+
+  /**
+   * Match multiplier adjustment from preference and required rules met
+   */
+  matchAdjustment(result: EligibilityResult): number {
+    return result.checks.reduce((adjustment, { rule, status }) => {
+      if (status === 'pass') return adjustment + this.config.matchBonus[rule.kind];
+      if (status === 'fail' && !rule.isRequired) return adjustment - this.config.missedPreferencePenalty;
+      return adjustment;
+    }, 0);
+  }
+
+  private checkRule(profile: StudentProfile, rule: EligibilityRule): EligibilityCheck {
+    const missingDemographics = profile.incomplete?.includes('demographics') ?? false;
+
+    switch (rule.kind) {
+      case 'min_gpa':
+        if (profile.gpa === null) {
+          return check(rule, 'unknown', `Requires a ${rule.minimum} GPA; add your GPA to your profile`);
+        }
+        return profile.gpa >= rule.minimum
+          ? check(rule, 'pass', `GPA ${profile.gpa} meets the ${rule.minimum} minimum`)
+          : check(rule, 'fail', `GPA ${profile.gpa} is below the ${rule.minimum} minimum`);
+
+      case 'major': {
+        if (!profile.major.trim()) {
+          return check(rule, 'unknown', 'No major on the profile');
+        }
+        return rule.majors.some((major) => this.majorMatches(profile.major, major))
+          ? check(rule, 'pass', `${profile.major} is an eligible major`)
+          : check(rule, 'fail', `Open to ${list(rule.majors)} majors; profile lists ${profile.major}`);
+      }
+
+      case 'education_level': {
+        const level = this.educationLevel(profile.educationLevel);
+        if (!level) {
+          return check(rule, 'unknown', 'No education level on the profile');
+        }
+        return rule.levels.some((required) => this.educationLevel(required) === level)
+          ? check(rule, 'pass', `${profile.educationLevel} students are eligible`)
+          : check(rule, 'fail', `Open to ${list(rule.levels)} students only`);
+      }
+
+      case 'demographic': {
+        const label = DEMOGRAPHIC_LABELS[rule.flag];
+        if (missingDemographics) {
+          return check(rule, 'unknown', `Open to ${label}; not recorded on the profile`);
+        }
+        return profile.demographics[rule.flag]
+          ? check(rule, 'pass', `Open to ${label}`)
+          : check(rule, 'fail', `Open to ${label} only`);
+      }
+
+      case 'gender':
+      case 'ethnicity': {
+        const value = rule.kind === 'gender' ? profile.demographics.gender : profile.demographics.ethnicity;
+        const accepted = rule.kind === 'gender' ? rule.genders : rule.ethnicities;
+        if (missingDemographics || !value) {
+          return check(rule, 'unknown', `Restricted by ${rule.kind}; not recorded on the profile`);
+        }
+        // Genders must match exactly ("male" is inside "female"); ethnicities may be part of a longer answer
+        const matches = (candidate: string) =>
+          rule.kind === 'gender' ? normalize(value) === normalize(candidate) : normalize(value).includes(normalize(candidate));
+        return accepted.some(matches)
+          ? check(rule, 'pass', `Open to ${list(accepted)} students`)
+          : check(rule, 'fail', `Open to ${list(accepted)} students only`);
+      }
+
+      case 'max_family_income':
+      case 'max_family_contribution': {
+        const isIncome = rule.kind === 'max_family_income';
+        const label = isIncome ? 'Family income' : 'Expected family contribution';
+        if (profile.incomplete?.includes(isIncome ? 'familyIncome' : 'familyContribution')) {
+          return check(rule, 'unknown', `${label} cap of $${rule.maximum.toLocaleString()}; not recorded on the profile`);
+        }
+        const amount = isIncome ? profile.financialNeed.familyIncome : profile.financialNeed.expectedFamilyContribution;
+        return amount <= rule.maximum
+          ? check(rule, 'pass', `${label} is within the $${rule.maximum.toLocaleString()} cap`)
+          : check(rule, 'fail', `${label} of $${amount.toLocaleString()} exceeds the $${rule.maximum.toLocaleString()} cap`);
+      }
+
+      case 'residency': {
+        if (!profile.state?.trim()) {
+          return check(rule, 'unknown', `Open to residents of ${list(rule.states)}; no state on the profile`);
+        }
+        const state = normalize(profile.state);
+        return rule.states.some((candidate) => normalize(candidate) === state)
+          ? check(rule, 'pass', `Residents of ${profile.state} are eligible`)
+          : check(rule, 'fail', `Open to residents of ${list(rule.states)} only`);
+      }
+
+      case 'graduation_year': {
+        const range = yearRange(rule.from, rule.to);
+        if (profile.graduationYear === undefined) {
+          return check(rule, 'unknown', `Open to ${range} graduates; no graduation year on the profile`);
+        }
+        const tooEarly = rule.from !== undefined && profile.graduationYear < rule.from;
+        const tooLate = rule.to !== undefined && profile.graduationYear > rule.to;
+        return tooEarly || tooLate
+          ? check(rule, 'fail', `Graduating in ${profile.graduationYear}; open to ${range} graduates`)
+          : check(rule, 'pass', `Graduating in ${profile.graduationYear} is within range`);
+      }
+    }
+  }
+
+  // Direct substring match, or membership in a named field like "STEM"
+  private majorMatches(studentMajor: string, required: string): boolean {
+    const major = normalize(studentMajor);
+    const target = normalize(required);
+    if (major.includes(target)) {
+      return true;
+    }
+    const group = this.config.majorGroups[target];
+    return group !== undefined && group.some((member) => major.includes(member));
+  }
+
+  // Canonical education level key, or null when blank or unrecognized
+  private educationLevel(value: string): string | null {
+    const level = normalize(value).replace(/[\s-]+/g, '_');
+    if (!level) {
+      return null;
+    }
+    if (level in this.config.educationLevelAliases) {
+      return level;
+    }
+    const text = normalize(value);
+    const match = Object.entries(this.config.educationLevelAliases).find(([, aliases]) =>
+      aliases.some((alias) => text === alias)
+    );
+    return match ? match[0] : level;
+  }
+}
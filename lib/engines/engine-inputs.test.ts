@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import type { User } from '@/lib/db/schema';
+import { toStudentProfile } from './engine-inputs';
+
+const user = { id: 7, gpa: '3.60', educationLevel: 'undergraduate', major: 'Biology', state: 'OR' } as User;
+
+describe('toStudentProfile', () => {
+  it('marks the family contribution unknown without a financial goal', () => {
+    const profile = toStudentProfile(user);
+
+    expect(profile.gpa).toBe(3.6);
+    expect(profile.incomplete).toEqual(['demographics', 'familyIncome', 'familyContribution']);
+  });
+
+  it("takes the family contribution from the student's financial goal", () => {
+    const profile = toStudentProfile(user, { expectedFamilyContribution: '4500.00' });
+
+    expect(profile.financialNeed.expectedFamilyContribution).toBe(4500);
+    expect(profile.incomplete).not.toContain('familyContribution');
+  });
+});
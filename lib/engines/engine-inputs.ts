@@ -0,0 +1,116 @@
+/**
+ * Engine Inputs
+ * Converts tracked scholarships, catalog entries and user rows into the
+ * Scholarship and StudentProfile shapes the scoring and financial engines
+ * work with.
+ *
+ * Tracked scholarships carry no competitiveness rating, so it is inferred
+ * from the award amount; requirement types are inferred from their labels.
+ */
+
+import type {
+  CatalogRequirement,
+  CatalogScholarship,
+  FinancialGoal,
+  User,
+  ScholarshipRequirement as RequirementRow
+} from '@/lib/db/schema';
+import type { ScholarshipWithRequirements } from '@/lib/db/queries';
+import type { Scholarship, ScholarshipRequirement, StudentProfile } from '@/types/spider-web';
+
+// Larger awards draw more applicants
+const COMPETITIVENESS_THRESHOLDS = { high: 10000, medium: 2500 };
+
+function toRequirementType(requirement: RequirementRow | CatalogRequirement): ScholarshipRequirement['type'] {
+  if (/essay|personal statement/i.test(requirement.label)) return 'essay';
+  if (/recommend|reference/i.test(requirement.label)) return 'recommendation';
+  if (requirement.type === 'financial') return 'financial';
+  return 'document';
+}
+
+export function toEngineScholarship(scholarship: ScholarshipWithRequirements): Scholarship {
+  const amount = Number(scholarship.amount) || 0;
+  const [year, month, day] = scholarship.deadline.split('-').map(Number);
+
+  return {
+    id: String(scholarship.id),
+    title: scholarship.title,
+    provider: scholarship.provider,
+    amount,
+    deadline: new Date(year, month - 1, day),
+    requirements: scholarship.requirements.map((requirement) => ({
+      type: toRequirementType(requirement),
+      value: requirement.label,
+      isRequired: requirement.isRequired,
+    })),
+    competitiveness:
+      amount >= COMPETITIVENESS_THRESHOLDS.high
+        ? 'high'
+        : amount >= COMPETITIVENESS_THRESHOLDS.medium
+          ? 'medium'
+          : 'low',
+    renewability: false,
+    completion: scholarship.completion,
+  };
+}
+
+// Catalog entries carry their own competitiveness and eligibility rules
+export function catalogToEngineScholarship(entry: CatalogScholarship): Scholarship {
+  const [year, month, day] = entry.deadline.split('-').map(Number);
+
+  return {
+    id: String(entry.id),
+    title: entry.title,
+    provider: entry.provider,
+    amount: Number(entry.amount) || 0,
+    deadline: new Date(year, month - 1, day),
+    requirements: entry.requirements.map((requirement) => ({
+      type: toRequirementType(requirement),
+      value: requirement.label,
+      isRequired: requirement.isRequired,
+    })),
+    competitiveness: entry.competitiveness,
+    renewability: entry.renewable,
+    eligibility: entry.eligibility,
+  };
+}
+
+/**
+ * Build the engine profile from the user row and, when there is one, the
+ * financial goal for the year being planned. Fields with no recorded value
+ * get placeholders and are listed in `incomplete`, so eligibility reports
+ * them as unknown instead of judging the placeholder.
+ */
+export function toStudentProfile(
+  user: User,
+  financialGoal?: Pick<FinancialGoal, 'expectedFamilyContribution'> | null
+): StudentProfile {
+  const demographics: StudentProfile['demographics'] = { firstGeneration: false, disability: false, veteran: false };
+  const financialNeed: StudentProfile['financialNeed'] = {
+    familyIncome: 0,
+    dependents: 0,
+    assets: 0,
+    expectedFamilyContribution: financialGoal ? Number(financialGoal.expectedFamilyContribution) || 0 : 0,
+    financialNeed: 0,
+  };
+
+  // Demographics and family income aren't collected on the profile yet
+  const incomplete: NonNullable<StudentProfile['incomplete']> = ['demographics', 'familyIncome'];
+  if (!financialGoal) {
+    incomplete.push('familyContribution');
+  }
+
+  return {
+    id: String(user.id),
+    gpa: user.gpa ? Number(user.gpa) : null,
+    educationLevel: user.educationLevel ?? '',
+    major: user.major ?? '',
+    demographics,
+    financialNeed,
+    activities: [],
+    essays: [],
+    state: user.state ?? undefined,
+    graduationYear: user.expectedGraduationYear ?? undefined,
+    incomplete,
+  };
+}
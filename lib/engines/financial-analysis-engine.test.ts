@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { Scholarship, StudentProfile } from '@/types/spider-web';
+import { FinancialAnalysisEngineImpl } from './financial-analysis-engine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// $1,000, low competitiveness and no requirements: a 10-hour estimate
+function scholarship(id: string, completion?: number): Scholarship {
+  return {
+    id,
+    title: `Scholarship ${id}`,
+    provider: 'Test Foundation',
+    amount: 1000,
+    deadline: new Date(Date.now() + 20 * DAY_MS),
+    requirements: [],
+    competitiveness: 'low',
+    renewability: false,
+    completion,
+  };
+}
+
+const profile = { id: 'student-1', activities: [] } as unknown as StudentProfile;
+const engine = new FinancialAnalysisEngineImpl();
+
+describe('FinancialAnalysisEngineImpl remaining hours', () => {
+  it('counts completed work against the estimate', () => {
+    expect(engine.estimateApplicationEffort(scholarship('a', 40)).estimatedHours).toBe(10);
+    expect(engine.estimateRemainingHours(scholarship('a', 40))).toBe(6);
+    expect(engine.estimateRemainingHours(scholarship('b'))).toBe(10);
+  });
+
+  it('budgets the portfolio with the hours still to go', () => {
+    const portfolio = engine.optimizePortfolio([scholarship('started', 50), scholarship('new', 0)], profile, {
+      weeklyHours: 6,
+      planningWeeks: 1,
+    });
+
+    expect(portfolio.selectedScholarships.map(({ id }) => id)).toEqual(['started']);
+    expect(portfolio.totalEstimatedEffort).toBe(5);
+  });
+});
@@ -7,6 +7,10 @@
  * - ROI Optimization
  * - Portfolio Management
  * - Cost-Benefit Analysis
+ *
+ * Rates and dollar values come from an injected FinancialAssumptions object
+ * (defaults, then institution, then user overrides) and every result records
+ * the assumptions that produced it.
  */
 
 import { 
@@ -17,17 +21,21 @@ import {
   ApplicationEffort, 
   ROIAnalysis, 
   StudentProfile, 
-  OptimizedPortfolio 
+  OptimizedPortfolio,
+  PortfolioHourBudget,
+  FinancialAssumptions
 } from '@/types/spider-web';
+import { DEFAULT_FINANCIAL_ASSUMPTIONS } from '@/config/spider-web-config';
+import { LoanSimulator } from './loan-simulator';
+import { ScholarshipTaxCalculator } from './scholarship-tax-calculator';
+import { PortfolioOptimizer } from './portfolio-optimizer';
 
 export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
-  private readonly OPPORTUNITY_COST_RATE = 0.15; // 15% annual opportunity cost
-  private readonly APPLICATION_HOUR_VALUE = 25; // $25/hour value of student time
-  private readonly RISK_ADJUSTMENT_FACTORS = {
-    low: 0.9,
-    medium: 0.7,
-    high: 0.4,
-  };
+  constructor(
+    private readonly assumptions: FinancialAssumptions = DEFAULT_FINANCIAL_ASSUMPTIONS,
+    private readonly loanSimulator: LoanSimulator = new LoanSimulator(),
+    private readonly taxCalculator: ScholarshipTaxCalculator = new ScholarshipTaxCalculator()
+  ) {}
 
   /**
    * Calculate the budget impact of a scholarship
@@ -45,6 +53,7 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
       opportunityCost,
       paybackPeriod,
       recommendations,
+      assumptions: this.snapshotAssumptions(),
     };
   }
 
@@ -65,60 +74,162 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
       expectedValue: Math.round(expectedValue * 100) / 100,
       riskLevel,
       timeToComplete,
+      assumptions: this.snapshotAssumptions(),
     };
   }
 
   /**
-   * Optimize scholarship portfolio for maximum return
+   * Optimize scholarship portfolio for maximum return. Without a budget the
+   * hours available are estimated from the profile.
    */
-  optimizePortfolio(scholarships: Scholarship[], profile: StudentProfile): OptimizedPortfolio {
-    // Calculate ROI and risk for each scholarship
+  optimizePortfolio(
+    scholarships: Scholarship[],
+    profile: StudentProfile,
+    budget?: PortfolioHourBudget
+  ): OptimizedPortfolio {
+    // Calculate effort, ROI and expected award for each scholarship
     const scholarshipAnalysis = scholarships.map(scholarship => {
       const effort = this.estimateApplicationEffort(scholarship);
       const roi = this.calculateROI(scholarship, effort);
-      const budgetImpact = this.calculateBudgetImpact(scholarship, profile.financialNeed);
-      
+
       return {
         scholarship,
         effort,
         roi,
-        budgetImpact,
-        score: this.calculatePortfolioScore(scholarship, roi, budgetImpact),
+        expectedAward: scholarship.amount * roi.probability / 100,
       };
     });
 
-    // Sort by score and select optimal mix
-    const sortedScholarships = scholarshipAnalysis.sort((a, b) => b.score - a.score);
-    
-    // Apply portfolio optimization logic
-    const optimized = this.selectOptimalPortfolio(sortedScholarships, profile);
-    
-    const totalPotentialAward = optimized.reduce((sum, item) => 
-      sum + (item.scholarship.amount * item.roi.probability / 100), 0);
-    
+    // Maximize expected award within the hour budget, risk mix and deadlines
+    const optimizer = budget
+      ? new PortfolioOptimizer(budget.weeklyHours * budget.planningWeeks, { planningWeeks: budget.planningWeeks })
+      : new PortfolioOptimizer(this.calculateMaxEffort(profile));
+    const selection = optimizer.optimize(
+      scholarshipAnalysis.map(item => ({
+        id: item.scholarship.id,
+        title: item.scholarship.title,
+        expectedValue: item.expectedAward,
+        hours: this.remainingHours(item.scholarship, item.effort),
+        risk: this.categorizeBirisk(item.roi.riskLevel),
+        daysUntilDeadline: Math.max(0,
+          Math.floor((item.scholarship.deadline.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+        ),
+      }))
+    );
+
+    const selectedIds = new Set(selection.selectedIds);
+    const optimized = scholarshipAnalysis.filter(item => selectedIds.has(item.scholarship.id));
+    const byId = new Map(scholarships.map(scholarship => [scholarship.id, scholarship]));
+
     const totalEstimatedEffort = optimized.reduce((sum, item) => 
-      sum + item.effort.estimatedHours, 0);
+      sum + this.remainingHours(item.scholarship, item.effort), 0);
     
     const portfolioROI = this.calculatePortfolioROI(optimized);
     const riskDistribution = this.calculateRiskDistribution(optimized);
 
     return {
       selectedScholarships: optimized.map(item => item.scholarship),
-      totalPotentialAward: Math.round(totalPotentialAward),
+      totalPotentialAward: Math.round(selection.totalValue),
       totalEstimatedEffort,
       portfolioROI,
       riskDistribution,
+      exclusions: selection.exclusions.map(exclusion => ({
+        scholarship: byId.get(exclusion.id)!,
+        reason: exclusion.reason,
+        explanation: exclusion.explanation,
+      })),
+      isOptimal: selection.isOptimal,
+    };
+  }
+
+  /**
+   * Estimate hours, complexity and deadline stress for an application
+   */
+  estimateApplicationEffort(scholarship: Scholarship): ApplicationEffort {
+    // Estimate effort based on scholarship characteristics
+    let estimatedHours = 5; // Base hours
+    let complexity: 'low' | 'medium' | 'high' = 'medium';
+    let deadlineStress = 3; // Base stress level
+
+    // Adjust based on amount (higher amounts typically require more effort)
+    if (scholarship.amount >= 50000) {
+      estimatedHours += 15;
+      complexity = 'high';
+    } else if (scholarship.amount >= 20000) {
+      estimatedHours += 10;
+      complexity = 'medium';
+    } else {
+      estimatedHours += 5;
+      complexity = 'low';
+    }
+
+    // Adjust based on competitiveness
+    if (scholarship.competitiveness === 'high') {
+      estimatedHours += 10;
+      complexity = 'high';
+    }
+
+    // Adjust based on requirements
+    const requirementCount = scholarship.requirements.length;
+    estimatedHours += requirementCount * 2;
+
+    // Check if essays are required
+    const hasEssayRequirement = scholarship.requirements.some(req => req.type === 'essay');
+    if (hasEssayRequirement) {
+      estimatedHours += 8;
+      if (complexity !== 'high') complexity = 'medium';
+    }
+
+    // Estimate deadline stress based on current date vs deadline
+    const daysUntilDeadline = Math.max(0, 
+      Math.floor((scholarship.deadline.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+    );
+    
+    if (daysUntilDeadline <= 7) deadlineStress = 9;
+    else if (daysUntilDeadline <= 14) deadlineStress = 6;
+    else if (daysUntilDeadline <= 30) deadlineStress = 4;
+    else deadlineStress = 2;
+
+    const requiredDocuments = scholarship.requirements
+      .filter(req => req.isRequired)
+      .map(req => req.type);
+
+    return {
+      estimatedHours: Math.round(estimatedHours),
+      complexity,
+      requiredDocuments,
+      deadlineStress,
     };
   }
 
+  /**
+   * Hours still to go on an application: work already done counts against
+   * the estimate. The portfolio budget and the weekly schedule both use this.
+   */
+  estimateRemainingHours(scholarship: Scholarship): number {
+    return this.remainingHours(scholarship, this.estimateApplicationEffort(scholarship));
+  }
+
   // Private helper methods
 
+  private remainingHours(scholarship: Scholarship, effort: ApplicationEffort): number {
+    const completion = Math.min(100, Math.max(0, scholarship.completion ?? 0));
+    return effort.estimatedHours * (1 - completion / 100);
+  }
+
+  // Copied so a stored result can't change if the engine's assumptions do
+  private snapshotAssumptions(): FinancialAssumptions {
+    return {
+      ...this.assumptions,
+      riskAdjustmentFactors: { ...this.assumptions.riskAdjustmentFactors },
+    };
+  }
+
   private calculateNetBenefit(scholarship: Scholarship, profile: FinancialProfile): number {
     let benefit = scholarship.amount;
     
-    // Adjust for tax implications (scholarships are generally tax-free for tuition)
-    const taxableAmount = Math.max(0, scholarship.amount - 20000); // Rough estimate
-    benefit -= taxableAmount * 0.22; // Assumed tax rate
+    // Adjust for tax implications (scholarships are tax-free when spent on qualified expenses)
+    benefit -= this.taxCalculator.estimateAwardTax(scholarship.amount, this.assumptions.taxFreeThreshold);
     
     // Adjust for financial need
     const needAdjustment = Math.min(1.0, profile.financialNeed / scholarship.amount);
@@ -131,23 +242,18 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
     // Assume scholarship reduces debt dollar-for-dollar up to total need
     const maxDebtReduction = Math.min(amount, profile.financialNeed);
     
-    // Calculate present value of debt reduction (assuming 6% interest over 10 years)
-    const interestRate = 0.06;
-    const years = 10;
-    const presentValue = maxDebtReduction * (1 - Math.pow(1 + interestRate, -years)) / interestRate;
-    
-    return Math.round(presentValue);
+    // Total repayment avoided by not borrowing that amount (standard plan)
+    return Math.round(this.loanSimulator.costOfBorrowing(maxDebtReduction));
   }
 
   private calculateOpportunityCost(amount: number): number {
     // Opportunity cost of not investing the scholarship amount
-    return Math.round(amount * this.OPPORTUNITY_COST_RATE);
+    return Math.round(amount * this.assumptions.opportunityCostRate);
   }
 
   private calculatePaybackPeriod(amount: number, profile: FinancialProfile): number {
     // Estimate payback period based on expected salary increase from education
-    const expectedSalaryIncrease = 5000; // Rough estimate per year of education funded
-    const annualBenefit = Math.min(amount / 4, expectedSalaryIncrease); // Assuming 4-year program
+    const annualBenefit = Math.min(amount / 4, this.assumptions.expectedSalaryIncrease); // Assuming 4-year program
     
     if (annualBenefit <= 0) return Infinity;
     
@@ -186,7 +292,7 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
   }
 
   private calculateApplicationCost(effort: ApplicationEffort): number {
-    const timeCost = effort.estimatedHours * this.APPLICATION_HOUR_VALUE;
+    const timeCost = effort.estimatedHours * this.assumptions.applicationHourValue;
     
     // Add complexity multiplier
     const complexityMultiplier = {
@@ -203,7 +309,7 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
 
   private calculateExpectedValue(scholarship: Scholarship, effort: ApplicationEffort): number {
     const winProbability = this.calculateWinProbability(scholarship, effort);
-    const adjustedAmount = scholarship.amount * this.RISK_ADJUSTMENT_FACTORS[scholarship.competitiveness];
+    const adjustedAmount = scholarship.amount * this.assumptions.riskAdjustmentFactors[scholarship.competitiveness];
     
     return winProbability * adjustedAmount / 100;
   }
@@ -253,107 +359,9 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
     return 'low';
   }
 
-  private estimateApplicationEffort(scholarship: Scholarship): ApplicationEffort {
-    // Estimate effort based on scholarship characteristics
-    let estimatedHours = 5; // Base hours
-    let complexity: 'low' | 'medium' | 'high' = 'medium';
-    let deadlineStress = 3; // Base stress level
-
-    // Adjust based on amount (higher amounts typically require more effort)
-    if (scholarship.amount >= 50000) {
-      estimatedHours += 15;
-      complexity = 'high';
-    } else if (scholarship.amount >= 20000) {
-      estimatedHours += 10;
-      complexity = 'medium';
-    } else {
-      estimatedHours += 5;
-      complexity = 'low';
-    }
-
-    // Adjust based on competitiveness
-    if (scholarship.competitiveness === 'high') {
-      estimatedHours += 10;
-      complexity = 'high';
-    }
-
-    // Adjust based on requirements
-    const requirementCount = scholarship.requirements.length;
-    estimatedHours += requirementCount * 2;
-
-    // Check if essays are required
-    const hasEssayRequirement = scholarship.requirements.some(req => req.type === 'essay');
-    if (hasEssayRequirement) {
-      estimatedHours += 8;
-      if (complexity !== 'high') complexity = 'medium';
-    }
-
-    // Estimate deadline stress based on current date vs deadline
-    const daysUntilDeadline = Math.max(0, 
-      Math.floor((scholarship.deadline.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
-    );
-    
-    if (daysUntilDeadline <= 7) deadlineStress = 9;
-    else if (daysUntilDeadline <= 14) deadlineStress = 6;
-    else if (daysUntilDeadline <= 30) deadlineStress = 4;
-    else deadlineStress = 2;
-
-    const requiredDocuments = scholarship.requirements
-      .filter(req => req.isRequired)
-      .map(req => req.type);
-
-    return {
-      estimatedHours: Math.round(estimatedHours),
-      complexity,
-      requiredDocuments,
-      deadlineStress,
-    };
-  }
-
-  private calculatePortfolioScore(
-    scholarship: Scholarship, 
-    roi: ROIAnalysis, 
-    budgetImpact: BudgetImpact
-  ): number {
-    // Weighted score calculation
-    const roiScore = Math.min(100, roi.roi / 5); // Normalize ROI
-    const probabilityScore = roi.probability;
-    const impactScore = Math.min(100, budgetImpact.netBenefit / 1000); // Normalize impact
-    const riskScore = roi.riskLevel === 'low' ? 100 : roi.riskLevel === 'medium' ? 70 : 40;
-
-    return (roiScore * 0.3) + (probabilityScore * 0.3) + (impactScore * 0.25) + (riskScore * 0.15);
-  }
-
-  private selectOptimalPortfolio(
-    sortedAnalysis: any[], 
-    profile: StudentProfile
-  ): any[] {
-    const selected = [];
-    let totalEffort = 0;
-    let riskBudget = { safe: 0, moderate: 0, reach: 0 };
-    
-    // Set effort and risk limits based on profile
-    const maxEffort = this.calculateMaxEffort(profile);
-    const targetRiskDistribution = { safe: 0.4, moderate: 0.4, reach: 0.2 };
-
-    for (const analysis of sortedAnalysis) {
-      const wouldExceedEffort = totalEffort + analysis.effort.estimatedHours > maxEffort;
-      const riskCategory = this.categorizeBirisk(analysis.roi.riskLevel);
-      const wouldExceedRisk = riskBudget[riskCategory] >= targetRiskDistribution[riskCategory] * 10;
-
-      if (!wouldExceedEffort && !wouldExceedRisk && selected.length < 10) {
-        selected.push(analysis);
-        totalEffort += analysis.effort.estimatedHours;
-        riskBudget[riskCategory]++;
-      }
-    }
-
-    return selected;
-  }
-
   private calculateMaxEffort(profile: StudentProfile): number {
     // Estimate available time based on student profile
-    let maxHours = 80; // Base assumption: 20 hours/week for 4 weeks
+    let maxHours = 80; // Base assumption: 20 hours/week for PORTFOLIO_CONFIG.planningWeeks (4)
 
     // Adjust based on current course load (would need this data)
     // For now, assume standard full-time student
@@ -365,9 +373,10 @@ export class FinancialAnalysisEngineImpl implements FinancialAnalysisEngine {
     
     maxHours -= workHours * 0.5; // Reduce available time based on work
 
-    // Adjust based on GPA (students with lower GPAs should focus more on studies)
-    if (profile.gpa < 3.0) maxHours *= 0.7;
-    else if (profile.gpa < 3.5) maxHours *= 0.85;
+    // Adjust based on GPA (students with lower GPAs should focus more on studies);
+    // without a recorded GPA, don't assume a struggling student
+    if (profile.gpa !== null && profile.gpa < 3.0) maxHours *= 0.7;
+    else if (profile.gpa !== null && profile.gpa < 3.5) maxHours *= 0.85;
 
     return Math.max(20, maxHours); // Minimum 20 hours
   }
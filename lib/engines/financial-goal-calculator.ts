@@ -0,0 +1,134 @@
+/**
+ * Financial Goal Calculator
+ * Derived figures for a financial goal (one academic year of costs).
+ *
+ * Funding gap = total cost - savings - expected family contribution
+ *               - scholarships awarded - other funding sources
+ *               (work-study, loans, grants, other), never below zero.
+ * Pending scholarships are not counted; they are shown separately as the
+ * portion of the gap that could still be covered.
+ *
+ * Academic year N runs from fall N to spring N+1. A scholarship counts
+ * toward the year that starts after its deadline: deadlines before July 1
+ * fund that fall, later deadlines fund the following year.
+ */
+
+import type { FinancialGoal } from '@/lib/db/schema';
+import type { ApplicationStatus } from '@/types/spider-web';
+
+export type GoalExpenses = NonNullable<FinancialGoal['expenses']>;
+
+export const EXPENSE_LABELS: Record<keyof GoalExpenses, string> = {
+  tuition: 'Tuition & fees',
+  housing: 'Housing',
+  meals: 'Meals',
+  books: 'Books & supplies',
+  transportation: 'Transportation',
+  personal: 'Personal',
+  other: 'Other',
+};
+
+export const EXPENSE_CATEGORIES = Object.keys(EXPENSE_LABELS) as (keyof GoalExpenses)[];
+
+export type GoalFundingSources = NonNullable<FinancialGoal['fundingSources']>;
+
+export const FUNDING_SOURCE_LABELS: Record<keyof GoalFundingSources, string> = {
+  workStudy: 'Work-study',
+  studentLoans: 'Student loans',
+  grants: 'Grants',
+  other: 'Other funding',
+};
+
+export const FUNDING_SOURCE_TYPES = Object.keys(FUNDING_SOURCE_LABELS) as (keyof GoalFundingSources)[];
+
+const PENDING_STATUSES: ApplicationStatus[] = ['submitted', 'under_review'];
+const ACADEMIC_YEAR_START_MONTH = 7; // July
+
+export type FundingGapInput = Pick<
+  FinancialGoal,
+  | 'totalEducationCost'
+  | 'currentSavings'
+  | 'expectedFamilyContribution'
+  | 'scholarshipsAwarded'
+  | 'scholarshipsPending'
+  | 'fundingSources'
+>;
+
+export interface FundingGapSummary {
+  totalCost: number;
+  secured: number;
+  fundingGap: number;
+  pending: number;
+  // Gap left if every pending scholarship were awarded
+  gapIfPendingAwarded: number;
+  percentFunded: number;
+}
+
+export interface GoalScholarship {
+  amount: string | number;
+  deadline: string; // YYYY-MM-DD
+  status: ApplicationStatus;
+}
+
+export function totalExpenses(expenses: GoalExpenses | null | undefined): number {
+  if (!expenses) {
+    return 0;
+  }
+  return EXPENSE_CATEGORIES.reduce((sum, category) => sum + (Number(expenses[category]) || 0), 0);
+}
+
+export function totalFundingSources(sources: GoalFundingSources | null | undefined): number {
+  if (!sources) {
+    return 0;
+  }
+  return FUNDING_SOURCE_TYPES.reduce((sum, type) => sum + (Number(sources[type]) || 0), 0);
+}
+
+export function academicYearForDeadline(deadline: string): number {
+  const [year, month] = deadline.split('-').map(Number);
+  return month >= ACADEMIC_YEAR_START_MONTH ? year + 1 : year;
+}
+
+export function academicYearForDate(date: Date): number {
+  return date.getMonth() + 1 >= ACADEMIC_YEAR_START_MONTH ? date.getFullYear() + 1 : date.getFullYear();
+}
+
+export function deriveScholarshipTotals(
+  scholarships: GoalScholarship[],
+  academicYear: number
+): { awarded: number; pending: number } {
+  return scholarships
+    .filter((scholarship) => academicYearForDeadline(scholarship.deadline) === academicYear)
+    .reduce(
+      (totals, scholarship) => {
+        const amount = Number(scholarship.amount) || 0;
+        if (scholarship.status === 'awarded') {
+          totals.awarded += amount;
+        } else if (PENDING_STATUSES.includes(scholarship.status)) {
+          totals.pending += amount;
+        }
+        return totals;
+      },
+      { awarded: 0, pending: 0 }
+    );
+}
+
+export function calculateFundingGap(goal: FundingGapInput): FundingGapSummary {
+  const totalCost = Number(goal.totalEducationCost) || 0;
+  const secured =
+    (Number(goal.currentSavings) || 0) +
+    (Number(goal.expectedFamilyContribution) || 0) +
+    (Number(goal.scholarshipsAwarded) || 0) +
+    totalFundingSources(goal.fundingSources);
+  const pending = Number(goal.scholarshipsPending) || 0;
+  const fundingGap = Math.max(totalCost - secured, 0);
+
+  return {
+    totalCost,
+    secured,
+    fundingGap,
+    pending,
+    gapIfPendingAwarded: Math.max(fundingGap - pending, 0),
+    percentFunded: totalCost === 0 ? 100 : Math.min(Math.round((secured / totalCost) * 100), 100),
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Funding Reconciliation - Cost Analysis
+ * Lines up each academic year's funding sources against its expenses.
+ *
+ * Sources follow the guide's FundingSources breakdown: family
+ * contribution, savings, awarded scholarships, work-study, student loans,
+ * grants and other. A year is under-funded when sources fall short of
+ * expenses; if pending scholarships would close the gap it is flagged as
+ * funded only if they come through.
+ */
+
+import type { FinancialGoal } from '@/lib/db/schema';
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_LABELS,
+  FUNDING_SOURCE_LABELS,
+  FUNDING_SOURCE_TYPES,
+  totalExpenses
+} from './financial-goal-calculator';
+
+export type ReconciliationStatus = 'funded' | 'funded_if_pending' | 'underfunded';
+
+export const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  funded: 'Fully funded',
+  funded_if_pending: 'Depends on pending awards',
+  underfunded: 'Under-funded',
+};
+
+export interface ReconciliationLine {
+  key: string;
+  label: string;
+  amount: number;
+}
+
+export interface YearReconciliation {
+  goalId: number;
+  academicYear: number;
+  expenses: ReconciliationLine[];
+  totalExpenses: number;
+  sources: ReconciliationLine[];
+  totalSources: number;
+  pendingScholarships: number;
+  // Sources minus expenses; negative means a shortfall
+  balance: number;
+  coverage: number;
+  status: ReconciliationStatus;
+}
+
+export interface FundingReconciliation {
+  years: YearReconciliation[];
+  totalExpenses: number;
+  totalSources: number;
+  totalShortfall: number;
+  underfundedYears: number[];
+}
+
+export type ReconcilableGoal = Pick<
+  FinancialGoal,
+  | 'id'
+  | 'academicYear'
+  | 'totalEducationCost'
+  | 'expenses'
+  | 'currentSavings'
+  | 'expectedFamilyContribution'
+  | 'scholarshipsAwarded'
+  | 'scholarshipsPending'
+  | 'fundingSources'
+>;
+
+const sum = (lines: ReconciliationLine[]) => lines.reduce((total, line) => total + line.amount, 0);
+
+function expenseLines(goal: ReconcilableGoal): ReconciliationLine[] {
+  // Goals created before the expense breakdown only carry a total
+  if (!goal.expenses || totalExpenses(goal.expenses) === 0) {
+    return [{ key: 'total', label: 'Total cost', amount: Number(goal.totalEducationCost) || 0 }];
+  }
+
+  return EXPENSE_CATEGORIES.map((category) => ({
+    key: category,
+    label: EXPENSE_LABELS[category],
+    amount: Number(goal.expenses?.[category]) || 0,
+  })).filter((line) => line.amount > 0);
+}
+
+function sourceLines(goal: ReconcilableGoal): ReconciliationLine[] {
+  return [
+    { key: 'family', label: 'Family contribution', amount: Number(goal.expectedFamilyContribution) || 0 },
+    { key: 'savings', label: 'Savings', amount: Number(goal.currentSavings) || 0 },
+    { key: 'scholarships', label: 'Scholarships awarded', amount: Number(goal.scholarshipsAwarded) || 0 },
+    ...FUNDING_SOURCE_TYPES.map((type) => ({
+      key: type,
+      label: FUNDING_SOURCE_LABELS[type],
+      amount: Number(goal.fundingSources?.[type]) || 0,
+    })),
+  ].filter((line) => line.amount > 0);
+}
+
+export function reconcileYear(goal: ReconcilableGoal): YearReconciliation {
+  const expenses = expenseLines(goal);
+  const sources = sourceLines(goal);
+  const expenseTotal = sum(expenses);
+  const sourceTotal = sum(sources);
+  const pendingScholarships = Number(goal.scholarshipsPending) || 0;
+  const balance = sourceTotal - expenseTotal;
+
+  const status: ReconciliationStatus =
+    balance >= 0 ? 'funded' : balance + pendingScholarships >= 0 ? 'funded_if_pending' : 'underfunded';
+
+  return {
+    goalId: goal.id,
+    academicYear: goal.academicYear,
+    expenses,
+    totalExpenses: expenseTotal,
+    sources,
+    totalSources: sourceTotal,
+    pendingScholarships,
+    balance,
+    coverage: expenseTotal === 0 ? 100 : Math.round((sourceTotal / expenseTotal) * 100),
+    status,
+  };
+}
+
+export function reconcileFunding(goals: ReconcilableGoal[]): FundingReconciliation {
+  const years = [...goals].sort((a, b) => a.academicYear - b.academicYear).map(reconcileYear);
+
+  return {
+    years,
+    totalExpenses: years.reduce((total, year) => total + year.totalExpenses, 0),
+    totalSources: years.reduce((total, year) => total + year.totalSources, 0),
+    totalShortfall: years.reduce((total, year) => total + Math.max(-year.balance, 0), 0),
+    underfundedYears: years.filter((year) => year.status === 'underfunded').map((year) => year.academicYear),
+  };
+}
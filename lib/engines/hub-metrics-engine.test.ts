@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { MetricsHistory } from '@/types/spider-web';
+import { daysUntil, HubMetricsEngine, type MetricsScholarship, toSnapshotDate } from './hub-metrics-engine';
+
+const NOW = new Date(2026, 5, 10, 9, 0); // June 10, morning
+
+function scholarship(overrides: Partial<MetricsScholarship> = {}): MetricsScholarship {
+  return {
+    amount: '1000',
+    deadline: '2026-06-20',
+    status: 'in_progress',
+    completion: 30,
+    createdAt: new Date(2026, 5, 2),
+    submittedDate: null,
+    ...overrides,
+  };
+}
+
+function snapshot(date: string, completionRate: number): MetricsHistory {
+  return { date, totalScholarships: 5, activeApplications: 3, completionRate, totalAwardAmount: 6500 };
+}
+
+// Open, upcoming and at risk; open and upcoming; submitted; awarded this week; rejected
+const tracked: MetricsScholarship[] = [
+  scholarship(),
+  scholarship({ amount: 2000, deadline: '2026-07-05', status: 'draft', completion: 80, createdAt: new Date(2026, 4, 1) }),
+  scholarship({
+    amount: 500,
+    deadline: '2026-06-01',
+    status: 'submitted',
+    completion: 100,
+    createdAt: new Date(2026, 4, 1),
+    submittedDate: new Date(2026, 4, 21),
+  }),
+  scholarship({
+    amount: 3000,
+    deadline: '2026-05-15',
+    status: 'awarded',
+    completion: 100,
+    createdAt: new Date(2026, 3, 1),
+    submittedDate: new Date(2026, 5, 8),
+  }),
+  scholarship({
+    amount: 1500,
+    deadline: '2026-05-01',
+    status: 'rejected',
+    completion: 100,
+    createdAt: new Date(2026, 3, 10),
+    submittedDate: new Date(2026, 3, 29),
+  }),
+];
+
+const engine = new HubMetricsEngine();
+
+describe('HubMetricsEngine', () => {
+  it('computes the dashboard metrics from tracked scholarships', () => {
+    const metrics = engine.calculateMetrics(tracked, [], NOW);
+
+    expect(metrics).toEqual({
+      totalScholarships: 5,
+      activeApplications: 3,
+      totalAwardAmount: 6500,
+      completionRate: 55,
+      lastUpdated: NOW,
+      scholarshipsThisMonth: 1,
+      applicationsThisWeek: 1,
+      avgApplicationTime: 35.7,
+      successTrend: 0,
+      upcomingDeadlines: 2,
+      portfolioValue: 3475,
+      riskScore: 50,
+      efficiencyScore: 60,
+    });
+  });
+
+  it('returns zeros when nothing is tracked', () => {
+    expect(engine.calculateMetrics([], [], NOW)).toMatchObject({
+      totalScholarships: 0,
+      completionRate: 0,
+      avgApplicationTime: 0,
+      riskScore: 0,
+      efficiencyScore: 0,
+    });
+  });
+
+  describe('successTrend', () => {
+    it('compares against the oldest snapshot within the last week', () => {
+      const history = [snapshot('2026-06-01', 40), snapshot('2026-06-04', 45), snapshot('2026-06-08', 50)];
+
+      expect(engine.calculateMetrics(tracked, history, NOW).successTrend).toBe(10);
+    });
+
+    it('stays flat without a recent snapshot', () => {
+      expect(engine.calculateMetrics(tracked, [snapshot('2026-05-20', 20)], NOW).successTrend).toBe(0);
+    });
+  });
+
+  it('counts whole days until a deadline from the start of today', () => {
+    expect(daysUntil('2026-06-20', NOW)).toBe(10);
+    expect(daysUntil('2026-06-10', NOW)).toBe(0);
+    expect(daysUntil('2026-06-01', NOW)).toBe(-9);
+  });
+
+  it('formats snapshot dates in local time', () => {
+    expect(toSnapshotDate(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+});
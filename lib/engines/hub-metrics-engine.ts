@@ -0,0 +1,134 @@
+/**
+ * Hub Metrics Engine - Central Hub Dashboard
+ * Computes EnhancedHubMetrics from a user's tracked scholarships and
+ * their daily metric snapshots.
+ *
+ * Definitions:
+ * - Active applications: drafting, in progress, submitted or under review
+ * - Total award amount: everything still in play (all but rejected)
+ * - Completion rate: average requirement completion of open applications
+ * - Portfolio value: award amounts weighted by how far each application got
+ */
+
+import { ApplicationStatus, EnhancedHubMetrics, MetricsHistory } from '@/types/spider-web';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const UPCOMING_DEADLINE_WINDOW_DAYS = 30;
+export const AT_RISK_WINDOW_DAYS = 14;
+export const AT_RISK_COMPLETION_THRESHOLD = 50;
+const TREND_WINDOW_DAYS = 7;
+
+export const ACTIVE_STATUSES: ApplicationStatus[] = ['draft', 'in_progress', 'submitted', 'under_review'];
+export const OPEN_STATUSES: ApplicationStatus[] = ['not_started', 'draft', 'in_progress'];
+const SUBMITTED_STATUSES: ApplicationStatus[] = ['submitted', 'under_review', 'awarded', 'rejected'];
+
+// Rough likelihood an application at each stage turns into an award
+const STATUS_WEIGHTS: Record<ApplicationStatus, number> = {
+  not_started: 0.05,
+  draft: 0.1,
+  in_progress: 0.15,
+  submitted: 0.25,
+  under_review: 0.35,
+  awarded: 1,
+  rejected: 0,
+};
+
+export interface MetricsScholarship {
+  amount: string | number;
+  deadline: string; // YYYY-MM-DD
+  status: ApplicationStatus;
+  completion: number;
+  createdAt: Date;
+  submittedDate: Date | null;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function daysUntil(deadline: string, now: Date): number {
+  const [year, month, day] = deadline.split('-').map(Number);
+  return Math.round((new Date(year, month - 1, day).getTime() - startOfDay(now).getTime()) / MS_PER_DAY);
+}
+
+export function toSnapshotDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export class HubMetricsEngine {
+  calculateMetrics(
+    scholarships: MetricsScholarship[],
+    history: MetricsHistory[],
+    now: Date = new Date()
+  ): EnhancedHubMetrics {
+    const amountOf = (scholarship: MetricsScholarship) => Number(scholarship.amount) || 0;
+    const withStatus = (statuses: ApplicationStatus[]) =>
+      scholarships.filter((scholarship) => statuses.includes(scholarship.status));
+
+    const open = withStatus(OPEN_STATUSES);
+    const submitted = withStatus(SUBMITTED_STATUSES);
+    const awarded = withStatus(['awarded']);
+
+    const completionRate =
+      open.length === 0
+        ? 0
+        : Math.round(open.reduce((sum, scholarship) => sum + scholarship.completion, 0) / open.length);
+
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const weekStart = new Date(startOfDay(now).getTime() - 6 * MS_PER_DAY);
+
+    const submissionDays = submitted
+      .filter((scholarship) => scholarship.submittedDate)
+      .map((scholarship) =>
+        (new Date(scholarship.submittedDate!).getTime() - new Date(scholarship.createdAt).getTime()) / MS_PER_DAY
+      );
+
+    const upcoming = open.filter((scholarship) => {
+      const days = daysUntil(scholarship.deadline, now);
+      return days >= 0 && days <= UPCOMING_DEADLINE_WINDOW_DAYS;
+    });
+
+    // At risk: due within two weeks and less than half of the requirements done
+    const atRisk = open.filter((scholarship) => {
+      const days = daysUntil(scholarship.deadline, now);
+      return days >= 0 && days <= AT_RISK_WINDOW_DAYS && scholarship.completion < AT_RISK_COMPLETION_THRESHOLD;
+    });
+
+    const amountApplied = submitted.reduce((sum, scholarship) => sum + amountOf(scholarship), 0);
+    const amountAwarded = awarded.reduce((sum, scholarship) => sum + amountOf(scholarship), 0);
+
+    return {
+      totalScholarships: scholarships.length,
+      activeApplications: withStatus(ACTIVE_STATUSES).length,
+      totalAwardAmount: scholarships
+        .filter((scholarship) => scholarship.status !== 'rejected')
+        .reduce((sum, scholarship) => sum + amountOf(scholarship), 0),
+      completionRate,
+      lastUpdated: now,
+      scholarshipsThisMonth: scholarships.filter((scholarship) => new Date(scholarship.createdAt) >= monthStart).length,
+      applicationsThisWeek: submitted.filter(
+        (scholarship) => scholarship.submittedDate && new Date(scholarship.submittedDate) >= weekStart
+      ).length,
+      avgApplicationTime:
+        submissionDays.length === 0
+          ? 0
+          : Math.round((submissionDays.reduce((sum, days) => sum + days, 0) / submissionDays.length) * 10) / 10,
+      successTrend: this.calculateTrend(history, completionRate, now),
+      upcomingDeadlines: upcoming.length,
+      portfolioValue: Math.round(
+        scholarships.reduce((sum, scholarship) => sum + amountOf(scholarship) * STATUS_WEIGHTS[scholarship.status], 0)
+      ),
+      riskScore: upcoming.length === 0 ? 0 : Math.round((atRisk.length / upcoming.length) * 100),
+      efficiencyScore: amountApplied === 0 ? 0 : Math.round((amountAwarded / amountApplied) * 100),
+    };
+  }
+
+  // Completion rate change, in points, against the snapshot a week ago
+  private calculateTrend(history: MetricsHistory[], completionRate: number, now: Date): number {
+    const cutoff = toSnapshotDate(new Date(startOfDay(now).getTime() - TREND_WINDOW_DAYS * MS_PER_DAY));
+    const baseline = history.find((entry) => entry.date >= cutoff);
+    return baseline ? completionRate - baseline.completionRate : 0;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { LOAN_CONFIG } from '@/config/spider-web-config';
+import { LoanSimulator, type LoanTermsByType } from './loan-simulator';
+
+const TERMS: LoanTermsByType = {
+  federal_subsidized: { annualRate: 0.06, graceMonths: 6, originationFee: 0 },
+  federal_unsubsidized: { annualRate: 0.06, graceMonths: 6, originationFee: 0 },
+  private: { annualRate: 0.06, graceMonths: 6, originationFee: 0 },
+};
+const MONTHLY_RATE = 0.06 / 12;
+
+// The textbook level payment for a 10-year loan
+function amortizedPayment(balance: number) {
+  return (balance * MONTHLY_RATE) / (1 - Math.pow(1 + MONTHLY_RATE, -120));
+}
+
+describe('LoanSimulator', () => {
+  const simulator = new LoanSimulator(TERMS);
+
+  describe('allocate', () => {
+    it('fills subsidized, then unsubsidized, then private loans within the yearly limits', () => {
+      const loans = new LoanSimulator().allocate([
+        { academicYear: 2027, amount: 3000 },
+        { academicYear: 2026, amount: 10000 },
+      ]);
+
+      expect(loans.map(({ academicYear, type, amount }) => ({ academicYear, type, amount }))).toEqual([
+        { academicYear: 2026, type: 'federal_subsidized', amount: 3500 },
+        { academicYear: 2026, type: 'federal_unsubsidized', amount: 2000 },
+        { academicYear: 2026, type: 'private', amount: 4500 },
+        { academicYear: 2027, type: 'federal_subsidized', amount: 3000 },
+      ]);
+    });
+
+    it('adds the origination fee on top of what the student receives', () => {
+      const [loan] = new LoanSimulator().allocate([{ academicYear: 2026, amount: 1000 }]);
+      const fee = LOAN_CONFIG.defaultTerms.federal_subsidized.originationFee;
+
+      expect(loan.principal).toBeCloseTo(1000 / (1 - fee), 2);
+    });
+  });
+
+  describe('project', () => {
+    it('amortizes a standard plan over ten years', () => {
+      const projection = simulator.project([{ academicYear: 2026, amount: 3500 }], 'standard');
+      const payment = amortizedPayment(3500);
+
+      expect(projection.repaymentMonths).toBe(120);
+      expect(projection.firstMonthlyPayment).toBeCloseTo(payment, 2);
+      expect(projection.maxMonthlyPayment).toBeCloseTo(payment, 2);
+      expect(projection.totalPaid).toBeCloseTo(payment * 120, 1);
+      expect(projection.totalInterest).toBeCloseTo(payment * 120 - 3500, 1);
+      expect(projection.forgiven).toBe(0);
+    });
+
+    it('charges no interest on a zero-rate loan', () => {
+      const zeroRate = Object.fromEntries(
+        Object.entries(TERMS).map(([type, terms]) => [type, { ...terms, annualRate: 0 }])
+      ) as LoanTermsByType;
+
+      const projection = new LoanSimulator(zeroRate).project([{ academicYear: 2026, amount: 1200 }], 'standard');
+
+      expect(projection.firstMonthlyPayment).toBe(10);
+      expect(projection.totalPaid).toBe(1200);
+      expect(projection.totalInterest).toBe(0);
+    });
+
+    it('accrues interest on unsubsidized loans through school and the grace period', () => {
+      const projection = simulator.project([{ academicYear: 2026, amount: 5500 }], 'standard');
+      // August 2026 to May 2027 is 9 months, plus 6 months of grace
+      const unsubsidizedBalance = 2000 + 2000 * MONTHLY_RATE * 15;
+
+      expect(projection.loans.map(({ type, balanceAtRepayment }) => ({ type, balanceAtRepayment }))).toEqual([
+        { type: 'federal_subsidized', balanceAtRepayment: 3500 },
+        { type: 'federal_unsubsidized', balanceAtRepayment: unsubsidizedBalance },
+      ]);
+      expect(projection.totalPaid).toBeCloseTo(amortizedPayment(3500 + unsubsidizedBalance) * 120, 1);
+      expect(projection.totalInterest).toBeCloseTo(projection.totalPaid - 5500, 1);
+    });
+
+    it('pays off a graduated plan in the same term with rising payments', () => {
+      const standard = simulator.project([{ academicYear: 2026, amount: 3500 }], 'standard');
+      const graduated = simulator.project([{ academicYear: 2026, amount: 3500 }], 'graduated');
+
+      expect(graduated.repaymentMonths).toBe(120);
+      expect(graduated.forgiven).toBe(0);
+      expect(graduated.firstMonthlyPayment).toBeLessThan(standard.firstMonthlyPayment);
+      expect(graduated.maxMonthlyPayment).toBeCloseTo(graduated.firstMonthlyPayment * Math.pow(1.2, 4), 1);
+      expect(graduated.totalPaid).toBeGreaterThan(standard.totalPaid);
+    });
+
+    it('caps income-driven payments at the standard payment', () => {
+      const standard = simulator.project([{ academicYear: 2026, amount: 3500 }], 'standard');
+      const incomeDriven = simulator.project([{ academicYear: 2026, amount: 3500 }], 'income_driven', 200000);
+
+      expect(incomeDriven.firstMonthlyPayment).toBeCloseTo(standard.firstMonthlyPayment, 2);
+      expect(incomeDriven.totalPaid).toBeCloseTo(standard.totalPaid, 1);
+      expect(incomeDriven.forgiven).toBe(0);
+    });
+
+    it('forgives what income-driven payments leave after the forgiveness term', () => {
+      const projection = simulator.project([{ academicYear: 2026, amount: 3500 }], 'income_driven', 10000);
+      const grown = 3500 * Math.pow(1 + MONTHLY_RATE, LOAN_CONFIG.incomeDriven.forgivenessMonths);
+
+      // Even with raises, income stays under 150% of the poverty guideline
+      // for the whole term, so nothing is ever due
+      expect(projection.totalPaid).toBe(0);
+      expect(projection.repaymentMonths).toBe(LOAN_CONFIG.incomeDriven.forgivenessMonths);
+      expect(projection.forgiven).toBeCloseTo(grown, 1);
+      expect(projection.totalInterest).toBeCloseTo(grown - 3500, 1);
+    });
+
+    it('keeps private loans on the standard schedule under income-driven repayment', () => {
+      const projection = simulator.project([{ academicYear: 2026, amount: 10000 }], 'income_driven', 20000);
+      const privateLoan = projection.loans.find((loan) => loan.type === 'private')!;
+
+      expect(privateLoan.monthlyPayment).toBeCloseTo(amortizedPayment(privateLoan.balanceAtRepayment), 2);
+    });
+  });
+
+  it('costs nothing to borrow nothing', () => {
+    expect(simulator.costOfBorrowing(0)).toBe(0);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Loan Simulator - Student Debt Projection
+ * Turns the yearly amount a student still has to borrow into federal
+ * subsidized, federal unsubsidized and private loans, then projects
+ * repayment under a standard, graduated or income-driven plan.
+ *
+ * Model:
+ * - Each year's need fills subsidized, then unsubsidized up to the federal
+ *   annual limits; anything above that is a private loan
+ * - Origination fees are added on top so the student nets what they need
+ * - Unsubsidized and private loans accrue simple interest from
+ *   disbursement through the grace period, capitalized at repayment;
+ *   subsidized loans accrue nothing until repayment
+ * - Income-driven plans cover federal loans only (at their weighted rate);
+ *   private loans always repay on the standard schedule
+ */
+
+import { LOAN_CONFIG } from '@/config/spider-web-config';
+
+export const LOAN_TYPES = ['federal_subsidized', 'federal_unsubsidized', 'private'] as const;
+export type LoanType = (typeof LOAN_TYPES)[number];
+
+export const REPAYMENT_PLANS = ['standard', 'graduated', 'income_driven'] as const;
+export type RepaymentPlan = (typeof REPAYMENT_PLANS)[number];
+
+export const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  federal_subsidized: 'Federal subsidized',
+  federal_unsubsidized: 'Federal unsubsidized',
+  private: 'Private',
+};
+
+export const REPAYMENT_PLAN_LABELS: Record<RepaymentPlan, string> = {
+  standard: 'Standard (10 years)',
+  graduated: 'Graduated (10 years)',
+  income_driven: 'Income-driven',
+};
+
+export interface LoanTerms {
+  annualRate: number;
+  graceMonths: number;
+  originationFee: number;
+}
+
+export type LoanTermsByType = Record<LoanType, LoanTerms>;
+
+export interface YearlyBorrowing {
+  academicYear: number;
+  amount: number;
+}
+
+export interface LoanDisbursement {
+  academicYear: number;
+  type: LoanType;
+  amount: number; // what the student receives
+  principal: number; // including the origination fee
+}
+
+export interface LoanSummary {
+  type: LoanType;
+  borrowed: number;
+  principal: number;
+  balanceAtRepayment: number;
+  monthlyPayment: number;
+  totalPaid: number;
+}
+
+export interface LoanProjection {
+  plan: RepaymentPlan;
+  loans: LoanSummary[];
+  totalBorrowed: number;
+  balanceAtRepayment: number;
+  firstMonthlyPayment: number;
+  maxMonthlyPayment: number;
+  repaymentMonths: number;
+  totalPaid: number;
+  totalInterest: number;
+  forgiven: number;
+}
+
+interface RepaymentResult {
+  firstPayment: number;
+  maxPayment: number;
+  months: number;
+  totalPaid: number;
+  remaining: number;
+}
+
+type LoanConfig = typeof LOAN_CONFIG;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function limitForYear(limits: readonly number[], yearIndex: number): number {
+  return limits[Math.min(yearIndex, limits.length - 1)];
+}
+
+function standardPayment(balance: number, monthlyRate: number, months: number): number {
+  if (monthlyRate === 0) {
+    return balance / months;
+  }
+  return (balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+// Month-by-month repayment; stops when paid off or at maxMonths
+function repay(
+  balance: number,
+  monthlyRate: number,
+  maxMonths: number,
+  paymentForMonth: (month: number) => number
+): RepaymentResult {
+  const result: RepaymentResult = { firstPayment: 0, maxPayment: 0, months: 0, totalPaid: 0, remaining: balance };
+
+  for (let month = 0; month < maxMonths && result.remaining > 0.005; month++) {
+    const owed = result.remaining * (1 + monthlyRate);
+    const payment = Math.min(paymentForMonth(month), owed);
+    if (month === 0) {
+      result.firstPayment = payment;
+    }
+    result.maxPayment = Math.max(result.maxPayment, payment);
+    result.totalPaid += payment;
+    result.remaining = owed - payment;
+    result.months = month + 1;
+  }
+
+  return result;
+}
+
+export class LoanSimulator {
+  constructor(
+    private readonly terms: LoanTermsByType = LOAN_CONFIG.defaultTerms,
+    private readonly config: LoanConfig = LOAN_CONFIG
+  ) {}
+
+  /**
+   * Split each year's borrowing across loan types within federal limits
+   */
+  allocate(borrowing: YearlyBorrowing[]): LoanDisbursement[] {
+    const years = borrowing.filter((year) => year.amount > 0).sort((a, b) => a.academicYear - b.academicYear);
+    if (years.length === 0) {
+      return [];
+    }
+
+    const firstYear = years[0].academicYear;
+    return years.flatMap(({ academicYear, amount }) => {
+      const yearIndex = academicYear - firstYear;
+      const subsidized = Math.min(amount, limitForYear(this.config.annualLimits.subsidized, yearIndex));
+      const unsubsidized = Math.min(
+        amount - subsidized,
+        limitForYear(this.config.annualLimits.federalTotal, yearIndex) - subsidized
+      );
+      const split: [LoanType, number][] = [
+        ['federal_subsidized', subsidized],
+        ['federal_unsubsidized', unsubsidized],
+        ['private', amount - subsidized - unsubsidized],
+      ];
+
+      return split
+        .filter(([, net]) => net > 0)
+        .map(([type, net]) => ({
+          academicYear,
+          type,
+          amount: round(net),
+          principal: round(net / (1 - this.terms[type].originationFee)),
+        }));
+    });
+  }
+
+  project(
+    borrowing: YearlyBorrowing[],
+    plan: RepaymentPlan,
+    annualIncome: number = this.config.incomeDriven.defaultStartingIncome
+  ): LoanProjection {
+    const disbursements = this.allocate(borrowing);
+    const lastYear = Math.max(...borrowing.map((year) => year.academicYear));
+    const graduation = (lastYear + 1) * 12 + this.config.graduationMonth;
+
+    const balances = LOAN_TYPES.map((type) => {
+      const { annualRate, graceMonths } = this.terms[type];
+      const loans = disbursements.filter((loan) => loan.type === type);
+      const balanceAtRepayment = loans.reduce((sum, loan) => {
+        const accrualMonths = graduation - (loan.academicYear * 12 + this.config.disbursementMonth) + graceMonths;
+        const interest = type === 'federal_subsidized' ? 0 : loan.principal * (annualRate / 12) * accrualMonths;
+        return sum + loan.principal + interest;
+      }, 0);
+
+      return {
+        type,
+        borrowed: loans.reduce((sum, loan) => sum + loan.amount, 0),
+        principal: loans.reduce((sum, loan) => sum + loan.principal, 0),
+        balanceAtRepayment,
+      };
+    }).filter((loan) => loan.principal > 0);
+
+    const repayments = new Map<LoanType, RepaymentResult>();
+    const federal = balances.filter((loan) => loan.type !== 'private');
+
+    if (plan === 'income_driven' && federal.length > 0) {
+      const combined = federal.reduce((sum, loan) => sum + loan.balanceAtRepayment, 0);
+      const weightedRate =
+        federal.reduce((sum, loan) => sum + loan.balanceAtRepayment * this.terms[loan.type].annualRate, 0) / combined;
+      const result = this.repayIncomeDriven(combined, weightedRate / 12, annualIncome);
+      // Split the combined result back out in proportion to each balance
+      for (const loan of federal) {
+        const share = loan.balanceAtRepayment / combined;
+        repayments.set(loan.type, {
+          firstPayment: result.firstPayment * share,
+          maxPayment: result.maxPayment * share,
+          months: result.months,
+          totalPaid: result.totalPaid * share,
+          remaining: result.remaining * share,
+        });
+      }
+    }
+
+    for (const loan of balances) {
+      if (!repayments.has(loan.type)) {
+        const monthlyRate = this.terms[loan.type].annualRate / 12;
+        repayments.set(
+          loan.type,
+          plan === 'graduated'
+            ? this.repayGraduated(loan.balanceAtRepayment, monthlyRate)
+            : this.repayStandard(loan.balanceAtRepayment, monthlyRate)
+        );
+      }
+    }
+
+    const results = balances.map((loan) => repayments.get(loan.type)!);
+    const totalPrincipal = balances.reduce((sum, loan) => sum + loan.principal, 0);
+    const totalPaid = results.reduce((sum, result) => sum + result.totalPaid, 0);
+    const forgiven = results.reduce((sum, result) => sum + result.remaining, 0);
+
+    return {
+      plan,
+      loans: balances.map((loan, index) => ({
+        type: loan.type,
+        borrowed: round(loan.borrowed),
+        principal: round(loan.principal),
+        balanceAtRepayment: round(loan.balanceAtRepayment),
+        monthlyPayment: round(results[index].firstPayment),
+        totalPaid: round(results[index].totalPaid),
+      })),
+      totalBorrowed: round(balances.reduce((sum, loan) => sum + loan.borrowed, 0)),
+      balanceAtRepayment: round(balances.reduce((sum, loan) => sum + loan.balanceAtRepayment, 0)),
+      firstMonthlyPayment: round(results.reduce((sum, result) => sum + result.firstPayment, 0)),
+      maxMonthlyPayment: round(results.reduce((sum, result) => sum + result.maxPayment, 0)),
+      repaymentMonths: results.reduce((max, result) => Math.max(max, result.months), 0),
+      totalPaid: round(totalPaid),
+      totalInterest: round(Math.max(totalPaid + forgiven - totalPrincipal, 0)),
+      forgiven: round(forgiven),
+    };
+  }
+
+  /**
+   * Total repaid to cover an amount with loans taken in a single final year
+   */
+  costOfBorrowing(amount: number, plan: RepaymentPlan = 'standard'): number {
+    if (amount <= 0) {
+      return 0;
+    }
+    return this.project([{ academicYear: 0, amount }], plan).totalPaid;
+  }
+
+  private repayStandard(balance: number, monthlyRate: number): RepaymentResult {
+    const months = this.config.standardTermMonths;
+    const payment = standardPayment(balance, monthlyRate, months);
+    return repay(balance, monthlyRate, months, () => payment);
+  }
+
+  // Payments rise by stepRate every stepMonths; the first payment is solved
+  // so the schedule pays the balance off in the standard term
+  private repayGraduated(balance: number, monthlyRate: number): RepaymentResult {
+    const months = this.config.standardTermMonths;
+    const { stepMonths, stepRate } = this.config.graduated;
+    const factor = (month: number) => Math.pow(stepRate, Math.floor(month / stepMonths));
+
+    let presentValue = 0;
+    for (let month = 0; month < months; month++) {
+      presentValue += factor(month) / Math.pow(1 + monthlyRate, month + 1);
+    }
+    const firstPayment = balance / presentValue;
+
+    return repay(balance, monthlyRate, months, (month) => firstPayment * factor(month));
+  }
+
+  // Payments are a share of discretionary income, never more than the
+  // standard payment; whatever is left at the end of the term is forgiven
+  private repayIncomeDriven(balance: number, monthlyRate: number, annualIncome: number): RepaymentResult {
+    const { paymentShare, povertyGuideline, povertyMultiplier, incomeGrowthRate, forgivenessMonths } =
+      this.config.incomeDriven;
+    const cap = standardPayment(balance, monthlyRate, this.config.standardTermMonths);
+
+    return repay(balance, monthlyRate, forgivenessMonths, (month) => {
+      const income = annualIncome * Math.pow(1 + incomeGrowthRate, Math.floor(month / 12));
+      const discretionary = Math.max(income - povertyGuideline * povertyMultiplier, 0);
+      return Math.min((discretionary * paymentShare) / 12, cap);
+    });
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { PortfolioOptimizer, type PortfolioCandidate, type RiskCategory } from './portfolio-optimizer';
+
+const RISK_MIX = { safe: 0.4, moderate: 0.4, reach: 0.2 };
+const PLANNING_WEEKS = 4;
+
+function candidate(id: string, overrides: Partial<PortfolioCandidate> = {}): PortfolioCandidate {
+  return {
+    id,
+    title: `Scholarship ${id}`,
+    expectedValue: 100,
+    hours: 5,
+    risk: 'safe',
+    daysUntilDeadline: 28,
+    ...overrides,
+  };
+}
+
+// Small deterministic PRNG so failures are reproducible
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The constraints restated independently of the optimizer
+function isFeasible(selection: PortfolioCandidate[], maxHours: number): boolean {
+  const hours = selection.reduce((sum, item) => sum + item.hours, 0);
+  if (hours > maxHours) {
+    return false;
+  }
+
+  const weeklyHours = maxHours / PLANNING_WEEKS;
+  let load = 0;
+  for (const item of [...selection].sort((a, b) => a.daysUntilDeadline - b.daysUntilDeadline)) {
+    load += item.hours;
+    if (load > (weeklyHours * Math.max(item.daysUntilDeadline, 1)) / 7 + 1e-9) {
+      return false;
+    }
+  }
+
+  return (['moderate', 'reach'] as const).every(
+    (risk) =>
+      selection.filter((item) => item.risk === risk).length <= Math.ceil(RISK_MIX[risk] * selection.length)
+  );
+}
+
+function bruteForceBest(candidates: PortfolioCandidate[], maxHours: number): number {
+  let best = 0;
+  for (let mask = 0; mask < 1 << candidates.length; mask++) {
+    const selection = candidates.filter((_, index) => mask & (1 << index));
+    if (isFeasible(selection, maxHours)) {
+      best = Math.max(best, selection.reduce((sum, item) => sum + item.expectedValue, 0));
+    }
+  }
+  return best;
+}
+
+describe('PortfolioOptimizer', () => {
+  it('matches a brute-force search on small random candidate sets', () => {
+    const random = mulberry32(2024);
+    const risks: RiskCategory[] = ['safe', 'moderate', 'reach'];
+
+    for (let round = 0; round < 200; round++) {
+      const maxHours = 5 + Math.floor(random() * 30);
+      const candidates = Array.from({ length: 2 + Math.floor(random() * 7) }, (_, index) =>
+        candidate(`c${index}`, {
+          expectedValue: Math.round(random() * 1000),
+          // Some zero-hour applications, e.g. automatic renewals
+          hours: random() < 0.15 ? 0 : 1 + Math.floor(random() * 15),
+          risk: risks[Math.floor(random() * risks.length)],
+          daysUntilDeadline: 1 + Math.floor(random() * 40),
+        })
+      );
+
+      const result = new PortfolioOptimizer(maxHours, {
+        riskMix: RISK_MIX,
+        planningWeeks: PLANNING_WEEKS,
+      }).optimize(candidates);
+      const selected = candidates.filter((item) => result.selectedIds.includes(item.id));
+
+      expect(result.isOptimal).toBe(true);
+      expect(isFeasible(selected, maxHours)).toBe(true);
+      expect(result.totalValue).toBe(bruteForceBest(candidates, maxHours));
+    }
+  });
+
+  it('keeps zero-hour applications once the hour budget is used up', () => {
+    // Greedy takes "a" and can't add the second reach application "z"; the
+    // optimum swaps "a" for "b" + "c", which only beats it once "z" is
+    // counted, after the budget is already full
+    const candidates = [
+      candidate('a', { expectedValue: 610, hours: 6, risk: 'reach' }),
+      candidate('b', { expectedValue: 303, hours: 5 }),
+      candidate('c', { expectedValue: 303, hours: 5 }),
+      candidate('z', { expectedValue: 5, hours: 0, risk: 'reach' }),
+    ];
+
+    const result = new PortfolioOptimizer(10, { riskMix: RISK_MIX, planningWeeks: PLANNING_WEEKS }).optimize(
+      candidates
+    );
+
+    expect(result.selectedIds).toEqual(['b', 'c', 'z']);
+    expect(result.totalValue).toBe(611);
+  });
+
+  it('explains applications that exceed the whole budget or their deadline window', () => {
+    const result = new PortfolioOptimizer(40, { planningWeeks: 4 }).optimize([
+      candidate('fits', { hours: 5 }),
+      candidate('too-big', { hours: 45 }),
+      candidate('too-soon', { hours: 15, daysUntilDeadline: 7 }),
+    ]);
+
+    expect(result.selectedIds).toEqual(['fits']);
+    expect(result.exclusions).toEqual([
+      { id: 'too-big', reason: 'hour_budget', explanation: 'Needs 45h, more than your whole 40h budget' },
+      {
+        id: 'too-soon',
+        reason: 'deadline_overlap',
+        explanation: 'Needs 15h but only 10h is available before its deadline',
+      },
+    ]);
+  });
+
+  it('explains applications crowded out by higher-value picks', () => {
+    const budget = new PortfolioOptimizer(10, { planningWeeks: 4 }).optimize([
+      candidate('big', { expectedValue: 100, hours: 8, daysUntilDeadline: 60 }),
+      candidate('small', { expectedValue: 20, hours: 5, daysUntilDeadline: 60 }),
+    ]);
+    expect(budget.exclusions).toEqual([
+      { id: 'small', reason: 'hour_budget', explanation: 'Needs 5h; only 2h is left after higher-value picks' },
+    ]);
+
+    const deadline = new PortfolioOptimizer(40, { planningWeeks: 4 }).optimize([
+      candidate('first', { expectedValue: 100, hours: 8, daysUntilDeadline: 7 }),
+      candidate('second', { expectedValue: 20, hours: 5, daysUntilDeadline: 7 }),
+    ]);
+    expect(deadline.exclusions).toEqual([
+      {
+        id: 'second',
+        reason: 'deadline_overlap',
+        explanation: "Its deadline overlaps with higher-value picks; there isn't time for all of them before it",
+      },
+    ]);
+  });
+
+  it('limits reach applications to their share of the portfolio', () => {
+    const result = new PortfolioOptimizer(40, { riskMix: RISK_MIX }).optimize([
+      candidate('safe', { expectedValue: 10, hours: 1 }),
+      candidate('reach-1', { expectedValue: 100, hours: 1, risk: 'reach' }),
+      candidate('reach-2', { expectedValue: 90, hours: 1, risk: 'reach' }),
+    ]);
+
+    expect(result.selectedIds).toEqual(['safe', 'reach-1']);
+    expect(result.exclusions).toEqual([
+      {
+        id: 'reach-2',
+        reason: 'risk_mix',
+        explanation: 'Would put more than 20% of your portfolio in reach applications',
+      },
+    ]);
+  });
+
+  it('skips applications with no expected value', () => {
+    const result = new PortfolioOptimizer(40).optimize([candidate('zero', { expectedValue: 0 })]);
+
+    expect(result.selectedIds).toEqual([]);
+    expect(result.exclusions[0].reason).toBe('no_expected_value');
+  });
+
+  it('reports a non-optimal result when the search limit is hit', () => {
+    const candidates = Array.from({ length: 12 }, (_, index) =>
+      candidate(`c${index}`, { expectedValue: 50 + index, hours: 3 + (index % 4) })
+    );
+
+    const result = new PortfolioOptimizer(20, { maxSearchNodes: 5 }).optimize(candidates);
+    const selected = candidates.filter((item) => result.selectedIds.includes(item.id));
+
+    expect(result.isOptimal).toBe(false);
+    expect(selected.length).toBeGreaterThan(0);
+    expect(isFeasible(selected, 20)).toBe(true);
+  });
+});
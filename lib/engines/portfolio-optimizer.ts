@@ -0,0 +1,293 @@
+/**
+ * Portfolio Optimizer - Constrained Knapsack
+ * Picks the set of applications with the highest expected award that fits
+ * the student's hour budget, risk mix and deadlines, and explains why every
+ * other application was left out.
+ *
+ * Constraints:
+ * - Hour budget: total estimated hours stay within maxHours
+ * - Deadline overlap: work due by any deadline fits the weekly hours
+ *   available before it (maxHours spread over the planning weeks)
+ * - Risk mix: moderate and reach applications each stay within their
+ *   share of the portfolio, rounded up; safe applications are unlimited
+ *
+ * Search is branch and bound in value-density order, bounded by the
+ * fractional knapsack of the remaining items. It is exact unless it hits
+ * maxSearchNodes, in which case the best portfolio found so far is used.
+ */
+
+import { PORTFOLIO_CONFIG } from '@/config/spider-web-config';
+import type { PortfolioExclusionReason } from '@/types/spider-web';
+
+export type RiskCategory = 'safe' | 'moderate' | 'reach';
+
+export interface PortfolioCandidate {
+  id: string;
+  title: string;
+  expectedValue: number;
+  hours: number;
+  risk: RiskCategory;
+  daysUntilDeadline: number;
+}
+
+export interface PortfolioConstraints {
+  maxHours: number;
+  riskMix: Record<RiskCategory, number>;
+  planningWeeks: number;
+  maxSearchNodes: number;
+}
+
+export interface CandidateExclusion {
+  id: string;
+  reason: PortfolioExclusionReason;
+  explanation: string;
+}
+
+export interface PortfolioSelection {
+  selectedIds: string[];
+  totalValue: number;
+  totalHours: number;
+  exclusions: CandidateExclusion[];
+  isOptimal: boolean;
+}
+
+const RISK_LABELS: Record<RiskCategory, string> = {
+  safe: 'safe',
+  moderate: 'moderate',
+  reach: 'reach',
+};
+
+function formatHours(hours: number) {
+  return `${Math.round(hours * 10) / 10}h`;
+}
+
+export class PortfolioOptimizer {
+  private readonly constraints: PortfolioConstraints;
+
+  constructor(maxHours: number, overrides: Partial<Omit<PortfolioConstraints, 'maxHours'>> = {}) {
+    this.constraints = {
+      maxHours,
+      riskMix: PORTFOLIO_CONFIG.riskMix,
+      planningWeeks: PORTFOLIO_CONFIG.planningWeeks,
+      maxSearchNodes: PORTFOLIO_CONFIG.maxSearchNodes,
+      ...overrides,
+    };
+  }
+
+  optimize(candidates: PortfolioCandidate[]): PortfolioSelection {
+    // Only applications worth something and doable on their own are searched
+    const viable = candidates
+      .filter((candidate) => candidate.expectedValue > 0 && this.standaloneIssue(candidate) === null)
+      .sort((a, b) => this.density(b) - this.density(a));
+
+    const greedy = this.greedy(viable);
+    const { best, isOptimal } = this.search(viable, greedy);
+
+    const selected = viable.filter((_, index) => best[index]);
+    const selectedIds = new Set(selected.map((candidate) => candidate.id));
+
+    return {
+      selectedIds: candidates.filter((candidate) => selectedIds.has(candidate.id)).map((candidate) => candidate.id),
+      totalValue: selected.reduce((sum, candidate) => sum + candidate.expectedValue, 0),
+      totalHours: selected.reduce((sum, candidate) => sum + candidate.hours, 0),
+      exclusions: candidates
+        .filter((candidate) => !selectedIds.has(candidate.id))
+        .map((candidate) => this.explainExclusion(candidate, selected)),
+      isOptimal,
+    };
+  }
+
+  // Exact for any positive hours, which keeps the fractional bound valid;
+  // zero-hour items sort first
+  private density(candidate: PortfolioCandidate): number {
+    return candidate.expectedValue / Math.max(candidate.hours, Number.EPSILON);
+  }
+
+  // Weekly hours spread across the planning window
+  private weeklyHours(): number {
+    return this.constraints.maxHours / this.constraints.planningWeeks;
+  }
+
+  private capacityBy(daysUntilDeadline: number): number {
+    return this.weeklyHours() * (Math.max(daysUntilDeadline, 1) / 7);
+  }
+
+  private standaloneIssue(candidate: PortfolioCandidate): CandidateExclusion | null {
+    if (candidate.hours > this.constraints.maxHours) {
+      return {
+        id: candidate.id,
+        reason: 'hour_budget',
+        explanation: `Needs ${formatHours(candidate.hours)}, more than your whole ${formatHours(this.constraints.maxHours)} budget`,
+      };
+    }
+    const capacity = this.capacityBy(candidate.daysUntilDeadline);
+    if (candidate.hours > capacity) {
+      return {
+        id: candidate.id,
+        reason: 'deadline_overlap',
+        explanation: `Needs ${formatHours(candidate.hours)} but only ${formatHours(capacity)} is available before its deadline`,
+      };
+    }
+    return null;
+  }
+
+  // Earliest-deadline-first: work due by each deadline must fit the time before it
+  private firstDeadlineOverload(selection: PortfolioCandidate[]): PortfolioCandidate | null {
+    let load = 0;
+    for (const candidate of [...selection].sort((a, b) => a.daysUntilDeadline - b.daysUntilDeadline)) {
+      load += candidate.hours;
+      if (load > this.capacityBy(candidate.daysUntilDeadline) + 1e-9) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private riskLimit(category: RiskCategory, total: number): number {
+    return category === 'safe' ? Infinity : Math.ceil(this.constraints.riskMix[category] * total);
+  }
+
+  private riskOverflow(selection: PortfolioCandidate[]): RiskCategory | null {
+    for (const category of ['reach', 'moderate'] as const) {
+      const count = selection.filter((candidate) => candidate.risk === category).length;
+      if (count > this.riskLimit(category, selection.length)) {
+        return category;
+      }
+    }
+    return null;
+  }
+
+  private isFeasible(selection: PortfolioCandidate[]): boolean {
+    const hours = selection.reduce((sum, candidate) => sum + candidate.hours, 0);
+    return (
+      hours <= this.constraints.maxHours &&
+      this.firstDeadlineOverload(selection) === null &&
+      this.riskOverflow(selection) === null
+    );
+  }
+
+  private greedy(viable: PortfolioCandidate[]): boolean[] {
+    const chosen: PortfolioCandidate[] = [];
+    const picks = viable.map((candidate) => {
+      if (this.isFeasible([...chosen, candidate])) {
+        chosen.push(candidate);
+        return true;
+      }
+      return false;
+    });
+    return picks;
+  }
+
+  private search(viable: PortfolioCandidate[], initial: boolean[]): { best: boolean[]; isOptimal: boolean } {
+    let best = initial;
+    let bestValue = viable.reduce((sum, candidate, index) => sum + (initial[index] ? candidate.expectedValue : 0), 0);
+    let nodes = 0;
+    let isOptimal = true;
+
+    const current: boolean[] = new Array(viable.length).fill(false);
+    const chosen: PortfolioCandidate[] = [];
+
+    // Fractional knapsack over the remaining items; never below the true optimum.
+    // Zero-hour items always fit, so they count in full even once hours run out.
+    const upperBound = (index: number, value: number, hoursLeft: number): number => {
+      let bound = value;
+      for (let i = index; i < viable.length; i++) {
+        const { expectedValue, hours } = viable[i];
+        if (hours <= 0) {
+          bound += expectedValue;
+        } else if (hoursLeft > 0) {
+          const take = Math.min(1, hoursLeft / hours);
+          bound += expectedValue * take;
+          hoursLeft -= hours * take;
+        }
+      }
+      return bound;
+    };
+
+    const visit = (index: number, value: number, hours: number) => {
+      if (++nodes > this.constraints.maxSearchNodes) {
+        isOptimal = false;
+        return;
+      }
+      if (index === viable.length) {
+        if (value > bestValue && this.riskOverflow(chosen) === null) {
+          bestValue = value;
+          best = [...current];
+        }
+        return;
+      }
+      if (upperBound(index, value, this.constraints.maxHours - hours) <= bestValue) {
+        return;
+      }
+
+      const candidate = viable[index];
+      if (hours + candidate.hours <= this.constraints.maxHours) {
+        chosen.push(candidate);
+        if (this.firstDeadlineOverload(chosen) === null) {
+          current[index] = true;
+          visit(index + 1, value + candidate.expectedValue, hours + candidate.hours);
+          current[index] = false;
+        }
+        chosen.pop();
+      }
+      if (isOptimal) {
+        visit(index + 1, value, hours);
+      }
+    };
+
+    visit(0, 0, 0);
+    return { best, isOptimal };
+  }
+
+  private explainExclusion(candidate: PortfolioCandidate, selected: PortfolioCandidate[]): CandidateExclusion {
+    if (candidate.expectedValue <= 0) {
+      return {
+        id: candidate.id,
+        reason: 'no_expected_value',
+        explanation: 'Expected award is zero after adjusting for win probability and risk',
+      };
+    }
+
+    const standalone = this.standaloneIssue(candidate);
+    if (standalone) {
+      return standalone;
+    }
+
+    const withCandidate = [...selected, candidate];
+    const overloaded = this.firstDeadlineOverload(withCandidate);
+    if (overloaded) {
+      return {
+        id: candidate.id,
+        reason: 'deadline_overlap',
+        explanation:
+          overloaded.id === candidate.id
+            ? `Its deadline overlaps with higher-value picks; there isn't time for all of them before it`
+            : `Adding it would leave too little time before the "${overloaded.title}" deadline`,
+      };
+    }
+
+    const hoursUsed = selected.reduce((sum, item) => sum + item.hours, 0);
+    if (hoursUsed + candidate.hours > this.constraints.maxHours) {
+      return {
+        id: candidate.id,
+        reason: 'hour_budget',
+        explanation: `Needs ${formatHours(candidate.hours)}; only ${formatHours(this.constraints.maxHours - hoursUsed)} is left after higher-value picks`,
+      };
+    }
+
+    const overflow = this.riskOverflow(withCandidate);
+    if (!overflow) {
+      // Only possible when the search stopped early
+      return {
+        id: candidate.id,
+        reason: 'search_limit',
+        explanation: 'Not reached before the optimizer hit its search limit',
+      };
+    }
+    return {
+      id: candidate.id,
+      reason: 'risk_mix',
+      explanation: `Would put more than ${Math.round(this.constraints.riskMix[overflow] * 100)}% of your portfolio in ${RISK_LABELS[overflow]} applications`,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCompletion, groupRequirementsByType, type ChecklistItem } from './requirement-checklist';
+
+function requirement(type: string, isRequired: boolean, isCompleted: boolean): ChecklistItem {
+  return { type, isRequired, isCompleted };
+}
+
+describe('calculateCompletion', () => {
+  it('counts only required requirements', () => {
+    const summary = calculateCompletion('in_progress', 2500, [
+      requirement('document', true, true),
+      requirement('academic', true, false),
+      requirement('financial', true, true),
+      requirement('activity', false, true),
+      requirement('activity', false, false),
+    ]);
+
+    expect(summary).toEqual({ completion: 67, completionText: '2/3 completed' });
+  });
+
+  it('ignores finished optional requirements when nothing required is done', () => {
+    const summary = calculateCompletion('draft', 2500, [
+      requirement('document', true, false),
+      requirement('activity', false, true),
+    ]);
+
+    expect(summary).toEqual({ completion: 0, completionText: '0/1 completed' });
+  });
+
+  it('reaches 100% once every required requirement is done', () => {
+    const summary = calculateCompletion('submitted', 2500, [
+      requirement('document', true, true),
+      requirement('process', true, true),
+      requirement('activity', false, false),
+    ]);
+
+    expect(summary).toEqual({ completion: 100, completionText: '2/2 completed' });
+  });
+
+  it('reports 0% for a checklist with no required requirements', () => {
+    expect(calculateCompletion('not_started', 2500, [requirement('activity', false, true)])).toEqual({
+      completion: 0,
+      completionText: '0/0 completed',
+    });
+  });
+
+  it('marks decided applications complete regardless of the checklist', () => {
+    const open = [requirement('document', true, false)];
+
+    expect(calculateCompletion('awarded', '2500.00', open)).toEqual({
+      completion: 100,
+      completionText: 'Awarded - $2500',
+    });
+    expect(calculateCompletion('awarded', '1250.50', open).completionText).toBe('Awarded - $1250.50');
+    expect(calculateCompletion('rejected', 2500, open)).toEqual({
+      completion: 100,
+      completionText: 'Application Complete - Not Selected',
+    });
+  });
+});
+
+describe('groupRequirementsByType', () => {
+  it('returns every type in order with required and optional items counted', () => {
+    const groups = groupRequirementsByType([
+      requirement('activity', false, true),
+      requirement('document', true, true),
+      requirement('document', true, false),
+    ]);
+
+    expect(groups.map(({ type, completed, total }) => ({ type, completed, total }))).toEqual([
+      { type: 'document', completed: 1, total: 2 },
+      { type: 'academic', completed: 0, total: 0 },
+      { type: 'activity', completed: 1, total: 1 },
+      { type: 'financial', completed: 0, total: 0 },
+      { type: 'process', completed: 0, total: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Requirement Checklist - Scholarship Completion Tracking
+ * Derives a scholarship's completion percentage and summary text from
+ * its requirement checklist, following the sample data conventions:
+ * - In progress: "3/5 completed" (required items only)
+ * - Awarded:     "Awarded - $2500"
+ * - Rejected:    "Application Complete - Not Selected"
+ */
+
+import { ApplicationStatus } from '@/types/spider-web';
+import { REQUIREMENT_TYPES, RequirementType } from '@/lib/validation/scholarship-schemas';
+
+export const REQUIREMENT_TYPE_LABELS: Record<RequirementType, string> = {
+  document: 'Documents',
+  academic: 'Academic',
+  activity: 'Activities',
+  financial: 'Financial',
+  process: 'Process',
+};
+
+export interface ChecklistItem {
+  type: string;
+  isRequired: boolean;
+  isCompleted: boolean;
+}
+
+export interface ChecklistGroup<T extends ChecklistItem> {
+  type: RequirementType;
+  label: string;
+  items: T[];
+  completed: number;
+  total: number;
+}
+
+export interface CompletionSummary {
+  completion: number; // 0-100
+  completionText: string;
+}
+
+/**
+ * Group requirements under the five requirement types, in canonical order.
+ * Groups are always returned so the checklist layout stays stable.
+ */
+export function groupRequirementsByType<T extends ChecklistItem>(requirements: T[]): ChecklistGroup<T>[] {
+  return REQUIREMENT_TYPES.map((type) => {
+    const items = requirements.filter((requirement) => requirement.type === type);
+    return {
+      type,
+      label: REQUIREMENT_TYPE_LABELS[type],
+      items,
+      completed: items.filter((item) => item.isCompleted).length,
+      total: items.length,
+    };
+  });
+}
+
+function formatAwardAmount(amount: string | number): string {
+  const value = Number(amount);
+  return Number.isInteger(value) ? `$${value}` : `$${value.toFixed(2)}`;
+}
+
+/**
+ * Compute completion for a scholarship. Optional requirements are shown
+ * in the checklist but do not count towards completion.
+ */
+export function calculateCompletion(
+  status: ApplicationStatus,
+  amount: string | number,
+  requirements: ChecklistItem[]
+): CompletionSummary {
+  if (status === 'awarded') {
+    return { completion: 100, completionText: `Awarded - ${formatAwardAmount(amount)}` };
+  }
+
+  if (status === 'rejected') {
+    return { completion: 100, completionText: 'Application Complete - Not Selected' };
+  }
+
+  const required = requirements.filter((requirement) => requirement.isRequired);
+  const completed = required.filter((requirement) => requirement.isCompleted).length;
+  const completion = required.length === 0 ? 0 : Math.round((completed / required.length) * 100);
+
+  return { completion, completionText: `${completed}/${required.length} completed` };
+}
@@ -16,13 +16,14 @@ import {
   StudentProfile, 
   ScholarshipScore, 
   ScoringWeights, 
-  Scholarship,
-  ScholarshipRequirement 
+  Scholarship
 } from '@/types/spider-web';
 import { DEFAULT_SCORING_WEIGHTS } from '@/config/spider-web-config';
+import { EligibilityEngine } from './eligibility-engine';
 
 export class ScholarshipScoringEngineImpl implements ScholarshipScoringEngine {
   private weights: ScoringWeights;
+  private eligibility = new EligibilityEngine();
 
   constructor(customWeights?: Partial<ScoringWeights>) {
     this.weights = { ...DEFAULT_SCORING_WEIGHTS, ...customWeights };
@@ -65,7 +66,8 @@ export class ScholarshipScoringEngineImpl implements ScholarshipScoringEngine {
    * Calculate GPA score (25% weight)
    * Normalized to 0-100 scale
    */
-  private calculateGpaScore(gpa: number): number {
+  private calculateGpaScore(gpa: number | null): number {
+    if (gpa === null) return 0; // unscored until recorded
     if (gpa >= 4.0) return 100;
     if (gpa >= 3.8) return 95;
     if (gpa >= 3.5) return 85;
@@ -128,10 +130,11 @@ export class ScholarshipScoringEngineImpl implements ScholarshipScoringEngine {
     }
 
     // Academic Standing Bonus (0-25 points)
-    if (profile.gpa >= 3.8) score += 25;
-    else if (profile.gpa >= 3.5) score += 20;
-    else if (profile.gpa >= 3.2) score += 15;
-    else if (profile.gpa >= 3.0) score += 10;
+    const gpa = profile.gpa ?? 0;
+    if (gpa >= 3.8) score += 25;
+    else if (gpa >= 3.5) score += 20;
+    else if (gpa >= 3.2) score += 15;
+    else if (gpa >= 3.0) score += 10;
 
     return Math.min(100, score);
   }
@@ -360,7 +363,9 @@ export class ScholarshipScoringEngineImpl implements ScholarshipScoringEngine {
     const recommendations: string[] = [];
 
     // GPA recommendations
-    if (breakdown.gpa < 20) {
+    if (profile.gpa === null) {
+      recommendations.push('Add your GPA to your profile for a more accurate match score');
+    } else if (breakdown.gpa < 20) {
       recommendations.push('Focus on improving your GPA - consider tutoring or study groups');
       recommendations.push('Look for scholarships that prioritize other factors over GPA');
     }
@@ -405,41 +410,20 @@ export class ScholarshipScoringEngineImpl implements ScholarshipScoringEngine {
   }
 
   /**
-   * Calculate scholarship match score for a specific scholarship
+   * Calculate scholarship match score for a specific scholarship.
+   * Ineligible scholarships score 0; otherwise each eligibility rule the
+   * student meets raises the multiplier and each missed preference lowers it
    */
   calculateScholarshipMatch(profile: StudentProfile, scholarship: Scholarship): number {
+    const eligibility = this.eligibility.evaluate(profile, scholarship);
+    if (!eligibility.eligible) {
+      return 0;
+    }
+
     const baseScore = this.calculateScore(profile);
-    
-    // Apply scholarship-specific matching logic
-    let matchMultiplier = 1.0;
-    
-    scholarship.requirements.forEach((requirement: ScholarshipRequirement) => {
-      switch (requirement.type) {
-        case 'gpa':
-          if (profile.gpa >= requirement.value) {
-            matchMultiplier += 0.1;
-          } else {
-            matchMultiplier -= 0.2;
-          }
-          break;
-        case 'major':
-          if (profile.major.toLowerCase().includes(requirement.value.toLowerCase())) {
-            matchMultiplier += 0.15;
-          }
-          break;
-        case 'demographic':
-          // Would need more specific matching logic based on requirement
-          matchMultiplier += 0.05;
-          break;
-        case 'financial':
-          if (profile.financialNeed.expectedFamilyContribution <= requirement.value) {
-            matchMultiplier += 0.1;
-          }
-          break;
-      }
-    });
+    const matchMultiplier = 1.0 + this.eligibility.matchAdjustment(eligibility);
 
-    return Math.min(100, baseScore.totalScore * matchMultiplier);
+    return Math.max(0, Math.min(100, baseScore.totalScore * matchMultiplier));
   }
 
   /**
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { GoalExpenses } from './financial-goal-calculator';
+import { ScholarshipTaxCalculator, type TaxableAward } from './scholarship-tax-calculator';
+
+const CONFIG = {
+  brackets: [
+    { upTo: 11600, rate: 0.1 },
+    { upTo: 47150, rate: 0.12 },
+    { upTo: 100525, rate: 0.22 },
+    { upTo: null, rate: 0.24 },
+  ],
+  standardDeduction: 14600,
+  fallShare: 0.5,
+};
+
+function expenses(overrides: Partial<GoalExpenses>): GoalExpenses {
+  return {
+    tuition: 0,
+    housing: 0,
+    meals: 0,
+    books: 0,
+    transportation: 0,
+    personal: 0,
+    other: 0,
+    ...overrides,
+  };
+}
+
+function award(label: string, amount: number, academicYear = 2026): TaxableAward {
+  return { label, source: 'scholarship', academicYear, amount };
+}
+
+describe('ScholarshipTaxCalculator', () => {
+  const calculator = new ScholarshipTaxCalculator(CONFIG);
+
+  describe('taxOn', () => {
+    it('taxes nothing up to the standard deduction', () => {
+      expect(calculator.taxOn(14600)).toBe(0);
+    });
+
+    it('fills each bracket before moving up to the next', () => {
+      expect(calculator.taxOn(14600 + 11600)).toBeCloseTo(1160);
+      expect(calculator.taxOn(14600 + 20000)).toBeCloseTo(1160 + 8400 * 0.12);
+      expect(calculator.taxOn(14600 + 50000)).toBeCloseTo(1160 + 35550 * 0.12 + 2850 * 0.22);
+      expect(calculator.taxOn(14600 + 200000)).toBeCloseTo(
+        1160 + 35550 * 0.12 + 53375 * 0.22 + 99475 * 0.24
+      );
+    });
+  });
+
+  it('taxes an award only above its qualified expenses, at the rate on top of other income', () => {
+    expect(calculator.estimateAwardTax(8000, 10000)).toBe(0);
+    // 14,600 of the taxable 20,000 is covered by the standard deduction
+    expect(calculator.estimateAwardTax(30000, 10000)).toBe(540);
+    // On top of 20,000 of wages, 6,200 is taxed at 10% and the rest at 12%
+    expect(calculator.estimateAwardTax(30000, 10000, 20000)).toBe(2276);
+  });
+
+  describe('treatAcademicYear', () => {
+    it('shares qualified expenses across awards in proportion to their amounts', () => {
+      const year = calculator.treatAcademicYear(
+        2026,
+        expenses({ tuition: 8000, books: 1000, housing: 6000 }),
+        [award('Merit', 9000), award('Grant', 3000)]
+      );
+
+      expect(year).toMatchObject({
+        hasExpenseBreakdown: true,
+        qualifiedExpenses: 9000,
+        nonQualifiedExpenses: 6000,
+        totalAwards: 12000,
+        qualifiedUse: 9000,
+        taxable: 3000,
+      });
+      expect(year.awards.map(({ qualifiedUse, taxable }) => ({ qualifiedUse, taxable }))).toEqual([
+        { qualifiedUse: 6750, taxable: 2250 },
+        { qualifiedUse: 2250, taxable: 750 },
+      ]);
+    });
+
+    it('leaves awards tax-free when qualified expenses cover them', () => {
+      const year = calculator.treatAcademicYear(2026, expenses({ tuition: 20000 }), [award('Merit', 5000)]);
+
+      expect(year.taxable).toBe(0);
+      expect(year.qualifiedUse).toBe(5000);
+    });
+
+    it('treats awards as fully taxable without an expense breakdown', () => {
+      for (const missing of [null, expenses({})]) {
+        const year = calculator.treatAcademicYear(2026, missing, [award('Merit', 5000)]);
+
+        expect(year.hasExpenseBreakdown).toBe(false);
+        expect(year.taxable).toBe(5000);
+      }
+    });
+  });
+
+  describe('summarizeTaxYears', () => {
+    it('splits each academic year between the fall and spring tax years', () => {
+      const first = calculator.treatAcademicYear(2026, expenses({ tuition: 9000 }), [award('Merit', 12000)]);
+      const second = calculator.treatAcademicYear(2027, null, [award('Merit', 4000, 2027)]);
+
+      const summary = calculator.summarizeTaxYears([first, second], 30000);
+
+      expect(
+        summary.map(({ taxYear, awardIncome, qualifiedUse, taxableIncome, estimatedTax, marginalRate }) => ({
+          taxYear,
+          awardIncome,
+          qualifiedUse,
+          taxableIncome,
+          estimatedTax,
+          marginalRate,
+        }))
+      ).toEqual([
+        { taxYear: 2026, awardIncome: 6000, qualifiedUse: 4500, taxableIncome: 1500, estimatedTax: 180, marginalRate: 0.12 },
+        { taxYear: 2027, awardIncome: 8000, qualifiedUse: 4500, taxableIncome: 3500, estimatedTax: 420, marginalRate: 0.12 },
+        { taxYear: 2028, awardIncome: 2000, qualifiedUse: 0, taxableIncome: 2000, estimatedTax: 240, marginalRate: 0.12 },
+      ]);
+      expect(summary[1].portions.map((portion) => portion.academicYear)).toEqual([2026, 2027]);
+    });
+
+    it('honours a different fall share', () => {
+      const fallHeavy = new ScholarshipTaxCalculator({ ...CONFIG, fallShare: 0.75 });
+      const year = fallHeavy.treatAcademicYear(2026, null, [award('Merit', 4000)]);
+
+      expect(fallHeavy.summarizeTaxYears([year]).map((taxYear) => taxYear.awardIncome)).toEqual([3000, 1000]);
+    });
+
+    it('skips years without awards', () => {
+      const empty = calculator.treatAcademicYear(2026, expenses({ tuition: 9000 }), []);
+
+      expect(calculator.summarizeTaxYears([empty])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Scholarship Tax Calculator - Qualified Expense Rules
+ * Splits scholarship and grant money into the part spent on qualified
+ * education expenses (tax-free) and the part spent on everything else
+ * (taxable income), then estimates the tax for each calendar year.
+ *
+ * Model:
+ * - Qualified expenses are tuition & fees and books & supplies; room,
+ *   board, transportation and personal costs are not
+ * - Within an academic year, qualified expenses are shared across awards
+ *   in proportion to their amounts
+ * - A year with no expense breakdown treats its awards as fully taxable,
+ *   since qualified use has to be shown
+ * - An academic year's awards fall in two tax years: fallShare in the
+ *   year it starts, the rest in the next
+ * - Tax is the extra owed on top of other income, after the standard deduction
+ */
+
+import { SCHOLARSHIP_TAX_CONFIG } from '@/config/spider-web-config';
+import type { GoalExpenses } from './financial-goal-calculator';
+
+export const QUALIFIED_EXPENSE_CATEGORIES: (keyof GoalExpenses)[] = ['tuition', 'books'];
+
+export interface TaxBracket {
+  upTo: number | null;
+  rate: number;
+}
+
+export interface ScholarshipTaxConfig {
+  brackets: readonly TaxBracket[];
+  standardDeduction: number;
+  fallShare: number;
+}
+
+export type AwardSource = 'scholarship' | 'grant';
+
+export interface TaxableAward {
+  label: string;
+  source: AwardSource;
+  academicYear: number;
+  amount: number;
+}
+
+export interface AwardTaxTreatment extends TaxableAward {
+  qualifiedUse: number;
+  taxable: number;
+}
+
+export interface AcademicYearTaxTreatment {
+  academicYear: number;
+  hasExpenseBreakdown: boolean;
+  qualifiedExpenses: number;
+  nonQualifiedExpenses: number;
+  totalAwards: number;
+  qualifiedUse: number;
+  taxable: number;
+  awards: AwardTaxTreatment[];
+}
+
+export interface TaxYearPortion {
+  academicYear: number;
+  share: number;
+  awardIncome: number;
+  taxable: number;
+}
+
+export interface TaxYearSummary {
+  taxYear: number;
+  awardIncome: number;
+  qualifiedUse: number;
+  taxableIncome: number;
+  otherIncome: number;
+  estimatedTax: number;
+  marginalRate: number;
+  portions: TaxYearPortion[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class ScholarshipTaxCalculator {
+  constructor(private readonly config: ScholarshipTaxConfig = SCHOLARSHIP_TAX_CONFIG) {}
+
+  /**
+   * Split one academic year's awards into qualified and taxable use
+   */
+  treatAcademicYear(
+    academicYear: number,
+    expenses: GoalExpenses | null | undefined,
+    awards: TaxableAward[]
+  ): AcademicYearTaxTreatment {
+    const hasExpenseBreakdown = !!expenses && Object.values(expenses).some((value) => Number(value) > 0);
+    const qualifiedExpenses = hasExpenseBreakdown
+      ? QUALIFIED_EXPENSE_CATEGORIES.reduce((sum, category) => sum + (Number(expenses![category]) || 0), 0)
+      : 0;
+    const nonQualifiedExpenses = hasExpenseBreakdown
+      ? Object.entries(expenses!)
+          .filter(([category]) => !QUALIFIED_EXPENSE_CATEGORIES.includes(category as keyof GoalExpenses))
+          .reduce((sum, [, value]) => sum + (Number(value) || 0), 0)
+      : 0;
+
+    const totalAwards = awards.reduce((sum, award) => sum + award.amount, 0);
+    const qualifiedUse = Math.min(totalAwards, qualifiedExpenses);
+    const qualifiedShare = totalAwards > 0 ? qualifiedUse / totalAwards : 0;
+
+    return {
+      academicYear,
+      hasExpenseBreakdown,
+      qualifiedExpenses: round(qualifiedExpenses),
+      nonQualifiedExpenses: round(nonQualifiedExpenses),
+      totalAwards: round(totalAwards),
+      qualifiedUse: round(qualifiedUse),
+      taxable: round(totalAwards - qualifiedUse),
+      awards: awards.map((award) => ({
+        ...award,
+        qualifiedUse: round(award.amount * qualifiedShare),
+        taxable: round(award.amount * (1 - qualifiedShare)),
+      })),
+    };
+  }
+
+  /**
+   * Roll academic years up into calendar tax years
+   */
+  summarizeTaxYears(years: AcademicYearTaxTreatment[], otherIncome: number = 0): TaxYearSummary[] {
+    const portions = new Map<number, TaxYearPortion[]>();
+    const addPortion = (taxYear: number, year: AcademicYearTaxTreatment, share: number) => {
+      if (share <= 0 || year.totalAwards <= 0) {
+        return;
+      }
+      portions.set(taxYear, [
+        ...(portions.get(taxYear) ?? []),
+        {
+          academicYear: year.academicYear,
+          share,
+          awardIncome: round(year.totalAwards * share),
+          taxable: round(year.taxable * share),
+        },
+      ]);
+    };
+
+    for (const year of years) {
+      addPortion(year.academicYear, year, this.config.fallShare);
+      addPortion(year.academicYear + 1, year, 1 - this.config.fallShare);
+    }
+
+    return Array.from(portions.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([taxYear, yearPortions]) => {
+        const awardIncome = round(yearPortions.reduce((sum, portion) => sum + portion.awardIncome, 0));
+        const taxableIncome = round(yearPortions.reduce((sum, portion) => sum + portion.taxable, 0));
+
+        return {
+          taxYear,
+          awardIncome,
+          qualifiedUse: round(awardIncome - taxableIncome),
+          taxableIncome,
+          otherIncome,
+          estimatedTax: round(this.additionalTax(taxableIncome, otherIncome)),
+          marginalRate: this.marginalRate(otherIncome + taxableIncome),
+          portions: yearPortions,
+        };
+      });
+  }
+
+  /**
+   * Tax on a single award given the qualified expenses it can cover
+   */
+  estimateAwardTax(amount: number, qualifiedExpenses: number, otherIncome: number = 0): number {
+    const taxable = Math.max(0, amount - qualifiedExpenses);
+    return round(this.additionalTax(taxable, otherIncome));
+  }
+
+  // Tax owed on gross income after the standard deduction
+  taxOn(grossIncome: number): number {
+    let remaining = Math.max(0, grossIncome - this.config.standardDeduction);
+    let floor = 0;
+    let tax = 0;
+
+    for (const bracket of this.config.brackets) {
+      const width = bracket.upTo === null ? Infinity : bracket.upTo - floor;
+      const inBracket = Math.min(remaining, width);
+      tax += inBracket * bracket.rate;
+      remaining -= inBracket;
+      if (remaining <= 0 || bracket.upTo === null) {
+        break;
+      }
+      floor = bracket.upTo;
+    }
+
+    return tax;
+  }
+
+  private additionalTax(taxable: number, otherIncome: number): number {
+    return this.taxOn(otherIncome + taxable) - this.taxOn(otherIncome);
+  }
+
+  private marginalRate(grossIncome: number): number {
+    const taxableIncome = grossIncome - this.config.standardDeduction;
+    if (taxableIncome <= 0) {
+      return 0;
+    }
+    const bracket = this.config.brackets.find((candidate) => candidate.upTo === null || taxableIncome <= candidate.upTo);
+    return bracket?.rate ?? 0;
+  }
+}
@@ -0,0 +1,24 @@
+// Text starting with these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote a value only when it contains a comma, quote or line break. User
+// text that looks like a formula is prefixed with ' so it stays text;
+// plain numbers such as "-12.50" are left alone.
+function toCsvValue(value: string | number): string {
+  const isFormula = typeof value === 'string' && FORMULA_PREFIX.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+  const text = isFormula ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: (string | number)[]): string {
+  return values.map(toCsvValue).join(',');
+}
+
+export function csvResponse(rows: string[], filename: string): Response {
+  return new Response(rows.join('\n'), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`
+    }
+  });
+}
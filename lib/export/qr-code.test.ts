@@ -0,0 +1,57 @@
+import jsQR from 'jsqr';
+import { describe, expect, it } from 'vitest';
+import { encodeQrCode, qrCodeDataUrl, qrCodeSvg } from './qr-code';
+
+// Render to RGBA with a quiet zone so an independent decoder can read it back
+function decode(modules: boolean[][]): string | undefined {
+  const scale = 4;
+  const border = 4;
+  const size = (modules.length + border * 2) * scale;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = (((y + border) * scale + dy) * size + (x + border) * scale + dx) * 4;
+          pixels.fill(0, offset, offset + 3);
+        }
+      }
+    })
+  );
+  return jsQR(pixels, size, size)?.data;
+}
+
+describe('encodeQrCode', () => {
+  it('uses the smallest version that fits', () => {
+    expect(encodeQrCode('HELLO')).toHaveLength(21); // version 1
+    expect(encodeQrCode('x'.repeat(15))).toHaveLength(25); // version 2
+  });
+
+  it.each([
+    ['short text', 'HELLO'],
+    ['utf-8 text', 'Beca aprobada ✓'],
+    ['an authenticator key URI', 'otpauth://totp/Scholarship%20Tracker%20Pro%3Astudent%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Scholarship%20Tracker%20Pro&algorithm=SHA1&digits=6&period=30'],
+    ['version 7 and up, with version bits', 'v'.repeat(150)],
+    ['the largest supported payload', 'z'.repeat(412)]
+  ])('round-trips %s through a decoder', (_, text) => {
+    expect(decode(encodeQrCode(text))).toBe(text);
+  });
+
+  it('rejects text longer than version 15 holds', () => {
+    expect(() => encodeQrCode('z'.repeat(413))).toThrow(/too long/);
+  });
+});
+
+describe('qrCodeSvg', () => {
+  it('sizes the image from the symbol, border and module size', () => {
+    const svg = qrCodeSvg('HELLO', { border: 2, moduleSize: 3 });
+
+    expect(svg).toContain('viewBox="0 0 25 25"');
+    expect(svg).toContain('width="75" height="75"');
+  });
+
+  it('embeds as an SVG data URL', () => {
+    expect(qrCodeDataUrl('HELLO')).toMatch(/^data:image\/svg\+xml;charset=utf-8,%3Csvg/);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// The queue writes to Postgres; only its calls matter here
+vi.mock('./queue', () => ({
+  enqueueMail: vi.fn(async () => 42),
+  processMailQueue: vi.fn(async () => ({ sent: 0, retrying: 0, failed: 0 }))
+}));
+
+import { deliverQueuedMail, sendTemplatedMail, setMailTransport } from './index';
+import { processMailQueue } from './queue';
+
+describe('sendTemplatedMail', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setMailTransport(null);
+  });
+
+  it('still resolves with the queued id when no transport can be set up', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+    vi.stubEnv('SMTP_HOST', '');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      sendTemplatedMail('account_locked', 'student@example.com', {
+        firstName: 'Ana',
+        lockoutMinutes: 15,
+        resetUrl: 'https://example.com/forgot-password'
+      })
+    ).resolves.toBe(42);
+
+    await vi.waitFor(() => expect(logged).toHaveBeenCalledWith('Mail delivery run failed:', expect.any(Error)));
+    expect(processMailQueue).not.toHaveBeenCalled();
+  });
+
+  it('reports the missing transport as a rejected delivery run', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+    vi.stubEnv('SMTP_HOST', '');
+
+    await expect(deliverQueuedMail()).rejects.toThrow('needs SMTP_HOST');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Mail Module
+ * Templated messages are queued in mail_queue and delivered through a
+ * pluggable transport selected by MAIL_TRANSPORT:
+ * - smtp:    SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ * - file:    writes .eml files to MAIL_FILE_DIR (local development, tests)
+ * - console: prints messages to the server log (default without SMTP_HOST
+ *            outside production)
+ * Production refuses the console transport: messages carry reset,
+ * verification and calendar links that must not end up in logs.
+ */
+
+import { FileTransport } from './transports/file';
+import { SmtpTransport } from './transports/smtp';
+import { renderMailTemplate, type MailTemplateData } from './templates';
+import { enqueueMail, processMailQueue, type MailQueueResult } from './queue';
+import type { MailTemplateName, MailTransport } from './types';
+
+export type { MailMessage, MailTransport, MailTemplateName, RenderedMail } from './types';
+export type { MailTemplateData } from './templates';
+export { renderMailTemplate } from './templates';
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const kind = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (kind) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      transport = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT ?? 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true'
+      });
+      break;
+    case 'file':
+      transport = new FileTransport(process.env.MAIL_FILE_DIR ?? '.mail');
+      break;
+    default:
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Mail delivery in production needs SMTP_HOST or MAIL_TRANSPORT=file');
+      }
+      transport = new FileTransport();
+  }
+
+  return transport;
+}
+
+// Tests and scripts can swap in their own transport
+export function setMailTransport(custom: MailTransport | null) {
+  transport = custom;
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM ?? 'Scholarship Tracker Pro <no-reply@localhost>';
+}
+
+export function absoluteUrl(path: string): string {
+  const baseUrl = (process.env.BASE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+  return `${baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+// Async so a transport that can't be set up rejects instead of throwing
+export async function deliverQueuedMail(limit?: number): Promise<MailQueueResult> {
+  return processMailQueue(getMailTransport(), getMailFrom(), limit);
+}
+
+/**
+ * Render and queue a templated message, then kick off delivery without
+ * blocking the caller. Failed sends stay queued and are retried by the
+ * next delivery run (see app/api/cron/mail).
+ */
+export async function sendTemplatedMail<K extends MailTemplateName>(
+  template: K,
+  to: string,
+  data: MailTemplateData[K],
+  options: { userId?: number } = {}
+): Promise<number> {
+  const id = await enqueueMail({
+    to,
+    template,
+    rendered: renderMailTemplate(template, data),
+    userId: options.userId
+  });
+
+  deliverQueuedMail().catch((error) => console.error('Mail delivery run failed:', error));
+
+  return id;
+}
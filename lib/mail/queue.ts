@@ -0,0 +1,114 @@
+import { and, asc, eq, inArray, lte, sql } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { mailQueue } from '@/lib/db/schema';
+import type { MailTemplateName, MailTransport, RenderedMail } from './types';
+
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1m, 2m, 4m, 8m, ...
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// A claimed message is retried if its worker dies before recording the outcome
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+export interface EnqueueMailOptions {
+  to: string;
+  template: MailTemplateName;
+  rendered: RenderedMail;
+  userId?: number;
+}
+
+export interface MailQueueResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+export async function enqueueMail({ to, template, rendered, userId }: EnqueueMailOptions): Promise<number> {
+  const [queued] = await db
+    .insert(mailQueue)
+    .values({
+      userId,
+      toAddress: to,
+      template,
+      subject: rendered.subject,
+      textBody: rendered.text,
+      htmlBody: rendered.html
+    })
+    .returning({ id: mailQueue.id });
+
+  return queued.id;
+}
+
+/**
+ * Deliver due messages. Rows are claimed with SKIP LOCKED so concurrent
+ * workers never send the same message twice.
+ */
+export async function processMailQueue(
+  transport: MailTransport,
+  from: string,
+  limit = 20
+): Promise<MailQueueResult> {
+  const now = new Date();
+  const result: MailQueueResult = { sent: 0, retrying: 0, failed: 0 };
+
+  const due = db
+    .select({ id: mailQueue.id })
+    .from(mailQueue)
+    .where(and(eq(mailQueue.status, 'pending'), lte(mailQueue.nextAttemptAt, now)))
+    .orderBy(asc(mailQueue.nextAttemptAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  const claimed = await db
+    .update(mailQueue)
+    .set({
+      attempts: sql`${mailQueue.attempts} + 1`,
+      nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+      updatedAt: now
+    })
+    .where(inArray(mailQueue.id, due))
+    .returning();
+
+  for (const mail of claimed) {
+    try {
+      await transport.send({
+        to: mail.toAddress,
+        from,
+        subject: mail.subject,
+        text: mail.textBody,
+        html: mail.htmlBody ?? undefined
+      });
+
+      await db
+        .update(mailQueue)
+        .set({ status: 'sent', sentAt: new Date(), lastError: null, updatedAt: new Date() })
+        .where(eq(mailQueue.id, mail.id));
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = mail.attempts >= mail.maxAttempts;
+
+      await db
+        .update(mailQueue)
+        .set({
+          status: exhausted ? 'failed' : 'pending',
+          lastError: message,
+          nextAttemptAt: new Date(Date.now() + getRetryDelay(mail.attempts)),
+          updatedAt: new Date()
+        })
+        .where(eq(mailQueue.id, mail.id));
+
+      if (exhausted) {
+        console.error(`❌ Mail ${mail.id} (${mail.template}) failed permanently via ${transport.name}:`, message);
+        result.failed++;
+      } else {
+        console.warn(`⚠️ Mail ${mail.id} (${mail.template}) attempt ${mail.attempts} failed, retrying:`, message);
+        result.retrying++;
+      }
+    }
+  }
+
+  return result;
+}
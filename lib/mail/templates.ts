@@ -0,0 +1,146 @@
+import { siteConfig } from '@/lib/config';
+import type { MailTemplateName, RenderedMail } from './types';
+
+export interface MailTemplateData {
+  email_verification: {
+    firstName?: string | null;
+    verifyUrl: string;
+    expiresInHours: number;
+  };
+  password_reset: {
+    firstName?: string | null;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  account_locked: {
+    firstName?: string | null;
+    lockoutMinutes: number;
+    resetUrl: string;
+  };
+  deadline_reminder: {
+    firstName?: string | null;
+    scholarshipTitle: string;
+    deadline: string;
+    daysRemaining: number;
+    scholarshipUrl: string;
+  };
+  parent_invitation: {
+    inviterName: string;
+    relationship: 'parent' | 'counselor';
+    acceptUrl: string;
+  };
+}
+
+type TemplateContent = {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footer?: string;
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function greet(firstName?: string | null): string {
+  return firstName ? `Hi ${firstName},` : 'Hi,';
+}
+
+const templates: { [K in MailTemplateName]: (data: MailTemplateData[K]) => TemplateContent } = {
+  email_verification: (data) => ({
+    subject: 'Verify your email address',
+    greeting: greet(data.firstName),
+    paragraphs: [
+      `Thanks for signing up for ${siteConfig.name}. Please confirm your email address to finish setting up your account.`
+    ],
+    action: { label: 'Verify email', url: data.verifyUrl },
+    footer: `This link expires in ${data.expiresInHours} hours. If you didn't create an account, you can ignore this email.`
+  }),
+
+  password_reset: (data) => ({
+    subject: 'Reset your password',
+    greeting: greet(data.firstName),
+    paragraphs: ['We received a request to reset the password for your account.'],
+    action: { label: 'Reset password', url: data.resetUrl },
+    footer: `This link expires in ${data.expiresInMinutes} minutes and can only be used once. If you didn't request a reset, you can ignore this email.`
+  }),
+
+  account_locked: (data) => ({
+    subject: 'Sign-in temporarily locked',
+    greeting: greet(data.firstName),
+    paragraphs: [
+      `We locked sign-in to your account for ${data.lockoutMinutes} minutes after several failed attempts with the wrong password.`,
+      "If this wasn't you, someone may be guessing your password. Resetting it now keeps your account safe."
+    ],
+    action: { label: 'Reset password', url: data.resetUrl },
+    footer: 'If you simply mistyped your password, you can try again once the lock expires.'
+  }),
+
+  deadline_reminder: (data) => {
+    const when =
+      data.daysRemaining === 0
+        ? 'today'
+        : data.daysRemaining === 1
+          ? 'tomorrow'
+          : `in ${data.daysRemaining} days`;
+    return {
+      subject: `Reminder: ${data.scholarshipTitle} is due ${when}`,
+      greeting: greet(data.firstName),
+      paragraphs: [
+        `The application deadline for ${data.scholarshipTitle} is ${data.deadline} (${when}).`,
+        'Review your remaining requirements so nothing is left to the last minute.'
+      ],
+      action: { label: 'View deadlines', url: data.scholarshipUrl },
+      footer: 'You can change your reminder schedule in your notification preferences.'
+    };
+  },
+
+  parent_invitation: (data) => ({
+    subject: `${data.inviterName} invited you to ${siteConfig.name}`,
+    greeting: 'Hi,',
+    paragraphs: [
+      `${data.inviterName} wants to connect on ${siteConfig.name} as your ${data.relationship}, so they can follow your scholarship applications. Nothing is shared until you approve the request and choose what they can see.`
+    ],
+    action: { label: 'Review invitation', url: data.acceptUrl },
+    footer: "If you weren't expecting this invitation, you can ignore this email."
+  })
+};
+
+export function renderMailTemplate<K extends MailTemplateName>(
+  name: K,
+  data: MailTemplateData[K]
+): RenderedMail {
+  const content = templates[name](data);
+
+  const text = [
+    content.greeting,
+    '',
+    ...content.paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ''] : []),
+    ...(content.footer ? [content.footer, ''] : []),
+    `— ${siteConfig.name}`
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #0f172a; line-height: 1.5;">
+    <p>${escapeHtml(content.greeting)}</p>
+    ${content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    ${
+      content.action
+        ? `<p><a href="${escapeHtml(content.action.url)}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(content.action.label)}</a></p>`
+        : ''
+    }
+    ${content.footer ? `<p style="color: #64748b; font-size: 12px;">${escapeHtml(content.footer)}</p>` : ''}
+    <p style="color: #64748b; font-size: 12px;">${escapeHtml(siteConfig.name)}</p>
+  </body>
+</html>`;
+
+  return { subject: content.subject, text, html };
+}
@@ -0,0 +1,35 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MailMessage, MailTransport } from '../types';
+
+/**
+ * Development transport: writes each message as an .eml file when a
+ * directory is configured, otherwise prints it to the console.
+ */
+export class FileTransport implements MailTransport {
+  readonly name: string;
+
+  constructor(private directory?: string) {
+    this.name = directory ? 'file' : 'console';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const raw = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text
+    ].join('\n');
+
+    if (!this.directory) {
+      console.log(`📧 Mail (console transport)\n${raw}\n`);
+      return;
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.eml`;
+    await writeFile(path.join(this.directory, fileName), raw, 'utf8');
+  }
+}
@@ -0,0 +1,143 @@
+import net from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildMimeMessage, SmtpTransport } from './smtp';
+import type { MailMessage } from '../types';
+
+const message: MailMessage = {
+  from: 'Scholarship Tracker Pro <no-reply@example.com>',
+  to: 'student@example.com',
+  subject: 'Deadline in 7 days',
+  text: 'Your application is due soon.'
+};
+
+// Scripted server that records every line the client sends
+function startServer({ greet = true, capabilities = ['AUTH PLAIN'] } = {}) {
+  const transcript: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    if (greet) socket.write('220 test ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        transcript.push('<data>');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        transcript.push(line);
+
+        const verb = line.split(' ')[0];
+        if (verb === 'EHLO') {
+          const lines = ['test', ...capabilities];
+          socket.write(lines.map((text, i) => `250${i === lines.length - 1 ? ' ' : '-'}${text}\r\n`).join(''));
+        } else if (verb === 'AUTH') {
+          socket.write('235 ok\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; transcript: string[]; close: () => void }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, transcript, close: () => server.close() });
+    });
+  });
+}
+
+let close: (() => void) | undefined;
+afterEach(() => close?.());
+
+describe('SmtpTransport', () => {
+  it('sends a message through the SMTP conversation', async () => {
+    const server = await startServer({ capabilities: [] });
+    close = server.close;
+
+    await new SmtpTransport({ host: '127.0.0.1', port: server.port, secure: false }).send(message);
+
+    expect(server.transcript).toEqual([
+      expect.stringMatching(/^EHLO /),
+      'MAIL FROM:<no-reply@example.com>',
+      'RCPT TO:<student@example.com>',
+      'DATA',
+      '<data>',
+      'QUIT'
+    ]);
+  });
+
+  it('refuses to send credentials when STARTTLS is not available', async () => {
+    const server = await startServer();
+    close = server.close;
+
+    const transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret'
+    });
+
+    await expect(transport.send(message)).rejects.toThrow(/refusing to send credentials/);
+    expect(server.transcript.some((line) => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('authenticates without TLS only when explicitly allowed', async () => {
+    const server = await startServer();
+    close = server.close;
+
+    await new SmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+      allowInsecureAuth: true
+    }).send(message);
+
+    const credentials = Buffer.from('\0mailer\0secret', 'utf8').toString('base64');
+    expect(server.transcript).toContain(`AUTH PLAIN ${credentials}`);
+  });
+
+  it('times out when the server never answers', async () => {
+    const server = await startServer({ greet: false });
+    close = server.close;
+
+    const transport = new SmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 200 });
+
+    await expect(transport.send(message)).rejects.toThrow(/timed out/);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('base64-encodes a plain text body', () => {
+    const mime = buildMimeMessage(message, 'example.com');
+
+    expect(mime).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(mime).toMatch(/^Message-ID: <[\w-]+@example\.com>$/m);
+    expect(mime.split('\r\n\r\n')[1]).toBe(Buffer.from(message.text).toString('base64'));
+  });
+
+  it('encodes non-ASCII subjects and adds an HTML alternative', () => {
+    const mime = buildMimeMessage({ ...message, subject: 'Beca aprobada ✓', html: '<p>Hi</p>' }, 'example.com');
+
+    expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from('Beca aprobada ✓').toString('base64')}?=`);
+    expect(mime).toMatch(/^Content-Type: multipart\/alternative; boundary="stp-[\w-]+"$/m);
+    expect(mime).toContain('Content-Type: text/html; charset=utf-8');
+  });
+});
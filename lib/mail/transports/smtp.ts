@@ -0,0 +1,252 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { MailMessage, MailTransport } from '../types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+  allowInsecureAuth?: boolean; // send credentials without TLS; only for local test servers
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+type Pending = {
+  resolve: (reply: SmtpReply) => void;
+  reject: (error: Error) => void;
+};
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+// RFC 5322 message with a text part and, when present, an HTML alternative
+export function buildMimeMessage(message: MailMessage, domain: string): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `stp-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+/**
+ * Minimal SMTP client: one connection per message, STARTTLS when the
+ * server offers it, and AUTH PLAIN when credentials are configured. The
+ * password is never sent over an unencrypted connection unless
+ * allowInsecureAuth is set.
+ */
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = '';
+  private pending: Pending[] = [];
+  private failure: Error | null = null;
+  encrypted: boolean;
+
+  constructor(private options: SmtpOptions) {
+    this.encrypted = options.secure;
+  }
+
+  // The timeout covers the connect itself, so an unreachable host can't hang a cron run
+  async open(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const onTimeout = () => socket.destroy(new Error('SMTP connection timed out'));
+    socket.setTimeout(this.timeoutMs);
+    socket.once('timeout', onTimeout);
+    await new Promise<void>((resolve, reject) => {
+      socket.once(secure ? 'secureConnect' : 'connect', () => resolve());
+      socket.once('error', reject);
+    });
+    socket.removeListener('timeout', onTimeout);
+    this.attach(socket);
+  }
+
+  async upgradeToTls(): Promise<void> {
+    this.socket.removeAllListeners('data');
+    const secureSocket = tls.connect({ socket: this.socket, servername: this.options.host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', () => resolve());
+      secureSocket.once('error', reject);
+    });
+    this.attach(secureSocket);
+    this.encrypted = true;
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.flush();
+    });
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0]);
+  }
+
+  async expect(expected: number[], context: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.message}`);
+    }
+    return reply;
+  }
+
+  writeRaw(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private get timeoutMs(): number {
+    return this.options.timeoutMs ?? 30000;
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('timeout', () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure ?? error;
+    this.pending.splice(0).forEach((waiter) => waiter.reject(this.failure!));
+  }
+
+  private flush() {
+    while (this.pending.length > 0) {
+      const reply = this.extractReply();
+      if (!reply) return;
+      this.pending.shift()!.resolve(reply);
+    }
+  }
+
+  // Multi-line replies use "250-" continuations and end with "250 "
+  private extractReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let offset = 0;
+    while (true) {
+      const end = this.buffer.indexOf('\r\n', offset);
+      if (end === -1) return null;
+      const line = this.buffer.slice(offset, end);
+      lines.push(line.slice(4));
+      offset = end + 2;
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.buffer = this.buffer.slice(offset);
+        return { code: Number(line.slice(0, 3)), message: lines.join('\n') };
+      }
+    }
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = new SmtpConnection(this.options);
+    const hostname = os.hostname() || 'localhost';
+
+    await connection.open();
+    try {
+      await connection.expect([220], 'greeting');
+      let capabilities = await connection.command(`EHLO ${hostname}`, [250]);
+
+      if (!this.options.secure && /^STARTTLS$/m.test(capabilities.message)) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgradeToTls();
+        capabilities = await connection.command(`EHLO ${hostname}`, [250]);
+      }
+
+      if (this.options.user) {
+        if (!/^AUTH\b/m.test(capabilities.message)) {
+          throw new Error('SMTP server does not support authentication');
+        }
+        if (!connection.encrypted && !this.options.allowInsecureAuth) {
+          throw new Error('SMTP server did not offer STARTTLS; refusing to send credentials unencrypted');
+        }
+        const credentials = Buffer.from(
+          `\0${this.options.user}\0${this.options.password ?? ''}`,
+          'utf8'
+        ).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      const domain = extractAddress(message.from).split('@')[1] ?? hostname;
+      // Dot-stuff any line that starts with "." so it is not read as the terminator
+      const body = buildMimeMessage(message, domain).replace(/^\./gm, '..');
+      connection.writeRaw(`${body}\r\n.\r\n`);
+      await connection.expect([250], 'DATA');
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
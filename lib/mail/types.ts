@@ -0,0 +1,26 @@
+export interface MailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Every transport either delivers the message or throws, so the queue can retry
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTemplateName =
+  | 'email_verification'
+  | 'password_reset'
+  | 'account_locked'
+  | 'deadline_reminder'
+  | 'parent_invitation';
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
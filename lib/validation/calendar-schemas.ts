@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+const checkboxField = z
+  .enum(['on', 'true', 'false'])
+  .optional()
+  .transform((val) => val !== undefined && val !== 'false');
+
+export const calendarFeedSchema = z.object({
+  includeWorkBlocks: checkboxField
+});
+
+export type CalendarFeedData = z.infer<typeof calendarFeedSchema>;
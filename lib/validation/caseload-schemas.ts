@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { CASELOAD_FILTERS, CASELOAD_SORTS } from '@/lib/engines/caseload-engine';
+
+// Query string for the caseload page; unknown values fall back to defaults
+export const caseloadQuerySchema = z.object({
+  filter: z.enum(CASELOAD_FILTERS).catch('all'),
+  sort: z.enum(CASELOAD_SORTS).catch('at_risk'),
+  q: z.string().trim().max(100).catch('')
+});
+
+export type CaseloadQuery = z.infer<typeof caseloadQuerySchema>;
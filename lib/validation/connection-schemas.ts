@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import {
+  CONNECTION_PERMISSIONS,
+  type ConnectionPermission
+} from '@/lib/auth/connection-permissions';
+
+const idField = z.coerce.number().int().positive();
+
+// Unchecked checkboxes are omitted from FormData, so absence means false
+const permissionField = z
+  .enum(['on', 'true', 'false'])
+  .optional()
+  .transform((val) => val !== undefined && val !== 'false');
+
+export const requestConnectionSchema = z.object({
+  studentEmail: z
+    .string()
+    .min(1, 'Student email is required')
+    .email('Please enter a valid email address')
+    .max(255)
+    .toLowerCase()
+    .trim()
+});
+
+export const respondToConnectionSchema = z.object({
+  id: idField,
+  decision: z.enum(['approve', 'reject'], {
+    errorMap: () => ({ message: 'Please approve or reject the request' })
+  })
+});
+
+const permissionFields = Object.fromEntries(
+  CONNECTION_PERMISSIONS.map((permission) => [permission, permissionField])
+) as Record<ConnectionPermission, typeof permissionField>;
+
+export const updateConnectionPermissionsSchema = z.object({
+  id: idField,
+  ...permissionFields
+});
+
+export const revokeConnectionSchema = z.object({
+  id: idField
+});
+
+export type RequestConnectionData = z.infer<typeof requestConnectionSchema>;
+export type RespondToConnectionData = z.infer<typeof respondToConnectionSchema>;
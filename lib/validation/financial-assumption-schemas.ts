@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import type { FinancialAssumptionOverrides, FinancialAssumptions } from '@/types/spider-web';
+
+const rateField = z.number().min(0).max(1);
+const moneyField = z.number().min(0).max(9999999);
+
+const riskAdjustmentFactorsSchema = z.object({
+  low: rateField,
+  medium: rateField,
+  high: rateField
+});
+
+export const financialAssumptionsSchema: z.ZodType<FinancialAssumptions> = z.object({
+  opportunityCostRate: rateField,
+  applicationHourValue: z.number().min(0).max(1000),
+  riskAdjustmentFactors: riskAdjustmentFactorsSchema,
+  taxFreeThreshold: moneyField,
+  expectedSalaryIncrease: moneyField
+});
+
+// Stored institution and user overrides; a set that fails validation is ignored on read
+export const financialAssumptionOverridesSchema: z.ZodType<FinancialAssumptionOverrides> = z
+  .object({
+    opportunityCostRate: rateField,
+    applicationHourValue: z.number().min(0).max(1000),
+    riskAdjustmentFactors: riskAdjustmentFactorsSchema.partial(),
+    taxFreeThreshold: moneyField,
+    expectedSalaryIncrease: moneyField
+  })
+  .partial();
+
+// Rates are entered as percentages, e.g. "15" for 15%
+const percentField = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} cannot be negative`)
+    .max(100, `${label} cannot exceed 100%`)
+    .transform((val) => val / 100);
+
+const dollarField = (label: string, max = 9999999) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} cannot be negative`)
+    .max(max, `${label} is too large`);
+
+export const financialAssumptionsFormSchema = z
+  .object({
+    opportunityCostRate: percentField('Opportunity cost rate'),
+    applicationHourValue: dollarField('Value of an hour', 1000),
+    riskLow: percentField('Low competition factor'),
+    riskMedium: percentField('Medium competition factor'),
+    riskHigh: percentField('High competition factor'),
+    taxFreeThreshold: dollarField('Tax-free threshold'),
+    expectedSalaryIncrease: dollarField('Expected salary increase')
+  })
+  .transform(
+    ({ riskLow, riskMedium, riskHigh, ...rest }): FinancialAssumptions => ({
+      ...rest,
+      riskAdjustmentFactors: { low: riskLow, medium: riskMedium, high: riskHigh }
+    })
+  );
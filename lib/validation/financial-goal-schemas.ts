@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+const idField = z.coerce.number().int().positive();
+
+// Empty inputs coerce to 0, which is what a blank expense line means
+const moneyField = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} cannot be negative`)
+    .max(9999999, `${label} is too large`);
+
+const financialGoalFields = {
+  academicYear: z.coerce
+    .number({ invalid_type_error: 'Academic year must be a number' })
+    .int('Academic year must be a whole year')
+    .min(2000, 'Academic year must be 2000 or later')
+    .max(2100, 'Academic year must be 2100 or earlier'),
+  currentSavings: moneyField('Savings'),
+  expectedFamilyContribution: moneyField('Family contribution'),
+  tuition: moneyField('Tuition'),
+  housing: moneyField('Housing'),
+  meals: moneyField('Meals'),
+  books: moneyField('Books'),
+  transportation: moneyField('Transportation'),
+  personal: moneyField('Personal expenses'),
+  other: moneyField('Other expenses'),
+  workStudy: moneyField('Work-study'),
+  studentLoans: moneyField('Student loans'),
+  grants: moneyField('Grants'),
+  // Named apart from the "other" expense line
+  otherFunding: moneyField('Other funding')
+};
+
+export const createFinancialGoalSchema = z.object(financialGoalFields);
+
+export const updateFinancialGoalSchema = z.object({
+  id: idField,
+  ...financialGoalFields
+});
+
+export const deleteFinancialGoalSchema = z.object({
+  id: idField
+});
+
+export type CreateFinancialGoalData = z.infer<typeof createFinancialGoalSchema>;
+export type UpdateFinancialGoalData = z.infer<typeof updateFinancialGoalSchema>;
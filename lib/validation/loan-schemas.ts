@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { LOAN_CONFIG } from '@/config/spider-web-config';
+import { REPAYMENT_PLANS } from '@/lib/engines/loan-simulator';
+
+const { defaultTerms, incomeDriven } = LOAN_CONFIG;
+
+// Rates are entered as percentages, e.g. "6.53"
+const rateField = (fallback: number) =>
+  z.coerce.number().min(0).max(30).catch(Math.round(fallback * 10000) / 100);
+
+// Query string for the loan projection page; invalid values fall back to defaults
+export const loanProjectionQuerySchema = z.object({
+  plan: z.enum(REPAYMENT_PLANS).catch('standard'),
+  subsidizedRate: rateField(defaultTerms.federal_subsidized.annualRate),
+  unsubsidizedRate: rateField(defaultTerms.federal_unsubsidized.annualRate),
+  privateRate: rateField(defaultTerms.private.annualRate),
+  graceMonths: z.coerce.number().int().min(0).max(36).catch(defaultTerms.federal_unsubsidized.graceMonths),
+  annualIncome: z.coerce.number().min(0).max(10000000).catch(incomeDriven.defaultStartingIncome)
+});
+
+export type LoanProjectionQuery = z.infer<typeof loanProjectionQuerySchema>;
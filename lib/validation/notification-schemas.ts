@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { DEADLINE_REMINDER_CONFIG } from '@/config/spider-web-config';
+
+const checkboxField = z
+  .enum(['on', 'true', 'false'])
+  .optional()
+  .transform((val) => val !== undefined && val !== 'false');
+
+// Offsets arrive as a comma separated list, e.g. "30, 14, 7, 1"
+const reminderOffsetsField = z
+  .string()
+  .trim()
+  .min(1, 'Enter at least one reminder offset')
+  .transform((val) => val.split(',').map((part) => part.trim()).filter(Boolean))
+  .refine((parts) => parts.every((part) => /^\d+$/.test(part)), {
+    message: 'Reminder offsets must be whole numbers of days'
+  })
+  .transform((parts) => Array.from(new Set(parts.map(Number))).sort((a, b) => b - a))
+  .refine((offsets) => offsets.every((days) => days <= DEADLINE_REMINDER_CONFIG.maxOffsetDays), {
+    message: `Reminder offsets cannot exceed ${DEADLINE_REMINDER_CONFIG.maxOffsetDays} days`
+  })
+  .refine((offsets) => offsets.length <= 10, {
+    message: 'Use at most 10 reminder offsets'
+  });
+
+export const notificationPreferencesSchema = z.object({
+  deadlineReminders: checkboxField,
+  statusUpdates: checkboxField,
+  newScholarships: checkboxField,
+  reminderOffsetDays: reminderOffsetsField
+});
+
+// Omitting the id marks every notification as read
+export const markNotificationsReadSchema = z.object({
+  id: z.number().int().positive().optional()
+});
+
+export type NotificationPreferencesData = z.infer<typeof notificationPreferencesSchema>;
+export type MarkNotificationsReadData = z.infer<typeof markNotificationsReadSchema>;
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+
+// Status values mirror the ScholarshipStatus union from the modernization guide
+export const SCHOLARSHIP_STATUSES = [
+  'not_started',
+  'draft',
+  'in_progress',
+  'submitted',
+  'under_review',
+  'awarded',
+  'rejected'
+] as const;
+
+export const SCHOLARSHIP_CATEGORIES = [
+  'Merit',
+  'Need-Based',
+  'STEM',
+  'Service',
+  'Diversity',
+  'Research',
+  'Athletics',
+  'Arts',
+  'Local',
+  'Institutional'
+] as const;
+
+export const REQUIREMENT_TYPES = [
+  'document',
+  'academic',
+  'activity',
+  'financial',
+  'process'
+] as const;
+
+export type ScholarshipStatus = (typeof SCHOLARSHIP_STATUSES)[number];
+export type ScholarshipCategory = (typeof SCHOLARSHIP_CATEGORIES)[number];
+export type RequirementType = (typeof REQUIREMENT_TYPES)[number];
+
+// FormData only carries strings, so numeric ids and flags are coerced here
+const idField = z.coerce.number().int().positive();
+
+const checkboxField = z
+  .enum(['on', 'true', 'false'])
+  .optional()
+  .transform((val) => (val === undefined ? undefined : val !== 'false'));
+
+// Rejects well-formed but impossible dates such as 2025-02-31, which Postgres would refuse
+function isCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .optional()
+    .transform((val) => (val && val.trim().length > 0 ? val.trim() : null));
+
+const scholarshipFields = {
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(300, 'Title must be less than 300 characters')
+    .trim(),
+  provider: z
+    .string()
+    .min(1, 'Provider is required')
+    .max(200, 'Provider must be less than 200 characters')
+    .trim(),
+  amount: z.coerce
+    .number({ invalid_type_error: 'Amount must be a number' })
+    .positive('Amount must be greater than zero')
+    .max(99999999, 'Amount is too large')
+    .transform((val) => val.toFixed(2)),
+  deadline: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Deadline must be a valid date (YYYY-MM-DD)')
+    .refine(isCalendarDate, 'Deadline must be a real calendar date'),
+  category: z.enum(SCHOLARSHIP_CATEGORIES, {
+    errorMap: () => ({ message: 'Please select a valid category' })
+  }),
+  applicationUrl: z
+    .string()
+    .optional()
+    .refine((val) => !val || /^https?:\/\/\S+$/.test(val), {
+      message: 'Application URL must start with http:// or https://'
+    })
+    .transform((val) => val || null),
+  description: optionalText(5000),
+  notes: optionalText(5000)
+};
+
+// Status changes after creation go through transitionStatusSchema only
+export const createScholarshipSchema = z.object({
+  ...scholarshipFields,
+  status: z
+    .enum(['not_started', 'draft', 'in_progress'], {
+      errorMap: () => ({ message: 'New scholarships must start as not started, draft or in progress' })
+    })
+    .default('not_started')
+});
+
+// A connected parent or counselor adding to a student's tracker
+export const createScholarshipForStudentSchema = createScholarshipSchema.extend({
+  studentId: idField
+});
+
+export const updateScholarshipSchema = z.object({
+  id: idField,
+  ...scholarshipFields
+});
+
+export const deleteScholarshipSchema = z.object({
+  id: idField
+});
+
+export const transitionStatusSchema = z.object({
+  id: idField,
+  status: z.enum(SCHOLARSHIP_STATUSES, {
+    errorMap: () => ({ message: 'Please select a valid status' })
+  })
+});
+
+export const createRequirementSchema = z.object({
+  scholarshipId: idField,
+  label: z
+    .string()
+    .min(1, 'Requirement label is required')
+    .max(300, 'Requirement label must be less than 300 characters')
+    .trim(),
+  type: z.enum(REQUIREMENT_TYPES, {
+    errorMap: () => ({ message: 'Please select a valid requirement type' })
+  }),
+  isRequired: checkboxField,
+  notes: optionalText(2000)
+});
+
+export const updateRequirementSchema = z.object({
+  id: idField,
+  label: z.string().min(1).max(300).trim().optional(),
+  type: z.enum(REQUIREMENT_TYPES).optional(),
+  isRequired: checkboxField,
+  isCompleted: checkboxField,
+  notes: z
+    .string()
+    .max(2000)
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val.trim() || null))
+});
+
+export const deleteRequirementSchema = z.object({
+  id: idField
+});
+
+export const saveCatalogScholarshipSchema = z.object({
+  catalogId: idField
+});
+
+// Query string for Smart Discovery; invalid values fall back to no filter
+export const discoveryQuerySchema = z.object({
+  q: z.string().trim().max(100).catch(''),
+  category: z.enum(SCHOLARSHIP_CATEGORIES).optional().catch(undefined),
+  minAmount: z.coerce.number().min(0).max(1000000).catch(0)
+});
+
+export type CreateScholarshipData = z.infer<typeof createScholarshipSchema>;
+export type CreateScholarshipForStudentData = z.infer<typeof createScholarshipForStudentSchema>;
+export type UpdateScholarshipData = z.infer<typeof updateScholarshipSchema>;
+export type TransitionStatusData = z.infer<typeof transitionStatusSchema>;
+export type CreateRequirementData = z.infer<typeof createRequirementSchema>;
+export type UpdateRequirementData = z.infer<typeof updateRequirementSchema>;
+export type DiscoveryQuery = z.infer<typeof discoveryQuerySchema>;
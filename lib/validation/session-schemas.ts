@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const revokeSessionSchema = z.object({
+  sessionId: z.string().min(1).max(64)
+});
+
+export type RevokeSessionData = z.infer<typeof revokeSessionSchema>;
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+// Query string for the tax summary page and export; invalid values fall back to 0
+export const taxSummaryQuerySchema = z.object({
+  otherIncome: z.coerce.number().min(0).max(10000000).catch(0)
+});
+
+export type TaxSummaryQuery = z.infer<typeof taxSummaryQuerySchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// An authenticator code, or a recovery code typed with its dash
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20)
+});
+
+export const twoFactorPasswordSchema = z.object({
+  password: z.string().min(8).max(100)
+});
+
+export type TwoFactorCodeData = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorPasswordData = z.infer<typeof twoFactorPasswordSchema>;
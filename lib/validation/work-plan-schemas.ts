@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { WORK_PLAN_CONFIG } from '@/config/spider-web-config';
+
+export const workPlanPreferencesSchema = z.object({
+  weeklyHours: z.coerce
+    .number({ invalid_type_error: 'Weekly hours must be a number' })
+    .min(1, 'Plan at least 1 hour a week')
+    .max(WORK_PLAN_CONFIG.maxWeeklyHours, `Weekly hours cannot exceed ${WORK_PLAN_CONFIG.maxWeeklyHours}`)
+});
+
+export type WorkPlanPreferencesData = z.infer<typeof workPlanPreferencesSchema>;
@@ -1,6 +1,10 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { signToken, verifyToken } from '@/lib/auth/session';
+import { sessionExpiry, signToken, verifyToken } from '@/lib/auth/session';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+
+const { sessionHours, sessionRefreshMinutes } = ACCOUNT_SECURITY_CONFIG;
+const REFRESH_WHEN_REMAINING_MS = (sessionHours * 60 - sessionRefreshMinutes) * 60 * 1000;
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -11,19 +15,24 @@ export async function middleware(request: NextRequest) {
   if (sessionCookie && request.method === 'GET') {
     try {
       const parsed = await verifyToken(sessionCookie.value);
-      const expiresInOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
-
-      res.cookies.set({
-        name: 'session',
-        value: await signToken({
-          ...parsed,
-          expires: expiresInOneDay.toISOString()
-        }),
-        httpOnly: true,
-        secure: true,
-        sameSite: 'lax',
-        expires: expiresInOneDay
-      });
+
+      // Only re-issue the cookie once it has aged, not on every page view.
+      // Revocation is enforced by getUser against the session store.
+      if (new Date(parsed.expires).getTime() - Date.now() < REFRESH_WHEN_REMAINING_MS) {
+        const expires = sessionExpiry();
+
+        res.cookies.set({
+          name: 'session',
+          value: await signToken({
+            ...parsed,
+            expires: expires.toISOString()
+          }),
+          httpOnly: true,
+          secure: true,
+          sameSite: 'lax',
+          expires
+        });
+      }
     } catch (error) {
       console.error('Error updating session:', error);
       res.cookies.delete('session');
@@ -0,0 +1,107 @@
+/**
+ * Auth Token Service
+ * Issues and redeems the single-use tokens sent by email (password reset,
+ * email verification). The raw token only ever exists in the email; the
+ * database keeps its hash, an expiry, and when it was used.
+ */
+
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { authTokens, type AuthTokenPurpose } from '@/lib/db/schema';
+import { generateToken, hashToken } from '@/lib/auth/tokens';
+
+// The database or an open transaction
+type Executor = Pick<typeof db, 'update'>;
+
+export class AuthTokenService {
+  /**
+   * Create a token, retiring any unused ones for the same purpose so only
+   * the most recent email works. `email` records the address it was sent to.
+   */
+  async issue(
+    userId: number,
+    purpose: AuthTokenPurpose,
+    lifetimeMs: number,
+    requestedIp?: string,
+    email?: string
+  ): Promise<string> {
+    const token = generateToken();
+    const now = new Date();
+
+    await db.transaction(async (tx) => {
+      await this.retire(userId, purpose, tx, now);
+      await tx.insert(authTokens).values({
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + lifetimeMs),
+        requestedIp,
+        email: email?.toLowerCase()
+      });
+    });
+
+    return token;
+  }
+
+  // Use up every outstanding token for a purpose, e.g. when the email changes
+  async retire(
+    userId: number,
+    purpose: AuthTokenPurpose,
+    executor: Executor = db,
+    now: Date = new Date()
+  ): Promise<void> {
+    await executor
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
+  /**
+   * Mark a token used and return its user id; null when it is unknown,
+   * expired or already used. The single conditional update makes
+   * concurrent redemptions safe.
+   */
+  async redeem(token: string, purpose: AuthTokenPurpose, now: Date = new Date()): Promise<number | null> {
+    return (await this.redeemWithEmail(token, purpose, now))?.userId ?? null;
+  }
+
+  // Like redeem, also returning the address the token was sent to
+  async redeemWithEmail(
+    token: string,
+    purpose: AuthTokenPurpose,
+    now: Date = new Date()
+  ): Promise<{ userId: number; email: string | null } | null> {
+    const [redeemed] = await db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(authTokens.tokenHash, hashToken(token)),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, now)
+        )
+      )
+      .returning({ userId: authTokens.userId, email: authTokens.email });
+
+    return redeemed ?? null;
+  }
+
+  // Whether a token could still be redeemed, without using it up
+  async isValid(token: string, purpose: AuthTokenPurpose, now: Date = new Date()): Promise<boolean> {
+    const [row] = await db
+      .select({ id: authTokens.id })
+      .from(authTokens)
+      .where(
+        and(
+          eq(authTokens.tokenHash, hashToken(token)),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, now)
+        )
+      )
+      .limit(1);
+
+    return row !== undefined;
+  }
+}
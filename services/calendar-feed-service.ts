@@ -0,0 +1,173 @@
+/**
+ * Calendar Feed Service
+ * Publishes a student's deadlines, reminder dates and (optionally) planned
+ * work blocks as an iCalendar subscription. The feed is authenticated by a
+ * secret token in the URL; only its hash is stored, so a lost link can be
+ * revoked and replaced but never recovered.
+ */
+
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { calendarFeeds, users, ActivityType, type CalendarFeed, type User } from '@/lib/db/schema';
+import { getScholarshipsForUser, logActivity } from '@/lib/db/queries';
+import { generateToken, hashToken } from '@/lib/auth/tokens';
+import { buildCalendar, type CalendarEvent } from '@/lib/export/ics';
+import { absoluteUrl } from '@/lib/mail';
+import { siteConfig } from '@/lib/config';
+import { DeadlineReminderScheduler } from '@/lib/engines/deadline-reminder-scheduler';
+import { toPlanDate } from '@/lib/engines/application-scheduler';
+import { getNotificationPreferences } from './deadline-reminder-service';
+import { WorkPlanService } from './work-plan-service';
+
+export function calendarFeedUrl(token: string): string {
+  return absoluteUrl(`/api/calendar/${token}.ics`);
+}
+
+export class CalendarFeedService {
+  async getActiveFeed(userId: number): Promise<CalendarFeed | null> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.userId, userId), isNull(calendarFeeds.revokedAt)))
+      .limit(1);
+
+    return feed ?? null;
+  }
+
+  /**
+   * Issue a new feed token, revoking any previous one.
+   * The raw token is only available here; callers show it to the user once.
+   */
+  async createFeed(user: Pick<User, 'id'>, includeWorkBlocks: boolean): Promise<string> {
+    const token = generateToken();
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(calendarFeeds)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(calendarFeeds.userId, user.id), isNull(calendarFeeds.revokedAt)));
+      await tx.insert(calendarFeeds).values({ userId: user.id, tokenHash: hashToken(token), includeWorkBlocks });
+    });
+
+    await logActivity(
+      user.id,
+      ActivityType.CALENDAR_FEED_CREATED,
+      undefined,
+      JSON.stringify({ includeWorkBlocks })
+    );
+
+    return token;
+  }
+
+  async setIncludeWorkBlocks(userId: number, includeWorkBlocks: boolean): Promise<boolean> {
+    const updated = await db
+      .update(calendarFeeds)
+      .set({ includeWorkBlocks })
+      .where(and(eq(calendarFeeds.userId, userId), isNull(calendarFeeds.revokedAt)))
+      .returning({ id: calendarFeeds.id });
+
+    return updated.length > 0;
+  }
+
+  async revokeFeed(userId: number): Promise<boolean> {
+    const revoked = await db
+      .update(calendarFeeds)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(calendarFeeds.userId, userId), isNull(calendarFeeds.revokedAt)))
+      .returning({ id: calendarFeeds.id });
+
+    if (revoked.length > 0) {
+      await logActivity(userId, ActivityType.CALENDAR_FEED_REVOKED);
+    }
+    return revoked.length > 0;
+  }
+
+  /**
+   * Render the calendar for a feed token; null when the token is unknown,
+   * revoked, or belongs to a deleted account
+   */
+  async renderFeed(token: string, now: Date = new Date()): Promise<string | null> {
+    const [row] = await db
+      .select({ feed: calendarFeeds, user: users })
+      .from(calendarFeeds)
+      .innerJoin(users, eq(calendarFeeds.userId, users.id))
+      .where(
+        and(
+          eq(calendarFeeds.tokenHash, hashToken(token)),
+          isNull(calendarFeeds.revokedAt),
+          isNull(users.deletedAt)
+        )
+      )
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    const { feed, user } = row;
+    const events = await this.buildEvents(user, feed.includeWorkBlocks, now);
+
+    await db.update(calendarFeeds).set({ lastAccessedAt: now }).where(eq(calendarFeeds.id, feed.id));
+
+    return buildCalendar(`${siteConfig.name} deadlines`, events, now);
+  }
+
+  private async buildEvents(user: User, includeWorkBlocks: boolean, now: Date): Promise<CalendarEvent[]> {
+    // UIDs are stable per scholarship, so a moved deadline updates the
+    // existing event instead of adding a second one
+    const domain = new URL(absoluteUrl('/')).host;
+    const scholarshipsUrl = absoluteUrl('/scholarship-management/deadlines');
+    const tracked = await getScholarshipsForUser(user.id);
+
+    const events: CalendarEvent[] = tracked.map((scholarship) => ({
+      uid: `deadline-${scholarship.id}@${domain}`,
+      summary: `Deadline: ${scholarship.title}`,
+      description: `${scholarship.provider} · status: ${scholarship.status.replace(/_/g, ' ')}`,
+      url: scholarship.applicationUrl ?? scholarshipsUrl,
+      start: scholarship.deadline,
+      lastModified: scholarship.updatedAt
+    }));
+
+    const preferences = getNotificationPreferences(user);
+    if (preferences.deadlineReminders) {
+      const scheduler = new DeadlineReminderScheduler(preferences.reminderOffsetDays);
+      for (const scholarship of tracked) {
+        // Reminders stop once an application is submitted, as in-app ones do
+        if (!scheduler.isActive(scholarship) || scheduler.daysUntilDeadline(scholarship.deadline, now) < 0) {
+          continue;
+        }
+
+        for (const reminder of scheduler.scheduleFor(scholarship)) {
+          if (reminder.offsetDays === 0) continue; // the deadline event covers the day itself
+          events.push({
+            uid: `reminder-${scholarship.id}-${reminder.offsetDays}@${domain}`,
+            summary: `Reminder: ${scholarship.title} due in ${reminder.offsetDays} day${reminder.offsetDays === 1 ? '' : 's'}`,
+            description: reminder.message,
+            url: scholarshipsUrl,
+            start: toPlanDate(reminder.scheduledFor),
+            lastModified: scholarship.updatedAt
+          });
+        }
+      }
+    }
+
+    if (includeWorkBlocks) {
+      const { plan } = await new WorkPlanService().getPlan(user, now);
+      const workPlanUrl = absoluteUrl('/scholarship-management/work-plan');
+      for (const week of plan.weeks) {
+        for (const block of week.blocks) {
+          events.push({
+            uid: `work-${block.scholarshipId}-${week.weekStart}@${domain}`,
+            summary: `Work on ${block.title} (${block.hours} h)`,
+            description: `Planned ${block.hours} hours this week. Deadline: ${block.deadline}.`,
+            url: workPlanUrl,
+            start: week.weekStart,
+            end: week.weekEnd
+          });
+        }
+      }
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Caseload Service
+ * Loads every student linked to a counselor and summarizes their
+ * scholarships within what each connection's permissions allow
+ */
+
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { scholarships, userConnections, users, ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { hasConnectionPermission } from '@/lib/auth/connection-permissions';
+import {
+  CaseloadEngine,
+  type CaseloadAccess,
+  type CaseloadScholarship,
+  type CaseloadStudentSummary
+} from '@/lib/engines/caseload-engine';
+import { getDisplayName } from './connection-service';
+
+export class CaseloadService {
+  private engine = new CaseloadEngine();
+
+  async getCaseload(
+    counselorId: number,
+    now: Date = new Date()
+  ): Promise<{ summaries: CaseloadStudentSummary[]; pendingRequests: number }> {
+    const rows = await db
+      .select({
+        connection: userConnections,
+        student: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          currentInstitution: users.currentInstitution,
+          expectedGraduationYear: users.expectedGraduationYear
+        }
+      })
+      .from(userConnections)
+      .innerJoin(users, eq(userConnections.childUserId, users.id))
+      .where(
+        and(
+          eq(userConnections.parentUserId, counselorId),
+          eq(userConnections.connectionType, 'counselor'),
+          inArray(userConnections.status, ['approved', 'pending']),
+          isNull(users.deletedAt)
+        )
+      );
+
+    const approved = rows.filter((row) => row.connection.status === 'approved');
+
+    const accessByStudent = new Map<number, CaseloadAccess>(
+      approved.map(({ connection, student }) => [
+        student.id,
+        hasConnectionPermission(connection, 'canViewApplications')
+          ? 'full'
+          : hasConnectionPermission(connection, 'canViewProgress')
+            ? 'progress'
+            : 'none'
+      ])
+    );
+
+    const visibleIds = [...accessByStudent].filter(([, access]) => access !== 'none').map(([id]) => id);
+
+    const tracked =
+      visibleIds.length === 0
+        ? []
+        : await db
+            .select({
+              id: scholarships.id,
+              userId: scholarships.userId,
+              title: scholarships.title,
+              amount: scholarships.amount,
+              deadline: scholarships.deadline,
+              status: scholarships.status,
+              completion: scholarships.completion
+            })
+            .from(scholarships)
+            .where(inArray(scholarships.userId, visibleIds));
+
+    const scholarshipsByStudent = new Map<number, CaseloadScholarship[]>();
+    for (const { userId, ...scholarship } of tracked) {
+      const access = accessByStudent.get(userId);
+      const list = scholarshipsByStudent.get(userId) ?? [];
+      // Amounts are application details, hidden from progress-only access
+      list.push({ ...scholarship, amount: access === 'full' ? scholarship.amount : null });
+      scholarshipsByStudent.set(userId, list);
+    }
+
+    const summaries = approved.map(({ student }) =>
+      this.engine.summarize(
+        {
+          id: student.id,
+          name: getDisplayName(student),
+          email: student.email,
+          institution: student.currentInstitution,
+          graduationYear: student.expectedGraduationYear
+        },
+        accessByStudent.get(student.id)!,
+        scholarshipsByStudent.get(student.id) ?? [],
+        now
+      )
+    );
+
+    if (visibleIds.length > 0) {
+      await logActivity(
+        counselorId,
+        ActivityType.SHARE_ACCESSED,
+        undefined,
+        JSON.stringify({ resource: 'caseload', studentIds: visibleIds })
+      );
+    }
+
+    return { summaries, pendingRequests: rows.length - approved.length };
+  }
+}
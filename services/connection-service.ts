@@ -0,0 +1,304 @@
+/**
+ * Connection Service
+ * Parent/counselor link requests and the student's responses to them.
+ * Students approve or reject requests, edit the granted permissions and
+ * revoke access; every step notifies the other side and is logged.
+ */
+
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import {
+  users,
+  userConnections,
+  notifications,
+  ActivityType,
+  type User,
+  type UserConnection,
+  type ConnectionPermissions
+} from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import {
+  DEFAULT_CONNECTION_PERMISSIONS,
+  resolvePermissions,
+  type ConnectionType
+} from '@/lib/auth/connection-permissions';
+import { countAttempt } from '@/lib/auth/rate-limit';
+import { absoluteUrl, sendTemplatedMail } from '@/lib/mail';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+import { requiresVerifiedEmail } from './email-verification-service';
+
+const CONNECTIONS_PATH = '/profile-settings/connections';
+const REQUEST_SENT = 'Request sent. If the student has an account, they will be asked to approve it.';
+
+type ConnectionResult = { error: string } | { success: string };
+
+export function getDisplayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+export class ConnectionService {
+  /**
+   * Ask a student to link with a parent or counselor. Every accepted call
+   * gets the same response, so it never reveals whether an account exists
+   * or is already linked: existing students get a pending request, and each
+   * address gets at most one invitation email per window. Requesters must
+   * have verified their own address and are limited to a few requests per
+   * window; students who haven't verified are treated as not found.
+   */
+  async requestConnection(requester: User, studentEmail: string): Promise<ConnectionResult> {
+    if (requester.role !== 'parent' && requester.role !== 'counselor') {
+      return { error: 'Only parent and counselor accounts can request a connection.' };
+    }
+    if (studentEmail === requester.email.toLowerCase()) {
+      return { error: 'You cannot connect to your own account.' };
+    }
+    // Unverified accounts could otherwise use the invitation email to
+    // reach arbitrary addresses
+    if (requiresVerifiedEmail(requester, 'connections')) {
+      return { error: 'Verify your email address before requesting a connection.' };
+    }
+
+    const { allowed, firstToAddress } = await this.countRequest(requester.id, studentEmail);
+    if (!allowed) {
+      return { error: 'You have sent too many connection requests. Please try again tomorrow.' };
+    }
+
+    const connectionType: ConnectionType = requester.role;
+    const requesterName = getDisplayName(requester);
+
+    const [match] = await db
+      .select()
+      .from(users)
+      // Emails are stored as typed; callers pass the lookup lowercased
+      .where(
+        and(
+          sql`lower(${users.email}) = ${studentEmail}`,
+          eq(users.role, 'student'),
+          isNull(users.deletedAt)
+        )
+      )
+      .limit(1);
+    const student = match && !requiresVerifiedEmail(match, 'parentLookup') ? match : undefined;
+
+    if (student) {
+      const [existing] = await db
+        .select()
+        .from(userConnections)
+        .where(
+          and(
+            eq(userConnections.parentUserId, requester.id),
+            eq(userConnections.childUserId, student.id),
+            eq(userConnections.connectionType, connectionType)
+          )
+        )
+        .limit(1);
+
+      // Already linked or waiting on the student: nothing new to send
+      if (existing?.status === 'approved' || existing?.status === 'pending') {
+        return { success: REQUEST_SENT };
+      }
+
+      // Asking again after a rejection or revocation always goes back to the
+      // student, and keeps the permissions they last chose
+      const values = {
+        status: 'pending',
+        isActive: false,
+        permissions: existing
+          ? resolvePermissions(existing.permissions, connectionType)
+          : DEFAULT_CONNECTION_PERMISSIONS[connectionType],
+        respondedAt: null,
+        revokedAt: null,
+        updatedAt: new Date()
+      } as const;
+
+      const [connection] = await db
+        .insert(userConnections)
+        .values({
+          parentUserId: requester.id,
+          childUserId: student.id,
+          connectionType,
+          ...values
+        })
+        .onConflictDoUpdate({
+          target: [userConnections.parentUserId, userConnections.childUserId, userConnections.connectionType],
+          set: values
+        })
+        .returning();
+
+      await Promise.all([
+        db.insert(notifications).values({
+          userId: student.id,
+          type: 'connection_request',
+          title: `${requesterName} wants to connect as your ${connectionType}`,
+          message: 'Review the request and choose what they can see.',
+          link: CONNECTIONS_PATH
+        }),
+        logActivity(
+          requester.id,
+          ActivityType.CONNECTION_REQUESTED,
+          undefined,
+          JSON.stringify({ connectionId: connection.id, studentId: student.id, connectionType })
+        )
+      ]);
+    }
+
+    if (firstToAddress) {
+      await sendTemplatedMail(
+        'parent_invitation',
+        studentEmail,
+        {
+          inviterName: requesterName,
+          relationship: connectionType,
+          acceptUrl: absoluteUrl(student ? CONNECTIONS_PATH : '/sign-up')
+        },
+        { userId: student?.id }
+      );
+    }
+
+    return { success: REQUEST_SENT };
+  }
+
+  async respond(connection: UserConnection, student: User, approve: boolean): Promise<ConnectionResult> {
+    if (connection.status !== 'pending') {
+      return { error: 'This request has already been answered.' };
+    }
+    if (approve && requiresVerifiedEmail(student, 'connections')) {
+      return { error: 'Verify your email address before linking accounts.' };
+    }
+    if (approve) {
+      const [requester] = await db
+        .select({ emailVerified: users.emailVerified })
+        .from(users)
+        .where(eq(users.id, connection.parentUserId))
+        .limit(1);
+      if (!requester || requiresVerifiedEmail(requester, 'connections')) {
+        return { error: 'This request can be approved once the requester verifies their email address.' };
+      }
+    }
+
+    const now = new Date();
+    await db
+      .update(userConnections)
+      .set({
+        status: approve ? 'approved' : 'rejected',
+        isActive: approve,
+        respondedAt: now,
+        updatedAt: now
+      })
+      .where(eq(userConnections.id, connection.id));
+
+    // users.parentId mirrors the approved parent link for older code paths
+    if (approve && connection.connectionType === 'parent') {
+      await db
+        .update(users)
+        .set({ parentId: connection.parentUserId, updatedAt: now })
+        .where(eq(users.id, student.id));
+    }
+
+    await Promise.all([
+      this.notifyRequester(
+        connection,
+        approve
+          ? `${getDisplayName(student)} approved your connection request`
+          : `${getDisplayName(student)} declined your connection request`
+      ),
+      logActivity(
+        student.id,
+        approve ? ActivityType.CONNECTION_APPROVED : ActivityType.CONNECTION_REJECTED,
+        undefined,
+        JSON.stringify({ connectionId: connection.id, requesterId: connection.parentUserId })
+      )
+    ]);
+
+    return { success: approve ? 'Connection approved.' : 'Request declined.' };
+  }
+
+  async updatePermissions(
+    connection: UserConnection,
+    student: User,
+    permissions: ConnectionPermissions
+  ): Promise<ConnectionResult> {
+    if (connection.status !== 'pending' && connection.status !== 'approved') {
+      return { error: 'Permissions can only be changed on an active connection.' };
+    }
+
+    await Promise.all([
+      db
+        .update(userConnections)
+        .set({ permissions, updatedAt: new Date() })
+        .where(eq(userConnections.id, connection.id)),
+      logActivity(
+        student.id,
+        ActivityType.CONNECTION_PERMISSIONS_UPDATED,
+        undefined,
+        JSON.stringify({ connectionId: connection.id, permissions })
+      )
+    ]);
+
+    return { success: 'Permissions updated.' };
+  }
+
+  async revoke(connection: UserConnection, student: User): Promise<ConnectionResult> {
+    if (connection.status !== 'approved') {
+      return { error: 'Only an approved connection can be revoked.' };
+    }
+    if (!connection.canStudentRevoke) {
+      return { error: 'This connection is managed by your institution and cannot be revoked here.' };
+    }
+
+    const now = new Date();
+    await db
+      .update(userConnections)
+      .set({ status: 'revoked', isActive: false, revokedAt: now, updatedAt: now })
+      .where(eq(userConnections.id, connection.id));
+
+    if (connection.connectionType === 'parent') {
+      await db
+        .update(users)
+        .set({ parentId: null, updatedAt: now })
+        .where(and(eq(users.id, student.id), eq(users.parentId, connection.parentUserId)));
+    }
+
+    await Promise.all([
+      this.notifyRequester(connection, `${getDisplayName(student)} removed your access`),
+      logActivity(
+        student.id,
+        ActivityType.CONNECTION_REVOKED,
+        undefined,
+        JSON.stringify({ connectionId: connection.id, requesterId: connection.parentUserId })
+      )
+    ]);
+
+    return { success: 'Access revoked.' };
+  }
+
+  /**
+   * Count a request in the shared attempt store (the sign-in throttle's):
+   * once per requester and once per requester and address, so repeats
+   * within the window neither exceed the limit nor re-send the email
+   */
+  private async countRequest(
+    requesterId: number,
+    studentEmail: string
+  ): Promise<{ allowed: boolean; firstToAddress: boolean }> {
+    const { perRequester, windowMinutes } = ACCOUNT_SECURITY_CONFIG.connectionRequests;
+
+    const sent = await countAttempt(`connection_request:${requesterId}`, perRequester, windowMinutes);
+    if (!sent.allowed) {
+      return { allowed: false, firstToAddress: false };
+    }
+
+    const toAddress = await countAttempt(`connection_request:${requesterId}:${studentEmail}`, 1, windowMinutes);
+    return { allowed: true, firstToAddress: toAddress.allowed };
+  }
+
+  private async notifyRequester(connection: UserConnection, title: string) {
+    await db.insert(notifications).values({
+      userId: connection.parentUserId,
+      type: 'connection_update',
+      title,
+      message: `Your ${connection.connectionType} connection was updated.`,
+      link: CONNECTIONS_PATH
+    });
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Deadline Reminder Service
+ * Persists reminders computed by the scheduler into the notification center
+ * and emails each new reminder to verified addresses. Runs for everyone from
+ * the cron job and again for one user whenever they open the app.
+ */
+
+import { and, eq, gte, inArray, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { notifications, scholarships, users, type User, type UserPreferences } from '@/lib/db/schema';
+import { DeadlineReminderScheduler } from '@/lib/engines/deadline-reminder-scheduler';
+import { DEADLINE_REMINDER_CONFIG } from '@/config/spider-web-config';
+import { absoluteUrl, sendTemplatedMail } from '@/lib/mail';
+import { requiresVerifiedEmail } from './email-verification-service';
+
+export type NotificationPreferences = UserPreferences['notifications'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  deadlineReminders: true,
+  statusUpdates: true,
+  newScholarships: true,
+  reminderOffsetDays: [...DEADLINE_REMINDER_CONFIG.defaultOffsetDays],
+};
+
+// Users created before preferences existed have a null column
+export function getNotificationPreferences(user: Pick<User, 'preferences'>): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...user.preferences?.notifications };
+}
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export class DeadlineReminderService {
+  /**
+   * Sync reminders for every user with an upcoming deadline, so the emails go
+   * out even to students who haven't signed in lately
+   */
+  async syncAllReminders(now: Date = new Date()): Promise<{ users: number; created: number }> {
+    const withUpcomingDeadlines = db
+      .selectDistinct({ userId: scholarships.userId })
+      .from(scholarships)
+      .where(
+        and(
+          gte(scholarships.deadline, toDateString(now)),
+          inArray(scholarships.status, [...DEADLINE_REMINDER_CONFIG.activeStatuses])
+        )
+      );
+
+    const candidates = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        preferences: users.preferences,
+        emailVerified: users.emailVerified
+      })
+      .from(users)
+      .where(and(isNull(users.deletedAt), inArray(users.id, withUpcomingDeadlines)));
+
+    // Preferences are JSON, so the opt-out is applied here rather than in SQL
+    const enabled = candidates.filter((user) => getNotificationPreferences(user).deadlineReminders);
+
+    let created = 0;
+    for (const user of enabled) {
+      created += await this.syncReminders(user, now);
+    }
+    return { users: enabled.length, created };
+  }
+
+  /**
+   * Create any reminders that have come due for this user.
+   * Safe to call on every notification fetch; returns the number created.
+   */
+  async syncReminders(
+    user: Pick<User, 'id' | 'email' | 'firstName' | 'preferences' | 'emailVerified'>,
+    now: Date = new Date()
+  ): Promise<number> {
+    const preferences = getNotificationPreferences(user);
+    if (!preferences.deadlineReminders) {
+      return 0;
+    }
+
+    const scheduler = new DeadlineReminderScheduler(preferences.reminderOffsetDays);
+
+    const candidates = await db
+      .select({
+        id: scholarships.id,
+        title: scholarships.title,
+        deadline: scholarships.deadline,
+        status: scholarships.status
+      })
+      .from(scholarships)
+      .where(
+        and(
+          eq(scholarships.userId, user.id),
+          gte(scholarships.deadline, toDateString(now)),
+          inArray(scholarships.status, [...DEADLINE_REMINDER_CONFIG.activeStatuses])
+        )
+      );
+
+    const due = scheduler.getDueReminders(candidates, now);
+    if (due.length === 0) {
+      return 0;
+    }
+
+    try {
+      const created = await db
+        .insert(notifications)
+        .values(
+          due.map((reminder) => ({
+            userId: user.id,
+            type: 'deadline_reminder',
+            title: reminder.title,
+            message: reminder.message,
+            link: '/scholarship-management/deadlines',
+            scholarshipId: reminder.scholarshipId,
+            dedupeKey: reminder.dedupeKey,
+            scheduledFor: reminder.scheduledFor
+          }))
+        )
+        .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+        .returning({ dedupeKey: notifications.dedupeKey });
+
+      // Only newly created reminders are emailed, so re-syncing never re-sends;
+      // unverified addresses get the in-app notification only
+      if (requiresVerifiedEmail(user, 'reminderEmails')) {
+        return created.length;
+      }
+      const createdKeys = new Set(created.map((row) => row.dedupeKey));
+      const candidatesById = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+      await Promise.all(
+        due
+          .filter((reminder) => createdKeys.has(reminder.dedupeKey))
+          .map((reminder) => {
+            const scholarship = candidatesById.get(reminder.scholarshipId)!;
+            return sendTemplatedMail(
+              'deadline_reminder',
+              user.email,
+              {
+                firstName: user.firstName,
+                scholarshipTitle: scholarship.title,
+                deadline: scholarship.deadline,
+                daysRemaining: reminder.daysRemaining,
+                scholarshipUrl: absoluteUrl('/scholarship-management/deadlines')
+              },
+              { userId: user.id }
+            );
+          })
+      );
+
+      return created.length;
+    } catch (error) {
+      console.error('Error syncing deadline reminders:', error);
+      return 0;
+    }
+  }
+}
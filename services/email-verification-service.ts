@@ -0,0 +1,99 @@
+/**
+ * Email Verification Service
+ * Emails a single-use verification link at sign-up (and on request) and
+ * marks the address verified when the user confirms it. Features listed in
+ * ACCOUNT_SECURITY_CONFIG.requireVerifiedEmail stay off until then.
+ */
+
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { users, ActivityType, type User } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { absoluteUrl, sendTemplatedMail } from '@/lib/mail';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+import { countAttempt } from '@/lib/auth/rate-limit';
+import { AuthTokenService } from './auth-token-service';
+import { InstitutionService } from './institution-service';
+
+export type VerifiedEmailFeature = keyof typeof ACCOUNT_SECURITY_CONFIG.requireVerifiedEmail;
+
+// True when the feature is gated and this account hasn't verified its email
+export function requiresVerifiedEmail(user: Pick<User, 'emailVerified'>, feature: VerifiedEmailFeature): boolean {
+  return ACCOUNT_SECURITY_CONFIG.requireVerifiedEmail[feature] && !user.emailVerified;
+}
+
+export class EmailVerificationService {
+  private tokens = new AuthTokenService();
+
+  /**
+   * Email a fresh verification link; earlier links stop working. Each
+   * account gets a few links per window, however they are requested.
+   */
+  async sendVerification(
+    user: Pick<User, 'id' | 'email' | 'firstName' | 'emailVerified'>,
+    ipAddress?: string
+  ): Promise<'sent' | 'already_verified' | 'limited'> {
+    if (user.emailVerified) {
+      return 'already_verified';
+    }
+    const { perUser, windowMinutes } = ACCOUNT_SECURITY_CONFIG.verificationEmails;
+    if (!(await countAttempt(`email_verification:${user.id}`, perUser, windowMinutes)).allowed) {
+      return 'limited';
+    }
+
+    const { emailVerificationHours } = ACCOUNT_SECURITY_CONFIG;
+    const token = await this.tokens.issue(
+      user.id,
+      'email_verification',
+      emailVerificationHours * 60 * 60 * 1000,
+      ipAddress,
+      user.email
+    );
+
+    await sendTemplatedMail(
+      'email_verification',
+      user.email,
+      {
+        firstName: user.firstName,
+        verifyUrl: absoluteUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+        expiresInHours: emailVerificationHours
+      },
+      { userId: user.id }
+    );
+
+    return 'sent';
+  }
+
+  // Checked when the link is opened; only the confirm button redeems it
+  isTokenValid(token: string): Promise<boolean> {
+    return this.tokens.isValid(token, 'email_verification');
+  }
+
+  /**
+   * Redeem a verification token; false when it is invalid, expired, already
+   * used, or was sent to an address the account no longer has
+   */
+  async verify(token: string, ipAddress?: string): Promise<boolean> {
+    const redeemed = await this.tokens.redeemWithEmail(token, 'email_verification');
+    if (!redeemed?.email) {
+      return false;
+    }
+
+    const { userId, email } = redeemed;
+    const now = new Date();
+    const [verified] = await db
+      .update(users)
+      .set({ emailVerified: true, emailVerifiedAt: now, updatedAt: now })
+      .where(and(eq(users.id, userId), sql`lower(${users.email}) = ${email}`))
+      .returning({ id: users.id });
+    if (!verified) {
+      return false;
+    }
+
+    await logActivity(userId, ActivityType.EMAIL_VERIFIED, ipAddress);
+    // Domain membership only follows an address the user has shown they control
+    await new InstitutionService().enrollVerifiedUser(userId);
+
+    return true;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Family Service
+ * A parent's read-only view of each linked child. Every section is loaded
+ * through the connection-checked queries, so anything the child has not
+ * shared comes back as null rather than being hidden in the UI alone.
+ */
+
+import {
+  getConnectionsForUser,
+  getScholarshipsForConnectedStudent,
+  getProgressForConnectedStudent,
+  getFinancialGoalsForConnectedStudent,
+  logActivity,
+  type ConnectionContact,
+  type ScholarshipProgress,
+  type ScholarshipWithRequirements
+} from '@/lib/db/queries';
+import { ActivityType, type ConnectionPermissions } from '@/lib/db/schema';
+import { resolvePermissions } from '@/lib/auth/connection-permissions';
+import { FinancialGoalService, type FinancialGoalWithFunding } from './financial-goal-service';
+
+export interface FamilyChild {
+  connectionId: number;
+  student: ConnectionContact;
+  permissions: ConnectionPermissions;
+  scholarships: ScholarshipWithRequirements[] | null;
+  progress: ScholarshipProgress[] | null;
+  financialGoals: FinancialGoalWithFunding[] | null;
+}
+
+export class FamilyService {
+  private financialGoals = new FinancialGoalService();
+
+  async getChildren(parentId: number): Promise<FamilyChild[]> {
+    const { outgoing } = await getConnectionsForUser(parentId);
+    const connections = outgoing.filter(
+      (connection) => connection.connectionType === 'parent' && connection.status === 'approved'
+    );
+
+    const children = await Promise.all(
+      connections.map(async (connection): Promise<FamilyChild> => {
+        const studentId = connection.contact.id;
+        const [scholarships, progress, goals] = await Promise.all([
+          getScholarshipsForConnectedStudent(parentId, studentId),
+          getProgressForConnectedStudent(parentId, studentId),
+          getFinancialGoalsForConnectedStudent(parentId, studentId)
+        ]);
+
+        return {
+          connectionId: connection.id,
+          student: connection.contact,
+          permissions: resolvePermissions(connection.permissions, connection.connectionType),
+          scholarships,
+          progress,
+          financialGoals: goals ? await this.financialGoals.withDerivedTotals(studentId, goals) : null
+        };
+      })
+    );
+
+    const sharedWith = children
+      .filter((child) => child.scholarships || child.progress || child.financialGoals)
+      .map((child) => child.student.id);
+    if (sharedWith.length > 0) {
+      await logActivity(
+        parentId,
+        ActivityType.SHARE_ACCESSED,
+        undefined,
+        JSON.stringify({ resource: 'family', studentIds: sharedWith })
+      );
+    }
+
+    return children;
+  }
+}
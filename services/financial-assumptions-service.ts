@@ -0,0 +1,99 @@
+/**
+ * Financial Assumptions Service
+ * Resolves the assumptions a user's financial analysis runs under:
+ * config defaults, then their institution's overrides, then their own.
+ * User overrides are stored as the difference from that baseline so
+ * later institution changes still reach them.
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { institutions, type User } from '@/lib/db/schema';
+import { DEFAULT_FINANCIAL_ASSUMPTIONS } from '@/config/spider-web-config';
+import { FinancialAnalysisEngineImpl } from '@/lib/engines/financial-analysis-engine';
+import { financialAssumptionOverridesSchema } from '@/lib/validation/financial-assumption-schemas';
+import type { FinancialAssumptionOverrides, FinancialAssumptions } from '@/types/spider-web';
+
+export interface ResolvedFinancialAssumptions {
+  assumptions: FinancialAssumptions;
+  // Defaults plus institution overrides; what the user's overrides are measured against
+  baseline: FinancialAssumptions;
+  institutionName: string | null;
+  userOverrides: FinancialAssumptionOverrides;
+}
+
+function parseOverrides(value: unknown): FinancialAssumptionOverrides {
+  const result = financialAssumptionOverridesSchema.safeParse(value ?? {});
+  return result.success ? result.data : {};
+}
+
+export function mergeFinancialAssumptions(
+  base: FinancialAssumptions,
+  ...layers: FinancialAssumptionOverrides[]
+): FinancialAssumptions {
+  return layers.reduce<FinancialAssumptions>(
+    (merged, layer) => ({
+      ...merged,
+      ...layer,
+      riskAdjustmentFactors: { ...merged.riskAdjustmentFactors, ...layer.riskAdjustmentFactors }
+    }),
+    base
+  );
+}
+
+export function diffFinancialAssumptions(
+  baseline: FinancialAssumptions,
+  values: FinancialAssumptions
+): FinancialAssumptionOverrides {
+  const overrides: FinancialAssumptionOverrides = {};
+  const { riskAdjustmentFactors, ...scalars } = values;
+
+  for (const key of Object.keys(scalars) as (keyof typeof scalars)[]) {
+    if (scalars[key] !== baseline[key]) {
+      overrides[key] = scalars[key];
+    }
+  }
+
+  for (const level of Object.keys(riskAdjustmentFactors) as (keyof typeof riskAdjustmentFactors)[]) {
+    if (riskAdjustmentFactors[level] !== baseline.riskAdjustmentFactors[level]) {
+      overrides.riskAdjustmentFactors = { ...overrides.riskAdjustmentFactors, [level]: riskAdjustmentFactors[level] };
+    }
+  }
+
+  return overrides;
+}
+
+export class FinancialAssumptionsService {
+  async getForUser(user: Pick<User, 'institutionId' | 'preferences'>): Promise<ResolvedFinancialAssumptions> {
+    let institutionName: string | null = null;
+    let institutionOverrides: FinancialAssumptionOverrides = {};
+
+    if (user.institutionId) {
+      const [institution] = await db
+        .select({ name: institutions.name, financialAssumptions: institutions.financialAssumptions })
+        .from(institutions)
+        .where(and(eq(institutions.id, user.institutionId), eq(institutions.isActive, true)))
+        .limit(1);
+
+      if (institution) {
+        institutionName = institution.name;
+        institutionOverrides = parseOverrides(institution.financialAssumptions);
+      }
+    }
+
+    const baseline = mergeFinancialAssumptions(DEFAULT_FINANCIAL_ASSUMPTIONS, institutionOverrides);
+    const userOverrides = parseOverrides(user.preferences?.financialAssumptions);
+
+    return {
+      assumptions: mergeFinancialAssumptions(baseline, userOverrides),
+      baseline,
+      institutionName,
+      userOverrides
+    };
+  }
+
+  async getEngineForUser(user: Pick<User, 'institutionId' | 'preferences'>): Promise<FinancialAnalysisEngineImpl> {
+    const { assumptions } = await this.getForUser(user);
+    return new FinancialAnalysisEngineImpl(assumptions);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Financial Goal Service
+ * Loads a user's per-year financial goals with scholarship totals derived
+ * from their tracked scholarships and the computed funding gap. Derived
+ * totals are written back so the stored columns never go stale.
+ */
+
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { financialGoals, scholarships, type FinancialGoal } from '@/lib/db/schema';
+import {
+  calculateFundingGap,
+  deriveScholarshipTotals,
+  type FundingGapSummary
+} from '@/lib/engines/financial-goal-calculator';
+
+export type FinancialGoalWithFunding = FinancialGoal & {
+  fundingGap: number;
+  funding: FundingGapSummary;
+};
+
+export class FinancialGoalService {
+  async getGoals(userId: number): Promise<FinancialGoalWithFunding[]> {
+    const goals = await db
+      .select()
+      .from(financialGoals)
+      .where(and(eq(financialGoals.userId, userId), eq(financialGoals.isActive, true)))
+      .orderBy(asc(financialGoals.academicYear));
+
+    return this.withDerivedTotals(userId, goals);
+  }
+
+  async withDerivedTotals(userId: number, goals: FinancialGoal[]): Promise<FinancialGoalWithFunding[]> {
+    if (goals.length === 0) {
+      return [];
+    }
+
+    const tracked = await db
+      .select({ amount: scholarships.amount, deadline: scholarships.deadline, status: scholarships.status })
+      .from(scholarships)
+      .where(eq(scholarships.userId, userId));
+
+    return Promise.all(
+      goals.map(async (goal) => {
+        const totals = deriveScholarshipTotals(tracked, goal.academicYear);
+        const scholarshipsAwarded = totals.awarded.toFixed(2);
+        const scholarshipsPending = totals.pending.toFixed(2);
+
+        if (
+          Number(goal.scholarshipsAwarded) !== totals.awarded ||
+          Number(goal.scholarshipsPending) !== totals.pending
+        ) {
+          await db
+            .update(financialGoals)
+            .set({ scholarshipsAwarded, scholarshipsPending, updatedAt: new Date() })
+            .where(eq(financialGoals.id, goal.id));
+        }
+
+        const funding = calculateFundingGap({ ...goal, scholarshipsAwarded, scholarshipsPending });
+        return { ...goal, scholarshipsAwarded, scholarshipsPending, fundingGap: funding.fundingGap, funding };
+      })
+    );
+  }
+}
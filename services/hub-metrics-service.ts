@@ -0,0 +1,112 @@
+/**
+ * Hub Metrics Service
+ * Computes the hub dashboard metrics. The daily cron records one snapshot
+ * per user so the metrics history reflects the user's real trend; reading
+ * the metrics never writes.
+ */
+
+import { and, asc, eq, gte, inArray, isNull, lt } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { metricSnapshots, scholarships, users } from '@/lib/db/schema';
+import { HubMetricsEngine, toSnapshotDate } from '@/lib/engines/hub-metrics-engine';
+import { EnhancedHubMetrics, MetricsHistory } from '@/types/spider-web';
+
+const HISTORY_DAYS = 30;
+
+export class HubMetricsService {
+  private engine = new HubMetricsEngine();
+
+  async getMetrics(
+    userId: number,
+    now: Date = new Date()
+  ): Promise<{ metrics: EnhancedHubMetrics; history: MetricsHistory[] }> {
+    const { metrics, history, today } = await this.compute(userId, now);
+    return { metrics, history: [...history, today] };
+  }
+
+  // Called from the cron route; returns how many users got a snapshot
+  async recordAllSnapshots(now: Date = new Date()): Promise<{ users: number }> {
+    const tracking = db.selectDistinct({ userId: scholarships.userId }).from(scholarships);
+    const candidates = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(isNull(users.deletedAt), inArray(users.id, tracking)));
+
+    for (const user of candidates) {
+      await this.recordSnapshot(user.id, now);
+    }
+    return { users: candidates.length };
+  }
+
+  // One row per user per day; a second run on the same day overwrites it
+  async recordSnapshot(userId: number, now: Date = new Date()): Promise<void> {
+    const { today } = await this.compute(userId, now);
+    const values = {
+      totalScholarships: today.totalScholarships,
+      activeApplications: today.activeApplications,
+      completionRate: today.completionRate,
+      totalAwardAmount: today.totalAwardAmount.toFixed(2),
+      updatedAt: now
+    };
+
+    await db
+      .insert(metricSnapshots)
+      .values({ userId, snapshotDate: today.date, ...values })
+      .onConflictDoUpdate({
+        target: [metricSnapshots.userId, metricSnapshots.snapshotDate],
+        set: values
+      });
+  }
+
+  private async compute(
+    userId: number,
+    now: Date
+  ): Promise<{ metrics: EnhancedHubMetrics; history: MetricsHistory[]; today: MetricsHistory }> {
+    const todayDate = toSnapshotDate(now);
+    const historyStart = toSnapshotDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - HISTORY_DAYS));
+
+    const [tracked, snapshots] = await Promise.all([
+      db
+        .select({
+          amount: scholarships.amount,
+          deadline: scholarships.deadline,
+          status: scholarships.status,
+          completion: scholarships.completion,
+          createdAt: scholarships.createdAt,
+          submittedDate: scholarships.submittedDate
+        })
+        .from(scholarships)
+        .where(eq(scholarships.userId, userId)),
+      db
+        .select()
+        .from(metricSnapshots)
+        .where(
+          and(
+            eq(metricSnapshots.userId, userId),
+            gte(metricSnapshots.snapshotDate, historyStart),
+            lt(metricSnapshots.snapshotDate, todayDate)
+          )
+        )
+        .orderBy(asc(metricSnapshots.snapshotDate))
+    ]);
+
+    const history: MetricsHistory[] = snapshots.map((snapshot) => ({
+      date: snapshot.snapshotDate,
+      totalScholarships: snapshot.totalScholarships,
+      activeApplications: snapshot.activeApplications,
+      completionRate: snapshot.completionRate,
+      totalAwardAmount: Number(snapshot.totalAwardAmount)
+    }));
+
+    const metrics = this.engine.calculateMetrics(tracked, history, now);
+    const today: MetricsHistory = {
+      date: todayDate,
+      totalScholarships: metrics.totalScholarships,
+      activeApplications: metrics.activeApplications,
+      completionRate: metrics.completionRate,
+      totalAwardAmount: metrics.totalAwardAmount
+    };
+
+    return { metrics, history, today };
+  }
+}
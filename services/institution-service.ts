@@ -0,0 +1,104 @@
+/**
+ * Institution Service
+ * Institutions own an email domain; accounts that verify an address on that
+ * domain become members, picking up the institution's financial defaults and, for counselors, its
+ * two-factor requirement.
+ */
+
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { institutions, users, type Institution } from '@/lib/db/schema';
+
+export interface InstitutionSettings {
+  name: string;
+  domain: string;
+  type?: string | null;
+  requireCounselorTwoFactor?: boolean;
+}
+
+export function emailDomain(email: string): string | null {
+  const domain = email.split('@')[1]?.trim().toLowerCase();
+  return domain || null;
+}
+
+export class InstitutionService {
+  /** The active institution that owns the email's domain, if any */
+  async findForEmail(email: string): Promise<Institution | null> {
+    const domain = emailDomain(email);
+    if (!domain) {
+      return null;
+    }
+
+    const [institution] = await db
+      .select()
+      .from(institutions)
+      .where(and(eq(institutions.domain, domain), eq(institutions.isActive, true)))
+      .limit(1);
+    return institution ?? null;
+  }
+
+  /**
+   * Join the institution that owns a verified account's email domain.
+   * Called once the address is confirmed, so typing someone else's domain at
+   * sign-up grants nothing. Returns the institution joined, if any.
+   */
+  async enrollVerifiedUser(userId: number): Promise<Institution | null> {
+    const [user] = await db
+      .select({ email: users.email, emailVerified: users.emailVerified, institutionId: users.institutionId })
+      .from(users)
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .limit(1);
+    if (!user || !user.emailVerified || user.institutionId !== null) {
+      return null;
+    }
+
+    const institution = await this.findForEmail(user.email);
+    if (!institution) {
+      return null;
+    }
+
+    await db
+      .update(users)
+      .set({ institutionId: institution.id, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.institutionId)));
+    return institution;
+  }
+
+  /**
+   * Create or update the institution for a domain, then enroll existing
+   * verified accounts on that domain that don't belong to an institution yet.
+   * Returns the institution and how many accounts joined.
+   */
+  async upsert(settings: InstitutionSettings): Promise<{ institution: Institution; membersAdded: number }> {
+    const domain = settings.domain.trim().toLowerCase();
+    const values = {
+      name: settings.name.trim(),
+      type: settings.type ?? null,
+      requireCounselorTwoFactor: settings.requireCounselorTwoFactor ?? false
+    };
+
+    const [institution] = await db
+      .insert(institutions)
+      .values({ ...values, domain })
+      .onConflictDoUpdate({
+        target: institutions.domain,
+        set: { ...values, updatedAt: new Date() }
+      })
+      .returning();
+
+    const joined = await db
+      .update(users)
+      .set({ institutionId: institution.id, updatedAt: new Date() })
+      .where(
+        and(
+          isNull(users.institutionId),
+          isNull(users.deletedAt),
+          eq(users.emailVerified, true),
+          sql`lower(split_part(${users.email}, '@', 2)) = ${domain}`
+        )
+      )
+      .returning({ id: users.id });
+
+    return { institution, membersAdded: joined.length };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Loan Projection Service
+ * Projects student debt from the funding gap left in each financial goal
+ * and measures how much each awarded scholarship keeps off that debt
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { scholarships } from '@/lib/db/schema';
+import { academicYearForDeadline, calculateFundingGap } from '@/lib/engines/financial-goal-calculator';
+import {
+  LoanSimulator,
+  REPAYMENT_PLANS,
+  type LoanProjection,
+  type LoanTermsByType,
+  type RepaymentPlan,
+  type YearlyBorrowing
+} from '@/lib/engines/loan-simulator';
+import { FinancialGoalService, type FinancialGoalWithFunding } from './financial-goal-service';
+
+export interface ScholarshipDebtImpact {
+  scholarshipId: number;
+  title: string;
+  amount: number;
+  academicYear: number;
+  // Extra borrowing and repayment the student would face without this award
+  debtAvoided: number;
+  repaymentAvoided: number;
+}
+
+export interface LoanProjectionResult {
+  borrowing: YearlyBorrowing[];
+  projection: LoanProjection;
+  planComparison: LoanProjection[];
+  scholarshipImpacts: ScholarshipDebtImpact[];
+}
+
+export class LoanProjectionService {
+  private financialGoals = new FinancialGoalService();
+
+  async getProjection(
+    userId: number,
+    options: { plan: RepaymentPlan; terms: LoanTermsByType; annualIncome: number }
+  ): Promise<LoanProjectionResult> {
+    const simulator = new LoanSimulator(options.terms);
+    const project = (borrowing: YearlyBorrowing[], plan: RepaymentPlan = options.plan) =>
+      simulator.project(borrowing, plan, options.annualIncome);
+
+    const [goals, awarded] = await Promise.all([
+      this.financialGoals.getGoals(userId),
+      db
+        .select({
+          id: scholarships.id,
+          title: scholarships.title,
+          amount: scholarships.amount,
+          deadline: scholarships.deadline
+        })
+        .from(scholarships)
+        .where(and(eq(scholarships.userId, userId), eq(scholarships.status, 'awarded')))
+    ]);
+
+    // Loans already planned as a funding source are debt too, on top of the gap
+    const plannedLoans = (goal: FinancialGoalWithFunding) => Number(goal.fundingSources?.studentLoans) || 0;
+    const borrowing = goals.map((goal) => ({
+      academicYear: goal.academicYear,
+      amount: goal.fundingGap + plannedLoans(goal)
+    }));
+    const projection = project(borrowing);
+
+    const scholarshipImpacts = awarded
+      .map((scholarship) => {
+        const amount = Number(scholarship.amount) || 0;
+        const academicYear = academicYearForDeadline(scholarship.deadline);
+        const goal = goals.find((candidate) => candidate.academicYear === academicYear);
+
+        // Without a goal for that year there is no gap to measure against
+        if (!goal) {
+          return {
+            scholarshipId: scholarship.id,
+            title: scholarship.title,
+            amount,
+            academicYear,
+            debtAvoided: 0,
+            repaymentAvoided: 0
+          };
+        }
+
+        const gapWithout = calculateFundingGap({
+          ...goal,
+          scholarshipsAwarded: String(Math.max(Number(goal.scholarshipsAwarded) - amount, 0))
+        }).fundingGap;
+        const without = project(
+          borrowing.map((year) =>
+            year.academicYear === academicYear ? { academicYear, amount: gapWithout + plannedLoans(goal) } : year
+          )
+        );
+
+        return {
+          scholarshipId: scholarship.id,
+          title: scholarship.title,
+          amount,
+          academicYear,
+          debtAvoided: Math.round(without.totalBorrowed - projection.totalBorrowed),
+          repaymentAvoided: Math.round(without.totalPaid - projection.totalPaid)
+        };
+      })
+      .sort((a, b) => b.repaymentAvoided - a.repaymentAvoided);
+
+    return {
+      borrowing,
+      projection,
+      planComparison: REPAYMENT_PLANS.map((plan) => (plan === options.plan ? projection : project(borrowing, plan))),
+      scholarshipImpacts
+    };
+  }
+}
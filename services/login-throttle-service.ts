@@ -0,0 +1,124 @@
+/**
+ * Login Throttle Service
+ * Brute-force protection for sign-in: failures are counted per account and
+ * per client IP, later attempts back off exponentially, and too many
+ * failures lock the key out for a while. Failures against a real account
+ * are logged, and a lockout notifies the account holder in-app and by email
+ * once; the count starts over when the lockout runs out.
+ */
+
+import { db } from '@/lib/db/drizzle';
+import { notifications, ActivityType, type User } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { absoluteUrl, sendTemplatedMail } from '@/lib/mail';
+import {
+  evaluateThrottle,
+  failureWindowStart,
+  getAttemptStore,
+  shouldLock,
+  throttleKey,
+  type ThrottleDecision,
+  type ThrottleScope
+} from '@/lib/auth/rate-limit';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+
+function keysFor(email: string, ipAddress?: string): Array<[ThrottleScope, string]> {
+  const keys: Array<[ThrottleScope, string]> = [['account', throttleKey('account', email)]];
+  if (ipAddress) {
+    keys.push(['ip', throttleKey('ip', ipAddress)]);
+  }
+  return keys;
+}
+
+export class LoginThrottleService {
+  private store = getAttemptStore();
+
+  /**
+   * Check both keys before the password is compared; the most restrictive
+   * decision wins
+   */
+  async check(email: string, ipAddress?: string, now: Date = new Date()): Promise<ThrottleDecision> {
+    const decisions = await Promise.all(
+      keysFor(email, ipAddress).map(async ([scope, key]) => evaluateThrottle(await this.store.get(key), scope, now))
+    );
+    const blocked = decisions.filter((decision) => !decision.allowed);
+    if (blocked.length === 0) {
+      return { allowed: true };
+    }
+
+    return blocked.reduce((worst, decision) => (decision.retryAfterMs > worst.retryAfterMs ? decision : worst));
+  }
+
+  /**
+   * Count a failed attempt. The account key is counted whether or not the
+   * email exists, so lockouts don't reveal which accounts are real.
+   */
+  async recordFailure(
+    email: string,
+    user: Pick<User, 'id' | 'email' | 'firstName'> | null,
+    ipAddress?: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const { lockoutMinutes } = ACCOUNT_SECURITY_CONFIG.signInThrottle;
+    const lockedUntil = new Date(now.getTime() + lockoutMinutes * 60 * 1000);
+    const windowStart = failureWindowStart(now);
+
+    const results = await Promise.all(
+      keysFor(email, ipAddress).map(async ([scope, key]) => {
+        const record = await this.store.recordFailure(key, now, windowStart);
+        // Only the failure that starts a lockout locks and notifies; one that
+        // slips in while the key is already locked doesn't extend it
+        const alreadyLocked = !!record.lockedUntil && record.lockedUntil > now;
+        const lock = !alreadyLocked && shouldLock(record.failures, scope);
+        if (lock) {
+          await this.store.lock(key, lockedUntil);
+        }
+        return { scope, failures: record.failures, lock };
+      })
+    );
+    const account = results.find((result) => result.scope === 'account')!;
+
+    if (!user) {
+      return;
+    }
+
+    await logActivity(
+      user.id,
+      ActivityType.SIGN_IN_FAILED,
+      ipAddress,
+      JSON.stringify({ failures: account.failures })
+    );
+
+    if (account.lock) {
+      await this.notifyLockout(user, lockoutMinutes, ipAddress);
+    }
+  }
+
+  // A successful sign-in forgives the account's failures; the IP's stay
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.clear(throttleKey('account', email));
+  }
+
+  private async notifyLockout(
+    user: Pick<User, 'id' | 'email' | 'firstName'>,
+    lockoutMinutes: number,
+    ipAddress?: string
+  ) {
+    await Promise.all([
+      db.insert(notifications).values({
+        userId: user.id,
+        type: 'account_locked',
+        title: 'Sign-in was temporarily locked',
+        message: `Too many failed sign-in attempts locked your account for ${lockoutMinutes} minutes. If this wasn't you, change your password.`,
+        link: '/profile-settings/security'
+      }),
+      sendTemplatedMail(
+        'account_locked',
+        user.email,
+        { firstName: user.firstName, lockoutMinutes, resetUrl: absoluteUrl('/forgot-password') },
+        { userId: user.id }
+      ),
+      logActivity(user.id, ActivityType.ACCOUNT_LOCKED, ipAddress, JSON.stringify({ lockoutMinutes }))
+    ]);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Password Reset Service
+ * Forgot-password flow: emails a single-use, expiring reset link and, when
+ * it is redeemed, sets the new password and signs the account out
+ * everywhere by revoking every session.
+ */
+
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { users, ActivityType } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { hashPassword } from '@/lib/auth/session';
+import { countAttempt } from '@/lib/auth/rate-limit';
+import { absoluteUrl, sendTemplatedMail } from '@/lib/mail';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+import { AuthTokenService } from './auth-token-service';
+import { SessionService } from './session-service';
+
+export class PasswordResetService {
+  private tokens = new AuthTokenService();
+
+  /**
+   * Send a reset link if the email belongs to an active account and the
+   * address and client IP are within their request limits. Callers report
+   * the same outcome in every case so accounts can't be probed.
+   */
+  async requestReset(email: string, ipAddress?: string): Promise<void> {
+    const { perEmail, perIp, windowMinutes } = ACCOUNT_SECURITY_CONFIG.passwordResetRequests;
+    const byEmail = await countAttempt(`password_reset:${email.trim().toLowerCase()}`, perEmail, windowMinutes);
+    const byIp = ipAddress ? await countAttempt(`password_reset_ip:${ipAddress}`, perIp, windowMinutes) : null;
+    if (!byEmail.allowed || (byIp && !byIp.allowed)) {
+      return;
+    }
+
+    const [user] = await db
+      .select({ id: users.id, email: users.email, firstName: users.firstName })
+      .from(users)
+      .where(and(eq(users.email, email), isNull(users.deletedAt)))
+      .limit(1);
+    if (!user) {
+      return;
+    }
+
+    const { passwordResetMinutes } = ACCOUNT_SECURITY_CONFIG;
+    const token = await this.tokens.issue(user.id, 'password_reset', passwordResetMinutes * 60 * 1000, ipAddress);
+
+    await Promise.all([
+      sendTemplatedMail(
+        'password_reset',
+        user.email,
+        {
+          firstName: user.firstName,
+          resetUrl: absoluteUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+          expiresInMinutes: passwordResetMinutes
+        },
+        { userId: user.id }
+      ),
+      logActivity(user.id, ActivityType.PASSWORD_RESET_REQUESTED, ipAddress)
+    ]);
+  }
+
+  isTokenValid(token: string): Promise<boolean> {
+    return this.tokens.isValid(token, 'password_reset');
+  }
+
+  /**
+   * Redeem a reset token and set the new password; false when the token is
+   * invalid, expired or already used
+   */
+  async resetPassword(token: string, newPassword: string, ipAddress?: string): Promise<boolean> {
+    const userId = await this.tokens.redeem(token, 'password_reset');
+    if (userId === null) {
+      return false;
+    }
+
+    const now = new Date();
+    await Promise.all([
+      db
+        .update(users)
+        .set({ passwordHash: await hashPassword(newPassword), passwordChangedAt: now, updatedAt: now })
+        .where(eq(users.id, userId)),
+      new SessionService().revokeAll(userId, { ipAddress }),
+      logActivity(userId, ActivityType.PASSWORD_RESET, ipAddress)
+    ]);
+
+    return true;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Scholarship Catalog Service
+ * Smart Discovery over the shared scholarship catalog: open entries are
+ * screened against the student's profile, ranked by match score, and can
+ * be saved into the student's own tracker with their requirement checklist.
+ */
+
+import { and, eq, gte, ilike, inArray, or } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import {
+  scholarshipCatalog,
+  scholarshipRequirements,
+  scholarships,
+  type CatalogScholarship,
+  type User
+} from '@/lib/db/schema';
+import { getUpcomingFinancialGoal } from '@/lib/db/queries';
+import { catalogToEngineScholarship, toStudentProfile } from '@/lib/engines/engine-inputs';
+import { academicYearForDate } from '@/lib/engines/financial-goal-calculator';
+import { toPlanDate } from '@/lib/engines/application-scheduler';
+import type { DiscoveryQuery } from '@/lib/validation/scholarship-schemas';
+import type { EligibilityResult } from '@/types/spider-web';
+import { ScholarshipScoringService } from './scholarship-scoring-service';
+
+export interface CatalogMatch {
+  entry: CatalogScholarship;
+  matchScore: number;
+  eligibility: EligibilityResult;
+  savedScholarshipId: number | null;
+}
+
+export interface DiscoveryResult {
+  matches: CatalogMatch[];
+  ineligible: Array<{ entry: CatalogScholarship; eligibility: EligibilityResult }>;
+}
+
+export class ScholarshipCatalogService {
+  private scoring = new ScholarshipScoringService();
+
+  async discover(user: User, query: DiscoveryQuery, now: Date = new Date()): Promise<DiscoveryResult> {
+    const search = query.q ? `%${query.q.replace(/[%_\\]/g, '\\$&')}%` : null;
+
+    const entries = await db
+      .select()
+      .from(scholarshipCatalog)
+      .where(
+        and(
+          eq(scholarshipCatalog.isActive, true),
+          gte(scholarshipCatalog.deadline, toPlanDate(now)),
+          query.category ? eq(scholarshipCatalog.category, query.category) : undefined,
+          query.minAmount > 0 ? gte(scholarshipCatalog.amount, String(query.minAmount)) : undefined,
+          search
+            ? or(
+                ilike(scholarshipCatalog.title, search),
+                ilike(scholarshipCatalog.provider, search),
+                ilike(scholarshipCatalog.description, search)
+              )
+            : undefined
+        )
+      );
+
+    if (entries.length === 0) {
+      return { matches: [], ineligible: [] };
+    }
+
+    // The family contribution planned for the coming year feeds the EFC caps
+    const profile = toStudentProfile(user, await getUpcomingFinancialGoal(user.id, academicYearForDate(now)));
+    const candidates = entries.map(catalogToEngineScholarship);
+    const entriesById = new Map(entries.map((entry) => [String(entry.id), entry]));
+
+    const [ranked, saved] = await Promise.all([
+      this.scoring.batchCalculateMatches(profile, candidates),
+      db
+        .select({ id: scholarships.id, catalogId: scholarships.catalogId })
+        .from(scholarships)
+        .where(
+          and(
+            eq(scholarships.userId, user.id),
+            inArray(scholarships.catalogId, entries.map((entry) => entry.id))
+          )
+        )
+    ]);
+    const savedByCatalogId = new Map(saved.map((row) => [row.catalogId, row.id]));
+
+    return {
+      matches: ranked.map(({ scholarship, matchScore, eligibility }) => {
+        const entry = entriesById.get(scholarship.id)!;
+        return {
+          entry,
+          matchScore: Math.round(matchScore * 10) / 10,
+          eligibility,
+          savedScholarshipId: savedByCatalogId.get(entry.id) ?? null
+        };
+      }),
+      ineligible: this.scoring.screenScholarships(profile, candidates).ineligible.map((eligibility) => ({
+        entry: entriesById.get(eligibility.scholarshipId)!,
+        eligibility
+      }))
+    };
+  }
+
+  /**
+   * Copy a catalog entry and its requirements into the student's tracker.
+   * Saving the same entry twice returns the existing tracked scholarship.
+   */
+  async saveToTracker(
+    userId: number,
+    catalogId: number
+  ): Promise<{ scholarshipId: number; created: boolean } | null> {
+    const [entry] = await db
+      .select()
+      .from(scholarshipCatalog)
+      .where(and(eq(scholarshipCatalog.id, catalogId), eq(scholarshipCatalog.isActive, true)))
+      .limit(1);
+    if (!entry) {
+      return null;
+    }
+
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(scholarships)
+        .values({
+          userId,
+          catalogId: entry.id,
+          title: entry.title,
+          provider: entry.provider,
+          amount: entry.amount,
+          deadline: entry.deadline,
+          category: entry.category,
+          applicationUrl: entry.applicationUrl,
+          description: entry.description,
+          tags: entry.tags
+        })
+        .onConflictDoNothing({ target: [scholarships.userId, scholarships.catalogId] })
+        .returning({ id: scholarships.id });
+
+      if (!created) {
+        const [existing] = await tx
+          .select({ id: scholarships.id })
+          .from(scholarships)
+          .where(and(eq(scholarships.userId, userId), eq(scholarships.catalogId, entry.id)))
+          .limit(1);
+        return { scholarshipId: existing.id, created: false };
+      }
+
+      if (entry.requirements.length > 0) {
+        await tx.insert(scholarshipRequirements).values(
+          entry.requirements.map((requirement) => ({
+            scholarshipId: created.id,
+            label: requirement.label,
+            type: requirement.type,
+            isRequired: requirement.isRequired
+          }))
+        );
+      }
+
+      return { scholarshipId: created.id, created: true };
+    });
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { ScholarshipScoringEngineImpl } from '@/lib/engines/scholarship-scoring-engine';
+import { EligibilityEngine } from '@/lib/engines/eligibility-engine';
 import { 
   StudentProfile, 
   ScholarshipScore, 
@@ -12,12 +13,14 @@ import {
   Demographics,
   FinancialProfile,
   Activity,
-  Essay
+  Essay,
+  EligibilityResult
 } from '@/types/spider-web';
 
 // Service class for scholarship scoring
 export class ScholarshipScoringService {
   private scoringEngine: ScholarshipScoringEngineImpl;
+  private eligibilityEngine = new EligibilityEngine();
 
   constructor(customWeights?: Partial<ScoringWeights>) {
     this.scoringEngine = new ScholarshipScoringEngineImpl(customWeights);
@@ -44,22 +47,31 @@ export class ScholarshipScoringService {
     }
   }
 
-  // Batch calculate scores for multiple scholarships
+  // Check eligibility rules without scoring
+  screenScholarships(profile: StudentProfile, scholarships: Scholarship[]) {
+    return this.eligibilityEngine.screen(profile, scholarships);
+  }
+
+  // Batch calculate scores for multiple scholarships; ineligible ones are
+  // screened out first and never scored
   async batchCalculateMatches(profile: StudentProfile, scholarships: Scholarship[]): Promise<Array<{
     scholarship: Scholarship;
     matchScore: number;
     baseScore: ScholarshipScore;
+    eligibility: EligibilityResult;
   }>> {
     const results = [];
     const baseScore = await this.calculateScore(profile);
+    const { eligible } = this.screenScholarships(profile, scholarships);
 
-    for (const scholarship of scholarships) {
+    for (const { scholarship, eligibility } of eligible) {
       try {
         const matchScore = await this.calculateScholarshipMatch(profile, scholarship);
         results.push({
           scholarship,
           matchScore,
           baseScore,
+          eligibility,
         });
       } catch (error) {
         console.error(`Error calculating match for scholarship ${scholarship.id}:`, error);
@@ -285,6 +297,10 @@ export function generateTestScholarships(): Scholarship[] {
         { type: 'financial', value: 50000, isRequired: true },
         { type: 'gpa', value: 3.0, isRequired: true },
       ],
+      eligibility: [
+        { kind: 'education_level', levels: ['high_school', 'undergraduate'], isRequired: true },
+        { kind: 'max_family_income', maximum: 80000, isRequired: false },
+      ],
       competitiveness: 'medium',
       renewability: true,
     },
@@ -0,0 +1,83 @@
+/**
+ * Scholarship Tax Service
+ * Builds a per-tax-year summary of scholarship and grant income, split
+ * into qualified and taxable use from each financial goal's expenses
+ */
+
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { financialGoals, scholarships } from '@/lib/db/schema';
+import { academicYearForDeadline } from '@/lib/engines/financial-goal-calculator';
+import {
+  ScholarshipTaxCalculator,
+  type AcademicYearTaxTreatment,
+  type TaxableAward,
+  type TaxYearSummary
+} from '@/lib/engines/scholarship-tax-calculator';
+
+export interface ScholarshipTaxSummary {
+  academicYears: AcademicYearTaxTreatment[];
+  taxYears: TaxYearSummary[];
+}
+
+export class ScholarshipTaxService {
+  constructor(private readonly calculator = new ScholarshipTaxCalculator()) {}
+
+  async getSummary(userId: number, otherIncome: number = 0): Promise<ScholarshipTaxSummary> {
+    const [goals, awarded] = await Promise.all([
+      db
+        .select({
+          academicYear: financialGoals.academicYear,
+          expenses: financialGoals.expenses,
+          fundingSources: financialGoals.fundingSources
+        })
+        .from(financialGoals)
+        .where(and(eq(financialGoals.userId, userId), eq(financialGoals.isActive, true))),
+      db
+        .select({ title: scholarships.title, amount: scholarships.amount, deadline: scholarships.deadline })
+        .from(scholarships)
+        .where(and(eq(scholarships.userId, userId), eq(scholarships.status, 'awarded')))
+    ]);
+
+    const awardsByYear = new Map<number, TaxableAward[]>();
+    const addAward = (award: TaxableAward) => {
+      if (award.amount > 0) {
+        awardsByYear.set(award.academicYear, [...(awardsByYear.get(award.academicYear) ?? []), award]);
+      }
+    };
+
+    for (const scholarship of awarded) {
+      addAward({
+        label: scholarship.title,
+        source: 'scholarship',
+        academicYear: academicYearForDeadline(scholarship.deadline),
+        amount: Number(scholarship.amount) || 0
+      });
+    }
+
+    // Grants follow the same qualified-expense rules as scholarships
+    for (const goal of goals) {
+      addAward({
+        label: 'Grants',
+        source: 'grant',
+        academicYear: goal.academicYear,
+        amount: Number(goal.fundingSources?.grants) || 0
+      });
+    }
+
+    const academicYears = Array.from(awardsByYear.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([academicYear, awards]) =>
+        this.calculator.treatAcademicYear(
+          academicYear,
+          goals.find((goal) => goal.academicYear === academicYear)?.expenses,
+          awards
+        )
+      );
+
+    return {
+      academicYears,
+      taxYears: this.calculator.summarizeTaxYears(academicYears, otherIncome)
+    };
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Session Service
+ * Server-side record behind every session cookie. Each sign-in creates a
+ * row with the device's user agent and IP; getUser rejects cookies whose
+ * row is revoked or idle, so signing a device out takes effect immediately.
+ */
+
+import { and, desc, eq, gt, isNull, ne } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { userSessions, ActivityType, type NewUser, type UserSession } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { sessionIdleCutoff, setSession } from '@/lib/auth/session';
+import { generateToken } from '@/lib/auth/tokens';
+import { getRequestContext } from '@/lib/auth/request';
+
+export class SessionService {
+  /**
+   * Record a new session for this request's device and set its cookie
+   */
+  async start(user: NewUser): Promise<string> {
+    const { ipAddress, userAgent } = await getRequestContext();
+    const sessionId = generateToken();
+
+    await db.insert(userSessions).values({
+      id: sessionId,
+      userId: user.id!,
+      userAgent: userAgent?.slice(0, 500),
+      ipAddress
+    });
+    await setSession(user, sessionId);
+
+    return sessionId;
+  }
+
+  async listActive(userId: number, now: Date = new Date()): Promise<UserSession[]> {
+    return db
+      .select()
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.userId, userId),
+          isNull(userSessions.revokedAt),
+          gt(userSessions.lastSeenAt, sessionIdleCutoff(now))
+        )
+      )
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  /**
+   * Sign one device out; false when the session isn't the user's or is
+   * already revoked
+   */
+  async revoke(userId: number, sessionId: string, ipAddress?: string): Promise<boolean> {
+    const [revoked] = await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(userSessions.id, sessionId), eq(userSessions.userId, userId), isNull(userSessions.revokedAt))
+      )
+      .returning({ id: userSessions.id });
+    if (!revoked) {
+      return false;
+    }
+
+    await logActivity(userId, ActivityType.SESSION_REVOKED, ipAddress);
+    return true;
+  }
+
+  /**
+   * Sign every device out, optionally keeping the current one.
+   * Returns the number of sessions revoked.
+   */
+  async revokeAll(
+    userId: number,
+    options: { exceptSessionId?: string; ipAddress?: string } = {}
+  ): Promise<number> {
+    const revoked = await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(userSessions.userId, userId),
+          isNull(userSessions.revokedAt),
+          options.exceptSessionId ? ne(userSessions.id, options.exceptSessionId) : undefined
+        )
+      )
+      .returning({ id: userSessions.id });
+
+    if (revoked.length > 0) {
+      await logActivity(
+        userId,
+        ActivityType.ALL_SESSIONS_REVOKED,
+        options.ipAddress,
+        JSON.stringify({ count: revoked.length, keptCurrent: Boolean(options.exceptSessionId) })
+      );
+    }
+
+    return revoked.length;
+  }
+
+  // Signing out ends only this device's session
+  async end(userId: number, sessionId: string): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.id, sessionId), eq(userSessions.userId, userId)));
+  }
+}
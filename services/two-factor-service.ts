@@ -0,0 +1,240 @@
+/**
+ * Two-Factor Service
+ * Optional TOTP second factor: enrollment through a QR code, one-time
+ * recovery codes, and verification during sign-in. Institutions can make
+ * it mandatory for their counselors, who see connected students' data.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { and, eq, isNotNull, isNull, lt, or } from 'drizzle-orm';
+import { db } from '@/lib/db/drizzle';
+import { institutions, userTwoFactor, ActivityType, type User } from '@/lib/db/schema';
+import { logActivity } from '@/lib/db/queries';
+import { hashToken } from '@/lib/auth/tokens';
+import { openSecret, sealSecret } from '@/lib/auth/secret-box';
+import { generateTotpSecret, totpUri, verifyTotp } from '@/lib/auth/totp';
+import { qrCodeDataUrl } from '@/lib/export/qr-code';
+import { siteConfig } from '@/lib/config';
+import { ACCOUNT_SECURITY_CONFIG } from '@/config/spider-web-config';
+
+const SECRET_PURPOSE = 'totp';
+const RECOVERY_CODE_ALPHABET = '0123456789abcdefghjkmnpqrstvwxyz'; // Crockford base32
+
+export interface TwoFactorEnrollment {
+  secret: string; // for manual entry when the QR code can't be scanned
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Recovery codes are typed by hand, so case, spaces and dashes don't matter
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function generateRecoveryCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte & 31]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+}
+
+export class TwoFactorService {
+  private config = ACCOUNT_SECURITY_CONFIG.twoFactor;
+
+  /**
+   * Whether the user's institution requires 2FA for them; only counselors
+   * are covered today
+   */
+  async isRequired(user: Pick<User, 'role' | 'institutionId'>): Promise<boolean> {
+    if (user.role !== 'counselor' || !user.institutionId) {
+      return false;
+    }
+    const [institution] = await db
+      .select({ required: institutions.requireCounselorTwoFactor })
+      .from(institutions)
+      .where(and(eq(institutions.id, user.institutionId), eq(institutions.isActive, true)))
+      .limit(1);
+    return institution?.required ?? false;
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    const [row] = await db
+      .select({ userId: userTwoFactor.userId })
+      .from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)))
+      .limit(1);
+    return Boolean(row);
+  }
+
+  async getStatus(user: Pick<User, 'id' | 'role' | 'institutionId'>): Promise<TwoFactorStatus> {
+    const [[row], required] = await Promise.all([
+      db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, user.id)).limit(1),
+      this.isRequired(user)
+    ]);
+    const enabled = Boolean(row?.enabledAt);
+    return {
+      enabled,
+      required,
+      recoveryCodesRemaining: enabled ? row.recoveryCodeHashes.length : 0
+    };
+  }
+
+  /**
+   * Start (or restart) setup with a fresh secret. Returns null when 2FA is
+   * already on; it has to be turned off before re-enrolling.
+   */
+  async beginEnrollment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrollment | null> {
+    if (await this.isEnabled(user.id)) {
+      return null;
+    }
+
+    const secret = generateTotpSecret();
+    const sealed = sealSecret(secret, SECRET_PURPOSE);
+    await db
+      .insert(userTwoFactor)
+      .values({ userId: user.id, secret: sealed })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret: sealed, lastUsedStep: null, recoveryCodeHashes: [], updatedAt: new Date() }
+      });
+
+    const otpauthUri = totpUri(secret, user.email, siteConfig.name, this.config);
+    return { secret, otpauthUri, qrCodeDataUrl: qrCodeDataUrl(otpauthUri) };
+  }
+
+  /**
+   * Turn 2FA on once the app produces a valid code; returns the recovery
+   * codes, shown to the user exactly once, or null for a wrong code
+   */
+  async confirmEnrollment(userId: number, code: string, ipAddress?: string): Promise<string[] | null> {
+    const [row] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNull(userTwoFactor.enabledAt)))
+      .limit(1);
+    if (!row) {
+      return null;
+    }
+
+    const step = verifyTotp(openSecret(row.secret, SECRET_PURPOSE), code, new Date(), this.config);
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = generateRecoveryCodes(this.config.recoveryCodeCount);
+    const now = new Date();
+    await Promise.all([
+      db
+        .update(userTwoFactor)
+        .set({
+          enabledAt: now,
+          lastUsedStep: step,
+          recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode))),
+          updatedAt: now
+        })
+        .where(eq(userTwoFactor.userId, userId)),
+      logActivity(userId, ActivityType.TWO_FACTOR_ENABLED, ipAddress)
+    ]);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a sign-in code: an authenticator code, or failing that a recovery
+   * code, which is used up. Each authenticator code works only once.
+   */
+  async verify(userId: number, code: string, ipAddress?: string): Promise<boolean> {
+    const [row] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)))
+      .limit(1);
+    if (!row) {
+      return false;
+    }
+
+    const step = verifyTotp(openSecret(row.secret, SECRET_PURPOSE), code, new Date(), this.config);
+    if (step !== null) {
+      const [accepted] = await db
+        .update(userTwoFactor)
+        .set({ lastUsedStep: step, updatedAt: new Date() })
+        .where(
+          and(
+            eq(userTwoFactor.userId, userId),
+            or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+          )
+        )
+        .returning({ userId: userTwoFactor.userId });
+      return Boolean(accepted);
+    }
+
+    return this.useRecoveryCode(userId, code, ipAddress);
+  }
+
+  async regenerateRecoveryCodes(userId: number, ipAddress?: string): Promise<string[] | null> {
+    const recoveryCodes = generateRecoveryCodes(this.config.recoveryCodeCount);
+    const [updated] = await db
+      .update(userTwoFactor)
+      .set({
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode))),
+        updatedAt: new Date()
+      })
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)))
+      .returning({ userId: userTwoFactor.userId });
+    if (!updated) {
+      return null;
+    }
+
+    await logActivity(userId, ActivityType.RECOVERY_CODES_REGENERATED, ipAddress);
+    return recoveryCodes;
+  }
+
+  async disable(userId: number, ipAddress?: string): Promise<boolean> {
+    const [deleted] = await db
+      .delete(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)))
+      .returning({ userId: userTwoFactor.userId });
+    if (!deleted) {
+      return false;
+    }
+
+    await logActivity(userId, ActivityType.TWO_FACTOR_DISABLED, ipAddress);
+    return true;
+  }
+
+  // Locked so two requests can't spend the same code
+  private async useRecoveryCode(userId: number, code: string, ipAddress?: string): Promise<boolean> {
+    const hash = hashToken(normalizeRecoveryCode(code));
+
+    const used = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select({ recoveryCodeHashes: userTwoFactor.recoveryCodeHashes })
+        .from(userTwoFactor)
+        .where(eq(userTwoFactor.userId, userId))
+        .for('update');
+      if (!row || !row.recoveryCodeHashes.includes(hash)) {
+        return false;
+      }
+
+      await tx
+        .update(userTwoFactor)
+        .set({
+          recoveryCodeHashes: row.recoveryCodeHashes.filter((existing) => existing !== hash),
+          updatedAt: new Date()
+        })
+        .where(eq(userTwoFactor.userId, userId));
+      return true;
+    });
+
+    if (used) {
+      await logActivity(userId, ActivityType.RECOVERY_CODE_USED, ipAddress);
+    }
+    return used;
+  }
+}
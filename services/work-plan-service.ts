@@ -0,0 +1,63 @@
+/**
+ * Work Plan Service
+ * Turns a student's open applications into a weekly work plan: the
+ * financial engine picks the portfolio worth pursuing, then the scheduler
+ * spreads each application's remaining hours over the weeks before its
+ * deadline. Both work from the same remaining hours and the student's
+ * weekly hours over the same horizon, so nothing is cut that the schedule
+ * could have fit.
+ */
+
+import { getScholarshipsForUser } from '@/lib/db/queries';
+import type { User } from '@/lib/db/schema';
+import { DEADLINE_REMINDER_CONFIG, WORK_PLAN_CONFIG } from '@/config/spider-web-config';
+import { daysUntil } from '@/lib/engines/hub-metrics-engine';
+import { ApplicationScheduler, type WorkPlan } from '@/lib/engines/application-scheduler';
+import { toEngineScholarship, toStudentProfile } from '@/lib/engines/engine-inputs';
+import type { ApplicationStatus, PortfolioExclusion } from '@/types/spider-web';
+import { FinancialAssumptionsService } from './financial-assumptions-service';
+
+export interface WorkPlanResult {
+  plan: WorkPlan;
+  exclusions: PortfolioExclusion[];
+}
+
+export function getWeeklyHours(user: Pick<User, 'preferences'>): number {
+  return user.preferences?.workPlan?.weeklyHours ?? WORK_PLAN_CONFIG.defaultWeeklyHours;
+}
+
+export class WorkPlanService {
+  async getPlan(user: User, now: Date = new Date()): Promise<WorkPlanResult> {
+    const activeStatuses: readonly ApplicationStatus[] = DEADLINE_REMINDER_CONFIG.activeStatuses;
+    const open = (await getScholarshipsForUser(user.id)).filter(
+      (scholarship) => activeStatuses.includes(scholarship.status) && daysUntil(scholarship.deadline, now) >= 0
+    );
+
+    // Weeks until the last open deadline, within the scheduler's horizon
+    const lastDeadlineDays = Math.max(0, ...open.map((scholarship) => daysUntil(scholarship.deadline, now)));
+    const planningWeeks = Math.min(WORK_PLAN_CONFIG.horizonWeeks, Math.max(1, Math.ceil((lastDeadlineDays + 1) / 7)));
+    const weeklyHours = getWeeklyHours(user);
+
+    const engine = await new FinancialAssumptionsService().getEngineForUser(user);
+    const portfolio = engine.optimizePortfolio(open.map(toEngineScholarship), toStudentProfile(user), {
+      weeklyHours,
+      planningWeeks
+    });
+
+    const applications = portfolio.selectedScholarships.map((scholarship) => {
+      const tracked = open.find((row) => String(row.id) === scholarship.id)!;
+      return {
+        id: tracked.id,
+        title: tracked.title,
+        deadline: tracked.deadline,
+        // The same remaining hours the portfolio was budgeted with
+        hours: engine.estimateRemainingHours(scholarship)
+      };
+    });
+
+    return {
+      plan: new ApplicationScheduler(weeklyHours).schedule(applications, now),
+      exclusions: portfolio.exclusions
+    };
+  }
+}
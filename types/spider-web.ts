@@ -42,6 +42,25 @@ export interface HubMetrics {
   lastUpdated: Date;
 }
 
+export interface EnhancedHubMetrics extends HubMetrics {
+  scholarshipsThisMonth: number;
+  applicationsThisWeek: number;
+  avgApplicationTime: number; // days from adding a scholarship to submitting it
+  successTrend: number; // positive/negative percentage change
+  upcomingDeadlines: number;
+  portfolioValue: number;
+  riskScore: number;
+  efficiencyScore: number;
+}
+
+export interface MetricsHistory {
+  date: string;
+  totalScholarships: number;
+  activeApplications: number;
+  completionRate: number;
+  totalAwardAmount: number;
+}
+
 // Business Logic Core Types
 export interface ScholarshipScoringEngine {
   calculateScore: (profile: StudentProfile) => ScholarshipScore;
@@ -59,13 +78,17 @@ export interface ScoringWeights {
 
 export interface StudentProfile {
   id: string;
-  gpa: number;
+  gpa: number | null; // null when the student hasn't recorded one
   educationLevel: string;
   major: string;
   demographics: Demographics;
   financialNeed: FinancialProfile;
   activities: Activity[];
   essays: Essay[];
+  state?: string; // state of residence, as recorded on the profile
+  graduationYear?: number;
+  // Fields filled with placeholders because the student never provided them
+  incomplete?: Array<'demographics' | 'familyIncome' | 'familyContribution'>;
 }
 
 export interface Demographics {
@@ -120,9 +143,30 @@ export interface ScholarshipScore {
 export interface FinancialAnalysisEngine {
   calculateBudgetImpact: (scholarship: Scholarship, profile: FinancialProfile) => BudgetImpact;
   calculateROI: (scholarship: Scholarship, effort: ApplicationEffort) => ROIAnalysis;
-  optimizePortfolio: (scholarships: Scholarship[], profile: StudentProfile) => OptimizedPortfolio;
+  optimizePortfolio: (
+    scholarships: Scholarship[],
+    profile: StudentProfile,
+    budget?: PortfolioHourBudget
+  ) => OptimizedPortfolio;
+}
+
+export interface FinancialAssumptions {
+  opportunityCostRate: number; // annual return forgone on the award amount
+  applicationHourValue: number; // dollar value of an hour of student time
+  riskAdjustmentFactors: {
+    low: number;
+    medium: number;
+    high: number;
+  };
+  taxFreeThreshold: number; // award amount assumed to cover qualified expenses
+  expectedSalaryIncrease: number; // per year of education funded
 }
 
+// Institution and user overrides only store the values they change
+export type FinancialAssumptionOverrides = Partial<Omit<FinancialAssumptions, 'riskAdjustmentFactors'>> & {
+  riskAdjustmentFactors?: Partial<FinancialAssumptions['riskAdjustmentFactors']>;
+};
+
 export interface Scholarship {
   id: string;
   title: string;
@@ -133,20 +177,57 @@ export interface Scholarship {
   competitiveness: 'low' | 'medium' | 'high';
   renewability: boolean;
   matchScore?: number;
+  eligibility?: EligibilityRule[];
+  completion?: number; // percent of the application already done, when tracked
 }
 
 export interface ScholarshipRequirement {
-  type: 'gpa' | 'major' | 'demographic' | 'essay' | 'recommendation' | 'financial';
+  type: 'gpa' | 'major' | 'demographic' | 'essay' | 'recommendation' | 'financial' | 'document';
   value: any;
   isRequired: boolean;
 }
 
+// Eligibility Rules
+// Required rules are hard criteria; the rest are preferences that only
+// adjust the match score
+export type DemographicFlag = 'firstGeneration' | 'disability' | 'veteran';
+
+export type EligibilityCriterion =
+  | { kind: 'min_gpa'; minimum: number }
+  | { kind: 'major'; majors: string[] }
+  | { kind: 'education_level'; levels: string[] }
+  | { kind: 'demographic'; flag: DemographicFlag }
+  | { kind: 'gender'; genders: string[] }
+  | { kind: 'ethnicity'; ethnicities: string[] }
+  | { kind: 'max_family_income'; maximum: number }
+  | { kind: 'max_family_contribution'; maximum: number }
+  | { kind: 'residency'; states: string[] }
+  | { kind: 'graduation_year'; from?: number; to?: number };
+
+export type EligibilityRule = EligibilityCriterion & { isRequired: boolean };
+
+// 'unknown' means the profile lacks the data to decide; it never excludes
+export type EligibilityStatus = 'pass' | 'fail' | 'unknown';
+
+export interface EligibilityCheck {
+  rule: EligibilityRule;
+  status: EligibilityStatus;
+  reason: string;
+}
+
+export interface EligibilityResult {
+  scholarshipId: string;
+  eligible: boolean;
+  checks: EligibilityCheck[];
+}
+
 export interface BudgetImpact {
   netBenefit: number;
   debtReduction: number;
   opportunityCost: number;
   paybackPeriod: number;
   recommendations: string[];
+  assumptions: FinancialAssumptions;
 }
 
 export interface ApplicationEffort {
@@ -162,6 +243,13 @@ export interface ROIAnalysis {
   expectedValue: number;
   riskLevel: 'low' | 'medium' | 'high';
   timeToComplete: number;
+  assumptions: FinancialAssumptions;
+}
+
+// Hours the student has set aside, spread evenly over the planning window
+export interface PortfolioHourBudget {
+  weeklyHours: number;
+  planningWeeks: number;
 }
 
 export interface OptimizedPortfolio {
@@ -174,6 +262,21 @@ export interface OptimizedPortfolio {
     moderate: number;
     reach: number;
   };
+  exclusions: PortfolioExclusion[];
+  isOptimal: boolean; // false when the search stopped at its node limit
+}
+
+export type PortfolioExclusionReason =
+  | 'hour_budget'
+  | 'deadline_overlap'
+  | 'risk_mix'
+  | 'no_expected_value'
+  | 'search_limit';
+
+export interface PortfolioExclusion {
+  scholarship: Scholarship;
+  reason: PortfolioExclusionReason;
+  explanation: string;
 }
 
 // Pattern Recognition System Types
@@ -232,10 +335,19 @@ export interface PatternRecommendation {
   estimatedImpact: number;
 }
 
+export type ApplicationStatus =
+  | 'not_started'
+  | 'draft'
+  | 'in_progress'
+  | 'submitted'
+  | 'under_review'
+  | 'awarded'
+  | 'rejected';
+
 export interface ScholarshipApplication {
   id: string;
   scholarshipId: string;
-  status: 'draft' | 'submitted' | 'under-review' | 'accepted' | 'rejected';
+  status: ApplicationStatus;
   submittedDate?: Date;
   resultDate?: Date;
   documents: ApplicationDocument[];
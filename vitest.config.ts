@@ -0,0 +1,9 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Mirrors the "@/*" path in tsconfig.json
+    alias: [{ find: /^@\//, replacement: fileURLToPath(new URL('./', import.meta.url)) }]
+  }
+});